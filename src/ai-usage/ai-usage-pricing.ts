@@ -0,0 +1,37 @@
+/**
+ * USD price per 1M tokens. Override or extend with AI_PRICING_JSON, e.g.
+ * {"gpt-4o-mini": {"input": 0.15, "output": 0.6}}
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  mock: { input: 0, output: 0 },
+};
+
+/**
+ * Find pricing for a model, falling back to the longest matching prefix so
+ * dated names like "gpt-4o-2024-08-06" use the "gpt-4o" price.
+ */
+export function findModelPricing(
+  pricing: Record<string, ModelPricing>,
+  model: string
+): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+  const prefix = Object.keys(pricing)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
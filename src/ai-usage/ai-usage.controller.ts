@@ -0,0 +1,64 @@
+import { Controller, Get, Param, Query, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { AIUsageService } from "./ai-usage.service";
+import { AIUsageQueryDto } from "./dto/ai-usage.dto";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { UserRole } from "../users/schemas/user.schema";
+
+@ApiTags("ai-usage")
+@Controller("ai-usage")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth("JWT-auth")
+export class AIUsageController {
+  constructor(private readonly aiUsageService: AIUsageService) {}
+
+  @Get("summary")
+  @ApiOperation({
+    summary: "Get total AI cost and tokens by model (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "AI usage summary retrieved" })
+  async getSummary(@Query() query: AIUsageQueryDto) {
+    const summary = await this.aiUsageService.getSummary(query);
+    return { data: summary };
+  }
+
+  @Get("by-day")
+  @ApiOperation({ summary: "Get AI cost per day (Admin only)" })
+  @ApiResponse({ status: 200, description: "Daily AI usage retrieved" })
+  async getCostByDay(@Query() query: AIUsageQueryDto) {
+    const stats = await this.aiUsageService.getCostByDay(query);
+    return { data: stats };
+  }
+
+  @Get("by-user")
+  @ApiOperation({ summary: "Get AI cost per user, highest first (Admin only)" })
+  @ApiResponse({ status: 200, description: "Per-user AI usage retrieved" })
+  async getCostByUser(@Query() query: AIUsageQueryDto) {
+    const stats = await this.aiUsageService.getCostByUser(query);
+    return { data: stats };
+  }
+
+  @Get("by-plan")
+  @ApiOperation({ summary: "Get AI cost per plan (Admin only)" })
+  @ApiResponse({ status: 200, description: "Per-plan AI usage retrieved" })
+  async getCostByPlan(@Query() query: AIUsageQueryDto) {
+    const stats = await this.aiUsageService.getCostByPlan(query);
+    return { data: stats };
+  }
+
+  @Get("submissions/:id")
+  @ApiOperation({ summary: "Get AI calls made for a submission (Admin only)" })
+  @ApiResponse({ status: 200, description: "Submission AI usage retrieved" })
+  async getSubmissionUsage(@Param("id") id: string) {
+    const usage = await this.aiUsageService.getSubmissionUsage(id);
+    return { data: usage };
+  }
+}
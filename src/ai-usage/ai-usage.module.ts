@@ -0,0 +1,25 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { AIUsageController } from "./ai-usage.controller";
+import { AIUsageService } from "./ai-usage.service";
+import {
+  AIUsageRecord,
+  AIUsageRecordSchema,
+} from "./schemas/ai-usage-record.schema";
+import {
+  UserPlan,
+  UserPlanSchema,
+} from "../user-plan/schemas/user-plan.schema";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AIUsageRecord.name, schema: AIUsageRecordSchema },
+      { name: UserPlan.name, schema: UserPlanSchema },
+    ]),
+  ],
+  controllers: [AIUsageController],
+  providers: [AIUsageService],
+  exports: [AIUsageService],
+})
+export class AIUsageModule {}
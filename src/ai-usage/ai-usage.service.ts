@@ -0,0 +1,276 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, PipelineStage } from "mongoose";
+import {
+  AIUsageRecord,
+  AIUsageRecordDocument,
+} from "./schemas/ai-usage-record.schema";
+import {
+  UserPlan,
+  UserPlanDocument,
+} from "../user-plan/schemas/user-plan.schema";
+import {
+  DEFAULT_MODEL_PRICING,
+  ModelPricing,
+  findModelPricing,
+} from "./ai-usage-pricing";
+import { AIUsageQueryDto } from "./dto/ai-usage.dto";
+import { CurrencyCode, ObjectIdType } from "../types/object-id.type";
+
+// Fallback exchange rates, overridable with USD_TO_UZS_RATE / USD_TO_EUR_RATE
+const DEFAULT_USD_RATES: Record<CurrencyCode, number> = {
+  [CurrencyCode.USD]: 1,
+  [CurrencyCode.UZS]: 12600,
+  [CurrencyCode.EUR]: 0.92,
+};
+
+export interface RecordAIUsageInput {
+  task: string;
+  provider: string;
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+  submissionId?: ObjectIdType;
+  userId?: ObjectIdType;
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+@Injectable()
+export class AIUsageService {
+  private readonly logger = new Logger(AIUsageService.name);
+  private readonly pricing: Record<string, ModelPricing>;
+
+  constructor(
+    @InjectModel(AIUsageRecord.name)
+    private aiUsageRecordModel: Model<AIUsageRecordDocument>,
+    @InjectModel(UserPlan.name) private userPlanModel: Model<UserPlanDocument>,
+    private configService: ConfigService
+  ) {
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...this.loadPricingOverrides() };
+  }
+
+  calculateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number
+  ): number {
+    const pricing = findModelPricing(this.pricing, model);
+    if (!pricing) {
+      this.logger.warn(`No pricing configured for model "${model}"`);
+      return 0;
+    }
+    return (
+      (promptTokens * pricing.input + completionTokens * pricing.output) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Convert a USD cost into a plan's currency so it can be set against revenue
+   */
+  convertFromUsd(amountUsd: number, currency: CurrencyCode): number {
+    const rate =
+      parseFloat(this.configService.get<string>(`USD_TO_${currency}_RATE`)) ||
+      DEFAULT_USD_RATES[currency] ||
+      1;
+    return amountUsd * rate;
+  }
+
+  async record(input: RecordAIUsageInput): Promise<AIUsageRecord> {
+    const promptTokens = input.promptTokens || 0;
+    const completionTokens = input.completionTokens || 0;
+
+    let plan: ObjectIdType;
+    if (input.userId) {
+      const userPlan = await this.userPlanModel
+        .findOne({ user: input.userId })
+        .select("plan")
+        .exec();
+      plan = userPlan?.plan;
+    }
+
+    return new this.aiUsageRecordModel({
+      task: input.task,
+      provider: input.provider,
+      model: input.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: input.totalTokens || promptTokens + completionTokens,
+      latencyMs: input.latencyMs,
+      costUsd: this.calculateCost(input.model, promptTokens, completionTokens),
+      success: input.success,
+      error: input.error,
+      submission: input.submissionId,
+      user: input.userId,
+      plan,
+    }).save();
+  }
+
+  async getSummary(query: AIUsageQueryDto) {
+    const [totals, byModel] = await Promise.all([
+      this.aggregateTotals(query, null),
+      this.aggregateTotals(query, { provider: "$provider", model: "$model" }),
+    ]);
+
+    return {
+      ...(totals[0] || this.emptyTotals()),
+      byModel: byModel.map(({ _id, ...stat }) => ({ ..._id, ...stat })),
+    };
+  }
+
+  async getCostByDay(query: AIUsageQueryDto) {
+    const stats = await this.aggregateTotals(query, {
+      $dateToString: { format: "%Y-%m-%d", date: "$createdAt" },
+    });
+    return stats
+      .map(({ _id, ...stat }) => ({ date: _id, ...stat }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getCostByUser(query: AIUsageQueryDto, limit = 50) {
+    const stats = await this.aiUsageRecordModel
+      .aggregate([
+        { $match: this.buildMatch(query) },
+        { $group: { _id: "$user", ...this.totalsGroup() } },
+        { $sort: { costUsd: -1 } },
+        { $limit: limit },
+        {
+          $lookup: {
+            from: "users",
+            localField: "_id",
+            foreignField: "_id",
+            as: "user",
+          },
+        },
+        { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+      ])
+      .exec();
+
+    return stats.map(({ _id, user, ...stat }) => ({
+      userId: _id,
+      firstName: user?.firstName,
+      lastName: user?.lastName,
+      phone: user?.phone,
+      ...stat,
+    }));
+  }
+
+  async getCostByPlan(query: AIUsageQueryDto = {}) {
+    const stats = await this.aiUsageRecordModel
+      .aggregate([
+        { $match: this.buildMatch(query) },
+        {
+          $group: {
+            _id: "$plan",
+            users: { $addToSet: "$user" },
+            ...this.totalsGroup(),
+          },
+        },
+        {
+          $lookup: {
+            from: "plans",
+            localField: "_id",
+            foreignField: "_id",
+            as: "plan",
+          },
+        },
+        { $unwind: { path: "$plan", preserveNullAndEmptyArrays: true } },
+        { $sort: { costUsd: -1 } },
+      ])
+      .exec();
+
+    return stats.map(({ _id, plan, users, ...stat }) => ({
+      planId: _id,
+      planTitle: plan?.title,
+      users: users.length,
+      ...stat,
+    }));
+  }
+
+  async getSubmissionUsage(submissionId: ObjectIdType) {
+    const records = await this.aiUsageRecordModel
+      .find({ submission: submissionId })
+      .sort({ createdAt: 1 })
+      .exec();
+    const totals = records.reduce(
+      (sum, record) => ({
+        calls: sum.calls + 1,
+        promptTokens: sum.promptTokens + record.promptTokens,
+        completionTokens: sum.completionTokens + record.completionTokens,
+        totalTokens: sum.totalTokens + record.totalTokens,
+        costUsd: sum.costUsd + record.costUsd,
+      }),
+      this.emptyTotals()
+    );
+    return { ...totals, records };
+  }
+
+  private aggregateTotals(query: AIUsageQueryDto, groupBy: any) {
+    const pipeline: PipelineStage[] = [
+      { $match: this.buildMatch(query) },
+      { $group: { _id: groupBy, ...this.totalsGroup() } },
+    ];
+    return this.aiUsageRecordModel.aggregate(pipeline).exec();
+  }
+
+  private totalsGroup() {
+    return {
+      calls: { $sum: 1 },
+      failedCalls: { $sum: { $cond: ["$success", 0, 1] } },
+      promptTokens: { $sum: "$promptTokens" },
+      completionTokens: { $sum: "$completionTokens" },
+      totalTokens: { $sum: "$totalTokens" },
+      costUsd: { $sum: "$costUsd" },
+      averageLatencyMs: { $avg: "$latencyMs" },
+    };
+  }
+
+  private buildMatch(query: AIUsageQueryDto) {
+    const match: Record<string, any> = {};
+    if (query.from || query.to) {
+      match.createdAt = {};
+      if (query.from) {
+        match.createdAt.$gte = new Date(query.from);
+      }
+      if (query.to) {
+        match.createdAt.$lt = new Date(query.to);
+      }
+    }
+    return match;
+  }
+
+  private emptyTotals(): AIUsageTotals {
+    return {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+    };
+  }
+
+  private loadPricingOverrides(): Record<string, ModelPricing> {
+    const raw = this.configService.get<string>("AI_PRICING_JSON");
+    if (!raw) {
+      return {};
+    }
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      this.logger.error(`Invalid AI_PRICING_JSON: ${error.message}`);
+      return {};
+    }
+  }
+}
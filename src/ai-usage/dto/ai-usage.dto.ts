@@ -0,0 +1,20 @@
+import { IsDateString, IsOptional } from "class-validator";
+import { ApiPropertyOptional } from "@nestjs/swagger";
+
+export class AIUsageQueryDto {
+  @ApiPropertyOptional({
+    description: "Start of the period (inclusive)",
+    example: "2025-09-01",
+  })
+  @IsDateString()
+  @IsOptional()
+  readonly from?: string;
+
+  @ApiPropertyOptional({
+    description: "End of the period (exclusive)",
+    example: "2025-10-01",
+  })
+  @IsDateString()
+  @IsOptional()
+  readonly to?: string;
+}
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../types/object-id.type";
+
+export type AIUsageRecordDocument = AIUsageRecord & Document;
+
+@Schema({ timestamps: true })
+export class AIUsageRecord {
+  @Prop({ required: true })
+  task: string;
+
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop({ required: true })
+  model: string;
+
+  @Prop({ default: 0 })
+  promptTokens: number;
+
+  @Prop({ default: 0 })
+  completionTokens: number;
+
+  @Prop({ default: 0 })
+  totalTokens: number;
+
+  @Prop({ default: 0 })
+  latencyMs: number;
+
+  @Prop({ default: 0 })
+  costUsd: number;
+
+  @Prop({ default: true })
+  success: boolean;
+
+  @Prop()
+  error?: string;
+
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission" })
+  submission?: ObjectIdType;
+
+  @Prop({ type: Types.ObjectId, ref: "User" })
+  user?: ObjectIdType;
+
+  // Plan the user was on when the call was made
+  @Prop({ type: Types.ObjectId, ref: "Plan" })
+  plan?: ObjectIdType;
+}
+
+export const AIUsageRecordSchema = SchemaFactory.createForClass(AIUsageRecord);
+
+// Add indexes
+AIUsageRecordSchema.index({ createdAt: -1 });
+AIUsageRecordSchema.index({ user: 1, createdAt: -1 });
+AIUsageRecordSchema.index({ plan: 1, createdAt: -1 });
+AIUsageRecordSchema.index({ submission: 1 });
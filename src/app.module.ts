@@ -9,6 +9,7 @@ import { AuthModule } from "./auth/auth.module";
 import { PaymentModule } from "./payment/payment.module";
 import { OrderModule } from "./orders/order.module";
 import { TransactionModule } from "./transactions/transaction.module";
+import { AIUsageModule } from "./ai-usage/ai-usage.module";
 
 @Module({
   imports: [
@@ -26,6 +27,7 @@ import { TransactionModule } from "./transactions/transaction.module";
     PaymentModule,
     OrderModule,
     TransactionModule,
+    AIUsageModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { DrillService } from "./drill.service";
+import { AnswerDrillDto, DueDrillsQueryDto } from "./dto/drill.dto";
+import { ObjectIdDto } from "../writing-submission/dto/ielts-writing-submission.dto";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+
+@ApiTags("ielts-drills")
+@Controller("ielts-drills")
+export class DrillController {
+  constructor(private readonly drillService: DrillService) {}
+
+  @Get("due")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get today's due practice drills",
+    description:
+      "Correction exercises built from the inline feedback on the current user's analyzed essays, scheduled with spaced repetition. The expected answer is returned only after answering.",
+  })
+  @ApiResponse({ status: 200, description: "Due drills retrieved" })
+  @ApiResponse({
+    status: 403,
+    description: "Forbidden - Practice drills are not included in the plan",
+  })
+  async getDue(@Query() query: DueDrillsQueryDto, @Request() req) {
+    const drills = await this.drillService.getDue(req.user.sub, query);
+    return { data: drills };
+  }
+
+  @Post(":id/answer")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Answer a drill",
+    description:
+      "Records the answer, reveals the expected correction and schedules the next review.",
+  })
+  @ApiResponse({ status: 200, description: "Answer recorded" })
+  @ApiResponse({ status: 404, description: "Drill not found" })
+  async answer(
+    @Param() params: ObjectIdDto,
+    @Body() answerDto: AnswerDrillDto,
+    @Request() req
+  ) {
+    const result = await this.drillService.answer(
+      params.id,
+      req.user.sub,
+      answerDto
+    );
+    return {
+      message: result.correct ? "Correct" : "Not quite",
+      data: result,
+    };
+  }
+}
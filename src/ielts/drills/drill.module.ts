@@ -0,0 +1,27 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { DrillController } from "./drill.controller";
+import { DrillService } from "./drill.service";
+import { Drill, DrillSchema } from "./schemas/drill.schema";
+import {
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionSchema,
+} from "../writing-submission/schemas/ielts-writing-submission.schema";
+import { IELTSWritingSubmissionModule } from "../writing-submission/ielts-writing-submission.module";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Drill.name, schema: DrillSchema },
+      {
+        name: IELTSWritingSubmission.name,
+        schema: IELTSWritingSubmissionSchema,
+      },
+    ]),
+    IELTSWritingSubmissionModule,
+  ],
+  controllers: [DrillController],
+  providers: [DrillService],
+  exports: [DrillService],
+})
+export class DrillModule {}
@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { Drill, DrillDocument } from "./schemas/drill.schema";
+import { AnswerDrillDto, DueDrillsQueryDto } from "./dto/drill.dto";
+import {
+  PASSING_QUALITY,
+  gradeAnswer,
+  scheduleReview,
+} from "./spaced-repetition";
+import {
+  AIFeedback,
+  ExaminerReviewResult,
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionDocument,
+  IELTSWritingSubmissionStatus,
+} from "../writing-submission/schemas/ielts-writing-submission.schema";
+import { UserPlanService } from "../../user-plan/user-plan.service";
+import { PlanFeature } from "../../plan/schemas/plan.schema";
+import { ObjectIdType } from "../../types/object-id.type";
+
+const DEFAULT_DUE_LIMIT = 20;
+const MAX_DUE_LIMIT = 100;
+
+/**
+ * Correction drills built from the inline feedback on a student's analyzed
+ * submissions and scheduled with SM-2. Only available on plans that list
+ * the practice_drills feature.
+ */
+@Injectable()
+export class DrillService {
+  private readonly logger = new Logger(DrillService.name);
+
+  constructor(
+    @InjectModel(Drill.name) private drillModel: Model<DrillDocument>,
+    @InjectModel(IELTSWritingSubmission.name)
+    private ieltsWritingSubmissionModel: Model<IELTSWritingSubmissionDocument>,
+    private userPlanService: UserPlanService
+  ) {}
+
+  /**
+   * Drills due by the end of today, most overdue first. Feedback from
+   * submissions analyzed since the last call is turned into drills first.
+   */
+  async getDue(userId: ObjectIdType, query: DueDrillsQueryDto) {
+    await this.assertDrillsEnabled(userId);
+
+    const limit = query.limit ? parseInt(query.limit, 10) : DEFAULT_DUE_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DUE_LIMIT) {
+      throw new BadRequestException(
+        `limit must be an integer between 1 and ${MAX_DUE_LIMIT}`
+      );
+    }
+
+    await this.syncFromSubmissions(userId);
+
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+    const filter = { user: userId, dueAt: { $lte: endOfToday } };
+
+    const [drills, due, total] = await Promise.all([
+      this.drillModel
+        .find(filter)
+        .sort({ dueAt: 1 })
+        .limit(limit)
+        // The answer is only revealed after the drill is attempted
+        .select("-answer -answerExplanation -reviews")
+        .exec(),
+      this.drillModel.countDocuments(filter).exec(),
+      this.drillModel.countDocuments({ user: userId }).exec(),
+    ]);
+
+    return { due, total, drills };
+  }
+
+  async answer(id: ObjectIdType, userId: ObjectIdType, dto: AnswerDrillDto) {
+    await this.assertDrillsEnabled(userId);
+
+    if (typeof dto.answer !== "string") {
+      throw new BadRequestException("answer must be a string");
+    }
+    if (
+      dto.quality !== undefined &&
+      (!Number.isInteger(dto.quality) || dto.quality < 0 || dto.quality > 5)
+    ) {
+      throw new BadRequestException("quality must be an integer from 0 to 5");
+    }
+
+    const drill = await this.drillModel
+      .findOne({ _id: id, user: userId })
+      .exec();
+    if (!drill) {
+      throw new NotFoundException("Drill not found");
+    }
+
+    const grade = gradeAnswer(dto.answer, drill.answer);
+    const quality = dto.quality ?? grade;
+    const now = new Date();
+    const schedule = scheduleReview(drill, quality, now);
+
+    drill.easiness = schedule.easiness;
+    drill.intervalDays = schedule.intervalDays;
+    drill.repetitions = schedule.repetitions;
+    drill.dueAt = schedule.dueAt;
+    drill.lastReviewedAt = now;
+    drill.reviews.push({
+      answer: dto.answer,
+      quality,
+      correct: grade >= PASSING_QUALITY,
+      reviewedAt: now,
+    });
+    await drill.save();
+
+    return {
+      correct: grade >= PASSING_QUALITY,
+      quality,
+      expected: drill.answer,
+      explanation: drill.explanation,
+      answerExplanation: drill.answerExplanation,
+      intervalDays: drill.intervalDays,
+      dueAt: drill.dueAt,
+    };
+  }
+
+  /**
+   * Create drills for analyzed submissions that have none yet. Entries
+   * without a suggestion, or whose suggestion repeats the original, are
+   * skipped, as are entries an examiner removed; drills already made from
+   * those are deleted. Returns the number of drills created.
+   */
+  async syncFromSubmissions(userId: ObjectIdType): Promise<number> {
+    await this.removeRejectedDrills(userId);
+
+    const drilled = await this.drillModel
+      .distinct("submission", { user: userId })
+      .exec();
+    const submissions = await this.ieltsWritingSubmissionModel
+      .find({
+        user: userId,
+        _id: { $nin: drilled },
+        status: { $ne: IELTSWritingSubmissionStatus.DRAFT },
+        "aiFeedback.inlineFeedback.0": { $exists: true },
+      })
+      .select("aiFeedback.inlineFeedback examinerReview.removedFeedback")
+      .lean<
+        {
+          _id: ObjectIdType;
+          aiFeedback: AIFeedback;
+          examinerReview?: Pick<ExaminerReviewResult, "removedFeedback">;
+        }[]
+      >()
+      .exec();
+
+    const operations = submissions.flatMap((submission) =>
+      submission.aiFeedback.inlineFeedback
+        .map((entry, feedbackIndex) => ({ entry, feedbackIndex }))
+        .filter(
+          ({ entry, feedbackIndex }) =>
+            !submission.examinerReview?.removedFeedback?.includes(
+              feedbackIndex
+            ) &&
+            entry.originalText?.trim() &&
+            entry.suggestion?.trim() &&
+            entry.suggestion.trim() !== entry.originalText.trim()
+        )
+        .map(({ entry, feedbackIndex }) => ({
+          updateOne: {
+            filter: { submission: submission._id, feedbackIndex },
+            update: {
+              $setOnInsert: {
+                user: userId,
+                submission: submission._id,
+                feedbackIndex,
+                prompt: entry.originalText.trim(),
+                answer: entry.suggestion.trim(),
+                category: entry.category,
+                mistakeType: entry.mistakeType,
+                explanation: entry.explanation,
+                answerExplanation: entry.suggestionExplanation,
+              },
+            },
+            upsert: true,
+          },
+        }))
+    );
+    if (!operations.length) {
+      return 0;
+    }
+
+    const result = await this.drillModel.bulkWrite(operations, {
+      ordered: false,
+    });
+    if (result.upsertedCount) {
+      this.logger.log(
+        `Created ${result.upsertedCount} drill(s) for user ${userId}`
+      );
+    }
+    return result.upsertedCount;
+  }
+
+  private async removeRejectedDrills(userId: ObjectIdType): Promise<void> {
+    const reviewed = await this.ieltsWritingSubmissionModel
+      .find({
+        user: userId,
+        "examinerReview.removedFeedback.0": { $exists: true },
+      })
+      .select("examinerReview.removedFeedback")
+      .lean<
+        {
+          _id: ObjectIdType;
+          examinerReview: Pick<ExaminerReviewResult, "removedFeedback">;
+        }[]
+      >()
+      .exec();
+    if (!reviewed.length) {
+      return;
+    }
+
+    const result = await this.drillModel
+      .deleteMany({
+        $or: reviewed.map((submission) => ({
+          submission: submission._id,
+          feedbackIndex: { $in: submission.examinerReview.removedFeedback },
+        })),
+      })
+      .exec();
+    if (result.deletedCount) {
+      this.logger.log(
+        `Removed ${result.deletedCount} drill(s) the examiner rejected for user ${userId}`
+      );
+    }
+  }
+
+  private async assertDrillsEnabled(userId: ObjectIdType): Promise<void> {
+    const enabled = await this.userPlanService.hasFeature(
+      userId,
+      PlanFeature.PRACTICE_DRILLS
+    );
+    if (!enabled) {
+      throw new ForbiddenException(
+        "Practice drills are not included in your plan"
+      );
+    }
+  }
+}
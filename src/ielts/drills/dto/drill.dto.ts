@@ -0,0 +1,41 @@
+import {
+  IsInt,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+export class AnswerDrillDto {
+  @ApiProperty({
+    description: "The student's corrected version of the prompt",
+    example: "a great deal of",
+  })
+  @IsString()
+  readonly answer: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Self-assessed recall grade from 0 (forgot) to 5 (perfect). Graded automatically from the answer when omitted.",
+    minimum: 0,
+    maximum: 5,
+    example: 4,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  @IsOptional()
+  readonly quality?: number;
+}
+
+export class DueDrillsQueryDto {
+  @ApiPropertyOptional({
+    description: "Maximum number of drills to return (default 20, max 100)",
+    example: "20",
+  })
+  @IsNumberString()
+  @IsOptional()
+  readonly limit?: string;
+}
@@ -0,0 +1,85 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import {
+  MISTAKE_TYPES,
+  MistakeType,
+} from "../../writing-submission/mistake-taxonomy";
+import { INITIAL_EASINESS } from "../spaced-repetition";
+
+export type DrillDocument = Drill & Document;
+
+@Schema({ _id: false })
+export class DrillReview {
+  @Prop({ default: "" })
+  answer: string;
+
+  // SM-2 recall grade, 0-5
+  @Prop({ required: true })
+  quality: number;
+
+  @Prop({ default: false })
+  correct: boolean;
+
+  @Prop({ default: Date.now })
+  reviewedAt: Date;
+}
+
+/**
+ * A correction exercise built from one inline feedback entry: the student
+ * rewrites `prompt` and is checked against `answer`
+ */
+@Schema({ timestamps: true })
+export class Drill {
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  user: ObjectIdType;
+
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission", required: true })
+  submission: ObjectIdType;
+
+  // Position in the submission's aiFeedback.inlineFeedback
+  @Prop({ required: true })
+  feedbackIndex: number;
+
+  @Prop({ required: true })
+  prompt: string;
+
+  @Prop({ required: true })
+  answer: string;
+
+  @Prop()
+  category?: string;
+
+  @Prop({ enum: MISTAKE_TYPES })
+  mistakeType?: MistakeType;
+
+  @Prop()
+  explanation?: string;
+
+  @Prop()
+  answerExplanation?: string;
+
+  @Prop({ default: INITIAL_EASINESS })
+  easiness: number;
+
+  @Prop({ default: 0 })
+  intervalDays: number;
+
+  @Prop({ default: 0 })
+  repetitions: number;
+
+  @Prop({ default: Date.now })
+  dueAt: Date;
+
+  @Prop()
+  lastReviewedAt?: Date;
+
+  @Prop({ type: [DrillReview], default: [] })
+  reviews: DrillReview[];
+}
+
+export const DrillSchema = SchemaFactory.createForClass(Drill);
+
+// Add indexes
+DrillSchema.index({ submission: 1, feedbackIndex: 1 }, { unique: true });
+DrillSchema.index({ user: 1, dueAt: 1 });
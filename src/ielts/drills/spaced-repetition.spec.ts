@@ -0,0 +1,61 @@
+import {
+  INITIAL_EASINESS,
+  MIN_EASINESS,
+  gradeAnswer,
+  scheduleReview,
+} from "./spaced-repetition";
+
+describe("spaced repetition", () => {
+  const now = new Date("2025-09-01T09:00:00Z");
+  const fresh = { easiness: INITIAL_EASINESS, intervalDays: 0, repetitions: 0 };
+
+  describe("scheduleReview", () => {
+    it("should grow the interval 1, 6, then by the easiness factor", () => {
+      const first = scheduleReview(fresh, 4, now);
+      const second = scheduleReview(first, 4, now);
+      const third = scheduleReview(second, 4, now);
+
+      expect([first, second, third].map((r) => r.intervalDays)).toEqual([
+        1,
+        6,
+        Math.round(6 * second.easiness),
+      ]);
+      expect(third.repetitions).toBe(3);
+      expect(third.dueAt).toEqual(
+        new Date(now.getTime() + third.intervalDays * 24 * 60 * 60 * 1000)
+      );
+    });
+
+    it("should adjust easiness by answer quality", () => {
+      expect(scheduleReview(fresh, 5, now).easiness).toBe(2.6);
+      expect(scheduleReview(fresh, 4, now).easiness).toBe(2.5);
+      expect(scheduleReview(fresh, 3, now).easiness).toBe(2.36);
+    });
+
+    it("should restart a failed card without dropping below the minimum easiness", () => {
+      const learned = { easiness: 1.4, intervalDays: 20, repetitions: 5 };
+      const failed = scheduleReview(learned, 1, now);
+
+      expect(failed).toMatchObject({
+        repetitions: 0,
+        intervalDays: 1,
+        easiness: MIN_EASINESS,
+      });
+    });
+  });
+
+  describe("gradeAnswer", () => {
+    it("should ignore case, spacing and trailing punctuation", () => {
+      expect(gradeAnswer("  A great  deal of.", "a great deal of")).toBe(5);
+    });
+
+    it("should give partial credit for a near miss", () => {
+      expect(gradeAnswer("a grate deal of", "a great deal of")).toBe(3);
+    });
+
+    it("should fail a wrong or empty answer", () => {
+      expect(gradeAnswer("lots of", "a great deal of")).toBe(1);
+      expect(gradeAnswer("", "a great deal of")).toBe(0);
+    });
+  });
+});
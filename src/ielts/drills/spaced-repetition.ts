@@ -0,0 +1,101 @@
+export const INITIAL_EASINESS = 2.5;
+export const MIN_EASINESS = 1.3;
+
+// Answers graded below this restart the card from the first interval
+export const PASSING_QUALITY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewState {
+  easiness: number;
+  intervalDays: number;
+  repetitions: number;
+}
+
+export interface ScheduledReview extends ReviewState {
+  dueAt: Date;
+}
+
+/**
+ * SM-2 scheduling: `quality` is the recall grade from 0 (blackout) to 5
+ * (perfect). Passing answers grow the interval 1 day, 6 days, then by the
+ * easiness factor; failing answers reset it to 1 day.
+ */
+export function scheduleReview(
+  state: ReviewState,
+  quality: number,
+  now = new Date()
+): ScheduledReview {
+  const grade = Math.min(5, Math.max(0, Math.round(quality)));
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (grade >= PASSING_QUALITY) {
+    repetitions = state.repetitions + 1;
+    intervalDays =
+      repetitions === 1
+        ? 1
+        : repetitions === 2
+          ? 6
+          : Math.round(state.intervalDays * state.easiness);
+  } else {
+    repetitions = 0;
+    intervalDays = 1;
+  }
+
+  const easiness = Math.max(
+    MIN_EASINESS,
+    state.easiness + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  return {
+    easiness: Math.round(easiness * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
+
+/**
+ * Grade a typed correction against the expected answer: 5 for an exact
+ * match, 3 for a near miss and 1 otherwise. Case, surrounding punctuation
+ * and extra spaces are ignored.
+ */
+export function gradeAnswer(answer: string, expected: string): number {
+  const a = normalize(answer);
+  const b = normalize(expected);
+  if (!a) {
+    return 0;
+  }
+  if (a === b) {
+    return 5;
+  }
+  return similarity(a, b) >= 0.8 ? 3 : 1;
+}
+
+function normalize(text: string): string {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/^[^a-z0-9']+|[^a-z0-9']+$/g, "")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * 1 minus the Levenshtein distance relative to the longer text
+ */
+function similarity(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
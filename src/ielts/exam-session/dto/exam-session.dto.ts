@@ -0,0 +1,86 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ObjectIdType } from "../../../types/object-id.type";
+import { ExamSessionMode } from "../schemas/exam-session.schema";
+import { IELTSWritingTargetScore } from "../../writing-submission/schemas/ielts-writing-submission.schema";
+
+export class StartExamSessionDto {
+  @ApiProperty({
+    description:
+      "TASK_1 (20 minutes), TASK_2 (40 minutes) or FULL_PAPER (both tasks in 60 minutes)",
+    enum: ExamSessionMode,
+    example: ExamSessionMode.TASK_TWO,
+  })
+  @IsEnum(ExamSessionMode)
+  readonly mode: ExamSessionMode;
+
+  @ApiPropertyOptional({
+    description: "Task 1 writing task ID (TASK_1 and FULL_PAPER)",
+    example: "68beebafa02d9604a4cadcd8",
+  })
+  @ValidateIf((o) => o.mode !== ExamSessionMode.TASK_TWO)
+  @IsString()
+  @IsNotEmpty()
+  readonly taskOneWriting?: ObjectIdType;
+
+  @ApiPropertyOptional({
+    description: "Task 2 writing task ID (TASK_2 and FULL_PAPER)",
+    example: "68beebafa02d9604a4cadcd9",
+  })
+  @ValidateIf((o) => o.mode !== ExamSessionMode.TASK_ONE)
+  @IsString()
+  @IsNotEmpty()
+  readonly taskTwoWriting?: ObjectIdType;
+
+  @ApiPropertyOptional({
+    description: "Target score",
+    enum: IELTSWritingTargetScore,
+    example: IELTSWritingTargetScore.BAND_SEVEN,
+  })
+  @IsEnum(IELTSWritingTargetScore)
+  @IsOptional()
+  readonly targetScore?: IELTSWritingTargetScore;
+}
+
+export class SaveExamDraftDto {
+  @ApiPropertyOptional({
+    description:
+      "Writing task the draft belongs to (may be omitted for single-task sessions)",
+    example: "68beebafa02d9604a4cadcd9",
+  })
+  @IsString()
+  @IsOptional()
+  readonly writing?: ObjectIdType;
+
+  @ApiProperty({
+    description: "Current essay text",
+    example: "In today's rapidly evolving world, technology has become...",
+  })
+  @IsString()
+  readonly body: string;
+}
+
+export class ExamAnalyticsQueryDto {
+  @ApiPropertyOptional({
+    description: "Start of the period (inclusive)",
+    example: "2025-09-01",
+  })
+  @IsDateString()
+  @IsOptional()
+  readonly from?: string;
+
+  @ApiPropertyOptional({
+    description: "End of the period (exclusive)",
+    example: "2025-10-01",
+  })
+  @IsDateString()
+  @IsOptional()
+  readonly to?: string;
+}
@@ -0,0 +1,68 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ExamSessionService } from "./exam-session.service";
+
+/**
+ * Auto-submits exam sessions whose time has run out, so an attempt is graded
+ * even when the student closes the page, and finishes submits that were
+ * interrupted.
+ *
+ * Configuration:
+ * - EXAM_SESSION_SWEEPER_ENABLED: set to "false" to run no sweeper in this instance
+ * - EXAM_SESSION_SWEEP_MS: sweep interval (default 30000)
+ */
+@Injectable()
+export class ExamSessionSweeperService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(ExamSessionSweeperService.name);
+  private timer: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    private readonly examSessionService: ExamSessionService,
+    private readonly configService: ConfigService
+  ) {}
+
+  onModuleInit() {
+    if (
+      this.configService.get<string>("EXAM_SESSION_SWEEPER_ENABLED") === "false"
+    ) {
+      this.logger.log("Exam session sweeper disabled");
+      return;
+    }
+    const interval =
+      parseInt(this.configService.get<string>("EXAM_SESSION_SWEEP_MS"), 10) ||
+      30000;
+    this.timer = setInterval(() => this.sweep(), interval);
+    this.logger.log(`Exam session sweeper running every ${interval}ms`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async sweep(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+    try {
+      const submitted = await this.examSessionService.submitExpired();
+      if (submitted) {
+        this.logger.log(`Auto-submitted ${submitted} expired exam session(s)`);
+      }
+    } catch (error) {
+      this.logger.error("Failed to auto-submit expired exam sessions:", error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
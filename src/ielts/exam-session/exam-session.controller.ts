@@ -0,0 +1,170 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { ExamSessionService } from "./exam-session.service";
+import {
+  ExamAnalyticsQueryDto,
+  SaveExamDraftDto,
+  StartExamSessionDto,
+} from "./dto/exam-session.dto";
+import { ObjectIdDto } from "../writing-submission/dto/ielts-writing-submission.dto";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../../auth/guards/roles.guard";
+import { Roles } from "../../auth/decorators/roles.decorator";
+import { UserRole } from "../../users/schemas/user.schema";
+
+@ApiTags("ielts-exam-session")
+@Controller("ielts-exam-session")
+export class ExamSessionController {
+  constructor(private readonly examSessionService: ExamSessionService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Start a timed exam",
+    description:
+      "Starts the clock for a Task 1 (20 minutes), Task 2 (40 minutes) or full paper (60 minutes) attempt. Each written task uses one submission credit when the exam is submitted.",
+  })
+  @ApiResponse({ status: 201, description: "Exam session started" })
+  @ApiResponse({
+    status: 400,
+    description:
+      "Bad request - Invalid writing tasks, an exam already in progress, or not enough submissions left",
+  })
+  @ApiResponse({
+    status: 401,
+    description: "Unauthorized - JWT token required",
+  })
+  async start(@Body() startDto: StartExamSessionDto, @Request() req) {
+    const session = await this.examSessionService.start(startDto, req.user.sub);
+    return {
+      message: "Exam session started",
+      data: session,
+    };
+  }
+
+  @Get("my-sessions")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "Get current user's exam sessions" })
+  @ApiResponse({ status: 200, description: "Exam sessions retrieved" })
+  async getMySessions(@Request() req) {
+    const sessions = await this.examSessionService.findByUserId(req.user.sub);
+    return { data: sessions };
+  }
+
+  @Get("my-analytics")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get how the current user's scores relate to time used",
+  })
+  @ApiResponse({ status: 200, description: "Time vs score analytics" })
+  async getMyAnalytics(@Query() query: ExamAnalyticsQueryDto, @Request() req) {
+    const analytics = await this.examSessionService.getTimeVsScore(
+      query,
+      req.user.sub
+    );
+    return { data: analytics };
+  }
+
+  @Get("analytics/time-vs-score")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get how scores relate to time used across all exams (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Time vs score analytics" })
+  async getTimeVsScore(@Query() query: ExamAnalyticsQueryDto) {
+    const analytics = await this.examSessionService.getTimeVsScore(query);
+    return { data: analytics };
+  }
+
+  @Get(":id")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get an exam session with its drafts and remaining time",
+  })
+  @ApiResponse({ status: 200, description: "Exam session retrieved" })
+  @ApiResponse({ status: 404, description: "Exam session not found" })
+  async findOne(@Param() params: ObjectIdDto, @Request() req) {
+    const session = await this.examSessionService.findOne(
+      params.id,
+      req.user.sub
+    );
+    return { data: session };
+  }
+
+  @Patch(":id/draft")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Autosave the current draft",
+    description:
+      "Stores a snapshot of the essay text. After the time limit the exam is submitted with the last saved draft instead.",
+  })
+  @ApiResponse({ status: 200, description: "Draft saved" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Exam already submitted or time is up",
+  })
+  async saveDraft(
+    @Param() params: ObjectIdDto,
+    @Body() draftDto: SaveExamDraftDto,
+    @Request() req
+  ) {
+    const draft = await this.examSessionService.saveDraft(
+      params.id,
+      req.user.sub,
+      draftDto
+    );
+    return {
+      message: "Draft saved",
+      data: draft,
+    };
+  }
+
+  @Post(":id/submit")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Submit the exam",
+    description:
+      "Creates a submission for each written task and queues it for analysis.",
+  })
+  @ApiResponse({ status: 200, description: "Exam submitted" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Exam already submitted",
+  })
+  async submit(@Param() params: ObjectIdDto, @Request() req) {
+    const session = await this.examSessionService.submit(
+      params.id,
+      req.user.sub
+    );
+    return {
+      message: "Exam submitted",
+      data: session,
+    };
+  }
+}
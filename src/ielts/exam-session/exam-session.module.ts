@@ -0,0 +1,30 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ExamSessionController } from "./exam-session.controller";
+import { ExamSessionService } from "./exam-session.service";
+import { ExamSessionSweeperService } from "./exam-session-sweeper.service";
+import { ExamSession, ExamSessionSchema } from "./schemas/exam-session.schema";
+import {
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionSchema,
+} from "../writing-submission/schemas/ielts-writing-submission.schema";
+import { IELTSWritingModule } from "../writing/ielts-writing.module";
+import { IELTSWritingSubmissionModule } from "../writing-submission/ielts-writing-submission.module";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ExamSession.name, schema: ExamSessionSchema },
+      {
+        name: IELTSWritingSubmission.name,
+        schema: IELTSWritingSubmissionSchema,
+      },
+    ]),
+    IELTSWritingModule,
+    IELTSWritingSubmissionModule,
+  ],
+  controllers: [ExamSessionController],
+  providers: [ExamSessionService, ExamSessionSweeperService],
+  exports: [ExamSessionService],
+})
+export class ExamSessionModule {}
@@ -0,0 +1,701 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { ConfigService } from "@nestjs/config";
+import { Model } from "mongoose";
+import {
+  EXAM_SESSION_DURATIONS,
+  ExamSession,
+  ExamSessionDocument,
+  ExamSessionMode,
+  ExamSessionStatus,
+  ExamSessionTask,
+} from "./schemas/exam-session.schema";
+import {
+  ExamAnalyticsQueryDto,
+  SaveExamDraftDto,
+  StartExamSessionDto,
+} from "./dto/exam-session.dto";
+import {
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionDocument,
+  IELTSWritingSubmissionType,
+  IELTSWritingTopicEnum,
+} from "../writing-submission/schemas/ielts-writing-submission.schema";
+import { IELTSWritingType } from "../writing/schemas/ielts-writing.schema";
+import { IELTSWritingService } from "../writing/ielts-writing.service";
+import { IELTSWritingSubmissionService } from "../writing-submission/ielts-writing-submission.service";
+import { AnalysisQueueService } from "../writing-submission/analysis-queue.service";
+import { countWords } from "../writing-submission/essay-metrics";
+import { getEffectiveScores } from "../writing-submission/effective-scores";
+import { ObjectIdType } from "../../types/object-id.type";
+
+// Autosaves kept per task; older snapshots are dropped first
+const MAX_DRAFTS_PER_TASK = 200;
+
+// Share of the time limit used, in the order buckets are reported
+const TIME_USED_BUCKETS: { label: string; maxRatio: number }[] = [
+  { label: "under 50%", maxRatio: 0.5 },
+  { label: "50-75%", maxRatio: 0.75 },
+  { label: "75-90%", maxRatio: 0.9 },
+  { label: "90-100%", maxRatio: Infinity },
+];
+
+export interface ExamSessionView extends ExamSession {
+  remainingSeconds: number;
+}
+
+/**
+ * Timed exam attempts. Drafts are autosaved while the clock runs; when the
+ * student submits, or the time limit passes, each task becomes an
+ * IELTSWritingSubmission queued for analysis.
+ *
+ * Configuration:
+ * - EXAM_SESSION_GRACE_SECONDS: autosaves accepted after the time limit to
+ *   absorb network delay (default 30)
+ * - EXAM_SESSION_SUBMIT_TIMEOUT_SECONDS: a submit still unfinished after
+ *   this long is resumed by the sweeper (default 300)
+ */
+@Injectable()
+export class ExamSessionService {
+  private readonly logger = new Logger(ExamSessionService.name);
+
+  constructor(
+    @InjectModel(ExamSession.name)
+    private examSessionModel: Model<ExamSessionDocument>,
+    @InjectModel(IELTSWritingSubmission.name)
+    private ieltsWritingSubmissionModel: Model<IELTSWritingSubmissionDocument>,
+    private ieltsWritingService: IELTSWritingService,
+    private ieltsWritingSubmissionService: IELTSWritingSubmissionService,
+    private analysisQueueService: AnalysisQueueService,
+    private configService: ConfigService
+  ) {}
+
+  async start(
+    startDto: StartExamSessionDto,
+    userId: ObjectIdType
+  ): Promise<ExamSessionView> {
+    if (!Object.values(ExamSessionMode).includes(startDto.mode)) {
+      throw new BadRequestException(
+        `mode must be one of: ${Object.values(ExamSessionMode).join(", ")}`
+      );
+    }
+
+    const inProgress = await this.examSessionModel
+      .findOne({ user: userId, status: ExamSessionStatus.IN_PROGRESS })
+      .exec();
+    if (inProgress) {
+      if (!this.isPastGrace(inProgress)) {
+        throw new BadRequestException(
+          "You already have an exam in progress. Submit it before starting another."
+        );
+      }
+      await this.submitSession(inProgress, true);
+    }
+
+    const tasks: ExamSessionTask[] = [];
+    if (startDto.mode !== ExamSessionMode.TASK_TWO) {
+      tasks.push(
+        await this.buildTask(startDto.taskOneWriting, IELTSWritingType.TASK_ONE)
+      );
+    }
+    if (startDto.mode !== ExamSessionMode.TASK_ONE) {
+      tasks.push(
+        await this.buildTask(startDto.taskTwoWriting, IELTSWritingType.TASK_TWO)
+      );
+    }
+
+    // Every task becomes a submission, so the credits are checked and taken
+    // up front
+    const submissionLimit =
+      await this.ieltsWritingSubmissionService.checkSubmissionLimit(userId);
+    if (
+      !submissionLimit.canSubmit ||
+      submissionLimit.remainingSubmissions < tasks.length
+    ) {
+      throw new BadRequestException(
+        `This exam needs ${tasks.length} submission(s). You have ${submissionLimit.remainingSubmissions} submissions remaining.`
+      );
+    }
+
+    await this.ieltsWritingSubmissionService.reserveSubmissions(
+      userId,
+      tasks.length
+    );
+
+    const durationMinutes = EXAM_SESSION_DURATIONS[startDto.mode];
+    const startedAt = new Date();
+    let session: ExamSessionDocument;
+    try {
+      session = await new this.examSessionModel({
+        user: userId,
+        mode: startDto.mode,
+        targetScore: startDto.targetScore,
+        tasks,
+        durationMinutes,
+        reservedSubmissions: tasks.length,
+        startedAt,
+        expiresAt: new Date(startedAt.getTime() + durationMinutes * 60 * 1000),
+      }).save();
+    } catch (error) {
+      await this.ieltsWritingSubmissionService.releaseSubmissions(
+        userId,
+        tasks.length
+      );
+      // Another request started an exam at the same time
+      if (error.code === 11000) {
+        throw new BadRequestException(
+          "You already have an exam in progress. Submit it before starting another."
+        );
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Exam session ${session._id} started (${startDto.mode}, ${durationMinutes} min)`
+    );
+    return this.toView(session);
+  }
+
+  async findByUserId(userId: ObjectIdType): Promise<ExamSessionView[]> {
+    const sessions = await this.examSessionModel
+      .find({ user: userId })
+      .select("-tasks.drafts")
+      .sort({ createdAt: -1 })
+      .exec();
+    return sessions.map((session) => this.toView(session));
+  }
+
+  async findOne(
+    id: ObjectIdType,
+    userId: ObjectIdType
+  ): Promise<ExamSessionView> {
+    return this.toView(await this.findForUser(id, userId));
+  }
+
+  async saveDraft(
+    id: ObjectIdType,
+    userId: ObjectIdType,
+    draftDto: SaveExamDraftDto
+  ): Promise<{
+    savedAt: Date;
+    wordCount: number;
+    remainingSeconds: number;
+  }> {
+    const session = await this.findForUser(id, userId);
+    this.assertInProgress(session);
+    if (this.isPastGrace(session)) {
+      await this.submitSession(session, true);
+      throw new BadRequestException(
+        "Time is up. Your exam has been submitted with the last saved draft."
+      );
+    }
+
+    const task = this.findTask(session, draftDto.writing);
+    const body = draftDto.body ?? "";
+    const savedAt = new Date();
+    const wordCount = countWords(body);
+    if (body !== task.body) {
+      const elapsedSeconds = this.getElapsedSeconds(session, savedAt);
+      const saved = await this.examSessionModel
+        .findOneAndUpdate(
+          { _id: session._id, status: ExamSessionStatus.IN_PROGRESS },
+          {
+            $set: {
+              "tasks.$[task].body": body,
+              "tasks.$[task].lastChangedSeconds": elapsedSeconds,
+            },
+            $push: {
+              "tasks.$[task].drafts": {
+                $each: [{ body, wordCount, elapsedSeconds, savedAt }],
+                $slice: -MAX_DRAFTS_PER_TASK,
+              },
+            },
+          },
+          { arrayFilters: [{ "task.writing": task.writing }] }
+        )
+        .exec();
+      if (!saved) {
+        throw new BadRequestException(
+          "Exam session has already been submitted"
+        );
+      }
+    }
+
+    return {
+      savedAt,
+      wordCount,
+      remainingSeconds: this.getRemainingSeconds(session, savedAt),
+    };
+  }
+
+  async submit(id: ObjectIdType, userId: ObjectIdType): Promise<ExamSession> {
+    const session = await this.findForUser(id, userId);
+    this.assertInProgress(session);
+    return this.submitSession(session, this.isPastGrace(session));
+  }
+
+  /**
+   * Auto-submit sessions whose time limit and grace period have passed, and
+   * resume interrupted submits
+   */
+  async submitExpired(limit = 20): Promise<number> {
+    const cutoff = new Date(Date.now() - this.getGraceSeconds() * 1000);
+    const sessions = await this.examSessionModel
+      .find({
+        status: ExamSessionStatus.IN_PROGRESS,
+        expiresAt: { $lt: cutoff },
+      })
+      .sort({ expiresAt: 1 })
+      .limit(limit)
+      .exec();
+
+    for (const session of sessions) {
+      await this.submitSession(session, true);
+    }
+    return sessions.length + (await this.resumeStuckSubmits(limit));
+  }
+
+  /**
+   * Finish submits left in SUBMITTING for longer than
+   * EXAM_SESSION_SUBMIT_TIMEOUT_SECONDS, e.g. by a restart, so their
+   * submissions are created and unused credits given back
+   */
+  private async resumeStuckSubmits(limit: number): Promise<number> {
+    const staleBefore = new Date(
+      Date.now() - this.getSubmitTimeoutSeconds() * 1000
+    );
+    let resumed = 0;
+    while (resumed < limit) {
+      const session = await this.examSessionModel
+        .findOneAndUpdate(
+          {
+            status: ExamSessionStatus.SUBMITTING,
+            // Sessions claimed before claims were timed have no lockedAt
+            $or: [
+              { lockedAt: { $lt: staleBefore } },
+              { lockedAt: { $exists: false }, updatedAt: { $lt: staleBefore } },
+            ],
+          },
+          { $set: { lockedAt: new Date() } },
+          { new: true }
+        )
+        .exec();
+      if (!session) {
+        break;
+      }
+      this.logger.warn(
+        `Resuming interrupted submit of exam session ${session._id}`
+      );
+      await this.finishSubmitting(session);
+      resumed++;
+    }
+    return resumed;
+  }
+
+  /**
+   * Average score by share of the time limit used, and the correlation
+   * between time used and score
+   */
+  async getTimeVsScore(query: ExamAnalyticsQueryDto, userId?: ObjectIdType) {
+    const match: Record<string, any> = {
+      examAttempt: { $exists: true },
+      score: { $exists: true },
+    };
+    if (userId) {
+      match.user = userId;
+    }
+    if (query.from || query.to) {
+      match.createdAt = {};
+      if (query.from) {
+        match.createdAt.$gte = new Date(query.from);
+      }
+      if (query.to) {
+        match.createdAt.$lt = new Date(query.to);
+      }
+    }
+
+    const attempts = await this.ieltsWritingSubmissionModel
+      .find(match)
+      .select(
+        "score criteriaScores examinerReview taskType metrics.timeSpentSeconds examAttempt"
+      )
+      .lean()
+      .exec();
+
+    const points = attempts.map((attempt) => ({
+      score: getEffectiveScores(attempt).score,
+      taskType: attempt.taskType,
+      autoSubmitted: attempt.examAttempt.autoSubmitted,
+      timeUsed: Math.min(
+        1,
+        (attempt.metrics?.timeSpentSeconds || 0) /
+          attempt.examAttempt.timeLimitSeconds
+      ),
+    }));
+
+    const buckets = TIME_USED_BUCKETS.map((bucket, index) => {
+      const minRatio = index ? TIME_USED_BUCKETS[index - 1].maxRatio : 0;
+      return {
+        timeUsed: bucket.label,
+        ...this.summarize(
+          points.filter(
+            (point) =>
+              point.timeUsed >= minRatio && point.timeUsed < bucket.maxRatio
+          )
+        ),
+      };
+    });
+
+    return {
+      ...this.summarize(points),
+      correlation: pearsonCorrelation(
+        points.map((point) => point.timeUsed),
+        points.map((point) => point.score)
+      ),
+      autoSubmitted: this.summarize(
+        points.filter((point) => point.autoSubmitted)
+      ),
+      byTaskType: Object.values(IELTSWritingSubmissionType).map((taskType) => {
+        const taskPoints = points.filter(
+          (point) => point.taskType === taskType
+        );
+        return {
+          taskType,
+          ...this.summarize(taskPoints),
+          correlation: pearsonCorrelation(
+            taskPoints.map((point) => point.timeUsed),
+            taskPoints.map((point) => point.score)
+          ),
+        };
+      }),
+      buckets,
+    };
+  }
+
+  /**
+   * Turn each written task into a submission and queue it for analysis.
+   * Claiming the session first keeps a manual submit and the sweeper from
+   * submitting it twice.
+   */
+  private async submitSession(
+    session: ExamSessionDocument,
+    autoSubmitted: boolean
+  ): Promise<ExamSession> {
+    const now = new Date();
+    const claimed = await this.examSessionModel
+      .findOneAndUpdate(
+        { _id: session._id, status: ExamSessionStatus.IN_PROGRESS },
+        {
+          $set: {
+            status: ExamSessionStatus.SUBMITTING,
+            submittedAt: now,
+            autoSubmitted,
+            lockedAt: now,
+          },
+        },
+        { new: true }
+      )
+      .exec();
+    if (!claimed) {
+      return this.examSessionModel.findById(session._id).exec();
+    }
+    return this.finishSubmitting(claimed);
+  }
+
+  /**
+   * Create the submissions of a claimed session. Each submission is recorded
+   * on its task as soon as it exists, so a submit interrupted by a restart
+   * is resumed where it stopped.
+   *
+   * Submissions use the credits reserved at start, so running out of credit
+   * or repeating an essay cannot fail the exam. Either every written task
+   * becomes a submission or none does; credits no submission used are given
+   * back.
+   */
+  private async finishSubmitting(
+    claimed: ExamSessionDocument
+  ): Promise<ExamSession> {
+    // Sessions claimed before the submit time was recorded have none
+    claimed.submittedAt = claimed.submittedAt || new Date();
+    const elapsedSeconds = this.getElapsedSeconds(claimed, claimed.submittedAt);
+    try {
+      for (const task of claimed.tasks) {
+        // Nothing to grade for a task that was never started
+        if (!task.body.trim()) {
+          continue;
+        }
+        if (!task.submission) {
+          const submission = (await this.ieltsWritingSubmissionService.create(
+            {
+              writing: task.writing,
+              body: task.body,
+              topic: IELTSWritingTopicEnum.GENERATED,
+              targetScore: claimed.targetScore,
+              // Both tasks share the clock in a full paper, so a task's time
+              // is when it was last edited
+              timeSpentSeconds:
+                claimed.mode === ExamSessionMode.FULL_PAPER
+                  ? task.lastChangedSeconds || elapsedSeconds
+                  : elapsedSeconds,
+            },
+            claimed.user,
+            undefined,
+            true
+          )) as IELTSWritingSubmissionDocument;
+          task.submission = submission._id as ObjectIdType;
+          await this.examSessionModel
+            .updateOne(
+              { _id: claimed._id },
+              { $set: { "tasks.$[task].submission": task.submission } },
+              { arrayFilters: [{ "task.writing": task.writing }] }
+            )
+            .exec();
+        }
+
+        await this.ieltsWritingSubmissionService.attachExamAttempt(
+          task.submission,
+          {
+            session: String(claimed._id),
+            timeLimitSeconds: claimed.durationMinutes * 60,
+            autoSubmitted: claimed.autoSubmitted,
+            draftHistory: task.drafts,
+          }
+        );
+      }
+
+      claimed.status = ExamSessionStatus.SUBMITTED;
+      this.logger.log(
+        `Exam session ${claimed._id} ${claimed.autoSubmitted ? "auto-" : ""}submitted`
+      );
+    } catch (error) {
+      await this.rollBackSubmissions(claimed);
+      claimed.status = ExamSessionStatus.FAILED;
+      claimed.error = error.message;
+      this.logger.error(
+        `Failed to submit exam session ${claimed._id}: ${error.message}`
+      );
+    }
+
+    if (claimed.status === ExamSessionStatus.SUBMITTED) {
+      const created = claimed.tasks
+        .filter((task) => task.submission)
+        .map((task) => String(task.submission));
+      await this.ieltsWritingSubmissionService
+        .releaseSubmissions(
+          claimed.user,
+          claimed.reservedSubmissions - created.length
+        )
+        .catch((error) =>
+          this.logger.error(
+            `Failed to release unused credits of exam session ${claimed._id}: ${error.message}`
+          )
+        );
+      // A submission that was not queued can still be analyzed on request
+      for (const submissionId of created) {
+        await this.analysisQueueService
+          .enqueue(submissionId, claimed.user)
+          .catch((error) =>
+            this.logger.error(
+              `Failed to queue analysis of exam submission ${submissionId}: ${error.message}`
+            )
+          );
+      }
+    }
+
+    return claimed.save();
+  }
+
+  /**
+   * Remove the submissions of a failed exam submit and give back all of
+   * its reserved credits
+   */
+  private async rollBackSubmissions(
+    session: ExamSessionDocument
+  ): Promise<void> {
+    try {
+      const created = session.tasks
+        .filter((task) => task.submission)
+        .map((task) => task.submission);
+      await this.ieltsWritingSubmissionModel
+        .deleteMany({ _id: { $in: created } })
+        .exec();
+      session.tasks.forEach((task) => {
+        task.submission = undefined;
+      });
+      await this.ieltsWritingSubmissionService.releaseSubmissions(
+        session.user,
+        session.reservedSubmissions
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to roll back exam session ${session._id}: ${error.message}`
+      );
+    }
+  }
+
+  private async buildTask(
+    writingId: ObjectIdType,
+    type: IELTSWritingType
+  ): Promise<ExamSessionTask> {
+    if (!writingId) {
+      throw new BadRequestException(
+        `${type === IELTSWritingType.TASK_ONE ? "taskOneWriting" : "taskTwoWriting"} is required for this mode`
+      );
+    }
+    const writing = await this.ieltsWritingService.findOne(writingId);
+    if (writing.type !== type) {
+      throw new BadRequestException(
+        `Writing task ${writingId} is not a ${type} task`
+      );
+    }
+    return {
+      writing: (writing as any)._id,
+      taskType:
+        type === IELTSWritingType.TASK_ONE
+          ? IELTSWritingSubmissionType.Task1
+          : IELTSWritingSubmissionType.Task2,
+      body: "",
+      lastChangedSeconds: 0,
+      drafts: [],
+    };
+  }
+
+  private async findForUser(
+    id: ObjectIdType,
+    userId: ObjectIdType
+  ): Promise<ExamSessionDocument> {
+    const session = await this.examSessionModel.findById(id).exec();
+    if (!session) {
+      throw new NotFoundException("Exam session not found");
+    }
+    if (String(session.user) !== String(userId)) {
+      throw new ForbiddenException(
+        "You can only access your own exam sessions"
+      );
+    }
+    return session;
+  }
+
+  private findTask(
+    session: ExamSessionDocument,
+    writingId?: ObjectIdType
+  ): ExamSessionTask {
+    if (!writingId) {
+      if (session.tasks.length > 1) {
+        throw new BadRequestException(
+          "writing is required for a full paper session"
+        );
+      }
+      return session.tasks[0];
+    }
+    const task = session.tasks.find(
+      (sessionTask) => String(sessionTask.writing) === String(writingId)
+    );
+    if (!task) {
+      throw new BadRequestException(
+        `Writing task ${writingId} is not part of this exam session`
+      );
+    }
+    return task;
+  }
+
+  private assertInProgress(session: ExamSession): void {
+    if (session.status !== ExamSessionStatus.IN_PROGRESS) {
+      throw new BadRequestException("Exam session has already been submitted");
+    }
+  }
+
+  private toView(session: ExamSessionDocument): ExamSessionView {
+    return {
+      ...session.toObject(),
+      remainingSeconds:
+        session.status === ExamSessionStatus.IN_PROGRESS
+          ? this.getRemainingSeconds(session, new Date())
+          : 0,
+    };
+  }
+
+  private getElapsedSeconds(session: ExamSession, at: Date): number {
+    return Math.min(
+      session.durationMinutes * 60,
+      Math.round((at.getTime() - session.startedAt.getTime()) / 1000)
+    );
+  }
+
+  private getRemainingSeconds(session: ExamSession, at: Date): number {
+    return Math.max(
+      0,
+      Math.round((session.expiresAt.getTime() - at.getTime()) / 1000)
+    );
+  }
+
+  private isPastGrace(session: ExamSession): boolean {
+    return (
+      Date.now() > session.expiresAt.getTime() + this.getGraceSeconds() * 1000
+    );
+  }
+
+  private getGraceSeconds(): number {
+    const value = parseInt(
+      this.configService.get<string>("EXAM_SESSION_GRACE_SECONDS"),
+      10
+    );
+    return Number.isNaN(value) ? 30 : value;
+  }
+
+  private getSubmitTimeoutSeconds(): number {
+    const value = parseInt(
+      this.configService.get<string>("EXAM_SESSION_SUBMIT_TIMEOUT_SECONDS"),
+      10
+    );
+    return Number.isNaN(value) ? 300 : value;
+  }
+
+  private summarize(points: { score: number; timeUsed: number }[]) {
+    if (!points.length) {
+      return { attempts: 0, averageScore: null, averageTimeUsed: null };
+    }
+    const average = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+    return {
+      attempts: points.length,
+      averageScore:
+        Math.round(average(points.map((point) => point.score)) * 100) / 100,
+      averageTimeUsed:
+        Math.round(average(points.map((point) => point.timeUsed)) * 100) / 100,
+    };
+  }
+}
+
+/**
+ * Pearson correlation coefficient; null when it is undefined (fewer than
+ * two points or no variance)
+ */
+function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) {
+    return null;
+  }
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  if (!varianceX || !varianceY) {
+    return null;
+  }
+  return (
+    Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100
+  );
+}
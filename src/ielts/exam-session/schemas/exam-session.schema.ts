@@ -0,0 +1,118 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import {
+  DraftSnapshot,
+  IELTSWritingSubmissionType,
+  IELTSWritingTargetScore,
+} from "../../writing-submission/schemas/ielts-writing-submission.schema";
+
+export enum ExamSessionMode {
+  TASK_ONE = "TASK_1",
+  TASK_TWO = "TASK_2",
+  FULL_PAPER = "FULL_PAPER",
+}
+
+export enum ExamSessionStatus {
+  IN_PROGRESS = "IN_PROGRESS",
+  SUBMITTING = "SUBMITTING",
+  SUBMITTED = "SUBMITTED",
+  FAILED = "FAILED",
+}
+
+// Exam timing in minutes for each mode
+export const EXAM_SESSION_DURATIONS: Record<ExamSessionMode, number> = {
+  [ExamSessionMode.TASK_ONE]: 20,
+  [ExamSessionMode.TASK_TWO]: 40,
+  [ExamSessionMode.FULL_PAPER]: 60,
+};
+
+export type ExamSessionDocument = ExamSession & Document;
+
+@Schema({ _id: false })
+export class ExamSessionTask {
+  @Prop({ type: Types.ObjectId, ref: "IELTSWriting", required: true })
+  writing: ObjectIdType;
+
+  @Prop({ enum: Object.values(IELTSWritingSubmissionType), required: true })
+  taskType: IELTSWritingSubmissionType;
+
+  @Prop({ default: "" })
+  body: string;
+
+  // Seconds since the session started when the body last changed
+  @Prop({ default: 0 })
+  lastChangedSeconds: number;
+
+  @Prop({ type: [DraftSnapshot], default: [] })
+  drafts: DraftSnapshot[];
+
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission" })
+  submission?: ObjectIdType;
+}
+
+@Schema({ timestamps: true })
+export class ExamSession {
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  user: ObjectIdType;
+
+  @Prop({ enum: Object.values(ExamSessionMode), required: true })
+  mode: ExamSessionMode;
+
+  @Prop({
+    enum: Object.values(ExamSessionStatus),
+    default: ExamSessionStatus.IN_PROGRESS,
+  })
+  status: ExamSessionStatus;
+
+  @Prop({
+    enum: Object.values(IELTSWritingTargetScore),
+    default: IELTSWritingTargetScore.BAND_SEVEN,
+  })
+  targetScore: IELTSWritingTargetScore;
+
+  @Prop({ type: [ExamSessionTask], default: [] })
+  tasks: ExamSessionTask[];
+
+  @Prop({ required: true })
+  durationMinutes: number;
+
+  // Submission credits taken when the session started, one per task
+  @Prop({ default: 0 })
+  reservedSubmissions: number;
+
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  submittedAt?: Date;
+
+  @Prop({ default: false })
+  autoSubmitted: boolean;
+
+  // When the submit was claimed; a session still SUBMITTING long after this
+  // was interrupted and is resumed
+  @Prop()
+  lockedAt?: Date;
+
+  @Prop()
+  error?: string;
+}
+
+export const ExamSessionSchema = SchemaFactory.createForClass(ExamSession);
+
+// Add indexes
+ExamSessionSchema.index({ status: 1, expiresAt: 1 });
+ExamSessionSchema.index({ user: 1, createdAt: -1 });
+ExamSessionSchema.index({ status: 1, lockedAt: 1 });
+// One exam in progress per user
+ExamSessionSchema.index(
+  { user: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: ExamSessionStatus.IN_PROGRESS },
+  }
+);
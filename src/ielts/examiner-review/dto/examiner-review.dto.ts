@@ -0,0 +1,155 @@
+import {
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+export class RequestExaminerReviewDto {
+  @ApiProperty({
+    description: "Analyzed submission to have reviewed",
+    example: "68beebafa02d9604a4cadcd8",
+  })
+  @IsString()
+  @IsNotEmpty()
+  readonly submission: ObjectIdType;
+}
+
+export class ReviewCriteriaScoresDto {
+  @ApiPropertyOptional({ description: "Task Response (Task 2)", example: 6.5 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  @IsOptional()
+  readonly taskResponse?: number;
+
+  @ApiPropertyOptional({
+    description: "Task Achievement (Task 1)",
+    example: 6.5,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  @IsOptional()
+  readonly taskAchievement?: number;
+
+  @ApiPropertyOptional({ description: "Coherence and Cohesion", example: 7 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  @IsOptional()
+  readonly coherence?: number;
+
+  @ApiPropertyOptional({ description: "Lexical Resource", example: 6 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  @IsOptional()
+  readonly lexical?: number;
+
+  @ApiPropertyOptional({
+    description: "Grammatical Range and Accuracy",
+    example: 6.5,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  @IsOptional()
+  readonly grammar?: number;
+}
+
+export class ReviewCommentDto {
+  @ApiProperty({
+    description: "Text in the essay the comment refers to",
+    example: "a lot of",
+  })
+  @IsString()
+  @IsNotEmpty()
+  readonly originalText: string;
+
+  @ApiProperty({
+    description: "Examiner's comment",
+    example: "Too informal for academic writing.",
+  })
+  @IsString()
+  @IsNotEmpty()
+  readonly comment: string;
+
+  @ApiPropertyOptional({ example: "Lexical Resource" })
+  @IsString()
+  @IsOptional()
+  readonly category?: string;
+
+  @ApiPropertyOptional({ example: "a great deal of" })
+  @IsString()
+  @IsOptional()
+  readonly suggestion?: string;
+}
+
+export class UpdateExaminerReviewDto {
+  @ApiPropertyOptional({
+    description:
+      "Band per criterion in half-band steps; criteria left out keep the current value",
+    type: ReviewCriteriaScoresDto,
+  })
+  @ValidateNested()
+  @Type(() => ReviewCriteriaScoresDto)
+  @IsOptional()
+  readonly criteriaScores?: ReviewCriteriaScoresDto;
+
+  @ApiPropertyOptional({
+    description: "Examiner's inline comments (replaces the current list)",
+    type: [ReviewCommentDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewCommentDto)
+  @IsOptional()
+  readonly comments?: ReviewCommentDto[];
+
+  @ApiPropertyOptional({
+    description:
+      "Indexes of AI inline feedback items to remove (replaces the current list)",
+    type: [Number],
+    example: [2, 5],
+  })
+  @IsArray()
+  @IsInt({ each: true })
+  @IsOptional()
+  readonly removedFeedback?: number[];
+
+  @ApiPropertyOptional({
+    description: "Overall comment for the student",
+    example: "Clear position, but body paragraphs need more support.",
+  })
+  @IsString()
+  @IsOptional()
+  readonly summary?: string;
+}
+
+export class ReviewSlaQueryDto {
+  @ApiPropertyOptional({
+    description: "Start of the period (inclusive)",
+    example: "2025-09-01",
+  })
+  @IsDateString()
+  @IsOptional()
+  readonly from?: string;
+
+  @ApiPropertyOptional({
+    description: "End of the period (exclusive)",
+    example: "2025-10-01",
+  })
+  @IsDateString()
+  @IsOptional()
+  readonly to?: string;
+}
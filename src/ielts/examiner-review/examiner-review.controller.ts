@@ -0,0 +1,252 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { ExaminerReviewService } from "./examiner-review.service";
+import {
+  RequestExaminerReviewDto,
+  ReviewSlaQueryDto,
+  UpdateExaminerReviewDto,
+} from "./dto/examiner-review.dto";
+import { ObjectIdDto } from "../writing-submission/dto/ielts-writing-submission.dto";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../../auth/guards/roles.guard";
+import { Roles } from "../../auth/decorators/roles.decorator";
+import { UserRole } from "../../users/schemas/user.schema";
+
+@ApiTags("ielts-examiner-review")
+@Controller("ielts-examiner-review")
+export class ExaminerReviewController {
+  constructor(private readonly examinerReviewService: ExaminerReviewService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Request a human-verified review",
+    description:
+      "Queues an analyzed submission for review by an examiner. Available on plans with the human_review feature; the examiner's scores replace the AI scores once the review is completed.",
+  })
+  @ApiResponse({ status: 201, description: "Review requested" })
+  @ApiResponse({
+    status: 400,
+    description:
+      "Bad request - Submission not analyzed, already under review, or monthly reviews used up",
+  })
+  @ApiResponse({
+    status: 403,
+    description: "Forbidden - Human-verified reviews are not included",
+  })
+  async request(@Body() requestDto: RequestExaminerReviewDto, @Request() req) {
+    const review = await this.examinerReviewService.request(
+      requestDto,
+      req.user.sub
+    );
+    return {
+      message: "Review requested",
+      data: review,
+    };
+  }
+
+  @Get("queue")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.TEACHER, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get the review queue (Teacher/Admin only)",
+    description:
+      "Unclaimed reviews and the reviews you have claimed, earliest deadline first.",
+  })
+  @ApiResponse({ status: 200, description: "Review queue retrieved" })
+  async getQueue(@Request() req) {
+    const reviews = await this.examinerReviewService.getQueue(req.user.sub);
+    return { data: reviews };
+  }
+
+  @Get("sla")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get turnaround and SLA compliance of reviews (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "SLA report" })
+  async getSlaReport(@Query() query: ReviewSlaQueryDto) {
+    const report = await this.examinerReviewService.getSlaReport(query);
+    return { data: report };
+  }
+
+  @Get("submission/:id")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "Get the examiner reviews of a submission" })
+  @ApiResponse({ status: 200, description: "Reviews retrieved" })
+  async findBySubmission(@Param() params: ObjectIdDto, @Request() req) {
+    const reviews = await this.examinerReviewService.findBySubmission(
+      params.id,
+      req.user.sub,
+      req.user.role
+    );
+    return { data: reviews };
+  }
+
+  @Post("submission/:id")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.TEACHER, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Start reviewing a submission (Teacher/Admin only)",
+    description: "Opens a review of any analyzed submission, claimed by you.",
+  })
+  @ApiResponse({ status: 201, description: "Review started" })
+  @ApiResponse({
+    status: 400,
+    description:
+      "Bad request - Submission not analyzed or already under review",
+  })
+  async start(@Param() params: ObjectIdDto, @Request() req) {
+    const review = await this.examinerReviewService.start(
+      params.id,
+      req.user.sub
+    );
+    return {
+      message: "Review started",
+      data: review,
+    };
+  }
+
+  @Get(":id")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "Get an examiner review" })
+  @ApiResponse({ status: 200, description: "Review retrieved" })
+  @ApiResponse({ status: 404, description: "Examiner review not found" })
+  async findOne(@Param() params: ObjectIdDto, @Request() req) {
+    const review = await this.examinerReviewService.findOne(
+      params.id,
+      req.user.sub,
+      req.user.role
+    );
+    return { data: review };
+  }
+
+  @Post(":id/claim")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.TEACHER, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "Claim a queued review (Teacher/Admin only)" })
+  @ApiResponse({ status: 200, description: "Review claimed" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Review already claimed",
+  })
+  async claim(@Param() params: ObjectIdDto, @Request() req) {
+    const review = await this.examinerReviewService.claim(
+      params.id,
+      req.user.sub
+    );
+    return {
+      message: "Review claimed",
+      data: review,
+    };
+  }
+
+  @Post(":id/release")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.TEACHER, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Give up a claimed review (Teacher/Admin only)",
+    description:
+      "Requested reviews go back to the queue; reviews started by staff are cancelled.",
+  })
+  @ApiResponse({ status: 200, description: "Review released" })
+  async release(@Param() params: ObjectIdDto, @Request() req) {
+    const review = await this.examinerReviewService.release(
+      params.id,
+      req.user.sub,
+      req.user.role
+    );
+    return {
+      message: "Review released",
+      data: review,
+    };
+  }
+
+  @Patch(":id")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.TEACHER, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Save criteria scores and comments (Teacher/Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Review saved" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Invalid band or feedback index",
+  })
+  @ApiResponse({
+    status: 403,
+    description: "Forbidden - Review claimed by someone else",
+  })
+  async update(
+    @Param() params: ObjectIdDto,
+    @Body() updateDto: UpdateExaminerReviewDto,
+    @Request() req
+  ) {
+    const review = await this.examinerReviewService.update(
+      params.id,
+      updateDto,
+      req.user.sub,
+      req.user.role
+    );
+    return {
+      message: "Review saved",
+      data: review,
+    };
+  }
+
+  @Post(":id/complete")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.TEACHER, UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Complete a review (Teacher/Admin only)",
+    description:
+      "Computes the overall band from the criteria and makes the examiner's scores the submission's result.",
+  })
+  @ApiResponse({ status: 200, description: "Review completed" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Not every criterion is scored",
+  })
+  async complete(@Param() params: ObjectIdDto, @Request() req) {
+    const review = await this.examinerReviewService.complete(
+      params.id,
+      req.user.sub,
+      req.user.role
+    );
+    return {
+      message: "Review completed",
+      data: review,
+    };
+  }
+}
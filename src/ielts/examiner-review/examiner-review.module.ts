@@ -0,0 +1,22 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ExaminerReviewController } from "./examiner-review.controller";
+import { ExaminerReviewService } from "./examiner-review.service";
+import {
+  ExaminerReview,
+  ExaminerReviewSchema,
+} from "./schemas/examiner-review.schema";
+import { IELTSWritingSubmissionModule } from "../writing-submission/ielts-writing-submission.module";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ExaminerReview.name, schema: ExaminerReviewSchema },
+    ]),
+    IELTSWritingSubmissionModule,
+  ],
+  controllers: [ExaminerReviewController],
+  providers: [ExaminerReviewService],
+  exports: [ExaminerReviewService],
+})
+export class ExaminerReviewModule {}
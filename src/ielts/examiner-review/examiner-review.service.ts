@@ -0,0 +1,535 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { ConfigService } from "@nestjs/config";
+import { Model } from "mongoose";
+import {
+  ExaminerReview,
+  ExaminerReviewDocument,
+  ExaminerReviewSource,
+  ExaminerReviewStatus,
+} from "./schemas/examiner-review.schema";
+import {
+  RequestExaminerReviewDto,
+  ReviewSlaQueryDto,
+  UpdateExaminerReviewDto,
+} from "./dto/examiner-review.dto";
+import {
+  CriteriaScores,
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionStatus,
+} from "../writing-submission/schemas/ielts-writing-submission.schema";
+import { IELTSWritingSubmissionService } from "../writing-submission/ielts-writing-submission.service";
+import { getGradingRubric } from "../writing-submission/grading-rubrics";
+import {
+  computeOverallBand,
+  isValidBand,
+} from "../writing-submission/band-score";
+import { UserPlanService } from "../../user-plan/user-plan.service";
+import { UserRole } from "../../users/schemas/user.schema";
+import { ObjectIdType } from "../../types/object-id.type";
+
+export const REVIEWER_ROLES = [
+  UserRole.TEACHER,
+  UserRole.ADMIN,
+  UserRole.SUPER_ADMIN,
+];
+
+const OPEN_STATUSES = [
+  ExaminerReviewStatus.PENDING,
+  ExaminerReviewStatus.IN_REVIEW,
+];
+
+/**
+ * Human review of AI-graded submissions. Students on plans with the
+ * human_review feature request a review, which waits in the queue until a
+ * teacher or admin claims it; staff can also review any analyzed
+ * submission directly. Completed reviews are copied to the submission's
+ * examinerReview, which takes precedence over the AI scores.
+ *
+ * Configuration:
+ * - EXAMINER_REVIEW_SLA_HOURS: turnaround promised for purchased reviews
+ *   (default 48)
+ */
+@Injectable()
+export class ExaminerReviewService {
+  private readonly logger = new Logger(ExaminerReviewService.name);
+
+  constructor(
+    @InjectModel(ExaminerReview.name)
+    private examinerReviewModel: Model<ExaminerReviewDocument>,
+    private ieltsWritingSubmissionService: IELTSWritingSubmissionService,
+    private userPlanService: UserPlanService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Buy a human-verified review of the student's own submission
+   */
+  async request(
+    requestDto: RequestExaminerReviewDto,
+    userId: ObjectIdType
+  ): Promise<ExaminerReview> {
+    const submission = await this.ieltsWritingSubmissionService.findAccessible(
+      requestDto.submission,
+      userId
+    );
+    this.assertReviewable(submission);
+
+    const limit = await this.userPlanService.getHumanReviewLimit(userId);
+    if (limit === null) {
+      throw new ForbiddenException(
+        "Human-verified reviews are not included in your plan"
+      );
+    }
+    await this.assertNoOpenReview(requestDto.submission);
+
+    if (limit > 0) {
+      const now = new Date();
+      const used = await this.examinerReviewModel
+        .countDocuments({
+          student: userId,
+          source: ExaminerReviewSource.PURCHASED,
+          status: { $ne: ExaminerReviewStatus.CANCELLED },
+          requestedAt: {
+            $gte: new Date(now.getFullYear(), now.getMonth(), 1),
+          },
+        })
+        .exec();
+      if (used >= limit) {
+        throw new BadRequestException(
+          `You have used all ${limit} human-verified reviews for this month`
+        );
+      }
+    }
+
+    const requestedAt = new Date();
+    const review = await new this.examinerReviewModel({
+      submission: requestDto.submission,
+      student: userId,
+      source: ExaminerReviewSource.PURCHASED,
+      aiScore: submission.score,
+      aiCriteriaScores: submission.criteriaScores,
+      requestedAt,
+      dueAt: new Date(requestedAt.getTime() + this.slaHours() * 3600 * 1000),
+    }).save();
+
+    this.logger.log(
+      `Human-verified review ${review._id} requested for submission ${requestDto.submission}`
+    );
+    return review;
+  }
+
+  /**
+   * Open a review of any analyzed submission, claimed by the reviewer
+   */
+  async start(
+    submissionId: ObjectIdType,
+    reviewerId: ObjectIdType
+  ): Promise<ExaminerReview> {
+    const submission =
+      await this.ieltsWritingSubmissionService.findOne(submissionId);
+    this.assertReviewable(submission);
+    await this.assertNoOpenReview(submissionId);
+
+    const now = new Date();
+    return new this.examinerReviewModel({
+      submission: submissionId,
+      student: submission.user?.["_id"] ?? submission.user,
+      reviewer: reviewerId,
+      source: ExaminerReviewSource.STAFF,
+      status: ExaminerReviewStatus.IN_REVIEW,
+      aiScore: submission.score,
+      aiCriteriaScores: submission.criteriaScores,
+      requestedAt: now,
+      claimedAt: now,
+    }).save();
+  }
+
+  /**
+   * Unclaimed reviews and the reviewer's own open reviews, earliest
+   * deadline first
+   */
+  async getQueue(reviewerId: ObjectIdType) {
+    const reviews = await this.examinerReviewModel
+      .find({
+        $or: [
+          { status: ExaminerReviewStatus.PENDING },
+          { status: ExaminerReviewStatus.IN_REVIEW, reviewer: reviewerId },
+        ],
+      })
+      .populate(
+        "submission",
+        "body taskType variant score criteriaScores customWritingQuestion writing"
+      )
+      .populate("student", "firstName lastName")
+      .sort({ dueAt: 1, requestedAt: 1 })
+      .lean()
+      .exec();
+
+    const now = Date.now();
+    // Reviews without a deadline (started by staff) go last
+    return reviews
+      .map((review) => ({
+        ...review,
+        overdue: !!review.dueAt && review.dueAt.getTime() < now,
+      }))
+      .sort((a, b) => Number(!a.dueAt) - Number(!b.dueAt));
+  }
+
+  async findOne(
+    id: ObjectIdType,
+    userId: ObjectIdType,
+    role?: UserRole
+  ): Promise<ExaminerReview> {
+    const review = await this.examinerReviewModel
+      .findById(id)
+      .populate("reviewer", "firstName lastName")
+      .exec();
+    if (!review) {
+      throw new NotFoundException("Examiner review not found");
+    }
+    if (
+      String(review.student) !== String(userId) &&
+      !REVIEWER_ROLES.includes(role)
+    ) {
+      throw new ForbiddenException("You do not have access to this review");
+    }
+    return review;
+  }
+
+  /**
+   * Reviews of a submission, newest first; students see completed reviews
+   */
+  async findBySubmission(
+    submissionId: ObjectIdType,
+    userId: ObjectIdType,
+    role?: UserRole
+  ): Promise<ExaminerReview[]> {
+    const isReviewer = REVIEWER_ROLES.includes(role);
+    if (!isReviewer) {
+      await this.ieltsWritingSubmissionService.findAccessible(
+        submissionId,
+        userId,
+        role
+      );
+    }
+    return this.examinerReviewModel
+      .find({
+        submission: submissionId,
+        ...(isReviewer ? {} : { status: ExaminerReviewStatus.COMPLETED }),
+      })
+      .populate("reviewer", "firstName lastName")
+      .sort({ requestedAt: -1 })
+      .exec();
+  }
+
+  async claim(
+    id: ObjectIdType,
+    reviewerId: ObjectIdType
+  ): Promise<ExaminerReview> {
+    const claimed = await this.examinerReviewModel
+      .findOneAndUpdate(
+        { _id: id, status: ExaminerReviewStatus.PENDING },
+        {
+          status: ExaminerReviewStatus.IN_REVIEW,
+          reviewer: reviewerId,
+          claimedAt: new Date(),
+        },
+        { new: true }
+      )
+      .exec();
+    if (!claimed) {
+      await this.findExisting(id);
+      throw new BadRequestException("This review has already been claimed");
+    }
+    return claimed;
+  }
+
+  /**
+   * Put a claimed review back in the queue, keeping the work done so far
+   */
+  async release(
+    id: ObjectIdType,
+    reviewerId: ObjectIdType,
+    role?: UserRole
+  ): Promise<ExaminerReview> {
+    const review = await this.findInReview(id, reviewerId, role);
+    if (review.source === ExaminerReviewSource.STAFF) {
+      review.status = ExaminerReviewStatus.CANCELLED;
+    } else {
+      review.status = ExaminerReviewStatus.PENDING;
+      review.reviewer = undefined;
+      review.claimedAt = undefined;
+    }
+    return review.save();
+  }
+
+  async update(
+    id: ObjectIdType,
+    updateDto: UpdateExaminerReviewDto,
+    reviewerId: ObjectIdType,
+    role?: UserRole
+  ): Promise<ExaminerReview> {
+    const review = await this.findInReview(id, reviewerId, role);
+    const submission = await this.ieltsWritingSubmissionService.findOne(
+      review.submission
+    );
+
+    if (updateDto.criteriaScores) {
+      const criteriaKeys = getGradingRubric(
+        submission.taskType,
+        submission.variant
+      ).criteriaKeys;
+      const criteriaScores = { ...(review.criteriaScores || {}) };
+      for (const [key, band] of Object.entries(updateDto.criteriaScores)) {
+        if (band === undefined || band === null) {
+          continue;
+        }
+        if (!criteriaKeys.includes(key as keyof CriteriaScores)) {
+          throw new BadRequestException(
+            `${key} is not graded for this task. Use: ${criteriaKeys.join(", ")}`
+          );
+        }
+        if (!isValidBand(band)) {
+          throw new BadRequestException(
+            `${key} must be a band from 0 to 9 in steps of 0.5`
+          );
+        }
+        criteriaScores[key] = band;
+      }
+      review.criteriaScores = criteriaScores;
+    }
+
+    if (updateDto.comments) {
+      if (
+        updateDto.comments.some(
+          (comment) =>
+            !comment?.originalText?.trim() || !comment.comment?.trim()
+        )
+      ) {
+        throw new BadRequestException(
+          "Every comment needs originalText and comment"
+        );
+      }
+      review.comments = updateDto.comments;
+    }
+
+    if (updateDto.removedFeedback) {
+      const feedbackCount = submission.aiFeedback?.inlineFeedback?.length || 0;
+      const invalid = updateDto.removedFeedback.find(
+        (index) =>
+          !Number.isInteger(index) || index < 0 || index >= feedbackCount
+      );
+      if (invalid !== undefined) {
+        throw new BadRequestException(
+          `removedFeedback index ${invalid} does not match an inline feedback item`
+        );
+      }
+      review.removedFeedback = [...new Set(updateDto.removedFeedback)];
+    }
+
+    if (updateDto.summary !== undefined) {
+      review.summary = updateDto.summary;
+    }
+    return review.save();
+  }
+
+  /**
+   * Finish the review: every criterion must be banded. The overall band is
+   * computed from the criteria the same way as for AI grading.
+   */
+  async complete(
+    id: ObjectIdType,
+    reviewerId: ObjectIdType,
+    role?: UserRole
+  ): Promise<ExaminerReview> {
+    const review = await this.findInReview(id, reviewerId, role);
+    const submission = await this.ieltsWritingSubmissionService.findOne(
+      review.submission
+    );
+    const criteriaKeys = getGradingRubric(
+      submission.taskType,
+      submission.variant
+    ).criteriaKeys;
+    const missing = criteriaKeys.filter(
+      (key) => typeof review.criteriaScores?.[key] !== "number"
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        `Score every criterion before completing the review. Missing: ${missing.join(", ")}`
+      );
+    }
+
+    const completedAt = new Date();
+    review.score = computeOverallBand(review.criteriaScores, criteriaKeys);
+    review.status = ExaminerReviewStatus.COMPLETED;
+    review.completedAt = completedAt;
+    review.turnaroundMinutes = Math.round(
+      (completedAt.getTime() - review.requestedAt.getTime()) / 60000
+    );
+    if (review.dueAt) {
+      review.slaMet = completedAt <= review.dueAt;
+    }
+    await review.save();
+
+    await this.ieltsWritingSubmissionService.attachExaminerReview(
+      review.submission,
+      {
+        review: review._id as ObjectIdType,
+        reviewer: review.reviewer,
+        score: review.score,
+        criteriaScores: review.criteriaScores,
+        comments: review.comments,
+        removedFeedback: review.removedFeedback,
+        summary: review.summary,
+        reviewedAt: completedAt,
+      }
+    );
+
+    this.logger.log(
+      `Examiner review ${review._id} completed: band ${review.score} (AI ${review.aiScore})`
+    );
+    return review;
+  }
+
+  /**
+   * Turnaround of purchased reviews requested in the period, and the
+   * reviews still open past their deadline
+   */
+  async getSlaReport(query: ReviewSlaQueryDto) {
+    const match: Record<string, any> = {
+      source: ExaminerReviewSource.PURCHASED,
+    };
+    if (query.from || query.to) {
+      match.requestedAt = {};
+      if (query.from) {
+        match.requestedAt.$gte = new Date(query.from);
+      }
+      if (query.to) {
+        match.requestedAt.$lt = new Date(query.to);
+      }
+    }
+
+    const [completed, open, overdue] = await Promise.all([
+      this.examinerReviewModel
+        .find({ ...match, status: ExaminerReviewStatus.COMPLETED })
+        .select("turnaroundMinutes slaMet score aiScore")
+        .lean()
+        .exec(),
+      this.examinerReviewModel
+        .countDocuments({ ...match, status: { $in: OPEN_STATUSES } })
+        .exec(),
+      this.examinerReviewModel
+        .countDocuments({
+          ...match,
+          status: { $in: OPEN_STATUSES },
+          dueAt: { $lt: new Date() },
+        })
+        .exec(),
+    ]);
+
+    const turnarounds = completed
+      .map((review) => review.turnaroundMinutes)
+      .sort((a, b) => a - b);
+    const metSla = completed.filter((review) => review.slaMet).length;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      slaHours: this.slaHours(),
+      completed: completed.length,
+      open,
+      overdue,
+      slaMetRate: completed.length ? round(metSla / completed.length) : null,
+      averageTurnaroundHours: turnarounds.length
+        ? round(
+            turnarounds.reduce((sum, minutes) => sum + minutes, 0) /
+              turnarounds.length /
+              60
+          )
+        : null,
+      medianTurnaroundHours: turnarounds.length
+        ? round(turnarounds[Math.floor(turnarounds.length / 2)] / 60)
+        : null,
+      // Examiner band minus AI band
+      averageScoreAdjustment: completed.length
+        ? round(
+            completed.reduce(
+              (sum, review) => sum + (review.score - (review.aiScore ?? 0)),
+              0
+            ) / completed.length
+          )
+        : null,
+    };
+  }
+
+  private assertReviewable(submission: IELTSWritingSubmission): void {
+    if (
+      submission.status === IELTSWritingSubmissionStatus.DRAFT ||
+      typeof submission.score !== "number"
+    ) {
+      throw new BadRequestException(
+        "The submission must be analyzed before it can be reviewed"
+      );
+    }
+  }
+
+  private async assertNoOpenReview(submissionId: ObjectIdType): Promise<void> {
+    const open = await this.examinerReviewModel
+      .exists({ submission: submissionId, status: { $in: OPEN_STATUSES } })
+      .exec();
+    if (open) {
+      throw new BadRequestException(
+        "This submission already has a review in progress"
+      );
+    }
+  }
+
+  private async findExisting(
+    id: ObjectIdType
+  ): Promise<ExaminerReviewDocument> {
+    const review = await this.examinerReviewModel.findById(id).exec();
+    if (!review) {
+      throw new NotFoundException("Examiner review not found");
+    }
+    return review;
+  }
+
+  /**
+   * A review being worked on by this reviewer; admins may act on any
+   */
+  private async findInReview(
+    id: ObjectIdType,
+    reviewerId: ObjectIdType,
+    role?: UserRole
+  ): Promise<ExaminerReviewDocument> {
+    const review = await this.findExisting(id);
+    if (review.status !== ExaminerReviewStatus.IN_REVIEW) {
+      throw new BadRequestException(
+        review.status === ExaminerReviewStatus.PENDING
+          ? "Claim the review before editing it"
+          : "This review is closed"
+      );
+    }
+    if (
+      String(review.reviewer) !== String(reviewerId) &&
+      ![UserRole.ADMIN, UserRole.SUPER_ADMIN].includes(role)
+    ) {
+      throw new ForbiddenException("This review is claimed by someone else");
+    }
+    return review;
+  }
+
+  private slaHours(): number {
+    const value = parseInt(
+      this.configService.get<string>("EXAMINER_REVIEW_SLA_HOURS"),
+      10
+    );
+    return Number.isNaN(value) || value <= 0 ? 48 : value;
+  }
+}
@@ -0,0 +1,95 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import {
+  CriteriaScores,
+  ReviewComment,
+} from "../../writing-submission/schemas/ielts-writing-submission.schema";
+
+export enum ExaminerReviewStatus {
+  PENDING = "PENDING",
+  IN_REVIEW = "IN_REVIEW",
+  COMPLETED = "COMPLETED",
+  CANCELLED = "CANCELLED",
+}
+
+export enum ExaminerReviewSource {
+  // Human-verified review bought by the student; has a turnaround SLA
+  PURCHASED = "PURCHASED",
+  // Started by a teacher or admin checking the AI result
+  STAFF = "STAFF",
+}
+
+export type ExaminerReviewDocument = ExaminerReview & Document;
+
+@Schema({ timestamps: true })
+export class ExaminerReview {
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission", required: true })
+  submission: ObjectIdType;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  student: ObjectIdType;
+
+  @Prop({ type: Types.ObjectId, ref: "User" })
+  reviewer?: ObjectIdType;
+
+  @Prop({
+    enum: Object.values(ExaminerReviewStatus),
+    default: ExaminerReviewStatus.PENDING,
+  })
+  status: ExaminerReviewStatus;
+
+  @Prop({ enum: Object.values(ExaminerReviewSource), required: true })
+  source: ExaminerReviewSource;
+
+  // AI result at the time the review was opened
+  @Prop()
+  aiScore?: number;
+
+  @Prop({ type: CriteriaScores })
+  aiCriteriaScores?: CriteriaScores;
+
+  @Prop()
+  score?: number;
+
+  @Prop({ type: CriteriaScores })
+  criteriaScores?: CriteriaScores;
+
+  @Prop({ type: [ReviewComment], default: [] })
+  comments: ReviewComment[];
+
+  // Indexes into the submission's aiFeedback.inlineFeedback the examiner rejected
+  @Prop({ type: [Number], default: [] })
+  removedFeedback: number[];
+
+  @Prop()
+  summary?: string;
+
+  @Prop({ required: true })
+  requestedAt: Date;
+
+  // Purchased reviews must be completed by then
+  @Prop()
+  dueAt?: Date;
+
+  @Prop()
+  claimedAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  turnaroundMinutes?: number;
+
+  @Prop()
+  slaMet?: boolean;
+}
+
+export const ExaminerReviewSchema =
+  SchemaFactory.createForClass(ExaminerReview);
+
+// Add indexes
+ExaminerReviewSchema.index({ status: 1, dueAt: 1 });
+ExaminerReviewSchema.index({ submission: 1, status: 1 });
+ExaminerReviewSchema.index({ student: 1, source: 1, requestedAt: -1 });
+ExaminerReviewSchema.index({ reviewer: 1, status: 1 });
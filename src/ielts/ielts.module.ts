@@ -1,9 +1,24 @@
 import { Module } from "@nestjs/common";
 import { IELTSWritingModule } from "./writing/ielts-writing.module";
 import { IELTSWritingSubmissionModule } from "./writing-submission/ielts-writing-submission.module";
+import { ExamSessionModule } from "./exam-session/exam-session.module";
+import { DrillModule } from "./drills/drill.module";
+import { ExaminerReviewModule } from "./examiner-review/examiner-review.module";
 
 @Module({
-  imports: [IELTSWritingModule, IELTSWritingSubmissionModule],
-  exports: [IELTSWritingModule, IELTSWritingSubmissionModule],
+  imports: [
+    IELTSWritingModule,
+    IELTSWritingSubmissionModule,
+    ExamSessionModule,
+    DrillModule,
+    ExaminerReviewModule,
+  ],
+  exports: [
+    IELTSWritingModule,
+    IELTSWritingSubmissionModule,
+    ExamSessionModule,
+    DrillModule,
+    ExaminerReviewModule,
+  ],
 })
 export class IELTSModule {}
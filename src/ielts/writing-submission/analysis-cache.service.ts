@@ -0,0 +1,181 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  AnalysisCacheEntry,
+  AnalysisCacheEntryDocument,
+} from "./schemas/analysis-cache-entry.schema";
+import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
+import { LLMService } from "./llm/llm.service";
+import { LLMCompletionResult } from "./llm/llm-provider.interface";
+import { RenderedPrompt } from "./prompts/prompt-registry.service";
+import { hashContent } from "./essay-fingerprint";
+import { UserPlanService } from "../../user-plan/user-plan.service";
+import { ObjectIdType } from "../../types/object-id.type";
+
+/**
+ * What happens to a submission's credit when its analysis is served from
+ * the cache
+ */
+export enum CacheQuotaPolicy {
+  // The credit stays used, like any other submission
+  CHARGE = "charge",
+  // The monthly credit is given back, since no AI call was paid for
+  REFUND = "refund",
+}
+
+/**
+ * Validated LLM results keyed on the normalized essay, task, prompt
+ * version, model and target band, so resubmitting an essay or analyzing a
+ * submission twice reuses the earlier result instead of calling the LLM.
+ * Results are keyed on the model that produced them, so output from a
+ * fallback model is only reused while that model is the primary route.
+ *
+ * Configuration:
+ * - ANALYSIS_CACHE_ENABLED: set to "false" to always call the LLM
+ * - ANALYSIS_CACHE_TTL_DAYS: how long results are kept (default 30)
+ * - ANALYSIS_CACHE_QUOTA_POLICY: "charge" (default) or "refund"
+ */
+@Injectable()
+export class AnalysisCacheService {
+  private readonly logger = new Logger(AnalysisCacheService.name);
+
+  constructor(
+    @InjectModel(AnalysisCacheEntry.name)
+    private analysisCacheEntryModel: Model<AnalysisCacheEntryDocument>,
+    private llmService: LLMService,
+    private ieltsWritingSubmissionService: IELTSWritingSubmissionService,
+    private userPlanService: UserPlanService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * `model` is the "provider/model" route the result comes from, the
+   * prompt's primary route by default
+   */
+  buildKey(
+    prompt: RenderedPrompt,
+    contentHash: string,
+    targetBand?: string,
+    model = this.getModel(prompt)
+  ): string {
+    return hashContent(
+      contentHash,
+      prompt.name,
+      prompt.version,
+      model,
+      targetBand || null
+    );
+  }
+
+  async get(key: string): Promise<AnalysisCacheEntry | null> {
+    if (!this.isEnabled()) {
+      return null;
+    }
+    return this.analysisCacheEntryModel
+      .findOneAndUpdate(
+        { key, expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } },
+        { new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Store a result under the route that produced it, which may be a
+   * fallback rather than the primary one, tagged with the model the
+   * provider reported
+   */
+  async set(
+    prompt: RenderedPrompt,
+    contentHash: string,
+    completion: LLMCompletionResult,
+    result: Record<string, any>,
+    targetBand?: string,
+    submissionId?: ObjectIdType
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+    const route = this.llmService.getRouteName(completion);
+    const key = this.buildKey(prompt, contentHash, targetBand, route);
+    const ttlDays = this.getNumber("ANALYSIS_CACHE_TTL_DAYS", 30);
+    try {
+      await this.analysisCacheEntryModel
+        .updateOne(
+          { key },
+          {
+            $set: {
+              promptName: prompt.name,
+              promptVersion: prompt.version,
+              route,
+              model: `${completion.provider}/${completion.model}`,
+              targetBand,
+              result,
+              submission: submissionId,
+              expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+            },
+          },
+          { upsert: true }
+        )
+        .exec();
+    } catch (error) {
+      // Another worker stored the same result first
+      if (error.code !== 11000) {
+        this.logger.warn(`Failed to cache ${prompt.name} result:`, error);
+      }
+    }
+  }
+
+  /**
+   * Mark the submission as served from the cache and, the first time, apply
+   * the quota policy. Re-analyzing the submission a result was generated
+   * for never refunds its credit.
+   */
+  async recordHit(
+    entry: AnalysisCacheEntry,
+    submissionId: ObjectIdType,
+    userId?: ObjectIdType
+  ): Promise<void> {
+    const firstHit = await this.ieltsWritingSubmissionService.markCacheHit(
+      submissionId,
+      entry.promptName
+    );
+    this.logger.log(
+      `Reused cached ${entry.promptName} result for submission ${submissionId}`
+    );
+
+    if (
+      firstHit &&
+      userId &&
+      String(entry.submission) !== String(submissionId) &&
+      this.getQuotaPolicy() === CacheQuotaPolicy.REFUND
+    ) {
+      await this.userPlanService.refundSubmissionCount(userId);
+    }
+  }
+
+  private getModel(prompt: RenderedPrompt): string {
+    const [route] = this.llmService.getRoutes(prompt.task);
+    return `${route.provider}/${route.model}`;
+  }
+
+  private isEnabled(): boolean {
+    return this.configService.get<string>("ANALYSIS_CACHE_ENABLED") !== "false";
+  }
+
+  private getQuotaPolicy(): CacheQuotaPolicy {
+    const policy = this.configService.get<string>(
+      "ANALYSIS_CACHE_QUOTA_POLICY"
+    );
+    return policy === CacheQuotaPolicy.REFUND
+      ? CacheQuotaPolicy.REFUND
+      : CacheQuotaPolicy.CHARGE;
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key), 10);
+    return Number.isNaN(value) ? defaultValue : value;
+  }
+}
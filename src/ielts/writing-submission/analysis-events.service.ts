@@ -0,0 +1,35 @@
+import { Injectable } from "@nestjs/common";
+import { Observable, Subject, filter } from "rxjs";
+
+export type AnalysisEventType =
+  | "status"
+  | "scores"
+  | "feedback"
+  | "improved"
+  | "done";
+
+export interface AnalysisEvent {
+  submissionId: string;
+  type: AnalysisEventType;
+  data: any;
+}
+
+/**
+ * In-process bus for analysis progress, consumed by the SSE endpoint.
+ * Events are only delivered to subscribers on the same instance that runs
+ * the analysis.
+ */
+@Injectable()
+export class AnalysisEventsService {
+  private readonly events$ = new Subject<AnalysisEvent>();
+
+  emit(submissionId: string, type: AnalysisEventType, data: any): void {
+    this.events$.next({ submissionId: String(submissionId), type, data });
+  }
+
+  forSubmission(submissionId: string): Observable<AnalysisEvent> {
+    return this.events$.pipe(
+      filter((event) => event.submissionId === String(submissionId))
+    );
+  }
+}
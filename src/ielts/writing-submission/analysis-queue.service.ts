@@ -0,0 +1,428 @@
+import { HttpException, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  AnalysisJob,
+  AnalysisJobDocument,
+  AnalysisJobStatus,
+} from "./schemas/analysis-job.schema";
+import {
+  AnalysisSlot,
+  AnalysisSlotDocument,
+} from "./schemas/analysis-slot.schema";
+import {
+  IELTSWritingAnalysisStage,
+  IELTSWritingSubmissionStatus,
+  IELTSWritingTargetScore,
+} from "./schemas/ielts-writing-submission.schema";
+import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
+import { AnalysisEventsService } from "./analysis-events.service";
+import { ObjectIdType } from "../../types/object-id.type";
+
+/**
+ * Mongo-backed queue of essay analysis jobs.
+ *
+ * Jobs are claimed atomically, so several workers (or app instances) can
+ * poll the same collection. Failed jobs are retried with exponential
+ * backoff until maxAttempts is reached.
+ */
+@Injectable()
+export class AnalysisQueueService {
+  private readonly logger = new Logger(AnalysisQueueService.name);
+
+  constructor(
+    @InjectModel(AnalysisJob.name)
+    private analysisJobModel: Model<AnalysisJobDocument>,
+    @InjectModel(AnalysisSlot.name)
+    private analysisSlotModel: Model<AnalysisSlotDocument>,
+    private ieltsWritingSubmissionService: IELTSWritingSubmissionService,
+    private analysisEventsService: AnalysisEventsService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Queue a submission for analysis, or return its job if one is already
+   * queued or running
+   */
+  async enqueue(
+    submissionId: ObjectIdType,
+    userId: ObjectIdType,
+    improvedBands: IELTSWritingTargetScore[] = []
+  ): Promise<AnalysisJob> {
+    const activeJob = await this.findActiveJob(submissionId);
+    if (activeJob) {
+      return activeJob;
+    }
+
+    let job: AnalysisJobDocument;
+    try {
+      job = await new this.analysisJobModel({
+        submission: submissionId,
+        user: userId,
+        improvedBands,
+        maxAttempts: this.getNumber("ANALYSIS_JOB_MAX_ATTEMPTS", 3),
+        runAt: new Date(),
+      }).save();
+    } catch (error) {
+      // Queued by a concurrent request
+      if (error?.code === 11000) {
+        const queued = await this.findActiveJob(submissionId);
+        if (queued) {
+          return queued;
+        }
+      }
+      throw error;
+    }
+
+    await this.ieltsWritingSubmissionService.saveAnalysisResult(submissionId, {
+      status: IELTSWritingSubmissionStatus.IN_PROGRESS,
+      analysisStage: IELTSWritingAnalysisStage.QUEUED,
+      $unset: { analysisError: 1 },
+    });
+
+    this.logger.log(`Queued analysis job ${job._id} for ${submissionId}`);
+    return job;
+  }
+
+  /**
+   * Claim the next due job, skipping users that already have
+   * ANALYSIS_MAX_JOBS_PER_USER jobs running. Jobs locked for longer than
+   * ANALYSIS_JOB_LOCK_TIMEOUT_MS are treated as abandoned and reclaimed,
+   * or failed once they have used all their attempts.
+   *
+   * The running-job count only narrows the search; the limit is enforced by
+   * leasing one of the user's slots, and a job whose user has no free slot
+   * is handed back.
+   */
+  async claimNext(workerId: string): Promise<AnalysisJobDocument | null> {
+    const now = new Date();
+    const staleBefore = new Date(
+      now.getTime() - this.getNumber("ANALYSIS_JOB_LOCK_TIMEOUT_MS", 300000)
+    );
+    const maxPerUser = this.getNumber("ANALYSIS_MAX_JOBS_PER_USER", 1);
+
+    await this.failAbandoned(staleBefore);
+
+    const busyUsers = await this.analysisJobModel
+      .aggregate([
+        {
+          $match: {
+            status: AnalysisJobStatus.RUNNING,
+            lockedAt: { $gte: staleBefore },
+          },
+        },
+        { $group: { _id: "$user", running: { $sum: 1 } } },
+        { $match: { running: { $gte: maxPerUser } } },
+      ])
+      .exec();
+
+    const job = await this.analysisJobModel
+      .findOneAndUpdate(
+        {
+          user: { $nin: busyUsers.map((entry) => entry._id) },
+          $or: [
+            { status: AnalysisJobStatus.PENDING, runAt: { $lte: now } },
+            {
+              status: AnalysisJobStatus.RUNNING,
+              lockedAt: { $lt: staleBefore },
+              $expr: { $lt: ["$attempts", "$maxAttempts"] },
+            },
+          ],
+        },
+        {
+          $set: {
+            status: AnalysisJobStatus.RUNNING,
+            lockedAt: now,
+            lockedBy: workerId,
+          },
+          $inc: { attempts: 1 },
+        },
+        { sort: { runAt: 1 }, new: true }
+      )
+      .exec();
+    if (!job) {
+      return null;
+    }
+
+    if (await this.leaseSlot(job, maxPerUser, now, staleBefore)) {
+      return job;
+    }
+
+    // Another worker took the user's last slot since the count above
+    await this.analysisJobModel
+      .updateOne(
+        { _id: job._id, lockedBy: workerId },
+        {
+          $set: { status: AnalysisJobStatus.PENDING },
+          $inc: { attempts: -1 },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        }
+      )
+      .exec();
+    return null;
+  }
+
+  /**
+   * Fail abandoned jobs that have no attempts left, e.g. ones whose worker
+   * crashed on every attempt
+   */
+  private async failAbandoned(staleBefore: Date): Promise<void> {
+    const message = "The analysis worker stopped before finishing the job";
+    for (;;) {
+      const job = await this.analysisJobModel
+        .findOneAndUpdate(
+          {
+            status: AnalysisJobStatus.RUNNING,
+            lockedAt: { $lt: staleBefore },
+            $expr: { $gte: ["$attempts", "$maxAttempts"] },
+          },
+          {
+            $set: {
+              status: AnalysisJobStatus.FAILED,
+              lastError: message,
+              completedAt: new Date(),
+            },
+            $unset: { lockedAt: 1, lockedBy: 1 },
+          }
+        )
+        .exec();
+      if (!job) {
+        return;
+      }
+      await this.finishFailed(job, message);
+    }
+  }
+
+  /**
+   * Keep renewing the job's lock and slot lease while it runs, so a long
+   * job is not reclaimed by another worker and paid for twice. Call the
+   * returned function once the job ends.
+   */
+  keepAlive(job: AnalysisJobDocument, workerId: string): () => void {
+    const interval = Math.max(
+      1000,
+      Math.floor(this.getNumber("ANALYSIS_JOB_LOCK_TIMEOUT_MS", 300000) / 3)
+    );
+    const timer = setInterval(() => {
+      this.renewLock(job, workerId).catch((error) =>
+        this.logger.warn(
+          `Failed to renew the lock of analysis job ${job._id}: ${error.message}`
+        )
+      );
+    }, interval);
+    return () => clearInterval(timer);
+  }
+
+  private async renewLock(
+    job: AnalysisJobDocument,
+    workerId: string
+  ): Promise<void> {
+    const lockedAt = new Date();
+    const renewed = await this.analysisJobModel
+      .updateOne(
+        {
+          _id: job._id,
+          status: AnalysisJobStatus.RUNNING,
+          lockedBy: workerId,
+        },
+        { $set: { lockedAt } }
+      )
+      .exec();
+    if (!renewed.matchedCount) {
+      this.logger.warn(
+        `Analysis job ${job._id} is no longer locked by ${workerId}`
+      );
+      return;
+    }
+    await this.analysisSlotModel
+      .updateOne({ user: job.user, job: job._id }, { $set: { lockedAt } })
+      .exec();
+  }
+
+  /**
+   * Take a free slot of the job's user, or keep the one the job already
+   * holds when it is reclaimed. A slot is free when it has no job or its
+   * lease has gone stale; slots that do not exist yet are created, and the
+   * unique index makes concurrent creation fail for all but one worker.
+   */
+  private async leaseSlot(
+    job: AnalysisJobDocument,
+    maxPerUser: number,
+    now: Date,
+    staleBefore: Date
+  ): Promise<boolean> {
+    for (let slot = 0; slot < maxPerUser; slot++) {
+      try {
+        const leased = await this.analysisSlotModel
+          .findOneAndUpdate(
+            {
+              user: job.user,
+              slot,
+              $or: [
+                { job: null },
+                { job: job._id },
+                { lockedAt: { $lt: staleBefore } },
+              ],
+            },
+            { $set: { job: job._id, lockedAt: now } },
+            { upsert: true, new: true }
+          )
+          .exec();
+        if (leased) {
+          return true;
+        }
+      } catch (error) {
+        if (error?.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+    return false;
+  }
+
+  private async releaseSlot(job: AnalysisJobDocument): Promise<void> {
+    await this.analysisSlotModel
+      .updateOne(
+        { user: job.user, job: job._id },
+        { $set: { job: null }, $unset: { lockedAt: 1 } }
+      )
+      .exec();
+  }
+
+  async complete(job: AnalysisJobDocument): Promise<void> {
+    await this.analysisJobModel
+      .updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: AnalysisJobStatus.COMPLETED,
+            completedAt: new Date(),
+          },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        }
+      )
+      .exec();
+    await this.releaseSlot(job);
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or give up and mark the
+   * submission FAILED_TO_CHECK once attempts are exhausted. Client errors
+   * (4xx), such as a blocked submission, are not retried.
+   */
+  async fail(job: AnalysisJobDocument, error: Error): Promise<void> {
+    const message = error?.message || String(error);
+    const retryable = !(
+      error instanceof HttpException && error.getStatus() < 500
+    );
+
+    if (retryable && job.attempts < job.maxAttempts) {
+      const delay =
+        this.getNumber("ANALYSIS_JOB_BACKOFF_MS", 10000) *
+        Math.pow(2, job.attempts - 1);
+      await this.analysisJobModel
+        .updateOne(
+          { _id: job._id },
+          {
+            $set: {
+              status: AnalysisJobStatus.PENDING,
+              runAt: new Date(Date.now() + delay),
+              lastError: message,
+            },
+            $unset: { lockedAt: 1, lockedBy: 1 },
+          }
+        )
+        .exec();
+      await this.releaseSlot(job);
+      await this.ieltsWritingSubmissionService.saveAnalysisResult(
+        job.submission,
+        {
+          status: IELTSWritingSubmissionStatus.IN_PROGRESS,
+          analysisStage: IELTSWritingAnalysisStage.QUEUED,
+        }
+      );
+      this.logger.warn(
+        `Analysis job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`
+      );
+      return;
+    }
+
+    await this.analysisJobModel
+      .updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: AnalysisJobStatus.FAILED,
+            lastError: message,
+            completedAt: new Date(),
+          },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        }
+      )
+      .exec();
+    await this.finishFailed(job, message);
+  }
+
+  /**
+   * Free the slot of a job that failed for good and mark its submission
+   * FAILED_TO_CHECK
+   */
+  private async finishFailed(
+    job: AnalysisJobDocument,
+    message: string
+  ): Promise<void> {
+    await this.releaseSlot(job);
+    await this.ieltsWritingSubmissionService.saveAnalysisResult(
+      job.submission,
+      {
+        status: IELTSWritingSubmissionStatus.FAILED_TO_CHECK,
+        analysisError: message,
+      }
+    );
+    this.analysisEventsService.emit(job.submission, "done", {
+      status: IELTSWritingSubmissionStatus.FAILED_TO_CHECK,
+      analysisError: message,
+    });
+    this.logger.error(`Analysis job ${job._id} failed permanently: ${message}`);
+  }
+
+  /**
+   * Record that a stage of the job finished, so a retry does not repeat it
+   */
+  async completeStage(
+    job: AnalysisJobDocument,
+    stage: IELTSWritingAnalysisStage
+  ): Promise<void> {
+    await this.analysisJobModel
+      .updateOne({ _id: job._id }, { $addToSet: { completedStages: stage } })
+      .exec();
+  }
+
+  private async findActiveJob(
+    submissionId: ObjectIdType
+  ): Promise<AnalysisJobDocument | null> {
+    return this.analysisJobModel
+      .findOne({
+        submission: submissionId,
+        status: {
+          $in: [AnalysisJobStatus.PENDING, AnalysisJobStatus.RUNNING],
+        },
+      })
+      .exec();
+  }
+
+  async findLatestForSubmission(
+    submissionId: ObjectIdType
+  ): Promise<AnalysisJob | null> {
+    return this.analysisJobModel
+      .findOne({ submission: submissionId })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key), 10);
+    return Number.isNaN(value) ? defaultValue : value;
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { hostname } from "os";
+import { AnalysisQueueService } from "./analysis-queue.service";
+import { AnalysisEventsService } from "./analysis-events.service";
+import { OpenAIService } from "./openai.service";
+import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
+import { AnalysisJobDocument } from "./schemas/analysis-job.schema";
+import {
+  IELTSWritingAnalysisStage,
+  IELTSWritingSubmissionStatus,
+} from "./schemas/ielts-writing-submission.schema";
+
+/**
+ * Polls the analysis queue and runs jobs through the grading stages:
+ * SCORING -> FEEDBACK -> IMPROVING -> DONE.
+ *
+ * Configuration:
+ * - ANALYSIS_WORKER_ENABLED: set to "false" to run no worker in this instance
+ * - ANALYSIS_WORKER_CONCURRENCY: jobs processed at once (default 2)
+ * - ANALYSIS_WORKER_POLL_MS: poll interval (default 2000)
+ */
+@Injectable()
+export class AnalysisWorkerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AnalysisWorkerService.name);
+  private readonly workerId = `${hostname()}-${process.pid}`;
+  private timer: NodeJS.Timeout;
+  private running = 0;
+
+  constructor(
+    private readonly analysisQueueService: AnalysisQueueService,
+    private readonly openAIService: OpenAIService,
+    private readonly ieltsWritingSubmissionService: IELTSWritingSubmissionService,
+    private readonly analysisEventsService: AnalysisEventsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  onModuleInit() {
+    if (this.configService.get<string>("ANALYSIS_WORKER_ENABLED") === "false") {
+      this.logger.log("Analysis worker disabled");
+      return;
+    }
+    const interval =
+      parseInt(this.configService.get<string>("ANALYSIS_WORKER_POLL_MS"), 10) ||
+      2000;
+    this.timer = setInterval(() => this.poll(), interval);
+    this.logger.log(
+      `Analysis worker ${this.workerId} polling every ${interval}ms`
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async poll(): Promise<void> {
+    const concurrency =
+      parseInt(
+        this.configService.get<string>("ANALYSIS_WORKER_CONCURRENCY"),
+        10
+      ) || 2;
+
+    while (this.running < concurrency) {
+      let job: AnalysisJobDocument;
+      try {
+        job = await this.analysisQueueService.claimNext(this.workerId);
+      } catch (error) {
+        this.logger.error("Failed to claim analysis job:", error);
+        return;
+      }
+      if (!job) {
+        return;
+      }
+
+      this.running++;
+      this.process(job).finally(() => this.running--);
+    }
+  }
+
+  async process(job: AnalysisJobDocument): Promise<void> {
+    const submissionId = String(job.submission);
+    const stopKeepAlive = this.analysisQueueService.keepAlive(
+      job,
+      this.workerId
+    );
+    try {
+      // On retries, keep results from stages this job already finished
+      const completedStages = job.completedStages || [];
+
+      if (!completedStages.includes(IELTSWritingAnalysisStage.SCORING)) {
+        await this.setStage(submissionId, IELTSWritingAnalysisStage.SCORING);
+        await this.openAIService.analyzeWritingScores(submissionId);
+        await this.analysisQueueService.completeStage(
+          job,
+          IELTSWritingAnalysisStage.SCORING
+        );
+      }
+
+      if (!completedStages.includes(IELTSWritingAnalysisStage.FEEDBACK)) {
+        await this.setStage(submissionId, IELTSWritingAnalysisStage.FEEDBACK);
+        await this.openAIService.analyzeWritingFeedback(submissionId, false);
+        await this.analysisQueueService.completeStage(
+          job,
+          IELTSWritingAnalysisStage.FEEDBACK
+        );
+      }
+
+      if (job.improvedBands?.length) {
+        await this.setStage(submissionId, IELTSWritingAnalysisStage.IMPROVING);
+        for (const band of job.improvedBands) {
+          await this.openAIService.generateImprovedVersion(submissionId, band);
+        }
+      }
+
+      await this.ieltsWritingSubmissionService.saveAnalysisResult(
+        submissionId,
+        {
+          status: IELTSWritingSubmissionStatus.ANALYZED,
+          analysisStage: IELTSWritingAnalysisStage.DONE,
+        }
+      );
+      await this.analysisQueueService.complete(job);
+      this.analysisEventsService.emit(submissionId, "done", {
+        status: IELTSWritingSubmissionStatus.ANALYZED,
+      });
+      this.logger.log(`Analysis job ${job._id} completed for ${submissionId}`);
+    } catch (error) {
+      await this.analysisQueueService
+        .fail(job, error)
+        .catch((failError) =>
+          this.logger.error(
+            `Failed to record failure of analysis job ${job._id}:`,
+            failError
+          )
+        );
+    } finally {
+      stopKeepAlive();
+    }
+  }
+
+  private async setStage(
+    submissionId: string,
+    analysisStage: IELTSWritingAnalysisStage
+  ) {
+    await this.ieltsWritingSubmissionService.saveAnalysisResult(submissionId, {
+      analysisStage,
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import { computeOverallBand, isValidBand, roundToBand } from "./band-score";
+
+describe("band score", () => {
+  describe("roundToBand", () => {
+    it.each([
+      [6.125, 6],
+      [6.25, 6.5],
+      [6.375, 6.5],
+      [6.625, 6.5],
+      [6.75, 7],
+      [6.875, 7],
+      [7, 7],
+    ])("should round an average of %p to band %p", (average, band) => {
+      expect(roundToBand(average)).toBe(band);
+    });
+
+    it("should keep bands within 0-9", () => {
+      expect(roundToBand(9.4)).toBe(9);
+      expect(roundToBand(-1)).toBe(0);
+    });
+  });
+
+  describe("computeOverallBand", () => {
+    const criteriaKeys: (
+      | "taskResponse"
+      | "coherence"
+      | "lexical"
+      | "grammar"
+    )[] = ["taskResponse", "coherence", "lexical", "grammar"];
+
+    it("should round the mean of the criteria by the official rule", () => {
+      // Mean 6.25 rounds up to the half band
+      expect(
+        computeOverallBand(
+          { taskResponse: 6.5, coherence: 6.5, lexical: 6, grammar: 6 },
+          criteriaKeys
+        )
+      ).toBe(6.5);
+      // Mean 6.75 rounds up to the next whole band
+      expect(
+        computeOverallBand(
+          { taskResponse: 7, coherence: 7, lexical: 6.5, grammar: 6.5 },
+          criteriaKeys
+        )
+      ).toBe(7);
+      // Mean 6.125 rounds down
+      expect(
+        computeOverallBand(
+          { taskResponse: 6.5, coherence: 6, lexical: 6, grammar: 6 },
+          criteriaKeys
+        )
+      ).toBe(6);
+    });
+
+    it("should only use the rubric's criteria", () => {
+      expect(
+        computeOverallBand(
+          {
+            taskAchievement: 5,
+            taskResponse: 9,
+            coherence: 5,
+            lexical: 5,
+            grammar: 5,
+          },
+          ["taskAchievement", "coherence", "lexical", "grammar"]
+        )
+      ).toBe(5);
+    });
+
+    it("should reject missing or invalid criterion bands", () => {
+      expect(() =>
+        computeOverallBand(
+          { taskResponse: 6, coherence: 6.3, lexical: 6, grammar: 6 },
+          criteriaKeys
+        )
+      ).toThrow();
+      expect(() =>
+        computeOverallBand({ taskResponse: 6 }, criteriaKeys)
+      ).toThrow();
+    });
+  });
+
+  describe("isValidBand", () => {
+    it("should accept half bands from 0 to 9 only", () => {
+      expect([0, 4.5, 9].every(isValidBand)).toBe(true);
+      expect([9.5, -0.5, 6.3, "7", null].some(isValidBand)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { CriterionKey } from "./grading-rubrics";
+
+export const MIN_BAND = 0;
+export const MAX_BAND = 9;
+
+// Averages within this of a rounding boundary count as on it, so floating
+// point noise cannot flip a result
+const EPSILON = 1e-9;
+
+export function isValidBand(value: any): boolean {
+  return (
+    typeof value === "number" &&
+    value >= MIN_BAND &&
+    value <= MAX_BAND &&
+    Number.isInteger(value * 2)
+  );
+}
+
+/**
+ * Round to a reportable band with the official IELTS rule: a fraction
+ * below .25 rounds down to the whole band, .25 up to below .75 becomes the
+ * half band, and .75 or more rounds up to the next whole band. Results are
+ * kept within 0-9.
+ */
+export function roundToBand(value: number): number {
+  const clamped = Math.min(MAX_BAND, Math.max(MIN_BAND, value));
+  const whole = Math.floor(clamped + EPSILON);
+  const fraction = clamped - whole;
+  if (fraction >= 0.75 - EPSILON) {
+    return Math.min(MAX_BAND, whole + 1);
+  }
+  if (fraction >= 0.25 - EPSILON) {
+    return whole + 0.5;
+  }
+  return whole;
+}
+
+/**
+ * Overall band of a response: the mean of its criteria bands, rounded with
+ * the official rule. The model's own overall band is never used, so the
+ * result can always be reproduced from the criteria.
+ */
+export function computeOverallBand(
+  criteriaScores: Partial<Record<CriterionKey, number>>,
+  criteriaKeys: CriterionKey[]
+): number {
+  const bands = criteriaKeys.map((key) => criteriaScores[key]);
+  if (!bands.length || bands.some((band) => !isValidBand(band))) {
+    throw new Error(
+      `Cannot compute an overall band from ${JSON.stringify(criteriaScores)}`
+    );
+  }
+  return roundToBand(bands.reduce((sum, band) => sum + band, 0) / bands.length);
+}
@@ -0,0 +1,124 @@
+import {
+  applyCorrections,
+  computeAgreement,
+  fitLinearCorrection,
+} from "./calibration-stats";
+
+describe("calibration stats", () => {
+  describe("computeAgreement", () => {
+    it("should report error, bias and agreement of AI bands", () => {
+      expect(
+        computeAgreement([
+          { official: 6, predicted: 6 },
+          { official: 6, predicted: 6.5 },
+          { official: 7, predicted: 8 },
+          { official: 5, predicted: 5 },
+        ])
+      ).toEqual({
+        count: 4,
+        meanAbsoluteError: 0.38,
+        bias: 0.38,
+        exactAgreement: 0.5,
+        withinHalfBand: 0.75,
+      });
+    });
+
+    it("should return null without pairs", () => {
+      expect(computeAgreement([])).toBeNull();
+    });
+  });
+
+  describe("fitLinearCorrection", () => {
+    it("should fit the line mapping AI bands to official bands", () => {
+      // The AI grades one band high across the board
+      const pairs = [5, 5.5, 6, 6.5, 7, 7.5].map((official) => ({
+        official,
+        predicted: official + 1,
+      }));
+
+      expect(fitLinearCorrection(pairs)).toEqual({
+        slope: 1,
+        intercept: -1,
+        count: 6,
+      });
+    });
+
+    it("should only remove the bias when every AI band is the same", () => {
+      const pairs = [5, 6, 6, 7, 6].map((official) => ({
+        official,
+        predicted: 7,
+      }));
+
+      expect(fitLinearCorrection(pairs)).toEqual({
+        slope: 1,
+        intercept: -1,
+        count: 5,
+      });
+    });
+
+    it("should not fit a correction from too few essays", () => {
+      expect(
+        fitLinearCorrection([
+          { official: 6, predicted: 7 },
+          { official: 7, predicted: 8 },
+        ])
+      ).toBeNull();
+    });
+  });
+
+  describe("applyCorrections", () => {
+    const criteriaKeys: (
+      | "taskResponse"
+      | "coherence"
+      | "lexical"
+      | "grammar"
+    )[] = ["taskResponse", "coherence", "lexical", "grammar"];
+
+    it("should correct criteria to half bands and recompute the overall band", () => {
+      expect(
+        applyCorrections(
+          {
+            score: 7,
+            criteriaScores: {
+              taskResponse: 7,
+              coherence: 7,
+              lexical: 7.5,
+              grammar: 6.5,
+            },
+          },
+          {
+            lexical: { slope: 0.9, intercept: -0.2, count: 20 },
+            grammar: { slope: 1, intercept: -0.5, count: 20 },
+          },
+          criteriaKeys
+        )
+      ).toEqual({
+        score: 6.5,
+        criteriaScores: {
+          taskResponse: 7,
+          coherence: 7,
+          lexical: 6.5,
+          grammar: 6,
+        },
+      });
+    });
+
+    it("should keep corrected bands within 0-9", () => {
+      const corrected = applyCorrections(
+        {
+          score: 9,
+          criteriaScores: {
+            taskResponse: 9,
+            coherence: 9,
+            lexical: 9,
+            grammar: 9,
+          },
+        },
+        { grammar: { slope: 1, intercept: 1, count: 10 } },
+        criteriaKeys
+      );
+
+      expect(corrected.criteriaScores.grammar).toBe(9);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { CriteriaScores } from "../schemas/ielts-writing-submission.schema";
+import { CriterionKey } from "../grading-rubrics";
+import { computeOverallBand, roundToBand } from "../band-score";
+
+// Fewer graded essays than this leave a criterion uncorrected
+export const MIN_CALIBRATION_PAIRS = 5;
+
+export interface ScorePair {
+  official: number;
+  predicted: number;
+}
+
+export interface AgreementStats {
+  count: number;
+  meanAbsoluteError: number;
+  // Mean of predicted minus official; positive means the AI grades high
+  bias: number;
+  exactAgreement: number;
+  withinHalfBand: number;
+}
+
+/**
+ * official ≈ slope * predicted + intercept
+ */
+export interface LinearCorrection {
+  slope: number;
+  intercept: number;
+  count: number;
+}
+
+export type CriteriaCorrections = Partial<
+  Record<CriterionKey, LinearCorrection>
+>;
+
+export function computeAgreement(pairs: ScorePair[]): AgreementStats | null {
+  if (!pairs.length) {
+    return null;
+  }
+  const differences = pairs.map((pair) => pair.predicted - pair.official);
+  const share = (predicate: (difference: number) => boolean) =>
+    round(differences.filter(predicate).length / pairs.length);
+  return {
+    count: pairs.length,
+    meanAbsoluteError: round(
+      average(differences.map((difference) => Math.abs(difference)))
+    ),
+    bias: round(average(differences)),
+    exactAgreement: share((difference) => Math.abs(difference) < 0.01),
+    withinHalfBand: share((difference) => Math.abs(difference) <= 0.5),
+  };
+}
+
+/**
+ * Least-squares line mapping AI bands to official bands. When every AI band
+ * is the same the slope cannot be fitted, so only the bias is removed.
+ */
+export function fitLinearCorrection(
+  pairs: ScorePair[]
+): LinearCorrection | null {
+  if (pairs.length < MIN_CALIBRATION_PAIRS) {
+    return null;
+  }
+  const meanX = average(pairs.map((pair) => pair.predicted));
+  const meanY = average(pairs.map((pair) => pair.official));
+  let covariance = 0;
+  let variance = 0;
+  for (const { predicted, official } of pairs) {
+    covariance += (predicted - meanX) * (official - meanY);
+    variance += (predicted - meanX) ** 2;
+  }
+  const slope = variance ? covariance / variance : 1;
+  return {
+    slope: round(slope, 4),
+    intercept: round(meanY - slope * meanX, 4),
+    count: pairs.length,
+  };
+}
+
+/**
+ * Correct each criterion band, rounded to a band within 0-9, and recompute
+ * the overall band from the corrected criteria
+ */
+export function applyCorrections(
+  scores: { score: number; criteriaScores: CriteriaScores },
+  corrections: CriteriaCorrections,
+  criteriaKeys: CriterionKey[]
+): { score: number; criteriaScores: CriteriaScores } {
+  const criteriaScores = { ...scores.criteriaScores };
+  let corrected = false;
+  for (const key of criteriaKeys) {
+    const correction = corrections[key];
+    if (!correction || typeof criteriaScores[key] !== "number") {
+      continue;
+    }
+    criteriaScores[key] = roundToBand(
+      correction.slope * criteriaScores[key] + correction.intercept
+    );
+    corrected = true;
+  }
+  if (!corrected) {
+    return scores;
+  }
+
+  return {
+    score: computeOverallBand(criteriaScores, criteriaKeys),
+    criteriaScores,
+  };
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
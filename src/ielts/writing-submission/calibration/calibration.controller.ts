@@ -0,0 +1,152 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { CalibrationService } from "./calibration.service";
+import { ScoreCalibrationService } from "./score-calibration.service";
+import {
+  CreateBenchmarkEssayDto,
+  StartCalibrationRunDto,
+} from "../dto/calibration.dto";
+import { ObjectIdDto } from "../dto/ielts-writing-submission.dto";
+import { JwtAuthGuard } from "../../../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../../../auth/guards/roles.guard";
+import { Roles } from "../../../auth/decorators/roles.decorator";
+import { UserRole } from "../../../users/schemas/user.schema";
+
+@ApiTags("score-calibration")
+@Controller("score-calibration")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth("JWT-auth")
+export class CalibrationController {
+  constructor(
+    private readonly calibrationService: CalibrationService,
+    private readonly scoreCalibrationService: ScoreCalibrationService
+  ) {}
+
+  @Post("benchmarks")
+  @ApiOperation({
+    summary: "Add a benchmark essay with official bands (Admin only)",
+  })
+  @ApiResponse({ status: 201, description: "Benchmark essay created" })
+  @ApiResponse({ status: 400, description: "Invalid official bands" })
+  async createBenchmark(@Body() createDto: CreateBenchmarkEssayDto) {
+    const essay = await this.calibrationService.createBenchmark(createDto);
+    return {
+      message: "Benchmark essay created",
+      data: essay,
+    };
+  }
+
+  @Get("benchmarks")
+  @ApiOperation({ summary: "Get the benchmark essays (Admin only)" })
+  @ApiResponse({ status: 200, description: "Benchmark essays retrieved" })
+  async findBenchmarks() {
+    const essays = await this.calibrationService.findBenchmarks();
+    return { data: essays };
+  }
+
+  @Delete("benchmarks/:id")
+  @ApiOperation({ summary: "Delete a benchmark essay (Admin only)" })
+  @ApiResponse({ status: 200, description: "Benchmark essay deleted" })
+  @ApiResponse({ status: 404, description: "Benchmark essay not found" })
+  async removeBenchmark(@Param() params: ObjectIdDto) {
+    await this.calibrationService.removeBenchmark(params.id);
+    return { message: "Benchmark essay deleted" };
+  }
+
+  @Post("runs")
+  @ApiOperation({
+    summary:
+      "Grade the benchmark set with the current prompt and model (Admin only)",
+    description:
+      "Runs in the background. The finished run reports mean absolute error, per-criterion bias and exact/±0.5 agreement, and fits a linear correction per criterion.",
+  })
+  @ApiResponse({ status: 201, description: "Calibration run started" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - No benchmark essays or a run in progress",
+  })
+  async startRun(@Body() startDto: StartCalibrationRunDto, @Request() req) {
+    const run = await this.calibrationService.startRun(startDto, req.user.sub);
+    return {
+      message: "Calibration run started",
+      data: run,
+    };
+  }
+
+  @Get("runs")
+  @ApiOperation({ summary: "Get calibration runs (Admin only)" })
+  @ApiResponse({ status: 200, description: "Calibration runs retrieved" })
+  async findRuns() {
+    const runs = await this.calibrationService.findRuns();
+    return { data: runs };
+  }
+
+  @Get("active")
+  @ApiOperation({
+    summary: "Get the calibration applied at grading time (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Active calibration retrieved" })
+  async findActive() {
+    const run = await this.scoreCalibrationService.findActive();
+    return { data: run };
+  }
+
+  @Post("deactivate")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Stop correcting AI scores (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Calibration deactivated" })
+  async deactivate() {
+    await this.scoreCalibrationService.deactivate();
+    return { message: "Calibration deactivated" };
+  }
+
+  @Get("runs/:id")
+  @ApiOperation({
+    summary: "Get a calibration run with its results (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Calibration run retrieved" })
+  @ApiResponse({ status: 404, description: "Calibration run not found" })
+  async findRun(@Param() params: ObjectIdDto) {
+    const run = await this.calibrationService.findRun(params.id);
+    return { data: run };
+  }
+
+  @Post("runs/:id/activate")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Apply a run's corrections at grading time (Admin only)",
+    description:
+      "Criteria scores of newly graded submissions are corrected while the scores task uses the model the run was fitted on.",
+  })
+  @ApiResponse({ status: 200, description: "Calibration activated" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Run not completed or without corrections",
+  })
+  async activate(@Param() params: ObjectIdDto) {
+    const run = await this.scoreCalibrationService.activate(params.id);
+    return {
+      message: "Calibration activated",
+      data: run,
+    };
+  }
+}
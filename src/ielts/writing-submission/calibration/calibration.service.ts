@@ -0,0 +1,353 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  BenchmarkEssay,
+  BenchmarkEssayDocument,
+} from "../schemas/benchmark-essay.schema";
+import {
+  CalibrationReport,
+  CalibrationResult,
+  CalibrationRun,
+  CalibrationRunDocument,
+  CalibrationRunStatus,
+} from "../schemas/calibration-run.schema";
+import {
+  CreateBenchmarkEssayDto,
+  StartCalibrationRunDto,
+} from "../dto/calibration.dto";
+import { CriteriaScores } from "../schemas/ielts-writing-submission.schema";
+import { CriterionKey, getGradingRubric } from "../grading-rubrics";
+import { isValidBand } from "../band-score";
+import { OpenAIService } from "../openai.service";
+import { LLMService } from "../llm/llm.service";
+import { LLMTask } from "../llm/llm-provider.interface";
+import { PromptRegistryService } from "../prompts/prompt-registry.service";
+import {
+  CriteriaCorrections,
+  ScorePair,
+  applyCorrections,
+  computeAgreement,
+  fitLinearCorrection,
+} from "./calibration-stats";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+const CRITERIA: CriterionKey[] = [
+  "taskResponse",
+  "taskAchievement",
+  "coherence",
+  "lexical",
+  "grammar",
+];
+
+/**
+ * Benchmark essays with official bands, and calibration runs that grade
+ * them with the current scores prompt and model to measure how far the AI
+ * is from the official bands and fit per-criterion corrections.
+ *
+ * Configuration:
+ * - CALIBRATION_RUN_TIMEOUT_MS: a run with no graded essay for this long
+ *   is marked FAILED, so a new one can start (default 30 minutes)
+ */
+@Injectable()
+export class CalibrationService {
+  private readonly logger = new Logger(CalibrationService.name);
+
+  constructor(
+    @InjectModel(BenchmarkEssay.name)
+    private benchmarkEssayModel: Model<BenchmarkEssayDocument>,
+    @InjectModel(CalibrationRun.name)
+    private calibrationRunModel: Model<CalibrationRunDocument>,
+    private openAIService: OpenAIService,
+    private llmService: LLMService,
+    private promptRegistryService: PromptRegistryService,
+    private configService: ConfigService
+  ) {}
+
+  async createBenchmark(
+    createDto: CreateBenchmarkEssayDto
+  ): Promise<BenchmarkEssay> {
+    const rubric = getGradingRubric(createDto.taskType, createDto.variant);
+    const bands: [string, unknown][] = [
+      ["officialScore", createDto.officialScore],
+      ...rubric.criteriaKeys.map((key): [string, unknown] => [
+        key,
+        createDto.officialCriteriaScores?.[key],
+      ]),
+    ];
+    for (const [name, band] of bands) {
+      if (!isValidBand(band)) {
+        throw new BadRequestException(
+          `${name} must be a band from 0 to 9 in steps of 0.5`
+        );
+      }
+    }
+
+    return new this.benchmarkEssayModel(createDto).save();
+  }
+
+  async findBenchmarks(): Promise<BenchmarkEssay[]> {
+    return this.benchmarkEssayModel.find().sort({ createdAt: -1 }).exec();
+  }
+
+  async removeBenchmark(id: ObjectIdType): Promise<BenchmarkEssay> {
+    const essay = await this.benchmarkEssayModel.findByIdAndDelete(id).exec();
+    if (!essay) {
+      throw new NotFoundException("Benchmark essay not found");
+    }
+    return essay;
+  }
+
+  /**
+   * Start grading the active benchmark essays. Essays are graded one after
+   * another in the background; poll the run for the report.
+   */
+  async startRun(
+    startDto: StartCalibrationRunDto,
+    userId: ObjectIdType
+  ): Promise<CalibrationRun> {
+    await this.failStaleRuns();
+
+    const filter: Record<string, any> = { isActive: true };
+    if (startDto.taskType) {
+      filter.taskType = startDto.taskType;
+    }
+    const essays = await this.benchmarkEssayModel.find(filter).exec();
+    if (!essays.length) {
+      throw new BadRequestException("There are no benchmark essays to grade");
+    }
+
+    const promptVersions: Record<string, number> = {};
+    for (const essay of essays) {
+      const name = getGradingRubric(essay.taskType, essay.variant).prompts
+        .scores;
+      if (!(name in promptVersions)) {
+        promptVersions[name] = (
+          await this.promptRegistryService.getActive(name)
+        ).version;
+      }
+    }
+    const [route] = this.llmService.getRoutes(LLMTask.SCORES);
+
+    let run: CalibrationRunDocument;
+    try {
+      run = await new this.calibrationRunModel({
+        model: `${route.provider}/${route.model}`,
+        promptVersions,
+        taskType: startDto.taskType,
+        essayCount: essays.length,
+        startedBy: userId,
+        heartbeatAt: new Date(),
+      }).save();
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new BadRequestException(
+          "A calibration run is already in progress"
+        );
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Calibration run ${run._id} started over ${essays.length} essays with ${run.model}`
+    );
+    this.executeRun(run, essays).catch(async (error) => {
+      this.logger.error(`Calibration run ${run._id} failed:`, error);
+      await this.calibrationRunModel
+        .updateOne(
+          { _id: run._id, status: CalibrationRunStatus.RUNNING },
+          {
+            status: CalibrationRunStatus.FAILED,
+            error: error?.message || String(error),
+          }
+        )
+        .exec();
+    });
+    return run;
+  }
+
+  async findRuns(): Promise<CalibrationRun[]> {
+    await this.failStaleRuns();
+    return this.calibrationRunModel
+      .find()
+      .select("-results")
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findRun(id: ObjectIdType): Promise<CalibrationRun> {
+    await this.failStaleRuns();
+    const run = await this.calibrationRunModel.findById(id).exec();
+    if (!run) {
+      throw new NotFoundException("Calibration run not found");
+    }
+    return run;
+  }
+
+  private async executeRun(
+    run: CalibrationRunDocument,
+    essays: BenchmarkEssayDocument[]
+  ): Promise<void> {
+    const results: CalibrationResult[] = [];
+    for (const essay of essays) {
+      const result: CalibrationResult = {
+        essay: essay._id as ObjectIdType,
+        taskType: essay.taskType,
+        variant: essay.variant,
+        officialScore: essay.officialScore,
+        officialCriteriaScores: essay.officialCriteriaScores,
+      };
+      try {
+        Object.assign(result, await this.openAIService.scoreEssay(essay));
+        // Corrections are fitted for the run's model only
+        if (result.model !== run.model) {
+          result.error = `Graded by fallback model ${result.model}`;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Calibration run ${run._id}: essay ${essay._id} could not be graded: ${error.message}`
+        );
+        result.error = error.message;
+      }
+      results.push(result);
+      const updated = await this.calibrationRunModel
+        .findOneAndUpdate(
+          { _id: run._id, status: CalibrationRunStatus.RUNNING },
+          { $push: { results: result }, $set: { heartbeatAt: new Date() } }
+        )
+        .exec();
+      if (!updated) {
+        this.logger.warn(
+          `Calibration run ${run._id} is no longer running, stopping`
+        );
+        return;
+      }
+    }
+
+    const graded = results.filter((result) => !result.error);
+    const corrections: CriteriaCorrections = {};
+    for (const key of CRITERIA) {
+      const correction = fitLinearCorrection(criterionPairs(graded, key));
+      if (correction) {
+        corrections[key] = correction;
+      }
+    }
+
+    const calibrated = graded.map((result) => ({
+      ...result,
+      ...applyCorrections(
+        { score: result.score, criteriaScores: result.criteriaScores },
+        corrections,
+        getGradingRubric(result.taskType, result.variant).criteriaKeys
+      ),
+    }));
+
+    await this.calibrationRunModel
+      .updateOne(
+        { _id: run._id, status: CalibrationRunStatus.RUNNING },
+        {
+          status: CalibrationRunStatus.COMPLETED,
+          report: buildReport(graded),
+          calibratedReport: buildReport(calibrated),
+          corrections,
+          completedAt: new Date(),
+        }
+      )
+      .exec();
+    this.logger.log(
+      `Calibration run ${run._id} completed: ${graded.length}/${essays.length} essays graded`
+    );
+  }
+
+  /**
+   * Fail RUNNING runs whose process stopped grading, such as after a
+   * restart, so they do not block new runs
+   */
+  private async failStaleRuns(): Promise<void> {
+    const staleBefore = new Date(
+      Date.now() - this.getNumber("CALIBRATION_RUN_TIMEOUT_MS", 1800000)
+    );
+    const result = await this.calibrationRunModel
+      .updateMany(
+        {
+          status: CalibrationRunStatus.RUNNING,
+          // Runs started before heartbeats were recorded have none
+          $or: [
+            { heartbeatAt: { $lt: staleBefore } },
+            {
+              heartbeatAt: { $exists: false },
+              createdAt: { $lt: staleBefore },
+            },
+          ],
+        },
+        {
+          status: CalibrationRunStatus.FAILED,
+          error: "The run stopped before grading every essay",
+        }
+      )
+      .exec();
+    if (result.modifiedCount) {
+      this.logger.warn(
+        `Marked ${result.modifiedCount} abandoned calibration run(s) as failed`
+      );
+    }
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key), 10);
+    return Number.isNaN(value) ? defaultValue : value;
+  }
+}
+
+function criterionPairs(
+  results: {
+    criteriaScores?: CriteriaScores;
+    officialCriteriaScores: CriteriaScores;
+  }[],
+  key: CriterionKey
+): ScorePair[] {
+  return results
+    .filter(
+      (result) =>
+        typeof result.criteriaScores?.[key] === "number" &&
+        typeof result.officialCriteriaScores?.[key] === "number"
+    )
+    .map((result) => ({
+      official: result.officialCriteriaScores[key],
+      predicted: result.criteriaScores[key],
+    }));
+}
+
+function buildReport(
+  results: {
+    score?: number;
+    criteriaScores?: CriteriaScores;
+    officialScore: number;
+    officialCriteriaScores: CriteriaScores;
+  }[]
+): CalibrationReport {
+  const criteria: CalibrationReport["criteria"] = {};
+  for (const key of CRITERIA) {
+    const stats = computeAgreement(criterionPairs(results, key));
+    if (stats) {
+      criteria[key] = stats;
+    }
+  }
+  return {
+    overall: computeAgreement(
+      results
+        .filter((result) => typeof result.score === "number")
+        .map((result) => ({
+          official: result.officialScore,
+          predicted: result.score,
+        }))
+    ),
+    criteria,
+  };
+}
@@ -0,0 +1,105 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  CalibrationRun,
+  CalibrationRunDocument,
+  CalibrationRunStatus,
+} from "../schemas/calibration-run.schema";
+import { CriteriaScores } from "../schemas/ielts-writing-submission.schema";
+import { GradingRubric } from "../grading-rubrics";
+import { applyCorrections } from "./calibration-stats";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+/**
+ * Applies the active calibration run's per-criterion corrections to AI
+ * scores at grading time. Corrections are only valid for the model they
+ * were fitted on, so they are skipped when the scores came from another
+ * model, such as a fallback route.
+ */
+@Injectable()
+export class ScoreCalibrationService {
+  private readonly logger = new Logger(ScoreCalibrationService.name);
+
+  constructor(
+    @InjectModel(CalibrationRun.name)
+    private calibrationRunModel: Model<CalibrationRunDocument>
+  ) {}
+
+  /**
+   * `model` is the "provider/model" route that produced the scores
+   */
+  async apply<T extends { score: number; criteriaScores: CriteriaScores }>(
+    scores: T,
+    rubric: GradingRubric,
+    model: string
+  ): Promise<T> {
+    const run = await this.calibrationRunModel
+      .findOne({ isActive: true })
+      .exec();
+    if (!run) {
+      return scores;
+    }
+
+    if (model !== run.model) {
+      this.logger.warn(
+        `Calibration ${run._id} was fitted on ${run.model}; these scores came from ${model}, so they are not corrected`
+      );
+      return scores;
+    }
+
+    return {
+      ...scores,
+      ...applyCorrections(scores, run.corrections, rubric.criteriaKeys),
+    };
+  }
+
+  async findActive(): Promise<CalibrationRun | null> {
+    return this.calibrationRunModel
+      .findOne({ isActive: true })
+      .select("-results")
+      .exec();
+  }
+
+  /**
+   * Start correcting grades with a completed run's corrections
+   */
+  async activate(id: ObjectIdType): Promise<CalibrationRun> {
+    const run = await this.calibrationRunModel.findById(id).exec();
+    if (!run) {
+      throw new NotFoundException("Calibration run not found");
+    }
+    if (run.status !== CalibrationRunStatus.COMPLETED) {
+      throw new BadRequestException("Only completed runs can be activated");
+    }
+    if (!Object.keys(run.corrections || {}).length) {
+      throw new BadRequestException(
+        "This run has too few graded essays to fit any correction"
+      );
+    }
+
+    await this.calibrationRunModel
+      .updateMany({ isActive: true }, { isActive: false })
+      .exec();
+    run.isActive = true;
+    run.activatedAt = new Date();
+    await run.save();
+
+    this.logger.log(`Calibration run ${run._id} activated for ${run.model}`);
+    return run;
+  }
+
+  /**
+   * Grade with uncorrected AI scores again
+   */
+  async deactivate(): Promise<void> {
+    await this.calibrationRunModel
+      .updateMany({ isActive: true }, { isActive: false })
+      .exec();
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ObjectIdType } from "../../../types/object-id.type";
+import { IELTSWritingSubmissionType } from "../schemas/ielts-writing-submission.schema";
+import { IELTSWritingVariant } from "../../writing/schemas/ielts-writing.schema";
+
+export class OfficialCriteriaScoresDto {
+  @ApiPropertyOptional({ description: "Task Response (Task 2)", example: 6 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  @IsOptional()
+  readonly taskResponse?: number;
+
+  @ApiPropertyOptional({ description: "Task Achievement (Task 1)", example: 6 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  @IsOptional()
+  readonly taskAchievement?: number;
+
+  @ApiProperty({ description: "Coherence and Cohesion", example: 6.5 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  readonly coherence: number;
+
+  @ApiProperty({ description: "Lexical Resource", example: 6 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  readonly lexical: number;
+
+  @ApiProperty({
+    description: "Grammatical Range and Accuracy",
+    example: 6,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  readonly grammar: number;
+}
+
+export class CreateBenchmarkEssayDto {
+  @ApiPropertyOptional({
+    description: "Writing task the essay answers",
+    example: "68beebafa02d9604a4cadcd8",
+  })
+  @IsString()
+  @IsOptional()
+  readonly writing?: ObjectIdType;
+
+  @ApiPropertyOptional({
+    description: "Task question, when the essay has no stored writing task",
+    example:
+      "Some people think technology has made life more complicated. Discuss.",
+  })
+  @IsString()
+  @IsOptional()
+  readonly customWritingQuestion?: string;
+
+  @ApiProperty({ description: "Essay text" })
+  @IsString()
+  @IsNotEmpty()
+  readonly body: string;
+
+  @ApiPropertyOptional({
+    enum: IELTSWritingSubmissionType,
+    default: IELTSWritingSubmissionType.Task2,
+  })
+  @IsEnum(IELTSWritingSubmissionType)
+  @IsOptional()
+  readonly taskType?: IELTSWritingSubmissionType;
+
+  @ApiPropertyOptional({
+    enum: IELTSWritingVariant,
+    default: IELTSWritingVariant.ACADEMIC,
+  })
+  @IsEnum(IELTSWritingVariant)
+  @IsOptional()
+  readonly variant?: IELTSWritingVariant;
+
+  @ApiProperty({ description: "Official overall band", example: 6 })
+  @IsNumber()
+  @Min(0)
+  @Max(9)
+  readonly officialScore: number;
+
+  @ApiProperty({
+    description: "Official band per criterion",
+    type: OfficialCriteriaScoresDto,
+  })
+  @ValidateNested()
+  @Type(() => OfficialCriteriaScoresDto)
+  readonly officialCriteriaScores: OfficialCriteriaScoresDto;
+
+  @ApiPropertyOptional({
+    description: "Where the official scores come from",
+    example: "Examiner-marked sample, Cambridge IELTS 17",
+  })
+  @IsString()
+  @IsOptional()
+  readonly source?: string;
+}
+
+export class StartCalibrationRunDto {
+  @ApiPropertyOptional({
+    description: "Only grade benchmark essays of this task type",
+    enum: IELTSWritingSubmissionType,
+  })
+  @IsEnum(IELTSWritingSubmissionType)
+  @IsOptional()
+  readonly taskType?: IELTSWritingSubmissionType;
+}
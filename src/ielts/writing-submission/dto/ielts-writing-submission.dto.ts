@@ -1,17 +1,29 @@
 import {
+  IsArray,
+  IsBoolean,
   IsEnum,
+  IsIn,
+  IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
+  Min,
   ValidateIf,
 } from "class-validator";
-import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ApiProperty, ApiPropertyOptional, PickType } from "@nestjs/swagger";
 import { ObjectIdType } from "../../../types/object-id.type";
 import {
   IELTSWritingSubmissionStatus,
+  IELTSWritingSubmissionType,
   IELTSWritingTargetScore,
   IELTSWritingTopicEnum,
 } from "../schemas/ielts-writing-submission.schema";
+import { IELTSWritingVariant } from "../../writing/schemas/ielts-writing.schema";
+
+// Drafts are only created with `draft: true` and left with `POST :id/submit`
+const UPDATABLE_STATUSES = Object.values(IELTSWritingSubmissionStatus).filter(
+  (status) => status !== IELTSWritingSubmissionStatus.DRAFT
+);
 
 export class CreateIELTSWritingSubmissionDto {
   @ApiPropertyOptional({
@@ -57,6 +69,53 @@ export class CreateIELTSWritingSubmissionDto {
   })
   @IsEnum(IELTSWritingTargetScore)
   readonly targetScore: IELTSWritingTargetScore;
+
+  @ApiPropertyOptional({
+    description:
+      "Task type of a CUSTOM question. GENERATED submissions use the type of the writing task",
+    enum: IELTSWritingSubmissionType,
+    default: IELTSWritingSubmissionType.Task2,
+  })
+  @IsEnum(IELTSWritingSubmissionType)
+  @IsOptional()
+  readonly taskType?: IELTSWritingSubmissionType;
+
+  @ApiPropertyOptional({
+    description:
+      "Academic or General Training, for CUSTOM Task 1 questions. GENERATED submissions use the variant of the writing task",
+    enum: IELTSWritingVariant,
+    default: IELTSWritingVariant.ACADEMIC,
+  })
+  @IsEnum(IELTSWritingVariant)
+  @IsOptional()
+  readonly variant?: IELTSWritingVariant;
+
+  @ApiPropertyOptional({
+    description: "Time spent writing, in seconds",
+    example: 2280,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly timeSpentSeconds?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Save as a draft: no submission credit is used and it is not analyzed until submitted",
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  readonly draft?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Queue AI analysis right after the submission is created (defaults to ANALYSIS_AUTO_ENQUEUE)",
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  readonly analyze?: boolean;
 }
 
 export class UpdateIELTSWritingSubmissionDto {
@@ -87,9 +146,9 @@ export class UpdateIELTSWritingSubmissionDto {
 
   @ApiPropertyOptional({
     description: "Submission status",
-    enum: IELTSWritingSubmissionStatus,
+    enum: UPDATABLE_STATUSES,
   })
-  @IsEnum(IELTSWritingSubmissionStatus)
+  @IsIn(UPDATABLE_STATUSES)
   @IsOptional()
   readonly status?: IELTSWritingSubmissionStatus;
 
@@ -102,9 +161,53 @@ export class UpdateIELTSWritingSubmissionDto {
   readonly targetScore?: IELTSWritingTargetScore;
 }
 
+export class ReviseIELTSWritingSubmissionDto extends PickType(
+  CreateIELTSWritingSubmissionDto,
+  ["body", "timeSpentSeconds", "draft", "analyze"] as const
+) {}
+
+export class SubmitDraftDto extends PickType(CreateIELTSWritingSubmissionDto, [
+  "analyze",
+] as const) {}
+
+export class PrecheckIELTSWritingSubmissionDto extends PickType(
+  CreateIELTSWritingSubmissionDto,
+  ["writing", "body", "taskType", "variant", "timeSpentSeconds"] as const
+) {}
+
+export class ProgressQueryDto {
+  @ApiPropertyOptional({
+    description: "Submissions per moving average (default 3)",
+    example: 3,
+  })
+  @IsOptional()
+  readonly window?: string;
+
+  @ApiPropertyOptional({
+    description: "Only include one task type",
+    enum: IELTSWritingSubmissionType,
+  })
+  @IsEnum(IELTSWritingSubmissionType)
+  @IsOptional()
+  readonly taskType?: IELTSWritingSubmissionType;
+}
+
 export class ObjectIdDto {
   @ApiProperty({ description: "Object ID" })
   @IsString()
   @IsNotEmpty()
   readonly id: string;
 }
+
+export class QueueAnalysisDto {
+  @ApiPropertyOptional({
+    description: "Target bands to generate improved versions for",
+    enum: IELTSWritingTargetScore,
+    isArray: true,
+    example: [IELTSWritingTargetScore.BAND_SEVEN],
+  })
+  @IsArray()
+  @IsEnum(IELTSWritingTargetScore, { each: true })
+  @IsOptional()
+  readonly improvedBands?: IELTSWritingTargetScore[];
+}
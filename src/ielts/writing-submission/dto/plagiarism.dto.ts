@@ -0,0 +1,27 @@
+import { IsEnum, IsNumber, IsOptional, Max, Min } from "class-validator";
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { PlagiarismAction } from "../schemas/plagiarism-settings.schema";
+
+export class UpdatePlagiarismSettingsDto {
+  @ApiPropertyOptional({
+    description:
+      "warn: grade flagged submissions with a warning in the feedback; block: do not grade them until an admin dismisses the flag",
+    enum: PlagiarismAction,
+    example: PlagiarismAction.WARN,
+  })
+  @IsEnum(PlagiarismAction)
+  @IsOptional()
+  readonly action?: PlagiarismAction;
+
+  @ApiPropertyOptional({
+    description: "Similarity percentage at which a submission is flagged",
+    minimum: 1,
+    maximum: 100,
+    example: 70,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  readonly threshold?: number;
+}
@@ -0,0 +1,71 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { PromptVariableType } from "../schemas/prompt-template.schema";
+
+export class PromptVariableDto {
+  @ApiProperty({ description: "Placeholder name", example: "essay" })
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+
+  @ApiPropertyOptional({
+    enum: PromptVariableType,
+    default: PromptVariableType.STRING,
+  })
+  @IsEnum(PromptVariableType)
+  @IsOptional()
+  readonly type?: PromptVariableType;
+
+  @ApiPropertyOptional({ default: true })
+  @IsBoolean()
+  @IsOptional()
+  readonly required?: boolean;
+}
+
+export class CreatePromptTemplateVersionDto {
+  @ApiPropertyOptional({ description: "System message", default: "" })
+  @IsString()
+  @IsOptional()
+  readonly system?: string;
+
+  @ApiProperty({
+    description: "User message with {{variable}} placeholders",
+    example: 'Score this essay:\n"""{{essay}}"""',
+  })
+  @IsString()
+  @IsNotEmpty()
+  readonly template: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Variables used by the template. Defaults to the variables of the active version",
+    type: [PromptVariableDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PromptVariableDto)
+  @IsOptional()
+  readonly variables?: PromptVariableDto[];
+
+  @ApiPropertyOptional({ description: "What changed in this version" })
+  @IsString()
+  @IsOptional()
+  readonly description?: string;
+
+  @ApiPropertyOptional({
+    description: "Make this version active straight away",
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  readonly activate?: boolean;
+}
@@ -0,0 +1,51 @@
+import {
+  AIFeedback,
+  CriteriaScores,
+  IELTSWritingSubmission,
+} from "./schemas/ielts-writing-submission.schema";
+
+/**
+ * The examiner's scores when the submission has been reviewed, otherwise
+ * the AI scores
+ */
+export function getEffectiveScores(
+  submission: Pick<
+    IELTSWritingSubmission,
+    "score" | "criteriaScores" | "examinerReview"
+  >
+): {
+  score?: number;
+  criteriaScores?: CriteriaScores;
+  scoreSource: "examiner" | "ai";
+} {
+  if (submission.examinerReview) {
+    return {
+      score: submission.examinerReview.score,
+      criteriaScores: submission.examinerReview.criteriaScores,
+      scoreSource: "examiner",
+    };
+  }
+  return {
+    score: submission.score,
+    criteriaScores: submission.criteriaScores,
+    scoreSource: "ai",
+  };
+}
+
+/**
+ * The AI feedback without the inline feedback entries the examiner removed
+ */
+export function getEffectiveFeedback(
+  submission: Pick<IELTSWritingSubmission, "aiFeedback" | "examinerReview">
+): AIFeedback | undefined {
+  const removed = new Set(submission.examinerReview?.removedFeedback || []);
+  if (!submission.aiFeedback?.inlineFeedback || !removed.size) {
+    return submission.aiFeedback;
+  }
+  return {
+    ...submission.aiFeedback,
+    inlineFeedback: submission.aiFeedback.inlineFeedback.filter(
+      (_, index) => !removed.has(index)
+    ),
+  };
+}
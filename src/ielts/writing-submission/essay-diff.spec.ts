@@ -0,0 +1,149 @@
+import { diffEssay, diffWords } from "./essay-diff";
+
+describe("essay diff", () => {
+  describe("diffWords", () => {
+    it("should return a single equal segment for identical text", () => {
+      expect(
+        diffWords("Technology saves time.", "Technology saves time.")
+      ).toEqual([
+        {
+          type: "equal",
+          original: "Technology saves time.",
+          improved: "Technology saves time.",
+        },
+      ]);
+    });
+
+    it("should merge adjacent deletions and insertions into a replacement", () => {
+      expect(
+        diffWords(
+          "There are a lot of benefits.",
+          "There are numerous benefits."
+        )
+      ).toEqual([
+        { type: "equal", original: "There are", improved: "There are" },
+        { type: "replace", original: "a lot of", improved: "numerous" },
+        { type: "equal", original: "benefits.", improved: "benefits." },
+      ]);
+    });
+
+    it("should report pure insertions and deletions", () => {
+      expect(diffWords("Cars pollute.", "Cars seriously pollute.")).toEqual([
+        { type: "equal", original: "Cars", improved: "Cars" },
+        { type: "insert", improved: "seriously" },
+        { type: "equal", original: "pollute.", improved: "pollute." },
+      ]);
+      expect(diffWords("It is very good.", "It is good.")).toEqual([
+        { type: "equal", original: "It is", improved: "It is" },
+        { type: "delete", original: "very" },
+        { type: "equal", original: "good.", improved: "good." },
+      ]);
+    });
+
+    it("should rebuild both texts from the segments", () => {
+      const original = "Nowadays people don't read books because of phones.";
+      const improved =
+        "In recent years, people do not read books as often because of smartphones.";
+      const segments = diffWords(original, improved);
+
+      const join = (side: "original" | "improved") =>
+        segments
+          .map((segment) => segment[side])
+          .filter(Boolean)
+          .join(" ");
+      expect(join("original")).toBe(original);
+      expect(join("improved")).toBe(improved);
+    });
+  });
+
+  describe("diffEssay", () => {
+    const body = `Nowadays technology is very important.
+
+It has a lot of benefits for students.
+
+In conclusion, technology is good.`;
+
+    const improvedVersion = {
+      introduction: "In recent years, technology has become essential.",
+      body: ["It offers a great deal of benefits for students."],
+      conclusion: "In conclusion, technology is beneficial.",
+      criteriaResponse: {
+        taskResponse: "",
+        coherence: "",
+        lexical: "",
+        grammar: "",
+      },
+      inlineFeedback: [
+        {
+          textsnippet: "has become essential",
+          category: "Lexical Resource",
+          explanation: "Stronger verb phrase.",
+        },
+      ],
+    };
+
+    const aiFeedback = {
+      mistakes: [],
+      suggestions: [],
+      inlineFeedback: [
+        {
+          originalText: "a lot of",
+          category: "Lexical Resource",
+          explanation: "Informal quantifier.",
+          suggestion: "a great deal of",
+          suggestionExplanation: "More academic.",
+        },
+      ],
+    };
+
+    it("should align paragraphs by role", () => {
+      const diff = diffEssay(body, improvedVersion, aiFeedback);
+
+      expect(diff.paragraphs.map((paragraph) => paragraph.role)).toEqual([
+        "introduction",
+        "body",
+        "conclusion",
+      ]);
+      expect(diff.paragraphs[1].original).toBe(
+        "It has a lot of benefits for students."
+      );
+      expect(diff.paragraphs[1].improved).toBe(improvedVersion.body[0]);
+    });
+
+    it("should link changes to the matching inline feedback", () => {
+      const diff = diffEssay(body, improvedVersion, aiFeedback);
+
+      const quantifier = diff.paragraphs[1].segments.find(
+        (segment) => segment.feedback?.source === "aiFeedback"
+      );
+      expect(quantifier).toMatchObject({
+        type: "replace",
+        original: "lot",
+        improved: "great deal",
+        feedback: { index: 0, category: "Lexical Resource" },
+      });
+
+      const linked = diff.paragraphs[0].segments.find(
+        (segment) => segment.feedback?.source === "improvedVersion"
+      );
+      expect(linked.improved).toContain("has become essential");
+    });
+
+    it("should report a paragraph missing from one side in full", () => {
+      const diff = diffEssay(body, {
+        ...improvedVersion,
+        body: [...improvedVersion.body, "Teachers also benefit."],
+      });
+
+      expect(diff.paragraphs[2]).toMatchObject({
+        role: "body",
+        original: "",
+        segments: [{ type: "insert", improved: "Teachers also benefit." }],
+      });
+      expect(diff.summary.insertions).toBeGreaterThan(0);
+      expect(diff.summary.wordsAdded).toBeGreaterThan(
+        diff.summary.wordsRemoved
+      );
+    });
+  });
+});
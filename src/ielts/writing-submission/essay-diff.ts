@@ -0,0 +1,285 @@
+import { splitParagraphs } from "./essay-metrics";
+import {
+  AIFeedback,
+  ImprovedVersion,
+} from "./schemas/ielts-writing-submission.schema";
+
+// Paragraph pairs larger than this (tokens x tokens) are reported as a
+// single replacement instead of being diffed word by word
+const MAX_DIFF_CELLS = 250000;
+
+export type DiffSegmentType = "equal" | "insert" | "delete" | "replace";
+
+export type ParagraphRole = "introduction" | "body" | "conclusion";
+
+export interface DiffFeedbackLink {
+  source: "aiFeedback" | "improvedVersion";
+  index: number;
+  category: string;
+  explanation: string;
+  suggestion?: string;
+}
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  original?: string;
+  improved?: string;
+  feedback?: DiffFeedbackLink;
+}
+
+export interface ParagraphDiff {
+  index: number;
+  role: ParagraphRole;
+  original: string;
+  improved: string;
+  segments: DiffSegment[];
+}
+
+export interface EssayDiff {
+  paragraphs: ParagraphDiff[];
+  summary: {
+    insertions: number;
+    deletions: number;
+    replacements: number;
+    wordsAdded: number;
+    wordsRemoved: number;
+  };
+}
+
+/**
+ * Word-level diff of two texts using the longest common subsequence of
+ * their whitespace-separated tokens. Adjacent deletions and insertions are
+ * merged into a single replacement.
+ */
+export function diffWords(original: string, improved: string): DiffSegment[] {
+  const a = tokenize(original);
+  const b = tokenize(improved);
+  if (!a.length && !b.length) {
+    return [];
+  }
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ type: "replace", original: a.join(" "), improved: b.join(" ") }];
+  }
+
+  // lcs[i][j]: length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { type: "equal" | "insert" | "delete"; token: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: "equal", token: a[i] });
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lcs[i][j + 1] > lcs[i + 1][j])
+    ) {
+      ops.push({ type: "insert", token: b[j] });
+      j++;
+    } else {
+      ops.push({ type: "delete", token: a[i] });
+      i++;
+    }
+  }
+
+  return mergeOps(ops);
+}
+
+/**
+ * Align the original essay with an improved version paragraph by paragraph
+ * (introduction, body paragraphs in order, conclusion) and diff each pair
+ */
+export function diffEssay(
+  body: string,
+  improvedVersion: ImprovedVersion,
+  aiFeedback?: AIFeedback
+): EssayDiff {
+  const originalParagraphs = splitParagraphs(body);
+  const improvedBody = (improvedVersion.body || []).filter(Boolean);
+  const originalBody = originalParagraphs.slice(1, -1);
+
+  const pairs: { role: ParagraphRole; original: string; improved: string }[] = [
+    {
+      role: "introduction",
+      original: originalParagraphs[0] || "",
+      improved: improvedVersion.introduction || "",
+    },
+  ];
+  for (
+    let index = 0;
+    index < Math.max(originalBody.length, improvedBody.length);
+    index++
+  ) {
+    pairs.push({
+      role: "body",
+      original: originalBody[index] || "",
+      improved: improvedBody[index] || "",
+    });
+  }
+  pairs.push({
+    role: "conclusion",
+    original:
+      originalParagraphs.length > 1
+        ? originalParagraphs[originalParagraphs.length - 1]
+        : "",
+    improved: improvedVersion.conclusion || "",
+  });
+
+  const paragraphs = pairs
+    .filter((pair) => pair.original || pair.improved)
+    .map((pair, index) => ({
+      index,
+      ...pair,
+      segments: diffWords(pair.original, pair.improved).map((segment) =>
+        segment.type === "equal"
+          ? segment
+          : linkFeedback(segment, aiFeedback, improvedVersion)
+      ),
+    }));
+
+  return { paragraphs, summary: summarize(paragraphs) };
+}
+
+function tokenize(text: string): string[] {
+  return (text || "").match(/\S+/g) || [];
+}
+
+function mergeOps(
+  ops: { type: "equal" | "insert" | "delete"; token: string }[]
+): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === "equal") {
+      const tokens: string[] = [];
+      while (index < ops.length && ops[index].type === "equal") {
+        tokens.push(ops[index++].token);
+      }
+      const text = tokens.join(" ");
+      segments.push({ type: "equal", original: text, improved: text });
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type !== "equal") {
+      (ops[index].type === "delete" ? removed : added).push(ops[index].token);
+      index++;
+    }
+    if (removed.length && added.length) {
+      segments.push({
+        type: "replace",
+        original: removed.join(" "),
+        improved: added.join(" "),
+      });
+    } else if (removed.length) {
+      segments.push({ type: "delete", original: removed.join(" ") });
+    } else {
+      segments.push({ type: "insert", improved: added.join(" ") });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Attach the inline feedback entry that explains a change: feedback on the
+ * original wording first, then notes on the improved version's wording
+ */
+function linkFeedback(
+  segment: DiffSegment,
+  aiFeedback: AIFeedback | undefined,
+  improvedVersion: ImprovedVersion
+): DiffSegment {
+  const feedbackIndex = (aiFeedback?.inlineFeedback || []).findIndex(
+    (entry) =>
+      overlaps(segment.original, entry.originalText) ||
+      overlaps(segment.improved, entry.suggestion)
+  );
+  if (feedbackIndex !== -1) {
+    const entry = aiFeedback.inlineFeedback[feedbackIndex];
+    return {
+      ...segment,
+      feedback: {
+        source: "aiFeedback",
+        index: feedbackIndex,
+        category: entry.category,
+        explanation: entry.explanation,
+        suggestion: entry.suggestion,
+      },
+    };
+  }
+
+  const noteIndex = (improvedVersion.inlineFeedback || []).findIndex((entry) =>
+    overlaps(segment.improved, entry.textsnippet)
+  );
+  if (noteIndex !== -1) {
+    const entry = improvedVersion.inlineFeedback[noteIndex];
+    return {
+      ...segment,
+      feedback: {
+        source: "improvedVersion",
+        index: noteIndex,
+        category: entry.category,
+        explanation: entry.explanation,
+      },
+    };
+  }
+  return segment;
+}
+
+/**
+ * Whether either text contains the other, ignoring case, punctuation at the
+ * edges and very short fragments
+ */
+function overlaps(text?: string, phrase?: string): boolean {
+  const normalize = (value: string) =>
+    value
+      .toLowerCase()
+      .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, "")
+      .replace(/\s+/g, " ");
+  if (!text || !phrase) {
+    return false;
+  }
+  const a = normalize(text);
+  const b = normalize(phrase);
+  if (a.length < 3 || b.length < 3) {
+    return false;
+  }
+  return a.includes(b) || b.includes(a);
+}
+
+function summarize(paragraphs: ParagraphDiff[]): EssayDiff["summary"] {
+  const summary = {
+    insertions: 0,
+    deletions: 0,
+    replacements: 0,
+    wordsAdded: 0,
+    wordsRemoved: 0,
+  };
+  for (const segment of paragraphs.flatMap((paragraph) => paragraph.segments)) {
+    if (segment.type === "insert") {
+      summary.insertions++;
+    } else if (segment.type === "delete") {
+      summary.deletions++;
+    } else if (segment.type === "replace") {
+      summary.replacements++;
+    }
+    if (segment.type !== "equal") {
+      summary.wordsAdded += tokenize(segment.improved).length;
+      summary.wordsRemoved += tokenize(segment.original).length;
+    }
+  }
+  return summary;
+}
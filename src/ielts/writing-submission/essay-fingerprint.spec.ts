@@ -0,0 +1,29 @@
+import { hashContent, normalizeEssayText } from "./essay-fingerprint";
+
+const ESSAY = `Nowadays a lot of people believe that technology has made our lives very easy. In my opinion, this is mostly true.
+
+Firstly, technology saves time. For example, online banking means people don't have to queue.
+
+In conclusion, technology is good for society, but people should use it carefully.`;
+
+describe("essay fingerprint", () => {
+  describe("normalizeEssayText", () => {
+    it("should ignore spacing, line endings and curly quotes", () => {
+      const reformatted = `  Nowadays a lot of  people believe that technology has made our lives very easy. In my opinion, this is mostly true.\r\n\r\n\r\nFirstly, technology saves time.   For example, online banking means people don’t have to queue.\n \nIn conclusion, technology is good for society, but people should use it carefully.\n`;
+
+      expect(normalizeEssayText(reformatted)).toBe(normalizeEssayText(ESSAY));
+      expect(hashContent(normalizeEssayText(reformatted))).toBe(
+        hashContent(normalizeEssayText(ESSAY))
+      );
+    });
+
+    it("should keep case, punctuation and paragraphs", () => {
+      expect(normalizeEssayText(ESSAY.toLowerCase())).not.toBe(
+        normalizeEssayText(ESSAY)
+      );
+      expect(normalizeEssayText(ESSAY.replace(/\n\n/g, " "))).not.toBe(
+        normalizeEssayText(ESSAY)
+      );
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { createHash } from "crypto";
+import { splitParagraphs } from "./essay-metrics";
+
+// Words per shingle when comparing essays for overlapping text
+const SHINGLE_SIZE = 3;
+
+/**
+ * Essay text without formatting noise: Unicode compatibility forms, curly
+ * quotes, line endings, repeated spaces and blank lines. Case and
+ * punctuation are kept, since they are graded.
+ */
+export function normalizeEssayText(text: string): string {
+  return splitParagraphs(
+    (text || "")
+      .normalize("NFKC")
+      .replace(/\r\n?/g, "\n")
+      .replace(/[‘’]/g, "'")
+      .replace(/[“”]/g, '"')
+  )
+    .map((paragraph) => paragraph.replace(/\s+/g, " "))
+    .join("\n\n");
+}
+
+/**
+ * SHA-256 of the values, in order
+ */
+export function hashContent(...values: unknown[]): string {
+  return createHash("sha256").update(JSON.stringify(values)).digest("hex");
+}
+
+/**
+ * Overlapping runs of SHINGLE_SIZE words, lowercased and without
+ * punctuation
+ */
+export function wordShingles(text: string): Set<string> {
+  const words = (text || "").toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+  if (words.length < SHINGLE_SIZE) {
+    return new Set(words.length ? [words.join(" ")] : []);
+  }
+  const result = new Set<string>();
+  for (let index = 0; index + SHINGLE_SIZE <= words.length; index++) {
+    result.add(words.slice(index, index + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
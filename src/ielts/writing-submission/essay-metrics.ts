@@ -0,0 +1,168 @@
+import { CriterionKey, GradingRubric } from "./grading-rubrics";
+import { ScoresResponse } from "./llm/grading-response.validator";
+import { computeOverallBand, isValidBand } from "./band-score";
+
+// The public band descriptors rate responses of 20 words or fewer at Band 1
+const MINIMAL_RESPONSE_WORDS = 20;
+
+export interface UnderLengthBandCap {
+  // Share of the minimum word count written
+  minRatio: number;
+  maxBand: number;
+}
+
+// Highest task criterion band for an under-length response. The descriptors
+// only say that under-length responses lose marks; these steps are our own
+// policy and can be replaced with UNDER_LENGTH_BAND_CAPS.
+export const DEFAULT_UNDER_LENGTH_BAND_CAPS: UnderLengthBandCap[] = [
+  { minRatio: 0.9, maxBand: 6.5 },
+  { minRatio: 0.75, maxBand: 5.5 },
+  { minRatio: 0.5, maxBand: 4.5 },
+  { minRatio: 0, maxBand: 3 },
+];
+
+export interface EssayMetrics {
+  wordCount: number;
+  paragraphCount: number;
+  sentenceCount: number;
+  bodyParagraphCount: number;
+  hasIntro: boolean;
+  hasConclusion: boolean;
+  minWords: number;
+  isUnderLength: boolean;
+  timeSpentSeconds?: number;
+  recommendedMinutes: number;
+  warnings: string[];
+}
+
+/**
+ * Split an essay into paragraphs on blank lines, as detectEssayStructure
+ * asks the grader to do
+ */
+export function splitParagraphs(body: string): string[] {
+  return (body || "")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Count words the way IELTS does: whitespace-separated tokens, so numbers,
+ * contractions and hyphenated words count once
+ */
+export function countWords(body: string): number {
+  return (body || "")
+    .trim()
+    .split(/\s+/)
+    .filter((token) => /[A-Za-z0-9]/.test(token)).length;
+}
+
+export function countSentences(body: string): number {
+  return (body || "")
+    .split(/(?<=[.!?])\s+/)
+    .filter((sentence) => /[A-Za-z0-9]/.test(sentence)).length;
+}
+
+export function computeEssayMetrics(
+  body: string,
+  rubric: GradingRubric,
+  timeSpentSeconds?: number
+): EssayMetrics {
+  const paragraphs = splitParagraphs(body);
+  const paragraphCount = paragraphs.length;
+  const wordCount = countWords(body);
+  const isUnderLength = wordCount < rubric.minWords;
+
+  const warnings: string[] = [];
+  if (isUnderLength) {
+    warnings.push(
+      `Your response has ${wordCount} words. Responses under ${rubric.minWords} words lose marks for ${formatCriterion(rubric.criteriaKeys[0])}.`
+    );
+  }
+  if (paragraphCount < 2) {
+    warnings.push(
+      "Separate your paragraphs with a blank line so the structure can be assessed."
+    );
+  }
+  if (
+    timeSpentSeconds !== undefined &&
+    timeSpentSeconds > rubric.recommendedMinutes * 60
+  ) {
+    warnings.push(
+      `You spent ${Math.round(timeSpentSeconds / 60)} minutes; the exam allows about ${rubric.recommendedMinutes} minutes for this task.`
+    );
+  }
+
+  return {
+    wordCount,
+    paragraphCount,
+    sentenceCount: countSentences(body),
+    // First paragraph is the introduction, last is the conclusion
+    bodyParagraphCount: Math.max(0, paragraphCount - 2),
+    hasIntro: paragraphCount >= 1,
+    hasConclusion: paragraphCount >= 2,
+    minWords: rubric.minWords,
+    isUnderLength,
+    timeSpentSeconds,
+    recommendedMinutes: rubric.recommendedMinutes,
+    warnings,
+  };
+}
+
+/**
+ * Parse caps written as `ratio:band` pairs, e.g. "0.9:6.5,0.5:4.5,0:3".
+ * Returns null when the value is not a valid list, including bands that
+ * are not in steps of 0.5.
+ */
+export function parseUnderLengthBandCaps(
+  value: string
+): UnderLengthBandCap[] | null {
+  const caps = (value || "").split(",").map((pair) => {
+    const [minRatio, maxBand] = pair.split(":").map((part) => Number(part));
+    return { minRatio, maxBand };
+  });
+  const valid = caps.every(
+    ({ minRatio, maxBand }) =>
+      minRatio >= 0 && minRatio < 1 && isValidBand(maxBand)
+  );
+  return valid
+    ? caps.sort((a, b) => b.minRatio - a.minRatio) // Highest ratio first
+    : null;
+}
+
+/**
+ * Cap the task criterion (Task Response / Task Achievement) of under-length
+ * responses and rate minimal responses at Band 1, then recompute the
+ * overall band from the criteria
+ */
+export function applyUnderLengthPenalty(
+  scores: ScoresResponse,
+  metrics: EssayMetrics,
+  rubric: GradingRubric,
+  caps: UnderLengthBandCap[] = DEFAULT_UNDER_LENGTH_BAND_CAPS
+): ScoresResponse {
+  if (!metrics.isUnderLength) {
+    return scores;
+  }
+
+  const criteriaScores = { ...scores.criteriaScores };
+  if (metrics.wordCount <= MINIMAL_RESPONSE_WORDS) {
+    rubric.criteriaKeys.forEach((key) => (criteriaScores[key] = 1));
+  } else {
+    const taskKey = rubric.criteriaKeys[0];
+    const ratio = metrics.wordCount / metrics.minWords;
+    const cap = caps.find((cap) => ratio >= cap.minRatio);
+    if (cap) {
+      criteriaScores[taskKey] = Math.min(criteriaScores[taskKey], cap.maxBand);
+    }
+  }
+
+  return {
+    score: computeOverallBand(criteriaScores, rubric.criteriaKeys),
+    criteriaScores,
+  };
+}
+
+function formatCriterion(key: CriterionKey): string {
+  return key === "taskAchievement" ? "Task Achievement" : "Task Response";
+}
@@ -0,0 +1,93 @@
+import { IELTSWritingSubmissionType } from "./schemas/ielts-writing-submission.schema";
+import { IELTSWritingVariant } from "../writing/schemas/ielts-writing.schema";
+import { PromptName } from "./prompts/prompt-names";
+
+export type CriterionKey =
+  | "taskResponse"
+  | "taskAchievement"
+  | "coherence"
+  | "lexical"
+  | "grammar";
+
+export type TaskSpecificFeedbackKey =
+  | "overview"
+  | "keyFeatures"
+  | "dataAccuracy"
+  | "purpose"
+  | "bulletPoints"
+  | "tone";
+
+/**
+ * What a submission is graded on: the band descriptors' criteria, extra
+ * task-specific feedback and the prompts used for each grading step.
+ */
+export interface GradingRubric {
+  taskType: IELTSWritingSubmissionType;
+  variant?: IELTSWritingVariant;
+  criteriaKeys: CriterionKey[];
+  taskSpecificKeys: TaskSpecificFeedbackKey[];
+  minWords: number;
+  recommendedMinutes: number;
+  prompts: {
+    scores: PromptName;
+    feedback: PromptName;
+    analysis: PromptName;
+    improved: PromptName;
+  };
+}
+
+const TASK_TWO_RUBRIC: GradingRubric = {
+  taskType: IELTSWritingSubmissionType.Task2,
+  criteriaKeys: ["taskResponse", "coherence", "lexical", "grammar"],
+  taskSpecificKeys: [],
+  minWords: 250,
+  recommendedMinutes: 40,
+  prompts: {
+    scores: PromptName.SCORES,
+    feedback: PromptName.FEEDBACK,
+    analysis: PromptName.ANALYSIS,
+    improved: PromptName.IMPROVED_VERSION,
+  },
+};
+
+const ACADEMIC_TASK_ONE_RUBRIC: GradingRubric = {
+  taskType: IELTSWritingSubmissionType.Task1,
+  variant: IELTSWritingVariant.ACADEMIC,
+  criteriaKeys: ["taskAchievement", "coherence", "lexical", "grammar"],
+  taskSpecificKeys: ["overview", "keyFeatures", "dataAccuracy"],
+  minWords: 150,
+  recommendedMinutes: 20,
+  prompts: {
+    scores: PromptName.ACADEMIC_TASK_ONE_SCORES,
+    feedback: PromptName.ACADEMIC_TASK_ONE_FEEDBACK,
+    analysis: PromptName.ACADEMIC_TASK_ONE_ANALYSIS,
+    improved: PromptName.ACADEMIC_TASK_ONE_IMPROVED_VERSION,
+  },
+};
+
+const GENERAL_TASK_ONE_RUBRIC: GradingRubric = {
+  taskType: IELTSWritingSubmissionType.Task1,
+  variant: IELTSWritingVariant.GENERAL_TRAINING,
+  criteriaKeys: ["taskAchievement", "coherence", "lexical", "grammar"],
+  taskSpecificKeys: ["purpose", "bulletPoints", "tone"],
+  minWords: 150,
+  recommendedMinutes: 20,
+  prompts: {
+    scores: PromptName.GENERAL_TASK_ONE_SCORES,
+    feedback: PromptName.GENERAL_TASK_ONE_FEEDBACK,
+    analysis: PromptName.GENERAL_TASK_ONE_ANALYSIS,
+    improved: PromptName.GENERAL_TASK_ONE_IMPROVED_VERSION,
+  },
+};
+
+export function getGradingRubric(
+  taskType?: IELTSWritingSubmissionType,
+  variant?: IELTSWritingVariant
+): GradingRubric {
+  if (taskType !== IELTSWritingSubmissionType.Task1) {
+    return TASK_TWO_RUBRIC;
+  }
+  return variant === IELTSWritingVariant.GENERAL_TRAINING
+    ? GENERAL_TASK_ONE_RUBRIC
+    : ACADEMIC_TASK_ONE_RUBRIC;
+}
@@ -1,6 +1,8 @@
 import {
   Controller,
+  Get,
   Post,
+  Body,
   Param,
   HttpCode,
   HttpStatus,
@@ -16,18 +18,138 @@ import {
   ApiParam,
 } from "@nestjs/swagger";
 import { OpenAIService } from "./openai.service";
-import { ObjectIdDto } from "./dto/ielts-writing-submission.dto";
+import { AnalysisQueueService } from "./analysis-queue.service";
+import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
+import {
+  ObjectIdDto,
+  QueueAnalysisDto,
+} from "./dto/ielts-writing-submission.dto";
 import { UserPlanService } from "../../user-plan/user-plan.service";
 import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { UserRole } from "../../users/schemas/user.schema";
 
 @ApiTags("ielts-ai")
 @Controller("ielts-ai")
 export class IELTSAIController {
   constructor(
     private readonly openAIService: OpenAIService,
-    private readonly userPlanService: UserPlanService
+    private readonly userPlanService: UserPlanService,
+    private readonly analysisQueueService: AnalysisQueueService,
+    private readonly ieltsWritingSubmissionService: IELTSWritingSubmissionService
   ) {}
 
+  @Post("analyze/:id/queue")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: "Queue IELTS writing submission for background analysis",
+    description:
+      "Queues scores, feedback and optionally improved versions. Poll GET ielts-ai/analyze/:id/status for progress.",
+  })
+  @ApiParam({
+    name: "id",
+    description: "Submission ID",
+    schema: { type: "string" },
+  })
+  @ApiResponse({ status: 202, description: "Analysis queued" })
+  @ApiResponse({
+    status: 403,
+    description:
+      "Not your submission, or improved versions are not included in the current plan",
+  })
+  async queueAnalysis(
+    @Param() params: ObjectIdDto,
+    @Body() queueAnalysisDto: QueueAnalysisDto,
+    @Request() req
+  ) {
+    // Ensure the submission is the caller's (or the caller is an admin) and
+    // is not a draft before queueing
+    const submission = await this.ieltsWritingSubmissionService.findSubmitted(
+      params.id,
+      req.user.sub,
+      req.user.role
+    );
+    // The job runs under the owner's plan, whoever queued it
+    const owner = submission.user?.["_id"] ?? submission.user;
+
+    const improvedBands = queueAnalysisDto.improvedBands || [];
+    if (improvedBands.length) {
+      const canSee = await this.userPlanService.canSeeImprovedVersions(owner);
+      if (!canSee) {
+        throw new ForbiddenException(
+          "Your current trial does not include access to improved versions."
+        );
+      }
+    }
+
+    const job = await this.analysisQueueService.enqueue(
+      params.id,
+      owner,
+      improvedBands
+    );
+    return {
+      message: "Analysis queued successfully",
+      data: job,
+    };
+  }
+
+  @Get("analyze/:id/status")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get background analysis progress",
+    description:
+      "Returns the submission status, analysis stage and the latest job. Results are included once available.",
+  })
+  @ApiParam({
+    name: "id",
+    description: "Submission ID",
+    schema: { type: "string" },
+  })
+  @ApiResponse({ status: 200, description: "Analysis status retrieved" })
+  @ApiResponse({ status: 403, description: "Not your submission" })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async getAnalysisStatus(@Param() params: ObjectIdDto, @Request() req) {
+    const submission = await this.ieltsWritingSubmissionService.findAccessible(
+      params.id,
+      req.user.sub,
+      req.user.role
+    );
+    // Improved versions follow the owner's plan, as when they were queued
+    const owner = submission.user?.["_id"] ?? submission.user;
+    const canSeeImprovedVersions =
+      [UserRole.ADMIN, UserRole.SUPER_ADMIN].includes(req.user.role) ||
+      (await this.userPlanService.canSeeImprovedVersions(owner));
+    const job = await this.analysisQueueService.findLatestForSubmission(
+      params.id
+    );
+    return {
+      data: {
+        submissionId: params.id,
+        status: submission.status,
+        analysisStage: submission.analysisStage,
+        analysisError: submission.analysisError,
+        cacheHit: submission.cacheHit,
+        job: job
+          ? {
+              status: job.status,
+              attempts: job.attempts,
+              maxAttempts: job.maxAttempts,
+              runAt: job.runAt,
+              lastError: job.lastError,
+            }
+          : null,
+        score: submission.score,
+        criteriaScores: submission.criteriaScores,
+        aiFeedback: submission.aiFeedback,
+        improvedVersion: canSeeImprovedVersions
+          ? submission.improvedVersion
+          : undefined,
+      },
+    };
+  }
+
   @Post("analyze/scores/:id")
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth("JWT-auth")
@@ -44,6 +166,7 @@ export class IELTSAIController {
   })
   @ApiResponse({ status: 200, description: "Scores generated" })
   async analyzeScores(@Param() params: ObjectIdDto) {
+    await this.ieltsWritingSubmissionService.findSubmitted(params.id);
     const result = await this.openAIService.analyzeWritingScores(params.id);
     return {
       message: "Scores generated successfully",
@@ -104,6 +227,7 @@ export class IELTSAIController {
     },
   })
   async analyzeFeedback(@Param() params: ObjectIdDto) {
+    await this.ieltsWritingSubmissionService.findSubmitted(params.id);
     const result = await this.openAIService.analyzeWritingFeedback(params.id);
     return {
       message: "Feedback generated successfully",
@@ -287,6 +411,7 @@ export class IELTSAIController {
     description: "Internal server error during analysis",
   })
   async analyzeSubmission(@Param() params: ObjectIdDto) {
+    await this.ieltsWritingSubmissionService.findSubmitted(params.id);
     const result = await this.openAIService.analyzeWritingSubmission(params.id);
     return {
       message: "Analysis completed successfully",
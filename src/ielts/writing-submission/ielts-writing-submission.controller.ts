@@ -11,6 +11,9 @@ import {
   Query,
   UseGuards,
   Request,
+  Sse,
+  MessageEvent,
+  ForbiddenException,
 } from "@nestjs/common";
 import {
   ApiTags,
@@ -19,13 +22,43 @@ import {
   ApiQuery,
   ApiBearerAuth,
   ApiBody,
+  ApiParam,
 } from "@nestjs/swagger";
+import { ConfigService } from "@nestjs/config";
+import {
+  Observable,
+  ReplaySubject,
+  concat,
+  defer,
+  finalize,
+  from,
+  map,
+  switchMap,
+  takeUntil,
+  takeWhile,
+  timer,
+} from "rxjs";
 import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
+import { AnalysisQueueService } from "./analysis-queue.service";
+import {
+  AnalysisEvent,
+  AnalysisEventsService,
+} from "./analysis-events.service";
 import {
   CreateIELTSWritingSubmissionDto,
+  PrecheckIELTSWritingSubmissionDto,
+  ProgressQueryDto,
+  ReviseIELTSWritingSubmissionDto,
+  SubmitDraftDto,
   UpdateIELTSWritingSubmissionDto,
   ObjectIdDto,
 } from "./dto/ielts-writing-submission.dto";
+import {
+  IELTSWritingAnalysisStage,
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionDocument,
+  IELTSWritingSubmissionStatus,
+} from "./schemas/ielts-writing-submission.schema";
 import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
 import { RolesGuard } from "../../auth/guards/roles.guard";
 import { Roles } from "../../auth/decorators/roles.decorator";
@@ -35,7 +68,10 @@ import { UserRole } from "../../users/schemas/user.schema";
 @Controller("ielts-writing-submission")
 export class IELTSWritingSubmissionController {
   constructor(
-    private readonly ieltsWritingSubmissionService: IELTSWritingSubmissionService
+    private readonly ieltsWritingSubmissionService: IELTSWritingSubmissionService,
+    private readonly analysisQueueService: AnalysisQueueService,
+    private readonly analysisEventsService: AnalysisEventsService,
+    private readonly configService: ConfigService
   ) {}
 
   @Post()
@@ -107,6 +143,11 @@ export class IELTSWritingSubmissionController {
               enum: ["IDLE", "IN_PROGRESS", "ANALYZED", "FAILED_TO_CHECK"],
               example: "IDLE",
             },
+            analysisStage: {
+              type: "string",
+              enum: ["QUEUED", "SCORING", "FEEDBACK", "IMPROVING", "DONE"],
+              example: "QUEUED",
+            },
             topic: {
               type: "string",
               enum: ["GENERATED", "CUSTOM"],
@@ -146,13 +187,86 @@ export class IELTSWritingSubmissionController {
     @Request() req
   ) {
     const ieltsWritingSubmission =
-      await this.ieltsWritingSubmissionService.create(
+      (await this.ieltsWritingSubmissionService.create(
         createIELTSWritingSubmissionDto,
         req.user.sub
-      );
+      )) as IELTSWritingSubmissionDocument;
+
+    if (createIELTSWritingSubmissionDto.draft) {
+      return {
+        message: "Draft saved successfully",
+        data: ieltsWritingSubmission,
+        warnings: ieltsWritingSubmission.metrics?.warnings || [],
+      };
+    }
+
+    const analyze = await this.enqueueIfRequested(
+      ieltsWritingSubmission,
+      createIELTSWritingSubmissionDto.analyze,
+      req.user.sub
+    );
+
     return {
-      message: "IELTS writing submission created successfully",
-      data: ieltsWritingSubmission,
+      message: analyze
+        ? "IELTS writing submission created and queued for analysis"
+        : "IELTS writing submission created successfully",
+      data: analyze
+        ? await this.ieltsWritingSubmissionService.findOne(
+            String(ieltsWritingSubmission._id)
+          )
+        : ieltsWritingSubmission,
+      warnings: ieltsWritingSubmission.metrics?.warnings || [],
+    };
+  }
+
+  @Post("precheck")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Check an essay before submitting it",
+    description:
+      "Returns word, paragraph and sentence counts with under-length, structure and timing warnings. Does not create a submission or use a submission credit.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Essay checked successfully",
+    schema: {
+      type: "object",
+      properties: {
+        message: { type: "string", example: "Essay checked successfully" },
+        data: {
+          type: "object",
+          properties: {
+            wordCount: { type: "number", example: 214 },
+            paragraphCount: { type: "number", example: 3 },
+            sentenceCount: { type: "number", example: 12 },
+            bodyParagraphCount: { type: "number", example: 1 },
+            minWords: { type: "number", example: 250 },
+            isUnderLength: { type: "boolean", example: true },
+            recommendedMinutes: { type: "number", example: 40 },
+            warnings: {
+              type: "array",
+              items: { type: "string" },
+              example: [
+                "Your response has 214 words. Responses under 250 words lose marks for Task Response.",
+              ],
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: "Unauthorized - JWT token required",
+  })
+  async precheck(@Body() precheckDto: PrecheckIELTSWritingSubmissionDto) {
+    const metrics =
+      await this.ieltsWritingSubmissionService.precheck(precheckDto);
+    return {
+      message: "Essay checked successfully",
+      data: metrics,
     };
   }
 
@@ -182,7 +296,65 @@ export class IELTSWritingSubmissionController {
   async getMySubmissions(@Request() req) {
     const ieltsWritingSubmissions =
       await this.ieltsWritingSubmissionService.findByUserId(req.user.sub);
-    return { data: ieltsWritingSubmissions };
+    return {
+      data: ieltsWritingSubmissions.map((submission) =>
+        this.ieltsWritingSubmissionService.toStudentView(submission)
+      ),
+    };
+  }
+
+  @Get("my-progress")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get current user's band trends",
+    description:
+      "Overall and per-criterion band trends over time with moving averages, the strongest and weakest criterion, and the gap to the target score.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Progress retrieved successfully",
+  })
+  @ApiResponse({
+    status: 401,
+    description: "Unauthorized - JWT token required",
+  })
+  async getMyProgress(@Query() query: ProgressQueryDto, @Request() req) {
+    const progress = await this.ieltsWritingSubmissionService.getProgress(
+      req.user.sub,
+      query
+    );
+    return {
+      message: "Progress retrieved successfully",
+      data: progress,
+    };
+  }
+
+  @Get("my-mistakes")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Get current user's recurring mistakes",
+    description:
+      "Counts inline feedback by mistake type across analyzed essays. topRecurring lists the three most frequent types that appear in at least two essays.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Recurring mistakes retrieved successfully",
+  })
+  @ApiResponse({
+    status: 401,
+    description: "Unauthorized - JWT token required",
+  })
+  async getMyMistakes(@Request() req) {
+    const mistakes =
+      await this.ieltsWritingSubmissionService.getRecurringMistakes(
+        req.user.sub
+      );
+    return {
+      message: "Recurring mistakes retrieved successfully",
+      data: mistakes,
+    };
   }
 
   @Get("submission-limit")
@@ -255,7 +427,230 @@ export class IELTSWritingSubmissionController {
   async findOne(@Param() params: ObjectIdDto) {
     const ieltsWritingSubmission =
       await this.ieltsWritingSubmissionService.findOne(params.id);
-    return { data: ieltsWritingSubmission };
+    return {
+      data: this.ieltsWritingSubmissionService.toStudentView(
+        ieltsWritingSubmission
+      ),
+    };
+  }
+
+  @Post(":id/submit")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Submit a draft",
+    description:
+      "Turns a draft into a submission. This uses a submission credit.",
+  })
+  @ApiResponse({ status: 200, description: "Draft submitted successfully" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Not a draft or submission limit exceeded",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "IELTS writing submission not found",
+  })
+  async submitDraft(
+    @Param() params: ObjectIdDto,
+    @Body() submitDraftDto: SubmitDraftDto,
+    @Request() req
+  ) {
+    const submission = (await this.ieltsWritingSubmissionService.submitDraft(
+      params.id,
+      req.user.sub
+    )) as IELTSWritingSubmissionDocument;
+    const analyze = await this.enqueueIfRequested(
+      submission,
+      submitDraftDto?.analyze,
+      req.user.sub
+    );
+    return {
+      message: analyze
+        ? "Draft submitted and queued for analysis"
+        : "Draft submitted successfully",
+      data: analyze
+        ? await this.ieltsWritingSubmissionService.findOne(params.id)
+        : submission,
+      warnings: submission.metrics?.warnings || [],
+    };
+  }
+
+  @Post(":id/revise")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Submit a rewrite of an essay as a new revision",
+    description:
+      "Creates a new submission for the same question. Earlier revisions are kept unchanged. Uses a submission credit unless saved as a draft.",
+  })
+  @ApiResponse({ status: 201, description: "Revision created successfully" })
+  @ApiResponse({
+    status: 400,
+    description: "Bad request - Submission limit exceeded",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "IELTS writing submission not found",
+  })
+  async revise(
+    @Param() params: ObjectIdDto,
+    @Body() reviseDto: ReviseIELTSWritingSubmissionDto,
+    @Request() req
+  ) {
+    const revision = (await this.ieltsWritingSubmissionService.revise(
+      params.id,
+      reviseDto,
+      req.user.sub
+    )) as IELTSWritingSubmissionDocument;
+    const analyze =
+      !reviseDto.draft &&
+      (await this.enqueueIfRequested(
+        revision,
+        reviseDto.analyze,
+        req.user.sub
+      ));
+    return {
+      message: reviseDto.draft
+        ? "Revision draft saved successfully"
+        : analyze
+          ? "Revision created and queued for analysis"
+          : "Revision created successfully",
+      data: analyze
+        ? await this.ieltsWritingSubmissionService.findOne(String(revision._id))
+        : revision,
+      warnings: revision.metrics?.warnings || [],
+    };
+  }
+
+  @Get(":id/revisions")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "List every version of an essay with its score",
+    description:
+      "Returns the revisions oldest first. scoreChange and criteriaChanges compare each scored revision with the previous scored one.",
+  })
+  @ApiResponse({ status: 200, description: "Revisions retrieved successfully" })
+  @ApiResponse({
+    status: 404,
+    description: "IELTS writing submission not found",
+  })
+  async findRevisions(@Param() params: ObjectIdDto, @Request() req) {
+    const revisions = await this.ieltsWritingSubmissionService.findRevisions(
+      params.id,
+      req.user.sub,
+      req.user.role
+    );
+    return { data: revisions };
+  }
+
+  @Get(":id/diff/:band")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Compare the essay with an improved version",
+    description:
+      "Returns a word-level diff aligned paragraph by paragraph (introduction, body paragraphs, conclusion). Each change is linked to the inline feedback that explains it, where there is one.",
+  })
+  @ApiParam({
+    name: "band",
+    description: "Improved version to compare with",
+    enum: ["BAND_SEVEN", "BAND_EIGHT", "BAND_NINE"],
+  })
+  @ApiResponse({ status: 200, description: "Diff generated successfully" })
+  @ApiResponse({
+    status: 403,
+    description: "Improved versions are not included in the current plan",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Submission or improved version not found",
+  })
+  async getImprovedVersionDiff(
+    @Param() params: ObjectIdDto & { band: string },
+    @Request() req
+  ) {
+    const diff =
+      await this.ieltsWritingSubmissionService.getImprovedVersionDiff(
+        params.id,
+        params.band,
+        req.user.sub,
+        req.user.role
+      );
+    return { data: diff };
+  }
+
+  @Sse(":id/events")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Stream live analysis progress (Server-Sent Events)",
+    description:
+      "Sends the current state first, then `status`, `scores`, `feedback` and `improved` events as analysis progresses. A final `done` event closes the stream.",
+  })
+  @ApiResponse({ status: 200, description: "Event stream opened" })
+  @ApiResponse({
+    status: 404,
+    description: "IELTS writing submission not found",
+  })
+  events(
+    @Param() params: ObjectIdDto,
+    @Request() req
+  ): Observable<MessageEvent> {
+    const timeoutMs =
+      parseInt(
+        this.configService.get<string>("ANALYSIS_EVENTS_TIMEOUT_MS"),
+        10
+      ) || 600000;
+
+    return defer(() => {
+      // Listen before reading the snapshot so that events emitted while it
+      // is read, such as the final `done`, are kept for the stream
+      const buffered = new ReplaySubject<AnalysisEvent>();
+      const subscription = this.analysisEventsService
+        .forSubmission(params.id)
+        .subscribe(buffered);
+
+      return from(this.ieltsWritingSubmissionService.findOne(params.id)).pipe(
+        switchMap((submission) => {
+          const owner = submission.user?.["_id"] ?? submission.user;
+          if (
+            String(owner) !== String(req.user.sub) &&
+            ![UserRole.ADMIN, UserRole.SUPER_ADMIN].includes(req.user.role)
+          ) {
+            throw new ForbiddenException(
+              "You do not have access to this submission"
+            );
+          }
+
+          const live = buffered.pipe(
+            takeWhile((event) => event.type !== "done", true),
+            takeUntil(timer(timeoutMs))
+          );
+          const snapshot = this.getSnapshotEvents(params.id, submission);
+          const finished =
+            submission.status ===
+              IELTSWritingSubmissionStatus.FAILED_TO_CHECK ||
+            (submission.status === IELTSWritingSubmissionStatus.ANALYZED &&
+              (!submission.analysisStage ||
+                submission.analysisStage === IELTSWritingAnalysisStage.DONE));
+
+          return finished
+            ? from([
+                ...snapshot,
+                {
+                  submissionId: params.id,
+                  type: "done",
+                  data: { status: submission.status },
+                } as AnalysisEvent,
+              ])
+            : concat(from(snapshot), live);
+        }),
+        finalize(() => subscription.unsubscribe())
+      );
+    }).pipe(map((event) => ({ type: event.type, data: event.data })));
   }
 
   @Patch(":id")
@@ -343,4 +738,66 @@ export class IELTSWritingSubmissionController {
       data: ieltsWritingSubmission,
     };
   }
+
+  /**
+   * Queue analysis when asked to, or by default with ANALYSIS_AUTO_ENQUEUE
+   */
+  private async enqueueIfRequested(
+    submission: IELTSWritingSubmissionDocument,
+    analyze: boolean | undefined,
+    userId: string
+  ): Promise<boolean> {
+    const shouldAnalyze =
+      analyze ??
+      this.configService.get<string>("ANALYSIS_AUTO_ENQUEUE") === "true";
+    if (shouldAnalyze) {
+      await this.analysisQueueService.enqueue(String(submission._id), userId);
+    }
+    return shouldAnalyze;
+  }
+
+  private getSnapshotEvents(
+    submissionId: string,
+    submission: IELTSWritingSubmission
+  ): AnalysisEvent[] {
+    const events: AnalysisEvent[] = [
+      {
+        submissionId,
+        type: "status",
+        data: {
+          status: submission.status,
+          analysisStage: submission.analysisStage,
+          analysisError: submission.analysisError,
+        },
+      },
+    ];
+    if (submission.criteriaScores) {
+      events.push({
+        submissionId,
+        type: "scores",
+        data: {
+          score: submission.score,
+          criteriaScores: submission.criteriaScores,
+        },
+      });
+    }
+    if (submission.aiFeedback) {
+      events.push({
+        submissionId,
+        type: "feedback",
+        data: this.ieltsWritingSubmissionService.toStudentView(submission)
+          .aiFeedback,
+      });
+    }
+    ["band7", "band8", "band9"].forEach((band) => {
+      if (submission.improvedVersion?.[band]) {
+        events.push({
+          submissionId,
+          type: "improved",
+          data: { band, improvedVersion: submission.improvedVersion[band] },
+        });
+      }
+    });
+    return events;
+  }
 }
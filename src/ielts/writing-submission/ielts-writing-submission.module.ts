@@ -2,19 +2,68 @@ import { Module } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { IELTSWritingSubmissionController } from "./ielts-writing-submission.controller";
 import { IELTSAIController } from "./ielts-ai.controller";
+import { PromptRegistryController } from "./prompts/prompt-registry.controller";
+import { CalibrationController } from "./calibration/calibration.controller";
+import { PlagiarismController } from "./plagiarism/plagiarism.controller";
 import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
 import { OpenAIService } from "./openai.service";
+import { AnalysisQueueService } from "./analysis-queue.service";
+import { AnalysisWorkerService } from "./analysis-worker.service";
+import { AnalysisEventsService } from "./analysis-events.service";
+import { AnalysisCacheService } from "./analysis-cache.service";
+import { LLMService } from "./llm/llm.service";
+import { OpenAIProvider } from "./llm/providers/openai.provider";
+import { AzureOpenAIProvider } from "./llm/providers/azure-openai.provider";
+import { AnthropicProvider } from "./llm/providers/anthropic.provider";
+import { OpenAICompatibleProvider } from "./llm/providers/openai-compatible.provider";
+import { MockLLMProvider } from "./llm/providers/mock-llm.provider";
+import { PromptRegistryService } from "./prompts/prompt-registry.service";
+import { CalibrationService } from "./calibration/calibration.service";
+import { ScoreCalibrationService } from "./calibration/score-calibration.service";
+import { PlagiarismService } from "./plagiarism/plagiarism.service";
 import { UserPlanService } from "../../user-plan/user-plan.service";
+import { SubscriptionActivationService } from "../../user-plan/subscription-activation.service";
 import {
   IELTSWritingSubmission,
   IELTSWritingSubmissionSchema,
 } from "./schemas/ielts-writing-submission.schema";
+import { AnalysisJob, AnalysisJobSchema } from "./schemas/analysis-job.schema";
+import {
+  AnalysisSlot,
+  AnalysisSlotSchema,
+} from "./schemas/analysis-slot.schema";
+import {
+  AnalysisCacheEntry,
+  AnalysisCacheEntrySchema,
+} from "./schemas/analysis-cache-entry.schema";
+import {
+  PromptTemplate,
+  PromptTemplateSchema,
+} from "./schemas/prompt-template.schema";
+import {
+  BenchmarkEssay,
+  BenchmarkEssaySchema,
+} from "./schemas/benchmark-essay.schema";
+import {
+  CalibrationRun,
+  CalibrationRunSchema,
+} from "./schemas/calibration-run.schema";
+import {
+  SimilarityFingerprint,
+  SimilarityFingerprintSchema,
+} from "./schemas/similarity-fingerprint.schema";
+import {
+  PlagiarismSettings,
+  PlagiarismSettingsSchema,
+} from "./schemas/plagiarism-settings.schema";
 import {
   UserPlan,
   UserPlanSchema,
 } from "../../user-plan/schemas/user-plan.schema";
 import { Plan, PlanSchema } from "../../plan/schemas/plan.schema";
 import { User, UserSchema } from "../../users/schemas/user.schema";
+import { AIUsageModule } from "../../ai-usage/ai-usage.module";
+import { IELTSWritingModule } from "../writing/ielts-writing.module";
 
 @Module({
   imports: [
@@ -23,6 +72,38 @@ import { User, UserSchema } from "../../users/schemas/user.schema";
         name: IELTSWritingSubmission.name,
         schema: IELTSWritingSubmissionSchema,
       },
+      {
+        name: AnalysisJob.name,
+        schema: AnalysisJobSchema,
+      },
+      {
+        name: AnalysisSlot.name,
+        schema: AnalysisSlotSchema,
+      },
+      {
+        name: AnalysisCacheEntry.name,
+        schema: AnalysisCacheEntrySchema,
+      },
+      {
+        name: PromptTemplate.name,
+        schema: PromptTemplateSchema,
+      },
+      {
+        name: BenchmarkEssay.name,
+        schema: BenchmarkEssaySchema,
+      },
+      {
+        name: CalibrationRun.name,
+        schema: CalibrationRunSchema,
+      },
+      {
+        name: SimilarityFingerprint.name,
+        schema: SimilarityFingerprintSchema,
+      },
+      {
+        name: PlagiarismSettings.name,
+        schema: PlagiarismSettingsSchema,
+      },
       {
         name: UserPlan.name,
         schema: UserPlanSchema,
@@ -36,9 +117,42 @@ import { User, UserSchema } from "../../users/schemas/user.schema";
         schema: UserSchema,
       },
     ]),
+    AIUsageModule,
+    IELTSWritingModule,
+  ],
+  controllers: [
+    IELTSWritingSubmissionController,
+    IELTSAIController,
+    PromptRegistryController,
+    CalibrationController,
+    PlagiarismController,
+  ],
+  providers: [
+    IELTSWritingSubmissionService,
+    OpenAIService,
+    AnalysisQueueService,
+    AnalysisWorkerService,
+    AnalysisEventsService,
+    AnalysisCacheService,
+    UserPlanService,
+    SubscriptionActivationService,
+    LLMService,
+    OpenAIProvider,
+    AzureOpenAIProvider,
+    AnthropicProvider,
+    OpenAICompatibleProvider,
+    MockLLMProvider,
+    PromptRegistryService,
+    CalibrationService,
+    ScoreCalibrationService,
+    PlagiarismService,
+  ],
+  exports: [
+    IELTSWritingSubmissionService,
+    OpenAIService,
+    LLMService,
+    AnalysisQueueService,
+    UserPlanService,
   ],
-  controllers: [IELTSWritingSubmissionController, IELTSAIController],
-  providers: [IELTSWritingSubmissionService, OpenAIService, UserPlanService],
-  exports: [IELTSWritingSubmissionService, OpenAIService],
 })
 export class IELTSWritingSubmissionModule {}
@@ -2,45 +2,98 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
 } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
-import { Model } from "mongoose";
+import { FilterQuery, Model, Types, UpdateQuery } from "mongoose";
 import {
   IELTSWritingSubmission,
   IELTSWritingSubmissionDocument,
+  CriteriaScores,
+  ExamAttempt,
+  ExaminerReviewResult,
+  IMPROVED_VERSION_BAND_KEYS,
+  IELTSWritingSubmissionStatus,
+  IELTSWritingSubmissionType,
+  SubmissionMetrics,
 } from "./schemas/ielts-writing-submission.schema";
+import {
+  IELTSWritingType,
+  IELTSWritingVariant,
+} from "../writing/schemas/ielts-writing.schema";
+import { IELTSWritingService } from "../writing/ielts-writing.service";
 import {
   CreateIELTSWritingSubmissionDto,
+  PrecheckIELTSWritingSubmissionDto,
+  ProgressQueryDto,
+  ReviseIELTSWritingSubmissionDto,
   UpdateIELTSWritingSubmissionDto,
 } from "./dto/ielts-writing-submission.dto";
+import { UserRole } from "../../users/schemas/user.schema";
+import { getGradingRubric } from "./grading-rubrics";
+import { EssayMetrics, computeEssayMetrics } from "./essay-metrics";
+import { EssayDiff, diffEssay } from "./essay-diff";
+import { getEffectiveFeedback, getEffectiveScores } from "./effective-scores";
+import {
+  MISTAKE_TYPES,
+  MISTAKE_TYPE_DETAILS,
+  MistakeType,
+} from "./mistake-taxonomy";
+import {
+  ProgressReport,
+  ScoredSubmission,
+  buildProgressReport,
+} from "./progress-report";
 import { ObjectIdType } from "../../types/object-id.type";
 import { UserPlanService } from "../../user-plan/user-plan.service";
+import { AnalysisEventsService } from "./analysis-events.service";
 
 @Injectable()
 export class IELTSWritingSubmissionService {
   constructor(
     @InjectModel(IELTSWritingSubmission.name)
     private ieltsWritingSubmissionModel: Model<IELTSWritingSubmissionDocument>,
-    private userPlanService: UserPlanService
+    private userPlanService: UserPlanService,
+    private analysisEventsService: AnalysisEventsService,
+    private ieltsWritingService: IELTSWritingService
   ) {}
 
+  /**
+   * Pass `prepaid` when the submission credit was already taken, as exam
+   * sessions do when they start; the limit is then not checked again.
+   */
   async create(
     createIELTSWritingSubmissionDto: CreateIELTSWritingSubmissionDto,
-    userId: ObjectIdType
+    userId: ObjectIdType,
+    revision?: Pick<
+      IELTSWritingSubmission,
+      "essayGroup" | "revisionOf" | "revision"
+    >,
+    prepaid = false
   ): Promise<IELTSWritingSubmission> {
-    // Check submission limit before creating
-    const submissionLimit =
-      await this.userPlanService.checkSubmissionLimit(userId);
+    const { timeSpentSeconds, draft, analyze, ...submissionFields } =
+      createIELTSWritingSubmissionDto;
 
-    if (!submissionLimit.canSubmit) {
-      throw new BadRequestException(
-        `You have reached your submission limit of ${submissionLimit.limit}. You have ${submissionLimit.remainingSubmissions} submissions remaining.`
-      );
+    // Drafts do not count against the submission limit
+    if (!draft && !prepaid) {
+      await this.assertCanSubmit(userId, createIELTSWritingSubmissionDto.body);
     }
 
+    const task = await this.resolveTask(createIELTSWritingSubmissionDto);
+    const _id = new Types.ObjectId();
     const submissionData = {
-      ...createIELTSWritingSubmissionDto,
+      ...submissionFields,
+      ...task,
+      _id,
       user: userId,
+      essayGroup: _id,
+      ...revision,
+      ...(draft && { status: IELTSWritingSubmissionStatus.DRAFT }),
+      metrics: this.computeMetrics(
+        createIELTSWritingSubmissionDto.body,
+        task,
+        timeSpentSeconds
+      ),
     };
 
     const createdIELTSWritingSubmission = new this.ieltsWritingSubmissionModel(
@@ -50,11 +103,133 @@ export class IELTSWritingSubmissionService {
     const savedSubmission = await createdIELTSWritingSubmission.save();
 
     // Increment submission count after successful creation
-    await this.userPlanService.incrementSubmissionCount(userId);
+    if (!draft && !prepaid) {
+      await this.userPlanService.incrementSubmissionCount(userId);
+    }
 
     return savedSubmission;
   }
 
+  /**
+   * Turn a draft into a submission; this is when the submission credit is used
+   */
+  async submitDraft(
+    id: ObjectIdType,
+    userId: ObjectIdType
+  ): Promise<IELTSWritingSubmission> {
+    const submission = await this.findAccessible(id, userId);
+    if (submission.status !== IELTSWritingSubmissionStatus.DRAFT) {
+      throw new BadRequestException("Only drafts can be submitted");
+    }
+    await this.assertCanSubmit(userId, submission.body);
+
+    const submitted = await this.ieltsWritingSubmissionModel
+      .findOneAndUpdate(
+        { _id: id, status: IELTSWritingSubmissionStatus.DRAFT },
+        { status: IELTSWritingSubmissionStatus.IDLE },
+        { new: true }
+      )
+      .exec();
+    if (!submitted) {
+      throw new BadRequestException("Only drafts can be submitted");
+    }
+    await this.userPlanService.incrementSubmissionCount(userId);
+    return submitted;
+  }
+
+  /**
+   * Save a rewrite of an essay as a new revision. Earlier revisions are
+   * kept unchanged so their scores can be compared.
+   */
+  async revise(
+    id: ObjectIdType,
+    reviseDto: ReviseIELTSWritingSubmissionDto,
+    userId: ObjectIdType
+  ): Promise<IELTSWritingSubmission> {
+    const source = await this.findAccessible(id, userId);
+    const essayGroup = source.essayGroup || (source as any)._id;
+    const latest = await this.ieltsWritingSubmissionModel
+      .findOne({ $or: [{ essayGroup }, { _id: essayGroup }] })
+      .sort({ revision: -1 })
+      .exec();
+
+    return this.create(
+      {
+        writing: source.writing,
+        customWritingQuestion: source.customWritingQuestion,
+        topic: source.topic,
+        targetScore: source.targetScore,
+        taskType: source.taskType,
+        variant: source.variant,
+        body: reviseDto.body,
+        timeSpentSeconds: reviseDto.timeSpentSeconds,
+        draft: reviseDto.draft,
+      },
+      userId,
+      {
+        essayGroup,
+        revisionOf: (source as any)._id,
+        revision: (latest?.revision || 1) + 1,
+      }
+    );
+  }
+
+  /**
+   * Every version of an essay, oldest first, with the change in score from
+   * the previous scored version
+   */
+  async findRevisions(id: ObjectIdType, userId: ObjectIdType, role?: UserRole) {
+    const source = await this.findAccessible(id, userId, role);
+    const essayGroup = source.essayGroup || (source as any)._id;
+    const revisions = await this.ieltsWritingSubmissionModel
+      .find({ $or: [{ essayGroup }, { _id: essayGroup }] })
+      .select(
+        "revision revisionOf status score criteriaScores examinerReview metrics.wordCount createdAt"
+      )
+      .sort({ revision: 1, createdAt: 1 })
+      .lean()
+      .exec();
+
+    let previous: ReturnType<typeof getEffectiveScores> | undefined;
+    return revisions.map((revision) => {
+      const scores = getEffectiveScores(revision);
+      const scored = typeof scores.score === "number";
+      const entry = {
+        _id: revision._id,
+        revision: revision.revision || 1,
+        revisionOf: revision.revisionOf,
+        status: revision.status,
+        ...scores,
+        wordCount: revision.metrics?.wordCount,
+        createdAt: (revision as any).createdAt,
+        scoreChange: scored && previous ? scores.score - previous.score : null,
+        criteriaChanges:
+          scored && previous
+            ? this.diffCriteria(previous.criteriaScores, scores.criteriaScores)
+            : null,
+      };
+      if (scored) {
+        previous = scores;
+      }
+      return entry;
+    });
+  }
+
+  /**
+   * Word count, structure and timing checks for an essay that has not been
+   * submitted yet; does not use a submission credit
+   */
+  async precheck(
+    precheckDto: PrecheckIELTSWritingSubmissionDto
+  ): Promise<EssayMetrics> {
+    const task = await this.resolveTask(precheckDto);
+    return computeEssayMetrics(
+      precheckDto.body,
+      getGradingRubric(task.taskType, task.variant),
+      precheckDto.timeSpentSeconds
+    );
+  }
+
   async findAll(): Promise<IELTSWritingSubmission[]> {
     return this.ieltsWritingSubmissionModel
       .find()
@@ -77,15 +252,214 @@ export class IELTSWritingSubmissionService {
     return this.ieltsWritingSubmissionModel.find({ user: userId }).exec();
   }
 
+  /**
+   * The submission as the student sees it: inline feedback the examiner
+   * removed is left out
+   */
+  toStudentView(submission: IELTSWritingSubmission) {
+    const view: IELTSWritingSubmission =
+      (submission as IELTSWritingSubmissionDocument).toObject?.() ?? submission;
+    return { ...view, aiFeedback: getEffectiveFeedback(view) };
+  }
+
+  /**
+   * Word-level changes between the essay and one of its improved versions
+   */
+  async getImprovedVersionDiff(
+    id: ObjectIdType,
+    band: string,
+    userId: ObjectIdType,
+    role?: UserRole
+  ): Promise<EssayDiff & { band: string }> {
+    const bandKey =
+      IMPROVED_VERSION_BAND_KEYS[band] ||
+      Object.values(IMPROVED_VERSION_BAND_KEYS).find((key) => key === band);
+    if (!bandKey) {
+      throw new BadRequestException(
+        `band must be one of: ${Object.keys(IMPROVED_VERSION_BAND_KEYS).join(", ")}`
+      );
+    }
+
+    const submission = await this.findAccessible(id, userId, role);
+    if (
+      ![UserRole.ADMIN, UserRole.SUPER_ADMIN].includes(role) &&
+      !(await this.userPlanService.canSeeImprovedVersions(userId))
+    ) {
+      throw new ForbiddenException(
+        "Your current trial does not include access to improved versions."
+      );
+    }
+    const improvedVersion = submission.improvedVersion?.[bandKey];
+    if (!improvedVersion) {
+      throw new NotFoundException(
+        `No ${bandKey} improved version has been generated for this submission`
+      );
+    }
+
+    return {
+      band: bandKey,
+      ...diffEssay(
+        submission.body,
+        improvedVersion,
+        this.toStudentView(submission).aiFeedback
+      ),
+    };
+  }
+
+  /**
+   * Band trends across the user's scored submissions
+   */
+  async getProgress(
+    userId: ObjectIdType,
+    query: ProgressQueryDto = {}
+  ): Promise<ProgressReport> {
+    const window = parseInt(query.window, 10) || 3;
+    if (window < 1 || window > 20) {
+      throw new BadRequestException("window must be between 1 and 20");
+    }
+
+    const filter: Record<string, any> = {
+      user: userId,
+      score: { $type: "number" },
+      status: { $ne: IELTSWritingSubmissionStatus.DRAFT },
+    };
+    if (query.taskType) {
+      filter.taskType = query.taskType;
+    }
+    const submissions = await this.ieltsWritingSubmissionModel
+      .find(filter)
+      .select(
+        "score criteriaScores examinerReview targetScore taskType createdAt"
+      )
+      .sort({ createdAt: 1 })
+      .lean<
+        (ScoredSubmission & Pick<IELTSWritingSubmission, "examinerReview">)[]
+      >()
+      .exec();
+
+    return buildProgressReport(
+      submissions.map(({ examinerReview, ...submission }) => {
+        const { score, criteriaScores } = getEffectiveScores({
+          ...submission,
+          examinerReview,
+        });
+        return { ...submission, score, criteriaScores };
+      }),
+      window
+    );
+  }
+
+  /**
+   * How often each mistake type appears across the user's analyzed essays.
+   * A mistake is recurring once it shows up in two or more essays.
+   */
+  async getRecurringMistakes(userId: ObjectIdType, top = 3) {
+    const match = {
+      user: new Types.ObjectId(String(userId)),
+      status: { $ne: IELTSWritingSubmissionStatus.DRAFT },
+      "aiFeedback.inlineFeedback.0": { $exists: true },
+    };
+    const [analyzedSubmissions, stats] = await Promise.all([
+      this.ieltsWritingSubmissionModel.countDocuments(match).exec(),
+      this.ieltsWritingSubmissionModel
+        .aggregate([
+          { $match: match },
+          { $sort: { createdAt: -1 } },
+          {
+            $unwind: {
+              path: "$aiFeedback.inlineFeedback",
+              includeArrayIndex: "feedbackIndex",
+            },
+          },
+          {
+            $match: {
+              "aiFeedback.inlineFeedback.mistakeType": { $in: MISTAKE_TYPES },
+              // Skip entries the examiner removed
+              $expr: {
+                $not: {
+                  $in: [
+                    "$feedbackIndex",
+                    { $ifNull: ["$examinerReview.removedFeedback", []] },
+                  ],
+                },
+              },
+            },
+          },
+          {
+            $group: {
+              _id: "$aiFeedback.inlineFeedback.mistakeType",
+              occurrences: { $sum: 1 },
+              submissions: { $addToSet: "$_id" },
+              lastSeen: { $max: "$createdAt" },
+              examples: {
+                $push: {
+                  originalText: "$aiFeedback.inlineFeedback.originalText",
+                  suggestion: "$aiFeedback.inlineFeedback.suggestion",
+                },
+              },
+            },
+          },
+        ])
+        .exec(),
+    ]);
+
+    const mistakeTypes = stats
+      .map(({ _id, submissions, examples, ...stat }) => ({
+        mistakeType: _id as MistakeType,
+        ...MISTAKE_TYPE_DETAILS[_id as MistakeType],
+        ...stat,
+        submissions: submissions.length,
+        share: analyzedSubmissions
+          ? Math.round((submissions.length / analyzedSubmissions) * 100) / 100
+          : 0,
+        // Most recent first
+        examples: examples.slice(0, 3),
+      }))
+      .sort(
+        (a, b) => b.submissions - a.submissions || b.occurrences - a.occurrences
+      );
+
+    return {
+      analyzedSubmissions,
+      topRecurring: mistakeTypes
+        .filter((stat) => stat.submissions >= 2)
+        .slice(0, top),
+      mistakeTypes,
+    };
+  }
+
   async update(
     id: ObjectIdType,
     updateIELTSWritingSubmissionDto: UpdateIELTSWritingSubmissionDto
   ): Promise<IELTSWritingSubmission> {
+    const update: UpdateQuery<IELTSWritingSubmissionDocument> = {
+      ...updateIELTSWritingSubmissionDto,
+    };
+    const filter: FilterQuery<IELTSWritingSubmissionDocument> = { _id: id };
+    if (updateIELTSWritingSubmissionDto.status !== undefined) {
+      this.assertNotDraftStatus(updateIELTSWritingSubmissionDto.status);
+      // Drafts only leave that state through submitDraft
+      filter.status = { $ne: IELTSWritingSubmissionStatus.DRAFT };
+    }
+    // Keep the stored metrics in step with the edited body
+    if (updateIELTSWritingSubmissionDto.body !== undefined) {
+      const existing = await this.findOne(id);
+      if (existing.status !== IELTSWritingSubmissionStatus.DRAFT) {
+        throw new BadRequestException(
+          "A submitted essay cannot be edited. Create a revision instead."
+        );
+      }
+      update.metrics = this.computeMetrics(
+        updateIELTSWritingSubmissionDto.body,
+        existing,
+        existing.metrics?.timeSpentSeconds
+      );
+    }
     const ieltsWritingSubmission = await this.ieltsWritingSubmissionModel
-      .findByIdAndUpdate(id, updateIELTSWritingSubmissionDto, { new: true })
+      .findOneAndUpdate(filter, update, { new: true })
       .exec();
     if (!ieltsWritingSubmission) {
-      throw new NotFoundException("IELTS Writing submission not found");
+      throw await this.statusChangeError(id);
     }
     return ieltsWritingSubmission;
   }
@@ -103,9 +477,192 @@ export class IELTSWritingSubmissionService {
   async updateStatus(
     id: ObjectIdType,
     status: string
+  ): Promise<IELTSWritingSubmission> {
+    this.assertNotDraftStatus(status);
+    const ieltsWritingSubmission = await this.ieltsWritingSubmissionModel
+      .findOneAndUpdate(
+        { _id: id, status: { $ne: IELTSWritingSubmissionStatus.DRAFT } },
+        { status },
+        { new: true }
+      )
+      .exec();
+    if (!ieltsWritingSubmission) {
+      throw await this.statusChangeError(id);
+    }
+    this.emitStatus(id, ieltsWritingSubmission);
+    return ieltsWritingSubmission;
+  }
+
+  /**
+   * Submissions are never moved back to DRAFT; a draft is submitted through
+   * submitDraft so the limit is checked and the credit used
+   */
+  private assertNotDraftStatus(status: string): void {
+    if (status === IELTSWritingSubmissionStatus.DRAFT) {
+      throw new BadRequestException(
+        "A submission cannot be turned back into a draft"
+      );
+    }
+  }
+
+  /**
+   * Why a status-guarded update matched nothing
+   */
+  private async statusChangeError(id: ObjectIdType): Promise<Error> {
+    const exists = await this.ieltsWritingSubmissionModel.exists({ _id: id });
+    return exists
+      ? new BadRequestException(
+          "Drafts cannot change status. Submit the draft instead."
+        )
+      : new NotFoundException("IELTS Writing submission not found");
+  }
+
+  async saveAnalysisResult(
+    id: ObjectIdType,
+    result: UpdateQuery<IELTSWritingSubmissionDocument>
+  ): Promise<IELTSWritingSubmission> {
+    const ieltsWritingSubmission = await this.ieltsWritingSubmissionModel
+      .findByIdAndUpdate(id, result, { new: true })
+      .exec();
+    if (!ieltsWritingSubmission) {
+      throw new NotFoundException("IELTS Writing submission not found");
+    }
+    if ("status" in result || "analysisStage" in result) {
+      this.emitStatus(id, ieltsWritingSubmission);
+    }
+    return ieltsWritingSubmission;
+  }
+
+  /**
+   * The submission, if it belongs to the user; admins can see any submission
+   */
+  async findAccessible(
+    id: ObjectIdType,
+    userId: ObjectIdType,
+    role?: UserRole
+  ): Promise<IELTSWritingSubmission> {
+    const submission = await this.findOne(id);
+    const owner = submission.user?.["_id"] ?? submission.user;
+    if (
+      String(owner) !== String(userId) &&
+      ![UserRole.ADMIN, UserRole.SUPER_ADMIN].includes(role)
+    ) {
+      throw new ForbiddenException("You do not have access to this submission");
+    }
+    return submission;
+  }
+
+  /**
+   * Drafts are not analyzed until they are submitted. With a user, the
+   * submission must also be accessible to them.
+   */
+  async findSubmitted(
+    id: ObjectIdType,
+    userId?: ObjectIdType,
+    role?: UserRole
+  ): Promise<IELTSWritingSubmission> {
+    const submission = userId
+      ? await this.findAccessible(id, userId, role)
+      : await this.findOne(id);
+    if (submission.status === IELTSWritingSubmissionStatus.DRAFT) {
+      throw new BadRequestException(
+        "Submit the draft before requesting analysis"
+      );
+    }
+    return submission;
+  }
+
+  private async assertCanSubmit(
+    userId: ObjectIdType,
+    body: string
+  ): Promise<void> {
+    const submissionLimit = await this.userPlanService.checkSubmissionLimit(
+      userId,
+      body
+    );
+
+    if (!submissionLimit.canSubmit) {
+      throw new BadRequestException(
+        `You have reached your submission limit of ${submissionLimit.limit}. You have ${submissionLimit.remainingSubmissions} submissions remaining.`
+      );
+    }
+  }
+
+  private diffCriteria(
+    previous: CriteriaScores = {},
+    current: CriteriaScores = {}
+  ): Partial<CriteriaScores> {
+    return Object.keys(current).reduce((changes, key) => {
+      if (
+        typeof current[key] === "number" &&
+        typeof previous[key] === "number"
+      ) {
+        changes[key] = current[key] - previous[key];
+      }
+      return changes;
+    }, {});
+  }
+
+  /**
+   * Task type and variant come from the writing task when there is one
+   */
+  private async resolveTask(dto: {
+    writing?: ObjectIdType;
+    taskType?: IELTSWritingSubmissionType;
+    variant?: IELTSWritingVariant;
+  }): Promise<{
+    taskType?: IELTSWritingSubmissionType;
+    variant?: IELTSWritingVariant;
+  }> {
+    if (!dto.writing) {
+      return { taskType: dto.taskType, variant: dto.variant };
+    }
+    const writing = await this.ieltsWritingService.findOne(dto.writing);
+    return {
+      taskType:
+        writing.type === IELTSWritingType.TASK_ONE
+          ? IELTSWritingSubmissionType.Task1
+          : IELTSWritingSubmissionType.Task2,
+      variant: writing.variant,
+    };
+  }
+
+  private computeMetrics(
+    body: string,
+    task: {
+      taskType?: IELTSWritingSubmissionType;
+      variant?: IELTSWritingVariant;
+    },
+    timeSpentSeconds?: number
+  ): SubmissionMetrics {
+    const { hasIntro, hasConclusion, recommendedMinutes, ...metrics } =
+      computeEssayMetrics(
+        body,
+        getGradingRubric(task.taskType, task.variant),
+        timeSpentSeconds
+      );
+    return metrics;
+  }
+
+  async attachExamAttempt(
+    id: ObjectIdType,
+    examAttempt: ExamAttempt
+  ): Promise<IELTSWritingSubmission> {
+    const ieltsWritingSubmission = await this.ieltsWritingSubmissionModel
+      .findByIdAndUpdate(id, { examAttempt }, { new: true })
+      .exec();
+    if (!ieltsWritingSubmission) {
+      throw new NotFoundException("IELTS Writing submission not found");
+    }
+    return ieltsWritingSubmission;
+  }
+
+  async attachExaminerReview(
+    id: ObjectIdType,
+    examinerReview: ExaminerReviewResult
   ): Promise<IELTSWritingSubmission> {
     const ieltsWritingSubmission = await this.ieltsWritingSubmissionModel
-      .findByIdAndUpdate(id, { status }, { new: true })
+      .findByIdAndUpdate(id, { examinerReview }, { new: true })
       .exec();
     if (!ieltsWritingSubmission) {
       throw new NotFoundException("IELTS Writing submission not found");
@@ -113,11 +670,56 @@ export class IELTSWritingSubmissionService {
     return ieltsWritingSubmission;
   }
 
-  async checkSubmissionLimit(userId: ObjectIdType): Promise<{
+  /**
+   * Record that a prompt's result was reused from the analysis cache.
+   * Returns true the first time the submission is marked.
+   */
+  async markCacheHit(id: ObjectIdType, promptName: string): Promise<boolean> {
+    const previous = await this.ieltsWritingSubmissionModel
+      .findByIdAndUpdate(id, {
+        cacheHit: true,
+        $addToSet: { cachedPrompts: promptName },
+      })
+      .exec();
+    if (!previous) {
+      throw new NotFoundException("IELTS Writing submission not found");
+    }
+    return !previous.cacheHit;
+  }
+
+  private emitStatus(
+    id: ObjectIdType,
+    submission: IELTSWritingSubmission
+  ): void {
+    this.analysisEventsService.emit(id, "status", {
+      status: submission.status,
+      analysisStage: submission.analysisStage,
+      analysisError: submission.analysisError,
+    });
+  }
+
+  async checkSubmissionLimit(
+    userId: ObjectIdType,
+    body?: string
+  ): Promise<{
     canSubmit: boolean;
     remainingSubmissions: number;
     limit: number;
   }> {
-    return this.userPlanService.checkSubmissionLimit(userId);
+    return this.userPlanService.checkSubmissionLimit(userId, body);
+  }
+
+  /**
+   * Take submission credits ahead of submissions created with `prepaid`
+   */
+  async reserveSubmissions(userId: ObjectIdType, count: number): Promise<void> {
+    await this.userPlanService.incrementSubmissionCount(userId, count);
+  }
+
+  /**
+   * Give back reserved credits that no submission used
+   */
+  async releaseSubmissions(userId: ObjectIdType, count: number): Promise<void> {
+    await this.userPlanService.releaseSubmissionCount(userId, count);
   }
 }
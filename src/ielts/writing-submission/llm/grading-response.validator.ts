@@ -0,0 +1,274 @@
+import { BadGatewayException } from "@nestjs/common";
+import { CriterionKey, TaskSpecificFeedbackKey } from "../grading-rubrics";
+import { MISTAKE_TYPES, MistakeType, isMistakeType } from "../mistake-taxonomy";
+import { computeOverallBand, isValidBand } from "../band-score";
+
+// Task 2 criteria; Task 1 grades taskAchievement instead of taskResponse
+export const CRITERIA_KEYS: CriterionKey[] = [
+  "taskResponse",
+  "coherence",
+  "lexical",
+  "grammar",
+];
+
+export type CriteriaScoresResponse = Partial<Record<CriterionKey, number>>;
+
+export interface ScoresResponse {
+  score: number;
+  criteriaScores: CriteriaScoresResponse;
+}
+
+export interface InlineFeedbackResponse {
+  originalText: string;
+  category: string;
+  mistakeType: MistakeType;
+  explanation: string;
+  suggestion: string;
+  suggestionExplanation: string;
+}
+
+export interface FeedbackResponse {
+  mistakes: string[];
+  suggestions: string[];
+  inlineFeedback: InlineFeedbackResponse[];
+  taskSpecific?: Partial<Record<TaskSpecificFeedbackKey, string>>;
+}
+
+export interface AnalysisResponse extends ScoresResponse {
+  aiFeedback: FeedbackResponse;
+}
+
+export interface ImprovedVersionResponse {
+  introduction: string;
+  body: string[];
+  conclusion: string;
+  criteriaResponse: Partial<Record<CriterionKey, string>>;
+  inlineFeedback?: any[];
+}
+
+export interface StructureResponse {
+  body_count: number;
+  has_intro: boolean;
+  has_conclusion: boolean;
+}
+
+/**
+ * Result of checking a model response: the parsed value when valid,
+ * otherwise the list of problems to send back in a repair prompt.
+ */
+export interface ValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+/**
+ * Raised when a grading response is still invalid after all repair attempts.
+ */
+export class InvalidGradingResponseException extends BadGatewayException {
+  constructor(
+    task: string,
+    public readonly errors: string[]
+  ) {
+    super(`AI ${task} response failed validation: ${errors.join("; ")}`);
+  }
+}
+
+export function parseJsonObject(text: string): ValidationResult<any> {
+  const trimmed = (text || "")
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  if (!trimmed.startsWith("{") || !trimmed.endsWith("}")) {
+    return { errors: ["Response must be a single JSON object"] };
+  }
+  try {
+    return { value: JSON.parse(trimmed), errors: [] };
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+}
+
+// Typed prompt variables downstream need real numbers and booleans
+export function validateStructure(
+  data: any
+): ValidationResult<StructureResponse> {
+  const errors: string[] = [];
+  if (!Number.isInteger(data?.body_count) || data.body_count < 0) {
+    errors.push(
+      `"body_count" must be a whole number of 0 or more, got ${JSON.stringify(data?.body_count)}`
+    );
+  }
+  ["has_intro", "has_conclusion"].forEach((key) => {
+    if (typeof data?.[key] !== "boolean") {
+      errors.push(`"${key}" must be true or false`);
+    }
+  });
+
+  if (errors.length) {
+    return { errors };
+  }
+  return {
+    value: {
+      body_count: data.body_count,
+      has_intro: data.has_intro,
+      has_conclusion: data.has_conclusion,
+    },
+    errors,
+  };
+}
+
+export function validateScores(
+  data: any,
+  criteriaKeys: CriterionKey[] = CRITERIA_KEYS
+): ValidationResult<ScoresResponse> {
+  const errors: string[] = [];
+  if (!data?.criteriaScores || typeof data.criteriaScores !== "object") {
+    errors.push(`"criteriaScores" must be an object`);
+  } else {
+    criteriaKeys.forEach((key) => {
+      if (!isValidBand(data.criteriaScores[key])) {
+        errors.push(
+          `"criteriaScores.${key}" must be a number from 0 to 9 in half-band steps, got ${JSON.stringify(data.criteriaScores[key])}`
+        );
+      }
+    });
+  }
+
+  if (errors.length) {
+    return { errors };
+  }
+  const criteriaScores = criteriaKeys.reduce(
+    (scores, key) => ({ ...scores, [key]: data.criteriaScores[key] }),
+    {} as CriteriaScoresResponse
+  );
+  // The model's "score" is ignored; the overall band always follows from the criteria
+  return {
+    value: {
+      score: computeOverallBand(criteriaScores, criteriaKeys),
+      criteriaScores,
+    },
+    errors,
+  };
+}
+
+export function validateFeedback(
+  data: any,
+  essay: string,
+  taskSpecificKeys: TaskSpecificFeedbackKey[] = []
+): ValidationResult<FeedbackResponse> {
+  const errors: string[] = [];
+  ["mistakes", "suggestions"].forEach((key) => {
+    if (
+      !Array.isArray(data?.[key]) ||
+      data[key].some((item) => typeof item !== "string")
+    ) {
+      errors.push(`"${key}" must be an array of strings`);
+    }
+  });
+
+  if (!Array.isArray(data?.inlineFeedback)) {
+    errors.push(`"inlineFeedback" must be an array`);
+  } else {
+    data.inlineFeedback.forEach((item, index) => {
+      const originalText = item?.originalText;
+      if (typeof originalText !== "string" || !originalText.trim()) {
+        errors.push(`"inlineFeedback[${index}].originalText" is required`);
+      } else if (!essay.includes(originalText)) {
+        errors.push(
+          `"inlineFeedback[${index}].originalText" must be copied exactly from the essay, "${originalText}" was not found`
+        );
+      }
+      ["category", "explanation", "suggestion"].forEach((key) => {
+        if (typeof item?.[key] !== "string") {
+          errors.push(`"inlineFeedback[${index}].${key}" must be a string`);
+        }
+      });
+      if (!isMistakeType(item?.mistakeType)) {
+        errors.push(
+          `"inlineFeedback[${index}].mistakeType" must be one of: ${MISTAKE_TYPES.join(", ")}`
+        );
+      }
+    });
+  }
+
+  taskSpecificKeys.forEach((key) => {
+    const value = data?.taskSpecific?.[key];
+    if (typeof value !== "string" || !value.trim()) {
+      errors.push(`"taskSpecific.${key}" must be a non-empty string`);
+    }
+  });
+
+  if (errors.length) {
+    return { errors };
+  }
+  return {
+    value: {
+      mistakes: data.mistakes,
+      suggestions: data.suggestions,
+      inlineFeedback: data.inlineFeedback.map((item) => ({
+        originalText: item.originalText,
+        category: item.category,
+        mistakeType: item.mistakeType,
+        explanation: item.explanation,
+        suggestion: item.suggestion,
+        suggestionExplanation: item.suggestionExplanation || "",
+      })),
+      ...(taskSpecificKeys.length && {
+        taskSpecific: taskSpecificKeys.reduce(
+          (feedback, key) => ({ ...feedback, [key]: data.taskSpecific[key] }),
+          {}
+        ),
+      }),
+    },
+    errors,
+  };
+}
+
+export function validateAnalysis(
+  data: any,
+  essay: string,
+  criteriaKeys: CriterionKey[] = CRITERIA_KEYS,
+  taskSpecificKeys: TaskSpecificFeedbackKey[] = []
+): ValidationResult<AnalysisResponse> {
+  const scores = validateScores(data, criteriaKeys);
+  const feedback = validateFeedback(data?.aiFeedback, essay, taskSpecificKeys);
+  const errors = [
+    ...scores.errors,
+    ...feedback.errors.map((error) => `aiFeedback: ${error}`),
+  ];
+
+  if (errors.length) {
+    return { errors };
+  }
+  return { value: { ...scores.value, aiFeedback: feedback.value }, errors };
+}
+
+export function validateImprovedVersion(
+  data: any,
+  bodyCount: number,
+  criteriaKeys: CriterionKey[] = CRITERIA_KEYS
+): ValidationResult<ImprovedVersionResponse> {
+  const errors: string[] = [];
+  ["introduction", "conclusion"].forEach((key) => {
+    if (typeof data?.[key] !== "string") {
+      errors.push(`"${key}" must be a string`);
+    }
+  });
+  if (
+    !Array.isArray(data?.body) ||
+    data.body.some((paragraph) => typeof paragraph !== "string")
+  ) {
+    errors.push(`"body" must be an array of strings`);
+  } else if (bodyCount > 0 && data.body.length !== bodyCount) {
+    errors.push(
+      `"body" must contain exactly ${bodyCount} paragraphs, got ${data.body.length}`
+    );
+  }
+  criteriaKeys.forEach((key) => {
+    if (typeof data?.criteriaResponse?.[key] !== "string") {
+      errors.push(`"criteriaResponse.${key}" must be a string`);
+    }
+  });
+
+  return errors.length ? { errors } : { value: data, errors };
+}
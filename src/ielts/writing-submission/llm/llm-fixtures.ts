@@ -0,0 +1,44 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+} from "./llm-provider.interface";
+
+/**
+ * Fixture name for a request: "<task>-<hash of prompts>.json".
+ * The model is left out so fixtures recorded against a real provider
+ * replay under the mock provider.
+ */
+export function getFixtureFileName(request: LLMCompletionRequest): string {
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${request.system}\n---\n${request.user}`)
+    .digest("hex")
+    .slice(0, 16);
+  return `${request.task || "completion"}-${hash}.json`;
+}
+
+export function writeFixture(
+  dir: string,
+  request: LLMCompletionRequest,
+  result: LLMCompletionResult
+): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, getFixtureFileName(request));
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify(
+      {
+        task: request.task,
+        provider: result.provider,
+        model: result.model,
+        text: result.text,
+      },
+      null,
+      2
+    )
+  );
+  return filePath;
+}
@@ -0,0 +1,63 @@
+export enum LLMTask {
+  STRUCTURE = "structure",
+  SCORES = "scores",
+  FEEDBACK = "feedback",
+  ANALYSIS = "analysis",
+  IMPROVED_VERSION = "improved",
+}
+
+/**
+ * Structured inputs the prompt was rendered from. Real providers ignore
+ * it; the mock provider derives its output from it.
+ */
+export interface LLMRequestContext {
+  essay?: string;
+  targetBand?: string;
+  taskType?: string;
+  variant?: string;
+}
+
+/**
+ * Who a call is made for; used for usage and cost accounting.
+ */
+export interface LLMCallMeta {
+  submissionId?: string;
+  userId?: string;
+}
+
+export interface LLMCompletionRequest {
+  task?: LLMTask;
+  context?: LLMRequestContext;
+  system: string;
+  user: string;
+  model: string;
+  jsonMode?: boolean;
+  temperature?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletionResult {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+  // Route that served the call, set by LLMService. `model` is what the
+  // provider reported, which may be a dated snapshot of the route's model.
+  route?: LLMRoute;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+}
+
+export interface LLMRoute {
+  provider: string;
+  model: string;
+}
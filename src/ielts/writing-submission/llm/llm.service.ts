@@ -0,0 +1,238 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  LLMCallMeta,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+  LLMRequestContext,
+  LLMRoute,
+  LLMTask,
+} from "./llm-provider.interface";
+import { OpenAIProvider } from "./providers/openai.provider";
+import { AzureOpenAIProvider } from "./providers/azure-openai.provider";
+import { AnthropicProvider } from "./providers/anthropic.provider";
+import { OpenAICompatibleProvider } from "./providers/openai-compatible.provider";
+import { MockLLMProvider } from "./providers/mock-llm.provider";
+import { writeFixture } from "./llm-fixtures";
+import { AIUsageService } from "../../../ai-usage/ai-usage.service";
+
+// Models used before routing became configurable; kept as OpenAI defaults
+const DEFAULT_OPENAI_TASK_MODELS: Record<LLMTask, string> = {
+  [LLMTask.STRUCTURE]: "gpt-4o",
+  [LLMTask.SCORES]: "gpt-4o",
+  [LLMTask.FEEDBACK]: "gpt-5",
+  [LLMTask.ANALYSIS]: "gpt-5",
+  [LLMTask.IMPROVED_VERSION]: "gpt-4o",
+};
+
+/**
+ * Routes each grading task to a configured provider/model pair and
+ * falls back to the next route when a provider fails.
+ *
+ * Configuration (per task, e.g. LLM_SCORES_PROVIDER):
+ * - LLM_<TASK>_PROVIDER / LLM_PROVIDER: openai | azure-openai | anthropic | openai-compatible | mock
+ * - LLM_<TASK>_MODEL: model (or Azure deployment) name
+ * - LLM_<TASK>_FALLBACKS / LLM_FALLBACKS: comma separated "provider:model" list
+ * - LLM_RECORD_FIXTURES_DIR: write every response there for replay by the mock provider
+ */
+@Injectable()
+export class LLMService {
+  private readonly logger = new Logger(LLMService.name);
+  private readonly providers = new Map<string, LLMProvider>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aiUsageService: AIUsageService,
+    openAIProvider: OpenAIProvider,
+    azureOpenAIProvider: AzureOpenAIProvider,
+    anthropicProvider: AnthropicProvider,
+    openAICompatibleProvider: OpenAICompatibleProvider,
+    mockProvider: MockLLMProvider
+  ) {
+    [
+      openAIProvider,
+      azureOpenAIProvider,
+      anthropicProvider,
+      openAICompatibleProvider,
+      mockProvider,
+    ].forEach((provider) => this.registerProvider(provider));
+  }
+
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * "provider/model" of the route that served a completion
+   */
+  getRouteName(completion: LLMCompletionResult): string {
+    const route = completion.route || completion;
+    return `${route.provider}/${route.model}`;
+  }
+
+  getRoutes(task: LLMTask): LLMRoute[] {
+    const key = task.toUpperCase();
+    const provider =
+      this.configService.get<string>(`LLM_${key}_PROVIDER`) ||
+      this.configService.get<string>("LLM_PROVIDER") ||
+      "openai";
+    const model =
+      this.configService.get<string>(`LLM_${key}_MODEL`) ||
+      this.getDefaultModel(provider, task);
+
+    const fallbacks = (
+      this.configService.get<string>(`LLM_${key}_FALLBACKS`) ||
+      this.configService.get<string>("LLM_FALLBACKS") ||
+      ""
+    )
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [fallbackProvider, ...rest] = entry.split(":");
+        const fallbackModel = rest.join(":");
+        return {
+          provider: fallbackProvider,
+          model: fallbackModel || this.getDefaultModel(fallbackProvider, task),
+        };
+      });
+
+    return [{ provider, model }, ...fallbacks].filter(
+      (route, index, routes) =>
+        routes.findIndex(
+          (other) =>
+            other.provider === route.provider && other.model === route.model
+        ) === index
+    );
+  }
+
+  async complete(
+    task: LLMTask,
+    system: string,
+    user: string,
+    context?: LLMRequestContext,
+    meta: LLMCallMeta = {}
+  ): Promise<LLMCompletionResult> {
+    const routes = this.getRoutes(task);
+    let lastError: any;
+
+    for (const route of routes) {
+      const provider = this.providers.get(route.provider);
+      if (!provider) {
+        this.logger.warn(
+          `Unknown LLM provider "${route.provider}" configured for ${task}`
+        );
+        continue;
+      }
+      if (!provider.isConfigured()) {
+        lastError = new Error(
+          `LLM provider "${route.provider}" is not configured`
+        );
+        this.logger.warn(`${lastError.message}, skipping for ${task}`);
+        continue;
+      }
+
+      const startedAt = Date.now();
+      try {
+        const request = {
+          task,
+          context,
+          system,
+          user,
+          model: route.model,
+        };
+        const result = await provider.complete(request);
+        this.recordUsage(task, meta, startedAt, {
+          provider: result.provider,
+          model: result.model,
+          promptTokens: result.usage?.promptTokens,
+          completionTokens: result.usage?.completionTokens,
+          totalTokens: result.usage?.totalTokens,
+          success: true,
+        });
+        this.recordFixture(request, result);
+        return { ...result, route };
+      } catch (error) {
+        lastError = error;
+        this.recordUsage(task, meta, startedAt, {
+          provider: route.provider,
+          model: route.model,
+          success: false,
+          error: error?.message,
+        });
+        this.logger.warn(
+          `LLM ${task} request via ${route.provider}/${route.model} failed, trying next route`
+        );
+      }
+    }
+
+    throw lastError || new Error(`No LLM provider available for ${task}`);
+  }
+
+  /**
+   * Usage is recorded in the background so accounting never delays or
+   * fails a grading request.
+   */
+  private recordUsage(
+    task: LLMTask,
+    meta: LLMCallMeta,
+    startedAt: number,
+    call: {
+      provider: string;
+      model: string;
+      promptTokens?: number;
+      completionTokens?: number;
+      totalTokens?: number;
+      success: boolean;
+      error?: string;
+    }
+  ): void {
+    this.aiUsageService
+      .record({
+        task,
+        ...call,
+        latencyMs: Date.now() - startedAt,
+        submissionId: meta.submissionId,
+        userId: meta.userId,
+      })
+      .catch((error) =>
+        this.logger.warn(`Failed to record LLM usage: ${error.message}`)
+      );
+  }
+
+  private recordFixture(
+    request: LLMCompletionRequest,
+    result: LLMCompletionResult
+  ): void {
+    const dir = this.configService.get<string>("LLM_RECORD_FIXTURES_DIR");
+    if (!dir || result.provider === "mock") {
+      return;
+    }
+    try {
+      writeFixture(dir, request, result);
+    } catch (error) {
+      this.logger.warn(`Failed to record LLM fixture: ${error.message}`);
+    }
+  }
+
+  private getDefaultModel(provider: string, task: LLMTask): string {
+    switch (provider) {
+      case "openai":
+        return DEFAULT_OPENAI_TASK_MODELS[task];
+      case "azure-openai":
+        return this.configService.get<string>("AZURE_OPENAI_DEPLOYMENT");
+      case "anthropic":
+        return (
+          this.configService.get<string>("ANTHROPIC_MODEL") ||
+          "claude-3-5-sonnet-latest"
+        );
+      case "openai-compatible":
+        return this.configService.get<string>("LLM_COMPATIBLE_MODEL");
+      case "mock":
+        return "mock";
+      default:
+        return undefined;
+    }
+  }
+}
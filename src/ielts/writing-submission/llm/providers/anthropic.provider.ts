@@ -0,0 +1,86 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import axios from "axios";
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+} from "../llm-provider.interface";
+
+@Injectable()
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  private readonly logger = new Logger(AnthropicProvider.name);
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly maxTokens: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.apiKey = this.configService.get<string>("ANTHROPIC_API_KEY");
+    this.baseUrl =
+      this.configService.get<string>("ANTHROPIC_BASE_URL") ||
+      "https://api.anthropic.com/v1";
+    this.maxTokens =
+      Number(this.configService.get<string>("ANTHROPIC_MAX_TOKENS")) || 4096;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    if (!this.isConfigured()) {
+      throw new Error(`LLM provider "${this.name}" is not configured`);
+    }
+
+    const payload: any = {
+      model: request.model,
+      max_tokens: this.maxTokens,
+      messages: [{ role: "user", content: request.user }],
+      temperature: request.temperature ?? 0.2,
+    };
+    if (request.system) {
+      payload.system = request.system;
+    }
+
+    try {
+      const response = await axios.post(`${this.baseUrl}/messages`, payload, {
+        headers: {
+          "x-api-key": this.apiKey,
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+      });
+
+      const text = (response.data.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join("")
+        .trim();
+      const usage = response.data.usage;
+
+      return {
+        text,
+        provider: this.name,
+        model: response.data.model || request.model,
+        usage: usage
+          ? {
+              promptTokens: usage.input_tokens || 0,
+              completionTokens: usage.output_tokens || 0,
+              totalTokens:
+                (usage.input_tokens || 0) + (usage.output_tokens || 0),
+            }
+          : undefined,
+      };
+    } catch (error: any) {
+      const status = error?.response?.status;
+      const data = error?.response?.data;
+      this.logger.error(
+        `Anthropic messages request failed${status ? ` with status ${status}` : ""}: ${
+          data ? JSON.stringify(data) : error?.message || String(error)
+        }`
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ChatCompletionsProvider } from "./chat-completions.provider";
+
+/**
+ * Azure OpenAI addresses models by deployment name, so the routed
+ * "model" is used as the deployment segment of the URL.
+ */
+@Injectable()
+export class AzureOpenAIProvider extends ChatCompletionsProvider {
+  readonly name = "azure-openai";
+  protected readonly logger = new Logger(AzureOpenAIProvider.name);
+  private readonly apiKey: string;
+  private readonly endpoint: string;
+  private readonly apiVersion: string;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.apiKey = this.configService.get<string>("AZURE_OPENAI_API_KEY");
+    this.endpoint = (
+      this.configService.get<string>("AZURE_OPENAI_ENDPOINT") || ""
+    ).replace(/\/+$/, "");
+    this.apiVersion =
+      this.configService.get<string>("AZURE_OPENAI_API_VERSION") ||
+      "2024-06-01";
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && !!this.endpoint;
+  }
+
+  protected buildUrl(model: string): string {
+    return `${this.endpoint}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${this.apiVersion}`;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return { "api-key": this.apiKey };
+  }
+}
@@ -0,0 +1,82 @@
+import { Logger } from "@nestjs/common";
+import axios from "axios";
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+} from "../llm-provider.interface";
+
+/**
+ * Shared implementation for providers that speak the OpenAI
+ * chat.completions wire format (OpenAI, Azure OpenAI, vLLM, Ollama, ...)
+ */
+export abstract class ChatCompletionsProvider implements LLMProvider {
+  abstract readonly name: string;
+  protected abstract readonly logger: Logger;
+
+  abstract isConfigured(): boolean;
+
+  protected abstract buildUrl(model: string): string;
+
+  protected abstract buildHeaders(): Record<string, string>;
+
+  /**
+   * Whether the backend understands response_format: json_object
+   */
+  protected supportsJsonMode(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    if (!this.isConfigured()) {
+      throw new Error(`LLM provider "${this.name}" is not configured`);
+    }
+
+    const payload: any = {
+      model: request.model,
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content: request.user },
+      ],
+    };
+    if (request.jsonMode !== false && this.supportsJsonMode()) {
+      payload.response_format = { type: "json_object" };
+    }
+    // Some models (e.g., gpt-5) only allow default temperature; omit to use default
+    if (!request.model.toLowerCase().startsWith("gpt-5")) {
+      payload.temperature = request.temperature ?? 0.2;
+    }
+
+    try {
+      const response = await axios.post(this.buildUrl(request.model), payload, {
+        headers: {
+          ...this.buildHeaders(),
+          "Content-Type": "application/json",
+        },
+      });
+
+      const usage = response.data.usage;
+      return {
+        text: response.data.choices?.[0]?.message?.content?.trim() || "",
+        provider: this.name,
+        model: response.data.model || request.model,
+        usage: usage
+          ? {
+              promptTokens: usage.prompt_tokens || 0,
+              completionTokens: usage.completion_tokens || 0,
+              totalTokens: usage.total_tokens || 0,
+            }
+          : undefined,
+      };
+    } catch (error: any) {
+      const status = error?.response?.status;
+      const data = error?.response?.data;
+      this.logger.error(
+        `${this.name} chat.completions request failed${status ? ` with status ${status}` : ""}: ${
+          data ? JSON.stringify(data) : error?.message || String(error)
+        }`
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,406 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+  LLMTask,
+} from "../llm-provider.interface";
+import { getFixtureFileName } from "../llm-fixtures";
+import { GradingRubric, getGradingRubric } from "../../grading-rubrics";
+import { IELTSWritingSubmissionType } from "../../schemas/ielts-writing-submission.schema";
+import { IELTSWritingVariant } from "../../../writing/schemas/ielts-writing.schema";
+import { MistakeType } from "../../mistake-taxonomy";
+
+const LINKING_WORDS = [
+  "however",
+  "moreover",
+  "furthermore",
+  "in addition",
+  "therefore",
+  "consequently",
+  "on the other hand",
+  "for instance",
+  "for example",
+  "in conclusion",
+  "additionally",
+  "nevertheless",
+];
+
+// Canned Task 1 feedback, keyed by taskSpecific field
+const TASK_SPECIFIC_FEEDBACK: Record<string, string> = {
+  overview: "Add a clear overview sentence summarising the main trends.",
+  keyFeatures:
+    "Compare the highest and lowest values rather than listing them.",
+  dataAccuracy: "Check each figure against the visual.",
+  purpose: "State the reason for writing in the opening sentence.",
+  bulletPoints: "Develop each bullet point in its own paragraph.",
+  tone: "Keep the register consistent with the reader.",
+};
+
+// Informal or vague phrases flagged by the mock grader, with replacements
+const WEAK_PHRASES: {
+  phrase: string;
+  category: string;
+  mistakeType: MistakeType;
+  suggestion: string;
+  explanation: string;
+}[] = [
+  {
+    phrase: "a lot of",
+    category: "Lexical Resource",
+    mistakeType: MistakeType.INFORMAL_REGISTER,
+    suggestion: "a great deal of",
+    explanation: "Informal quantifier.",
+  },
+  {
+    phrase: "very",
+    category: "Lexical Resource",
+    mistakeType: MistakeType.WORD_CHOICE,
+    suggestion: "extremely",
+    explanation: "Overused intensifier.",
+  },
+  {
+    phrase: "things",
+    category: "Lexical Resource",
+    mistakeType: MistakeType.WORD_CHOICE,
+    suggestion: "aspects",
+    explanation: "Vague noun.",
+  },
+  {
+    phrase: "good",
+    category: "Lexical Resource",
+    mistakeType: MistakeType.WORD_CHOICE,
+    suggestion: "beneficial",
+    explanation: "Imprecise adjective.",
+  },
+  {
+    phrase: "bad",
+    category: "Lexical Resource",
+    mistakeType: MistakeType.WORD_CHOICE,
+    suggestion: "detrimental",
+    explanation: "Imprecise adjective.",
+  },
+  {
+    phrase: "nowadays",
+    category: "Cohesion",
+    mistakeType: MistakeType.LINKING_DEVICES,
+    suggestion: "in recent years",
+    explanation: "Overused opening.",
+  },
+  {
+    phrase: "In my opinion",
+    category: "Task Response",
+    mistakeType: MistakeType.IDEA_DEVELOPMENT,
+    suggestion: "I would argue that",
+    explanation: "Formulaic stance marker.",
+  },
+  {
+    phrase: "don't",
+    category: "Grammar",
+    mistakeType: MistakeType.INFORMAL_REGISTER,
+    suggestion: "do not",
+    explanation: "Contractions are informal.",
+  },
+  {
+    phrase: "can't",
+    category: "Grammar",
+    mistakeType: MistakeType.INFORMAL_REGISTER,
+    suggestion: "cannot",
+    explanation: "Contractions are informal.",
+  },
+];
+
+interface EssayStats {
+  paragraphs: string[];
+  sentences: string[];
+  words: string[];
+  wordCount: number;
+  uniqueRatio: number;
+  averageSentenceLength: number;
+  linkingWordCount: number;
+}
+
+/**
+ * Offline provider for tests and local development (LLM_PROVIDER=mock).
+ *
+ * Responses are derived deterministically from the essay text, or replayed
+ * from recorded fixtures when LLM_MOCK_FIXTURES_DIR contains a match.
+ */
+@Injectable()
+export class MockLLMProvider implements LLMProvider {
+  readonly name = "mock";
+  private readonly logger = new Logger(MockLLMProvider.name);
+  private readonly fixturesDir: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.fixturesDir = this.configService.get<string>("LLM_MOCK_FIXTURES_DIR");
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const text =
+      this.replayFixture(request) ?? JSON.stringify(this.generate(request));
+    const promptTokens = Math.ceil(
+      (request.system.length + request.user.length) / 4
+    );
+    const completionTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      provider: this.name,
+      model: request.model || "mock",
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  private replayFixture(request: LLMCompletionRequest): string | undefined {
+    if (!this.fixturesDir) {
+      return undefined;
+    }
+    const filePath = path.join(this.fixturesDir, getFixtureFileName(request));
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    this.logger.debug(`Replaying LLM fixture ${filePath}`);
+    const fixture = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return fixture.text;
+  }
+
+  private generate(request: LLMCompletionRequest): any {
+    const essay = request.context?.essay || "";
+    const stats = this.getEssayStats(essay);
+    const rubric = getGradingRubric(
+      request.context?.taskType as IELTSWritingSubmissionType,
+      request.context?.variant as IELTSWritingVariant
+    );
+
+    switch (request.task) {
+      case LLMTask.STRUCTURE:
+        return this.buildStructure(stats);
+      case LLMTask.SCORES:
+        return this.buildScores(stats, rubric);
+      case LLMTask.FEEDBACK:
+        return this.buildFeedback(essay, stats, rubric);
+      case LLMTask.ANALYSIS:
+        return {
+          ...this.buildScores(stats, rubric),
+          aiFeedback: this.buildFeedback(essay, stats, rubric),
+        };
+      case LLMTask.IMPROVED_VERSION:
+        return this.buildImprovedVersion(
+          stats,
+          rubric,
+          request.context?.targetBand
+        );
+      default:
+        return {};
+    }
+  }
+
+  private getEssayStats(essay: string): EssayStats {
+    const paragraphs = essay
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean);
+    const sentences = essay
+      .split(/(?<=[.!?])\s+/)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean);
+    const words = essay.match(/[A-Za-z']+/g) || [];
+    const unique = new Set(words.map((word) => word.toLowerCase()));
+    const lower = essay.toLowerCase();
+
+    return {
+      paragraphs,
+      sentences,
+      words,
+      wordCount: words.length,
+      uniqueRatio: words.length ? unique.size / words.length : 0,
+      averageSentenceLength: sentences.length
+        ? words.length / sentences.length
+        : 0,
+      linkingWordCount: LINKING_WORDS.reduce(
+        (count, linker) => count + lower.split(linker).length - 1,
+        0
+      ),
+    };
+  }
+
+  private buildStructure(stats: EssayStats) {
+    const count = stats.paragraphs.length;
+    return {
+      body_count: Math.max(0, count - 2),
+      has_intro: count >= 1,
+      has_conclusion: count >= 2,
+    };
+  }
+
+  private buildScores(stats: EssayStats, rubric: GradingRubric) {
+    const taskResponse = this.toBand(
+      4 +
+        Math.min(stats.wordCount / rubric.minWords, 1.2) * 3 +
+        (stats.paragraphs.length >= 4 ? 1 : 0)
+    );
+    const coherence = this.toBand(
+      4 +
+        Math.min(stats.paragraphs.length, 5) * 0.6 +
+        Math.min(stats.linkingWordCount, 6) * 0.25
+    );
+    const lexical = this.toBand(3 + stats.uniqueRatio * 7);
+    const grammar = this.toBand(
+      4 + Math.min(stats.averageSentenceLength, 25) / 6
+    );
+    // Task 1 grades Task Achievement in place of Task Response
+    const criteriaScores = {
+      [rubric.criteriaKeys[0]]: taskResponse,
+      coherence,
+      lexical,
+      grammar,
+    };
+
+    return {
+      score: this.toBand((taskResponse + coherence + lexical + grammar) / 4),
+      criteriaScores,
+    };
+  }
+
+  private buildFeedback(
+    essay: string,
+    stats: EssayStats,
+    rubric: GradingRubric
+  ) {
+    const inlineFeedback = WEAK_PHRASES.map((entry) => {
+      const match = new RegExp(`\\b${entry.phrase}\\b`, "i").exec(essay);
+      return match
+        ? {
+            originalText: match[0],
+            category: entry.category,
+            mistakeType: entry.mistakeType,
+            explanation: entry.explanation,
+            suggestion: entry.suggestion,
+            suggestionExplanation: "More precise and academic.",
+          }
+        : null;
+    })
+      .filter(Boolean)
+      .slice(0, 4);
+
+    const longest = [...stats.sentences].sort(
+      (a, b) => b.split(/\s+/).length - a.split(/\s+/).length
+    )[0];
+    if (longest && longest.split(/\s+/).length > 30) {
+      const fragment = longest.split(/\s+/).slice(0, 5).join(" ");
+      inlineFeedback.push({
+        originalText: fragment,
+        category: "Grammar",
+        mistakeType: MistakeType.RUN_ON_SENTENCE,
+        explanation: "Overlong sentence reduces clarity.",
+        suggestion: `${fragment} [split into two sentences]`,
+        suggestionExplanation: "Shorter sentences are easier to follow.",
+      });
+    }
+
+    const mistakes: string[] = [];
+    const suggestions: string[] = [];
+    if (stats.wordCount < rubric.minWords) {
+      mistakes.push(
+        `The essay is under length (${stats.wordCount} words, minimum ${rubric.minWords}).`
+      );
+      suggestions.push(
+        `Develop each main idea with an example to reach ${rubric.minWords}+ words.`
+      );
+    }
+    if (stats.paragraphs.length < 4) {
+      mistakes.push(
+        `Only ${stats.paragraphs.length} paragraph(s); ideas are not clearly separated.`
+      );
+      suggestions.push(
+        "Use an introduction, two body paragraphs and a conclusion."
+      );
+    }
+    if (stats.linkingWordCount < 3) {
+      mistakes.push("Limited use of cohesive devices between ideas.");
+      suggestions.push("Link ideas with varied cohesive devices.");
+    }
+    if (stats.uniqueRatio < 0.5) {
+      mistakes.push("Noticeable repetition of vocabulary.");
+      suggestions.push("Paraphrase repeated words with precise synonyms.");
+    }
+    if (!mistakes.length) {
+      mistakes.push("Occasional imprecise word choice.");
+      suggestions.push("Replace general vocabulary with topic-specific terms.");
+    }
+
+    if (!rubric.taskSpecificKeys.length) {
+      return { mistakes, suggestions, inlineFeedback };
+    }
+    const taskSpecific = rubric.taskSpecificKeys.reduce(
+      (feedback, key) => ({ ...feedback, [key]: TASK_SPECIFIC_FEEDBACK[key] }),
+      {}
+    );
+    return { mistakes, suggestions, inlineFeedback, taskSpecific };
+  }
+
+  private buildImprovedVersion(
+    stats: EssayStats,
+    rubric: GradingRubric,
+    targetBand?: string
+  ) {
+    const band = targetBand || "BAND_SEVEN";
+    const improve = (text: string) =>
+      WEAK_PHRASES.reduce(
+        (result, entry) =>
+          result.replace(
+            new RegExp(`\\b${entry.phrase}\\b`, "gi"),
+            entry.suggestion
+          ),
+        text
+      );
+    const paragraphs = stats.paragraphs.map(improve);
+    const introduction = paragraphs[0] || "";
+    const conclusion =
+      paragraphs.length > 1 ? paragraphs[paragraphs.length - 1] : "";
+    const body = paragraphs.slice(1, -1);
+    const snippet = (introduction.match(/[A-Za-z']+(\s+[A-Za-z']+){0,3}/) || [
+      "",
+    ])[0];
+
+    return {
+      introduction,
+      body,
+      conclusion,
+      criteriaResponse: {
+        [rubric.criteriaKeys[0]]: `Addresses the task fully at ${band}.`,
+        coherence: "Ideas are logically organised into clear paragraphs.",
+        lexical: "Uses precise, academic vocabulary.",
+        grammar: "Uses a range of accurate sentence structures.",
+      },
+      inlineFeedback: snippet
+        ? [
+            {
+              textsnippet: snippet,
+              category: "Structure",
+              explanation: "Clear opening that frames the topic.",
+            },
+          ]
+        : [],
+    };
+  }
+
+  /**
+   * Clamp to 0-9 and round to the nearest half band
+   */
+  private toBand(value: number): number {
+    return Math.round(Math.min(9, Math.max(0, value)) * 2) / 2;
+  }
+}
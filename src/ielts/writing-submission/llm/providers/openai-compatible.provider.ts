@@ -0,0 +1,42 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ChatCompletionsProvider } from "./chat-completions.provider";
+
+/**
+ * Self-hosted servers exposing an OpenAI-compatible API (vLLM, Ollama,
+ * LM Studio, ...). The API key is optional for local deployments.
+ */
+@Injectable()
+export class OpenAICompatibleProvider extends ChatCompletionsProvider {
+  readonly name = "openai-compatible";
+  protected readonly logger = new Logger(OpenAICompatibleProvider.name);
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly jsonMode: boolean;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.apiKey = this.configService.get<string>("LLM_COMPATIBLE_API_KEY");
+    this.baseUrl = (
+      this.configService.get<string>("LLM_COMPATIBLE_BASE_URL") || ""
+    ).replace(/\/+$/, "");
+    this.jsonMode =
+      this.configService.get<string>("LLM_COMPATIBLE_JSON_MODE") !== "false";
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  protected supportsJsonMode(): boolean {
+    return this.jsonMode;
+  }
+
+  protected buildUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ChatCompletionsProvider } from "./chat-completions.provider";
+
+@Injectable()
+export class OpenAIProvider extends ChatCompletionsProvider {
+  readonly name = "openai";
+  protected readonly logger = new Logger(OpenAIProvider.name);
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.apiKey = this.configService.get<string>("OPENAI_API_KEY");
+    this.baseUrl =
+      this.configService.get<string>("OPENAI_BASE_URL") ||
+      "https://api.openai.com/v1";
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected buildUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.apiKey}` };
+  }
+}
@@ -0,0 +1,86 @@
+import { CriterionKey } from "./grading-rubrics";
+
+/**
+ * Controlled error types every inline feedback item is mapped into, so
+ * mistakes can be counted across essays
+ */
+export enum MistakeType {
+  ARTICLES = "articles",
+  SUBJECT_VERB_AGREEMENT = "subject-verb-agreement",
+  VERB_TENSE = "verb-tense",
+  PREPOSITIONS = "prepositions",
+  PLURALS = "plurals",
+  WORD_FORM = "word-form",
+  SENTENCE_STRUCTURE = "sentence-structure",
+  RUN_ON_SENTENCE = "run-on-sentence",
+  SENTENCE_FRAGMENT = "sentence-fragment",
+  PUNCTUATION = "punctuation",
+  SPELLING = "spelling",
+  COLLOCATION = "collocation",
+  WORD_CHOICE = "word-choice",
+  REPETITION = "repetition",
+  INFORMAL_REGISTER = "informal-register",
+  LINKING_DEVICES = "linking-devices",
+  REFERENCING = "referencing",
+  PARAGRAPHING = "paragraphing",
+  IDEA_DEVELOPMENT = "idea-development",
+  TASK_RELEVANCE = "task-relevance",
+  DATA_ACCURACY = "data-accuracy",
+  OTHER = "other",
+}
+
+export const MISTAKE_TYPE_DETAILS: Record<
+  MistakeType,
+  // "task" is Task Response or Task Achievement, depending on the task
+  { label: string; criterion: CriterionKey | "task" | null }
+> = {
+  [MistakeType.ARTICLES]: { label: "Articles", criterion: "grammar" },
+  [MistakeType.SUBJECT_VERB_AGREEMENT]: {
+    label: "Subject-verb agreement",
+    criterion: "grammar",
+  },
+  [MistakeType.VERB_TENSE]: { label: "Verb tense", criterion: "grammar" },
+  [MistakeType.PREPOSITIONS]: { label: "Prepositions", criterion: "grammar" },
+  [MistakeType.PLURALS]: { label: "Plurals", criterion: "grammar" },
+  [MistakeType.WORD_FORM]: { label: "Word form", criterion: "lexical" },
+  [MistakeType.SENTENCE_STRUCTURE]: {
+    label: "Sentence structure",
+    criterion: "grammar",
+  },
+  [MistakeType.RUN_ON_SENTENCE]: {
+    label: "Run-on sentences",
+    criterion: "grammar",
+  },
+  [MistakeType.SENTENCE_FRAGMENT]: {
+    label: "Sentence fragments",
+    criterion: "grammar",
+  },
+  [MistakeType.PUNCTUATION]: { label: "Punctuation", criterion: "grammar" },
+  [MistakeType.SPELLING]: { label: "Spelling", criterion: "lexical" },
+  [MistakeType.COLLOCATION]: { label: "Collocation", criterion: "lexical" },
+  [MistakeType.WORD_CHOICE]: { label: "Word choice", criterion: "lexical" },
+  [MistakeType.REPETITION]: { label: "Repetition", criterion: "lexical" },
+  [MistakeType.INFORMAL_REGISTER]: {
+    label: "Informal register",
+    criterion: "lexical",
+  },
+  [MistakeType.LINKING_DEVICES]: {
+    label: "Linking devices",
+    criterion: "coherence",
+  },
+  [MistakeType.REFERENCING]: { label: "Referencing", criterion: "coherence" },
+  [MistakeType.PARAGRAPHING]: { label: "Paragraphing", criterion: "coherence" },
+  [MistakeType.IDEA_DEVELOPMENT]: {
+    label: "Idea development",
+    criterion: "task",
+  },
+  [MistakeType.TASK_RELEVANCE]: { label: "Task relevance", criterion: "task" },
+  [MistakeType.DATA_ACCURACY]: { label: "Data accuracy", criterion: "task" },
+  [MistakeType.OTHER]: { label: "Other", criterion: null },
+};
+
+export const MISTAKE_TYPES = Object.values(MistakeType);
+
+export function isMistakeType(value: unknown): value is MistakeType {
+  return MISTAKE_TYPES.includes(value as MistakeType);
+}
@@ -0,0 +1,580 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { ConfigService } from "@nestjs/config";
+import { OpenAIService } from "./openai.service";
+import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
+import { IELTSWritingSubmissionStatus } from "./schemas/ielts-writing-submission.schema";
+import { LLMService } from "./llm/llm.service";
+import { LLMTask } from "./llm/llm-provider.interface";
+import { OpenAIProvider } from "./llm/providers/openai.provider";
+import { AzureOpenAIProvider } from "./llm/providers/azure-openai.provider";
+import { AnthropicProvider } from "./llm/providers/anthropic.provider";
+import { OpenAICompatibleProvider } from "./llm/providers/openai-compatible.provider";
+import { MockLLMProvider } from "./llm/providers/mock-llm.provider";
+import { AIUsageService } from "../../ai-usage/ai-usage.service";
+import { PromptRegistryService } from "./prompts/prompt-registry.service";
+import { PromptTemplate } from "./schemas/prompt-template.schema";
+import { CalibrationRun } from "./schemas/calibration-run.schema";
+import { ScoreCalibrationService } from "./calibration/score-calibration.service";
+import { AnalysisCacheService } from "./analysis-cache.service";
+import { AnalysisCacheEntry } from "./schemas/analysis-cache-entry.schema";
+import { UserPlanService } from "../../user-plan/user-plan.service";
+import { PlagiarismService } from "./plagiarism/plagiarism.service";
+import { MISTAKE_TYPES } from "./mistake-taxonomy";
+import { IELTSWritingService } from "../writing/ielts-writing.service";
+import {
+  IELTSWritingType,
+  IELTSWritingVariant,
+  IELTSWritingVisualType,
+} from "../writing/schemas/ielts-writing.schema";
+import {
+  AnalysisEvent,
+  AnalysisEventsService,
+} from "./analysis-events.service";
+
+const ESSAY = `Nowadays a lot of people believe that technology has made our lives very easy. In my opinion, this is mostly true, although there are some bad effects.
+
+Firstly, technology saves time. For example, online banking means people don't have to queue, and they can pay bills in seconds.
+
+However, there are things to worry about. Moreover, many children spend too long on screens, which is bad for their health.
+
+In conclusion, technology is good for society, but people should use it carefully.`;
+
+const REPORT = `The bar chart shows how much coal and gas was used in the USA in 1980 and 2000.
+
+Overall, a lot of energy came from coal in both years, and its use grew the most.
+
+Coal use rose from 35 to 40 units, while gas use increased slightly from 30 to 32 units.`;
+
+const ACADEMIC_TASK_ONE = {
+  _id: "writing-1",
+  question:
+    "Summarise the information by selecting and reporting the main features.",
+  type: IELTSWritingType.TASK_ONE,
+  variant: IELTSWritingVariant.ACADEMIC,
+  visual: {
+    type: IELTSWritingVisualType.BAR_CHART,
+    dataTable: {
+      columns: ["Year", "Coal", "Gas"],
+      rows: [
+        ["1980", "35", "30"],
+        ["2000", "40", "32"],
+      ],
+      unit: "quadrillion units",
+    },
+  },
+};
+
+describe("OpenAIService (mock LLM provider)", () => {
+  let service: OpenAIService;
+  let mockProvider: MockLLMProvider;
+  let llmService: LLMService;
+  let analysisEventsService: AnalysisEventsService;
+  let submissions: Map<string, any>;
+  let usageRecords: any[];
+  let activePrompts: Map<string, any>;
+  let activeCalibration: any;
+  let cacheEntries: Map<string, any>;
+  let plagiarismWarning: string | undefined;
+
+  beforeEach(async () => {
+    usageRecords = [];
+    cacheEntries = new Map();
+    plagiarismWarning = undefined;
+    activePrompts = new Map();
+    activeCalibration = null;
+    submissions = new Map([
+      [
+        "submission-1",
+        {
+          _id: "submission-1",
+          user: { _id: "user-1" },
+          body: ESSAY,
+          targetScore: "BAND_SEVEN",
+          status: IELTSWritingSubmissionStatus.IDLE,
+        },
+      ],
+    ]);
+
+    const submissionService = {
+      findOne: jest.fn(async (id: string) => submissions.get(id)),
+      updateStatus: jest.fn(async (id: string, status: string) => {
+        submissions.get(id).status = status;
+        return submissions.get(id);
+      }),
+      saveAnalysisResult: jest.fn(async (id: string, result: any) => {
+        Object.assign(submissions.get(id), result);
+        return submissions.get(id);
+      }),
+      markCacheHit: jest.fn(async (id: string, promptName: string) => {
+        const submission = submissions.get(id);
+        const firstHit = !submission.cacheHit;
+        submission.cacheHit = true;
+        submission.cachedPrompts = [
+          ...(submission.cachedPrompts || []),
+          promptName,
+        ];
+        return firstHit;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OpenAIService,
+        LLMService,
+        OpenAIProvider,
+        AzureOpenAIProvider,
+        AnthropicProvider,
+        OpenAICompatibleProvider,
+        MockLLMProvider,
+        AnalysisEventsService,
+        PromptRegistryService,
+        ScoreCalibrationService,
+        AnalysisCacheService,
+        {
+          provide: getModelToken(AnalysisCacheEntry.name),
+          useValue: {
+            findOneAndUpdate: jest.fn(({ key }) => ({
+              exec: async () => cacheEntries.get(key) || null,
+            })),
+            updateOne: jest.fn(({ key }, { $set }) => ({
+              exec: async () => cacheEntries.set(key, $set),
+            })),
+          },
+        },
+        {
+          provide: PlagiarismService,
+          useValue: {
+            screen: jest.fn(async () => ({
+              report: { similarity: 0, flagged: false, matches: [] },
+              warning: plagiarismWarning,
+            })),
+            indexImprovedVersion: jest.fn(),
+          },
+        },
+        {
+          provide: UserPlanService,
+          useValue: { refundSubmissionCount: jest.fn() },
+        },
+        {
+          provide: getModelToken(CalibrationRun.name),
+          useValue: {
+            findOne: jest.fn(() => ({ exec: async () => activeCalibration })),
+          },
+        },
+        {
+          // No stored templates unless a test adds one, so the built-in prompts are used
+          provide: getModelToken(PromptTemplate.name),
+          useValue: {
+            findOne: jest.fn(({ name }) => ({
+              exec: async () => activePrompts.get(name) || null,
+            })),
+          },
+        },
+        {
+          provide: IELTSWritingService,
+          useValue: {
+            findOne: jest.fn(async (id: string) => {
+              if (id !== ACADEMIC_TASK_ONE._id) {
+                throw new Error("IELTS Writing task not found");
+              }
+              return ACADEMIC_TASK_ONE;
+            }),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => (key === "LLM_PROVIDER" ? "mock" : undefined),
+          },
+        },
+        { provide: IELTSWritingSubmissionService, useValue: submissionService },
+        {
+          provide: AIUsageService,
+          useValue: {
+            record: jest.fn(async (input) => usageRecords.push(input)),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OpenAIService>(OpenAIService);
+    mockProvider = module.get<MockLLMProvider>(MockLLMProvider);
+    llmService = module.get<LLMService>(LLMService);
+    analysisEventsService = module.get<AnalysisEventsService>(
+      AnalysisEventsService
+    );
+  });
+
+  const respondWith = (text: string) => ({
+    text,
+    provider: "mock",
+    model: "mock",
+  });
+
+  it("should score and then give feedback on a submission", async () => {
+    const scores = await service.analyzeWritingScores("submission-1");
+    expect(scores.status).toBe(IELTSWritingSubmissionStatus.IN_PROGRESS);
+
+    const feedback = await service.analyzeWritingFeedback("submission-1");
+    expect(feedback.status).toBe(IELTSWritingSubmissionStatus.ANALYZED);
+
+    const submission = submissions.get("submission-1");
+    expect(submission.status).toBe(IELTSWritingSubmissionStatus.ANALYZED);
+    expect(submission.score).toBeGreaterThanOrEqual(0);
+    expect(submission.score).toBeLessThanOrEqual(9);
+    Object.values(submission.criteriaScores).forEach((band: number) => {
+      expect(band * 2).toBe(Math.round(band * 2));
+    });
+    expect(submission.aiFeedback.mistakes.length).toBeGreaterThan(0);
+    submission.aiFeedback.inlineFeedback.forEach((item) => {
+      expect(ESSAY).toContain(item.originalText);
+      expect(MISTAKE_TYPES).toContain(item.mistakeType);
+    });
+  });
+
+  it("should record usage for every AI call", async () => {
+    await service.analyzeWritingScores("submission-1");
+
+    expect(usageRecords).toHaveLength(1);
+    expect(usageRecords[0]).toMatchObject({
+      task: "scores",
+      provider: "mock",
+      success: true,
+      submissionId: "submission-1",
+      userId: "user-1",
+    });
+    expect(usageRecords[0].promptTokens).toBeGreaterThan(0);
+  });
+
+  it("should publish scores before feedback", async () => {
+    const events: AnalysisEvent[] = [];
+    const subscription = analysisEventsService
+      .forSubmission("submission-1")
+      .subscribe((event) => events.push(event));
+
+    await service.analyzeWritingScores("submission-1");
+    await service.analyzeWritingFeedback("submission-1");
+    subscription.unsubscribe();
+
+    expect(events.map((event) => event.type)).toEqual([
+      "scores",
+      "feedback",
+      "done",
+    ]);
+    expect(events[0].data.score).toBe(submissions.get("submission-1").score);
+    expect(events[2].data.status).toBe(IELTSWritingSubmissionStatus.ANALYZED);
+  });
+
+  it("should leave finishing to the worker when asked", async () => {
+    const events: AnalysisEvent[] = [];
+    const subscription = analysisEventsService
+      .forSubmission("submission-1")
+      .subscribe((event) => events.push(event));
+
+    await service.analyzeWritingFeedback("submission-1", false);
+    subscription.unsubscribe();
+
+    expect(events.map((event) => event.type)).toEqual(["feedback"]);
+  });
+
+  it("should grade with the active prompt version and record it", async () => {
+    activePrompts.set("scores", {
+      name: "scores",
+      version: 3,
+      system: "You are a strict IELTS examiner.",
+      template: 'Score this essay for band {{targetScore}}:\n"""{{essay}}"""',
+      variables: [
+        { name: "essay", type: "string", required: true },
+        { name: "targetScore", type: "string", required: true },
+      ],
+    });
+    const complete = jest.spyOn(mockProvider, "complete");
+
+    await service.analyzeWritingScores("submission-1");
+
+    expect(complete.mock.calls[0][0].system).toBe(
+      "You are a strict IELTS examiner."
+    );
+    expect(complete.mock.calls[0][0].user).toContain(
+      "Score this essay for band BAND_SEVEN"
+    );
+    expect(submissions.get("submission-1")["promptVersions.scores"]).toBe(3);
+  });
+
+  it("should correct criteria scores with the active calibration", async () => {
+    const [route] = llmService.getRoutes(LLMTask.SCORES);
+    activeCalibration = {
+      model: `${route.provider}/${route.model}`,
+      corrections: {
+        coherence: { slope: 0, intercept: 8.5, count: 10 },
+        lexical: { slope: 0, intercept: 8.5, count: 10 },
+        grammar: { slope: 0, intercept: 8.5, count: 10 },
+      },
+    };
+
+    await service.analyzeWritingScores("submission-1");
+
+    expect(submissions.get("submission-1").criteriaScores).toMatchObject({
+      coherence: 8.5,
+      lexical: 8.5,
+      grammar: 8.5,
+    });
+  });
+
+  it("should not apply a calibration fitted on another model", async () => {
+    activeCalibration = {
+      model: "openai/gpt-4o",
+      corrections: {
+        coherence: { slope: 0, intercept: 8.5, count: 10 },
+      },
+    };
+
+    await service.analyzeWritingScores("submission-1");
+
+    expect(submissions.get("submission-1").criteriaScores.coherence).not.toBe(
+      8.5
+    );
+  });
+
+  it("should not apply a calibration to scores from a fallback model", async () => {
+    // OpenAI has no API key here, so the call falls back to the mock provider
+    jest.spyOn(llmService, "getRoutes").mockReturnValue([
+      { provider: "openai", model: "gpt-4o" },
+      { provider: "mock", model: "mock" },
+    ]);
+    activeCalibration = {
+      model: "openai/gpt-4o",
+      corrections: {
+        coherence: { slope: 0, intercept: 8.5, count: 10 },
+      },
+    };
+
+    await service.analyzeWritingScores("submission-1");
+
+    expect(submissions.get("submission-1").criteriaScores.coherence).not.toBe(
+      8.5
+    );
+  });
+
+  it("should grade Academic Task 1 on Task Achievement against the visual", async () => {
+    submissions.set("submission-2", {
+      _id: "submission-2",
+      user: { _id: "user-1" },
+      writing: "writing-1",
+      body: REPORT,
+      taskType: "Task 1",
+      variant: IELTSWritingVariant.ACADEMIC,
+      targetScore: "BAND_SEVEN",
+      status: IELTSWritingSubmissionStatus.IDLE,
+    });
+    const complete = jest.spyOn(mockProvider, "complete");
+
+    await service.analyzeWritingScores("submission-2");
+    await service.analyzeWritingFeedback("submission-2");
+
+    const submission = submissions.get("submission-2");
+    expect(Object.keys(submission.criteriaScores)).toEqual([
+      "taskAchievement",
+      "coherence",
+      "lexical",
+      "grammar",
+    ]);
+    expect(submission.aiFeedback.taskSpecific).toEqual({
+      overview: expect.any(String),
+      keyFeatures: expect.any(String),
+      dataAccuracy: expect.any(String),
+    });
+    expect(complete.mock.calls[0][0].user).toContain("2000 | 40 | 32");
+    expect(submission["promptVersions.task1-academic-scores"]).toBe(1);
+  });
+
+  it("should cap Task Response for an under-length essay", async () => {
+    const complete = jest.spyOn(mockProvider, "complete");
+
+    await service.analyzeWritingScores("submission-1");
+
+    const submission = submissions.get("submission-1");
+    // Fewer than half of the 250 words required
+    expect(submission.criteriaScores.taskResponse).toBeLessThanOrEqual(3);
+    expect(complete.mock.calls[0][0].user).toMatch(
+      /Word count: \d+ \(minimum 250\)/
+    );
+  });
+
+  it("should return the same analysis for the same essay", async () => {
+    const first = await service.analyzeWritingSubmission("submission-1");
+    const second = await service.analyzeWritingSubmission("submission-1");
+
+    expect(second.analysis).toEqual(first.analysis);
+  });
+
+  it("should reuse the cached result for a resubmitted essay", async () => {
+    submissions.set("submission-3", {
+      ...submissions.get("submission-1"),
+      _id: "submission-3",
+      // Same essay with different spacing
+      body: `  ${ESSAY.replace(/\n\n/g, "\r\n\r\n\r\n")}  `,
+    });
+    const complete = jest.spyOn(mockProvider, "complete");
+
+    const first = await service.analyzeWritingScores("submission-1");
+    const second = await service.analyzeWritingScores("submission-3");
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(second.analysis).toEqual(first.analysis);
+    expect(submissions.get("submission-3")).toMatchObject({
+      cacheHit: true,
+      cachedPrompts: ["scores"],
+    });
+    expect(submissions.get("submission-1").cacheHit).toBeUndefined();
+  });
+
+  it("should not reuse a result cached for another target band", async () => {
+    submissions.set("submission-3", {
+      ...submissions.get("submission-1"),
+      _id: "submission-3",
+      targetScore: "BAND_EIGHT",
+    });
+    const complete = jest.spyOn(mockProvider, "complete");
+
+    await service.analyzeWritingScores("submission-1");
+    await service.analyzeWritingScores("submission-3");
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(submissions.get("submission-3").cacheHit).toBeUndefined();
+  });
+
+  it("should not serve a fallback model's result as the primary model's", async () => {
+    // OpenAI has no API key here, so every call falls back to the mock provider
+    jest.spyOn(llmService, "getRoutes").mockReturnValue([
+      { provider: "openai", model: "gpt-4o" },
+      { provider: "mock", model: "mock" },
+    ]);
+    submissions.set("submission-3", {
+      ...submissions.get("submission-1"),
+      _id: "submission-3",
+    });
+    const complete = jest.spyOn(mockProvider, "complete");
+
+    await service.analyzeWritingScores("submission-1");
+    await service.analyzeWritingScores("submission-3");
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(submissions.get("submission-3").cacheHit).toBeUndefined();
+    expect([...cacheEntries.values()][0]).toMatchObject({
+      route: "mock/mock",
+      model: "mock/mock",
+    });
+  });
+
+  it("should add the plagiarism warning to the feedback", async () => {
+    plagiarismWarning = "This essay closely matches existing text.";
+
+    const result = await service.analyzeWritingFeedback("submission-1");
+
+    expect(result.aiFeedback.warnings).toEqual([plagiarismWarning]);
+    expect(submissions.get("submission-1").aiFeedback.warnings).toEqual([
+      plagiarismWarning,
+    ]);
+  });
+
+  it("should re-prompt with the validation errors and accept a repaired response", async () => {
+    const complete = jest.spyOn(mockProvider, "complete").mockResolvedValueOnce(
+      respondWith(
+        JSON.stringify({
+          score: 6.3,
+          criteriaScores: {
+            taskResponse: 6,
+            coherence: 7,
+            lexical: 6,
+            grammar: 12,
+          },
+        })
+      )
+    );
+
+    const result = await service.analyzeWritingScores("submission-1");
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1][0].user).toContain(
+      '"criteriaScores.grammar" must be a number from 0 to 9'
+    );
+    expect(result.analysis.score * 2).toBe(
+      Math.round(result.analysis.score * 2)
+    );
+  });
+
+  it("should repair an invalid structure response instead of assuming an empty essay", async () => {
+    const complete = jest
+      .spyOn(mockProvider, "complete")
+      .mockResolvedValueOnce(
+        respondWith(JSON.stringify({ body_count: "two", has_intro: true }))
+      );
+
+    await service.analyzeWritingSubmission("submission-1");
+
+    expect(complete.mock.calls[0][0].task).toBe(LLMTask.STRUCTURE);
+    expect(complete.mock.calls[1][0].task).toBe(LLMTask.STRUCTURE);
+    expect(complete.mock.calls[1][0].user).toContain(
+      '"body_count" must be a whole number'
+    );
+    expect(complete.mock.calls[1][0].user).toContain(
+      '"has_conclusion" must be true or false'
+    );
+  });
+
+  it("should compute the overall band from the criteria, ignoring the model's score", async () => {
+    jest.spyOn(mockProvider, "complete").mockResolvedValueOnce(
+      respondWith(
+        JSON.stringify({
+          score: 8,
+          criteriaScores: {
+            taskResponse: 6.5,
+            coherence: 6.5,
+            lexical: 6,
+            grammar: 6,
+          },
+        })
+      )
+    );
+    // Long enough to avoid the under-length cap
+    submissions.get("submission-1").body = `${ESSAY}\n\n${ESSAY}\n\n${ESSAY}`;
+
+    const result = await service.analyzeWritingScores("submission-1");
+
+    // Mean 6.25 rounds up to 6.5
+    expect(result.analysis.score).toBe(6.5);
+    expect(submissions.get("submission-1").score).toBe(6.5);
+  });
+
+  it("should mark the submission FAILED_TO_CHECK when repairs are exhausted", async () => {
+    jest.spyOn(mockProvider, "complete").mockResolvedValue(
+      respondWith(
+        JSON.stringify({
+          mistakes: ["Weak vocabulary"],
+          suggestions: ["Use synonyms"],
+          inlineFeedback: [
+            {
+              originalText: "a phrase the student never wrote",
+              category: "Lexical Resource",
+              explanation: "Vague.",
+              suggestion: "Precise phrase",
+              suggestionExplanation: "Clearer.",
+            },
+          ],
+        })
+      )
+    );
+
+    await expect(
+      service.analyzeWritingFeedback("submission-1")
+    ).rejects.toThrow("must be copied exactly from the essay");
+
+    const submission = submissions.get("submission-1");
+    expect(submission.status).toBe(
+      IELTSWritingSubmissionStatus.FAILED_TO_CHECK
+    );
+    expect(submission.aiFeedback).toBeUndefined();
+  });
+});
@@ -1,21 +1,95 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import axios from "axios";
 import { IELTSWritingSubmissionService } from "./ielts-writing-submission.service";
-import { IELTSWritingSubmissionStatus } from "./schemas/ielts-writing-submission.schema";
+import {
+  CriteriaScores,
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionStatus,
+  IELTSWritingTargetScore,
+  IMPROVED_VERSION_BAND_KEYS,
+} from "./schemas/ielts-writing-submission.schema";
+import { LLMService } from "./llm/llm.service";
+import { AnalysisEventsService } from "./analysis-events.service";
+import {
+  LLMCallMeta,
+  LLMCompletionResult,
+  LLMRequestContext,
+  LLMTask,
+} from "./llm/llm-provider.interface";
+import {
+  InvalidGradingResponseException,
+  parseJsonObject,
+  StructureResponse,
+  validateAnalysis,
+  validateFeedback,
+  validateImprovedVersion,
+  validateScores,
+  validateStructure,
+  ValidationResult,
+} from "./llm/grading-response.validator";
+import {
+  PromptRegistryService,
+  RenderedPrompt,
+} from "./prompts/prompt-registry.service";
+import { PromptName } from "./prompts/prompt-names";
+import { PromptValues } from "./prompts/prompt-renderer";
+import { buildTaskPromptValues } from "./prompts/task-prompt-values";
+import {
+  DEFAULT_UNDER_LENGTH_BAND_CAPS,
+  EssayMetrics,
+  UnderLengthBandCap,
+  applyUnderLengthPenalty,
+  computeEssayMetrics,
+  parseUnderLengthBandCaps,
+} from "./essay-metrics";
+import { GradingRubric, getGradingRubric } from "./grading-rubrics";
+import { IELTSWritingService } from "../writing/ielts-writing.service";
+import { IELTSWriting } from "../writing/schemas/ielts-writing.schema";
+import { ScoreCalibrationService } from "./calibration/score-calibration.service";
+import { AnalysisCacheService } from "./analysis-cache.service";
+import { PlagiarismService } from "./plagiarism/plagiarism.service";
+import { hashContent, normalizeEssayText } from "./essay-fingerprint";
+
+// Rubric and task details (question, visual, ...) a submission is graded with
+interface GradingContext {
+  rubric: GradingRubric;
+  metrics: EssayMetrics;
+  values: PromptValues;
+  llmContext: LLMRequestContext;
+  // Identifies the essay and task for the analysis cache
+  contentHash: string;
+}
+
+// What grading needs to know about an essay, submitted or not
+export type GradableEssay = Pick<
+  IELTSWritingSubmission,
+  "body" | "taskType" | "variant" | "writing" | "customWritingQuestion"
+> &
+  Partial<Pick<IELTSWritingSubmission, "metrics">>;
 
 @Injectable()
 export class OpenAIService {
   private readonly logger = new Logger(OpenAIService.name);
-  private readonly apiKey: string;
-  private readonly model: string;
+  private readonly maxRepairAttempts: number;
+  private readonly underLengthBandCaps: UnderLengthBandCap[];
 
   constructor(
+    private readonly ieltsWritingSubmissionService: IELTSWritingSubmissionService,
+    private readonly llmService: LLMService,
     private readonly configService: ConfigService,
-    private readonly ieltsWritingSubmissionService: IELTSWritingSubmissionService
+    private readonly analysisEventsService: AnalysisEventsService,
+    private readonly promptRegistryService: PromptRegistryService,
+    private readonly ieltsWritingService: IELTSWritingService,
+    private readonly scoreCalibrationService: ScoreCalibrationService,
+    private readonly analysisCacheService: AnalysisCacheService,
+    private readonly plagiarismService: PlagiarismService
   ) {
-    this.apiKey = this.configService.get<string>("OPENAI_API_KEY");
-    this.model = this.configService.get<string>("OPENAI_MODEL") || "gpt-4o";
+    const configured = parseInt(
+      this.configService.get<string>("LLM_MAX_REPAIR_ATTEMPTS"),
+      10
+    );
+    this.maxRepairAttempts = Number.isNaN(configured) ? 2 : configured;
+    this.underLengthBandCaps = this.getUnderLengthBandCaps();
   }
 
   async analyzeWritingScores(submissionId: string): Promise<{
@@ -35,26 +109,27 @@ export class OpenAIService {
         throw new Error("Submission not found");
       }
 
+      await this.plagiarismService.screen(submissionId, submission);
+
       this.logger.log(
         `Starting OpenAI quick scores analysis for submission ${submissionId}`
       );
 
-      const scores = await this.generateScoresOnly(
+      const { scores } = await this.generateScoresOnly(
         submission.body,
         String(submission.targetScore),
-        "gpt-4o"
+        await this.getGradingContext(submission),
+        this.getCallMeta(submissionId, submission)
       );
 
-      await this.ieltsWritingSubmissionService[
-        "ieltsWritingSubmissionModel"
-      ].findByIdAndUpdate(
+      await this.ieltsWritingSubmissionService.saveAnalysisResult(
         submissionId,
         {
           score: scores.score,
           criteriaScores: scores.criteriaScores,
-        },
-        { new: true }
+        }
       );
+      this.analysisEventsService.emit(submissionId, "scores", scores);
 
       this.logger.log(`Scores analysis stored for submission ${submissionId}`);
 
@@ -79,7 +154,15 @@ export class OpenAIService {
     }
   }
 
-  async analyzeWritingFeedback(submissionId: string): Promise<{
+  /**
+   * Feedback is the last step of a direct analysis, which then ends with a
+   * `done` event. The analysis worker passes `finish = false` because it
+   * may still have improved versions to generate or attempts to retry.
+   */
+  async analyzeWritingFeedback(
+    submissionId: string,
+    finish = true
+  ): Promise<{
     submissionId: string;
     status: IELTSWritingSubmissionStatus;
     aiFeedback: any;
@@ -91,30 +174,42 @@ export class OpenAIService {
         throw new Error("Submission not found");
       }
 
+      const { warning } = await this.plagiarismService.screen(
+        submissionId,
+        submission
+      );
+
       this.logger.log(
         `Starting OpenAI feedback analysis for submission ${submissionId}`
       );
 
-      const feedback = await this.generateFeedbackOnly(
-        submission.body,
-        String(submission.targetScore),
-        "gpt-5"
+      const feedback = this.addWarning(
+        await this.generateFeedbackOnly(
+          submission.body,
+          String(submission.targetScore),
+          await this.getGradingContext(submission),
+          this.getCallMeta(submissionId, submission)
+        ),
+        warning
       );
 
-      await this.ieltsWritingSubmissionService[
-        "ieltsWritingSubmissionModel"
-      ].findByIdAndUpdate(
+      await this.ieltsWritingSubmissionService.saveAnalysisResult(
         submissionId,
         {
           aiFeedback: feedback,
-        },
-        { new: true }
+        }
       );
+      this.analysisEventsService.emit(submissionId, "feedback", feedback);
 
       await this.ieltsWritingSubmissionService.updateStatus(
         submissionId,
         IELTSWritingSubmissionStatus.ANALYZED
       );
+      if (finish) {
+        this.analysisEventsService.emit(submissionId, "done", {
+          status: IELTSWritingSubmissionStatus.ANALYZED,
+        });
+      }
 
       this.logger.log(
         `Feedback analysis completed for submission ${submissionId}`
@@ -134,6 +229,11 @@ export class OpenAIService {
         submissionId,
         IELTSWritingSubmissionStatus.FAILED_TO_CHECK
       );
+      if (finish) {
+        this.analysisEventsService.emit(submissionId, "done", {
+          status: IELTSWritingSubmissionStatus.FAILED_TO_CHECK,
+        });
+      }
       throw error;
     }
   }
@@ -153,14 +253,22 @@ export class OpenAIService {
       if (!submission) {
         throw new Error("Submission not found");
       }
+      const { warning } = await this.plagiarismService.screen(
+        submissionId,
+        submission
+      );
       this.logger.log(
         `Starting OpenAI analysis for submission ${submissionId}`
       );
 
-      // Step 1: Detect essay structure using GPT-5 for analyze endpoint
+      const meta = this.getCallMeta(submissionId, submission);
+      const grading = await this.getGradingContext(submission);
+
+      // Step 1: Detect essay structure
       const structure = await this.detectEssayStructure(
         submission.body,
-        "gpt-4o"
+        grading,
+        meta
       );
 
       // Step 2: Generate comprehensive analysis
@@ -170,8 +278,10 @@ export class OpenAIService {
         structure.body_count,
         structure.has_intro,
         structure.has_conclusion,
-        "gpt-5"
+        grading,
+        meta
       );
+      analysis.aiFeedback = this.addWarning(analysis.aiFeedback, warning);
 
       // Update the submission with analysis results
       await this.ieltsWritingSubmissionService.updateStatus(
@@ -179,17 +289,26 @@ export class OpenAIService {
         IELTSWritingSubmissionStatus.ANALYZED
       );
 
-      await this.ieltsWritingSubmissionService[
-        "ieltsWritingSubmissionModel"
-      ].findByIdAndUpdate(
+      await this.ieltsWritingSubmissionService.saveAnalysisResult(
         submissionId,
         {
           score: analysis.score,
           criteriaScores: analysis.criteriaScores,
           aiFeedback: analysis.aiFeedback,
-        },
-        { new: true }
+        }
       );
+      this.analysisEventsService.emit(submissionId, "scores", {
+        score: analysis.score,
+        criteriaScores: analysis.criteriaScores,
+      });
+      this.analysisEventsService.emit(
+        submissionId,
+        "feedback",
+        analysis.aiFeedback
+      );
+      this.analysisEventsService.emit(submissionId, "done", {
+        status: IELTSWritingSubmissionStatus.ANALYZED,
+      });
 
       this.logger.log(
         `OpenAI analysis completed for submission ${submissionId}`
@@ -212,11 +331,38 @@ export class OpenAIService {
         submissionId,
         IELTSWritingSubmissionStatus.FAILED_TO_CHECK
       );
+      this.analysisEventsService.emit(submissionId, "done", {
+        status: IELTSWritingSubmissionStatus.FAILED_TO_CHECK,
+      });
 
       throw error;
     }
   }
 
+  /**
+   * Scores for an essay that is not a submission, such as a calibration
+   * benchmark, and the "provider/model" route that produced them.
+   * Calibration corrections are not applied.
+   */
+  async scoreEssay(essay: GradableEssay): Promise<{
+    score: number;
+    criteriaScores: CriteriaScores;
+    model: string;
+  }> {
+    const { scores, model } = await this.generateScoresOnly(
+      essay.body,
+      IELTSWritingTargetScore.BAND_SEVEN,
+      await this.getGradingContext(essay),
+      {},
+      false
+    );
+    return {
+      score: scores.score,
+      criteriaScores: scores.criteriaScores,
+      model,
+    };
+  }
+
   async generateImprovedVersion(
     submissionId: string,
     targetBand: string
@@ -237,12 +383,29 @@ export class OpenAIService {
       const improvedVersion = await this.generateImprovedEssayForTargetBand(
         submission.body,
         String(targetBand),
-        "gpt-4o"
+        await this.getGradingContext(submission),
+        this.getCallMeta(submissionId, submission)
       );
 
-      await this.ieltsWritingSubmissionService[
-        "ieltsWritingSubmissionModel"
-      ].findByIdAndUpdate(submissionId, { improvedVersion }, { new: true });
+      const bandKey = IMPROVED_VERSION_BAND_KEYS[targetBand];
+      if (!bandKey) {
+        throw new Error(`Unsupported target band ${targetBand}`);
+      }
+
+      await this.ieltsWritingSubmissionService.saveAnalysisResult(
+        submissionId,
+        { [`improvedVersion.${bandKey}`]: improvedVersion }
+      );
+      await this.plagiarismService.indexImprovedVersion(
+        submissionId,
+        submission,
+        bandKey,
+        improvedVersion
+      );
+      this.analysisEventsService.emit(submissionId, "improved", {
+        band: bandKey,
+        improvedVersion,
+      });
 
       this.logger.log(
         `Improved version generation completed for submission ${submissionId}`
@@ -261,48 +424,23 @@ export class OpenAIService {
     }
   }
 
-  private async detectEssayStructure(body: string, model: string) {
-    const structurePrompt = `
-    Detect the structure of the following IELTS essay.
-    Return ONLY JSON with fields:
-    - body_count: number of body paragraphs
-    - has_intro: true/false
-    - has_conclusion: true/false
-    
-    Rules for detection:
-    1. Paragraphs are separated by double line breaks.
-    2. The first paragraph is considered the introduction.
-    3. The last paragraph is considered the conclusion.
-    4. Body paragraphs are all paragraphs between the introduction and conclusion.
-    5. If there's only one paragraph, it's considered an introduction and has_conclusion and body_count will be false/0.
-    6. If there are two paragraphs, the first is intro, the second is conclusion, and body_count will be 0.
-    
-    Essay:
-    """
-    ${body}
-    """
-    `;
-
-    const text = await this.createChatCompletionAndGetText(
-      "",
-      structurePrompt,
-      model
+  private async detectEssayStructure(
+    body: string,
+    grading: GradingContext,
+    meta: LLMCallMeta
+  ): Promise<StructureResponse> {
+    const prompt = await this.promptRegistryService.render(
+      PromptName.STRUCTURE,
+      { essay: body }
     );
 
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      throw new Error("No JSON found in response");
-    } catch (error) {
-      this.logger.error("Error parsing structure response:", error);
-      return {
-        body_count: 0,
-        has_intro: false,
-        has_conclusion: false,
-      };
-    }
+    return this.createValidatedCompletion(
+      prompt,
+      { ...grading.llmContext, essay: body },
+      validateStructure,
+      meta,
+      grading.contentHash
+    );
   }
 
   private async generateAnalysis(
@@ -311,424 +449,359 @@ export class OpenAIService {
     bodyCount: number,
     hasIntro: boolean,
     hasConclusion: boolean,
-    model: string
+    grading: GradingContext,
+    meta: LLMCallMeta
   ) {
-    const analysisPrompt = `You are an AI IELTS essay evaluator. Your sole task is to analyze the user's essay and return a single, valid JSON object with your analysis. You must adopt a strict, time-efficient grading persona, mirroring the critical standards of a human IELTS examiner.
-
-CRITICAL RULES:
-1.  Your entire response MUST be a single, raw, valid JSON object.
-2.  Do NOT include any text, explanations, or markdown before or after the JSON.
-3.  Prioritize speed and relevance. Focus ONLY on the most critical errors that would significantly impact the band score. Do not list every minor mistake.
-4.  For each item in "inlineFeedback", the "originalText" value MUST be a short, unique phrase from the essay where the error occurs, NOT the entire sentence.
-5.  All explanations and suggestions MUST be brief and direct.
-6.  The "improvedVersions" key in the JSON MUST be an empty object: {}.
-7.  Your response must start with { and end with }.
-
-STRICT EVALUATION CRITERIA:
-*   **Task Response:** Is the argument well-developed and consistent? Penalize generalizations.
-*   **Coherence and Cohesion:** Is the logic clear and well-structured? Penalize mechanical linking words and awkward transitions.
-*   **Lexical Resource:** Is the vocabulary precise and appropriate? Penalize incorrect collocations and repetition.
-*   **Grammatical Range and Accuracy:** Is there a variety of complex sentence structures used accurately? Penalize significant errors in grammar and punctuation.
-
-Analyze the following essay based on these strict criteria and provide prioritized, concise feedback by filling out the JSON schema below.
-
-CONTEXT:
-*   Target Score: "${targetScore}"
-*   Essay: """${body}"""
-
-JSON OUTPUT SCHEMA (Note: indices are removed):
-json
-{
-  "score": number,
-  "criteriaScores": {
-    "taskResponse": number,
-    "coherence": number,
-    "lexical": number,
-    "grammar": number
-  },
-  "aiFeedback": {
-    "mistakes": [
-      "A list of the top 2-4 most critical, high-level mistakes identified in the essay."
-    ],
-    "suggestions": [
-      "A list of the top 2-4 most actionable suggestions for immediate improvement."
-    ],
-    "inlineFeedback": [
+    const { rubric } = grading;
+    const prompt = await this.promptRegistryService.render(
+      rubric.prompts.analysis,
       {
-        "originalText": "A short, unique phrase from the essay that contains a critical error. Do NOT use the full sentence.",
-        "category": "The error type (e.g., 'Grammar', 'Lexical Resource', 'Cohesion', 'Clarity').",
-        "explanation": "A very brief explanation of the error.",
-        "suggestion": "The corrected or improved word/phrase.",
-        "suggestionExplanation": "A very brief reason why the suggestion is better."
+        ...grading.values,
+        essay: body,
+        targetScore,
+        bodyCount,
+        hasIntro,
+        hasConclusion,
       }
-    ]
-  }
-}`;
-
-    const text = await this.createChatCompletionAndGetText(
-      "",
-      analysisPrompt,
-      model
     );
 
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      throw new Error("No JSON found in response");
-    } catch (error) {
-      this.logger.error("Error parsing analysis response:", error);
-      return this.getFallbackAnalysis();
-    }
+    const { value: analysis, route } =
+      await this.createValidatedCompletionWithRoute(
+        prompt,
+        { ...grading.llmContext, essay: body, targetBand: targetScore },
+        (data) =>
+          validateAnalysis(
+            data,
+            body,
+            rubric.criteriaKeys,
+            rubric.taskSpecificKeys
+          ),
+        meta,
+        grading.contentHash
+      );
+    const calibrated = await this.scoreCalibrationService.apply(
+      analysis,
+      rubric,
+      route
+    );
+    return {
+      ...calibrated,
+      ...applyUnderLengthPenalty(
+        calibrated,
+        grading.metrics,
+        rubric,
+        this.underLengthBandCaps
+      ),
+    };
   }
 
   private async generateScoresOnly(
     body: string,
     targetScore: string,
-    model: string
+    grading: GradingContext,
+    meta: LLMCallMeta,
+    calibrate = true
   ) {
-    const prompt = `You are an AI IELTS essay evaluator. Return ONLY a single valid JSON object with the overall score and criteria scores.
-
-CRITICAL RULES:
-1. Respond with a single raw JSON object. No prose.
-2. Schema:
-{
-  "score": number,
-  "criteriaScores": {
-    "taskResponse": number,
-    "coherence": number,
-    "lexical": number,
-    "grammar": number
-  }
-}
+    const { rubric } = grading;
+    const prompt = await this.promptRegistryService.render(
+      rubric.prompts.scores,
+      { ...grading.values, essay: body, targetScore }
+    );
 
-Context:
-* Target Score: "${targetScore}"
-* Essay: """${body}"""`;
+    const { value: scores, route } =
+      await this.createValidatedCompletionWithRoute(
+        prompt,
+        { ...grading.llmContext, essay: body, targetBand: targetScore },
+        (data) => validateScores(data, rubric.criteriaKeys),
+        meta,
+        grading.contentHash
+      );
+    return {
+      scores: applyUnderLengthPenalty(
+        calibrate
+          ? await this.scoreCalibrationService.apply(scores, rubric, route)
+          : scores,
+        grading.metrics,
+        rubric,
+        this.underLengthBandCaps
+      ),
+      model: route,
+    };
+  }
 
-    const text = await this.createChatCompletionAndGetText("", prompt, model);
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          score: parsed.score,
-          criteriaScores: parsed.criteriaScores,
-        };
-      }
-      throw new Error("No JSON found in response");
-    } catch (error) {
-      this.logger.error("Error parsing scores-only response:", error);
-      const fallback = this.getFallbackAnalysis();
-      return { score: fallback.score, criteriaScores: fallback.criteriaScores };
+  private getUnderLengthBandCaps(): UnderLengthBandCap[] {
+    const configured = this.configService.get<string>("UNDER_LENGTH_BAND_CAPS");
+    if (!configured) {
+      return DEFAULT_UNDER_LENGTH_BAND_CAPS;
     }
+    const caps = parseUnderLengthBandCaps(configured);
+    if (!caps) {
+      this.logger.warn(
+        `Invalid UNDER_LENGTH_BAND_CAPS "${configured}", using the default caps`
+      );
+      return DEFAULT_UNDER_LENGTH_BAND_CAPS;
+    }
+    return caps;
   }
 
   private async generateFeedbackOnly(
     body: string,
     targetScore: string,
-    model: string
+    grading: GradingContext,
+    meta: LLMCallMeta
   ) {
-    const prompt = `You are an AI IELTS essay evaluator. Return ONLY a single valid JSON object with concise feedback.
-
-CRITICAL RULES:
-1. Respond with a single raw JSON object. No prose.
-2. Schema:
-{
-  "mistakes": [string],
-  "suggestions": [string],
-  "inlineFeedback": [
-    {
-      "originalText": string,
-      "category": string,
-      "explanation": string,
-      "suggestion": string,
-      "suggestionExplanation": string
-    }
-  ]
-}
-
-Context:
-* Target Score: "${targetScore}"
-* Essay: """${body}"""`;
+    const { rubric } = grading;
+    const prompt = await this.promptRegistryService.render(
+      rubric.prompts.feedback,
+      { ...grading.values, essay: body, targetScore }
+    );
 
-    const text = await this.createChatCompletionAndGetText("", prompt, model);
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      throw new Error("No JSON found in response");
-    } catch (error) {
-      this.logger.error("Error parsing feedback-only response:", error);
-      return this.getFallbackAnalysis().aiFeedback;
-    }
+    return this.createValidatedCompletion(
+      prompt,
+      { ...grading.llmContext, essay: body, targetBand: targetScore },
+      (data) => validateFeedback(data, body, rubric.taskSpecificKeys),
+      meta,
+      grading.contentHash
+    );
   }
 
   private async generateImprovedEssayForTargetBand(
     originalBody: string,
     targetBand: string,
-    model: string
+    grading: GradingContext,
+    meta: LLMCallMeta
   ) {
-    const structure = await this.detectEssayStructure(originalBody, model);
-
-    const generateImprovedVersionWithFeedback = `
-Your task is to rewrite the original essay to meet the target band score. Respond with ONLY a single, raw JSON object adhering strictly to the schema.
-
-**Constraints:**
-*   Preserve the original essay's ideas and approximate word count.
-*   The 'body' array must contain exactly ${"${structure.body_count}"} paragraphs.
-*   All feedback must be positive, highlighting the strengths of the rewritten text.
-*   Each 'textsnippet' must be a short, unique phrase from your new rewritten essay.
-
-**Context:**
-*   Target Band Score: "${"${targetBand}"}"
-*   Original Essay: """${"${originalBody}"}"""
-
-**Mandatory JSON Schema:**
-{
-  "introduction": "The rewritten introduction text.",
-  "body": [
-    "The first rewritten body paragraph.",
-    "The second rewritten body paragraph."
-  ],
-  "conclusion": "The rewritten conclusion text.",
-  "criteriaResponse": {
-    "taskResponse": "Positive feedback for Task Response.",
-    "coherence": "Positive feedback for Coherence and Cohesion.",
-    "lexical": "Positive feedback for Lexical Resource.",
-    "grammar": "Positive feedback for Grammatical Range."
-  },
-  "inlineFeedback": [
-    {
-      "originalText": "A short, strong phrase from the new essay.",
-      "category": "Area of strength (e.g., 'Lexis', 'Structure').",
-      "explanation": "Brief reason why this phrase is good."
-    }
-  ]
-}
-
-Begin your response immediately with {.
-`;
-
-    const text = await this.createChatCompletionAndGetText(
-      "",
-      generateImprovedVersionWithFeedback
-        .replace("${structure.body_count}", String(structure.body_count))
-        .replace("${targetBand}", String(targetBand))
-        .replace("${originalBody}", String(originalBody)),
-      model
+    const { rubric } = grading;
+    const structure = await this.detectEssayStructure(
+      originalBody,
+      grading,
+      meta
     );
 
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+    const prompt = await this.promptRegistryService.render(
+      rubric.prompts.improved,
+      {
+        ...grading.values,
+        essay: originalBody,
+        targetBand,
+        bodyCount: structure.body_count,
       }
-      throw new Error("No JSON found in response");
-    } catch (error) {
-      this.logger.error(
-        "Error parsing improved version (target band) response:",
-        error
-      );
-      return this.getFallbackImprovedVersion(targetBand as any);
-    }
+    );
+
+    return this.createValidatedCompletion(
+      prompt,
+      { ...grading.llmContext, essay: originalBody, targetBand },
+      (data) =>
+        validateImprovedVersion(
+          data,
+          structure.body_count,
+          rubric.criteriaKeys
+        ),
+      meta,
+      grading.contentHash
+    );
   }
 
-  private async createChatCompletionAndGetText(
+  private async createChatCompletion(
+    task: LLMTask,
     system: string,
     user: string,
-    model?: string
-  ) {
-    if (!this.apiKey) {
-      throw new Error("OPENAI_API_KEY is not configured");
-    }
-
-    const url = "https://api.openai.com/v1/chat/completions";
-    try {
-      const payload: any = {
-        model: model || this.model,
-        messages: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
-        response_format: { type: "json_object" },
-      };
-      // Some models (e.g., gpt-5) only allow default temperature; omit to use default
-      const effectiveModel = (model || this.model || "").toLowerCase();
-      if (!effectiveModel.startsWith("gpt-5")) {
-        payload.temperature = 0.2;
-      }
-
-      const response = await axios.post(url, payload, {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
-        },
-      });
+    context: LLMRequestContext,
+    meta: LLMCallMeta
+  ): Promise<LLMCompletionResult> {
+    const completion = await this.llmService.complete(
+      task,
+      system,
+      user,
+      context,
+      meta
+    );
+    this.logger.debug(
+      `LLM ${task} completed via ${completion.provider}/${completion.model}`
+    );
+    return completion;
+  }
 
-      const text = response.data.choices?.[0]?.message?.content?.trim() || "";
-      return text;
-    } catch (error: any) {
-      const status = error?.response?.status;
-      const data = error?.response?.data;
-      this.logger.error(
-        `OpenAI chat.completions request failed${status ? ` with status ${status}` : ""}: ${
-          data ? JSON.stringify(data) : error?.message || String(error)
-        }`
-      );
-      throw error;
+  private async getGradingContext(
+    submission: GradableEssay
+  ): Promise<GradingContext> {
+    let writing: IELTSWriting | undefined;
+    if (submission.writing) {
+      writing = await this.ieltsWritingService
+        .findOne(submission.writing)
+        .catch(() => undefined);
     }
-  }
 
-  private getFallbackImprovedVersion(targetScore: string) {
+    const rubric = getGradingRubric(submission.taskType, submission.variant);
+    const metrics = computeEssayMetrics(
+      submission.body,
+      rubric,
+      submission.metrics?.timeSpentSeconds
+    );
     return {
-      band7: {
-        introduction:
-          "This is a Band 7 improved introduction paragraph that clearly presents the topic and provides a strong thesis statement.",
-        body: [
-          "This is a Band 7 improved first body paragraph that develops one main idea with clear topic sentence and supporting evidence.",
-          "This is a Band 7 improved second body paragraph that addresses another aspect of the topic with clear reasoning and examples.",
-        ],
-        conclusion:
-          "This is a Band 7 improved conclusion paragraph that effectively summarizes the main points and reinforces the thesis statement.",
-        criteriaResponse: {
-          taskResponse:
-            "This Band 7 version fully addresses the question with clear position and relevant examples.",
-          coherence:
-            "The Band 7 essay flows logically with clear paragraph structure and effective cohesive devices.",
-          lexical:
-            "Uses appropriate vocabulary with good variety and natural collocation.",
-          grammar:
-            "Demonstrates good control of grammar with accurate sentence structures.",
-        },
+      rubric,
+      metrics,
+      values: {
+        ...buildTaskPromptValues(submission, writing),
+        wordCount: metrics.wordCount,
+        minWords: metrics.minWords,
       },
-      band8: {
-        introduction:
-          "This is a Band 8 sophisticated introduction that demonstrates advanced argumentation and clear thesis presentation.",
-        body: [
-          "This Band 8 body paragraph showcases advanced critical thinking with sophisticated argumentation and excellent use of linking words.",
-          "This Band 8 paragraph demonstrates advanced vocabulary and complex sentence structures with precise expression.",
-        ],
-        conclusion:
-          "This Band 8 conclusion effectively synthesizes arguments and provides a compelling final statement.",
-        criteriaResponse: {
-          taskResponse:
-            "Addresses all parts of the task with clear position and well-developed ideas.",
-          coherence:
-            "Excellent organization with clear progression and effective cohesive devices.",
-          lexical:
-            "Uses wide range of vocabulary flexibly and precisely with natural collocation.",
-          grammar:
-            "Demonstrates excellent control of grammar with rare errors.",
-        },
-      },
-      band9: {
-        introduction:
-          "This Band 9 introduction demonstrates exceptional clarity and sophistication in presenting the argument with flawless expression.",
-        body: [
-          "This Band 9 paragraph showcases mastery of complex ideas with sophisticated argumentation and exceptional examples.",
-          "This Band 9 paragraph demonstrates complete mastery of advanced concepts with flawless expression and perfect coherence.",
-        ],
-        conclusion:
-          "This Band 9 conclusion provides exceptional synthesis and leaves a lasting impression with perfect clarity.",
-        criteriaResponse: {
-          taskResponse:
-            "Fully addresses all parts of the task with exceptional clarity and sophistication.",
-          coherence:
-            "Perfect organization with seamless flow and sophisticated cohesive devices.",
-          lexical:
-            "Uses vocabulary with exceptional precision and naturalness throughout.",
-          grammar:
-            "Demonstrates complete mastery of grammar with virtually no errors.",
-        },
+      llmContext: {
+        taskType: submission.taskType,
+        variant: submission.variant,
       },
+      contentHash: hashContent(
+        normalizeEssayText(submission.body),
+        submission.taskType || null,
+        submission.variant || null,
+        submission.writing ? String(submission.writing) : null,
+        submission.customWritingQuestion || null
+      ),
     };
   }
 
-  private getFallbackAnalysis() {
+  private addWarning<T>(
+    feedback: T,
+    warning?: string
+  ): T & { warnings?: string[] } {
+    return warning ? { ...feedback, warnings: [warning] } : feedback;
+  }
+
+  private getCallMeta(
+    submissionId: string,
+    submission: IELTSWritingSubmission
+  ): LLMCallMeta {
+    const user = submission.user as any;
     return {
-      score: 6.5,
-      criteriaScores: {
-        taskResponse: 6,
-        coherence: 7,
-        lexical: 6,
-        grammar: 7,
-      },
-      aiFeedback: {
-        mistakes: [
-          "Some grammatical errors in complex sentences",
-          "Limited vocabulary variety in some areas",
-        ],
-        suggestions: [
-          "Use more varied sentence structures",
-          "Include more sophisticated vocabulary",
-          "Improve paragraph organization",
-        ],
-        improvedVersions: {
-          band7: {
-            introduction:
-              "This is a sample introduction paragraph that addresses the topic clearly and provides a thesis statement.",
-            body: [
-              "This is the first body paragraph that develops one main idea with supporting evidence and examples.",
-              "This is the second body paragraph that addresses another aspect of the topic with clear reasoning.",
-            ],
-            conclusion:
-              "This is a sample conclusion paragraph that summarizes the main points and restates the thesis.",
-            criteriaResponse: {
-              taskResponse:
-                "This version fully addresses the question with clear position and relevant examples.",
-              coherence:
-                "The essay flows logically with clear paragraph structure and cohesive devices.",
-              lexical:
-                "Uses appropriate vocabulary with some variety and collocation.",
-              grammar:
-                "Demonstrates good control of grammar with occasional errors that don't impede communication.",
-            },
-          },
-          band8: {
-            introduction:
-              "This is an improved introduction with clearer thesis and better organization.",
-            body: [
-              "This body paragraph shows more sophisticated argumentation and better use of linking words.",
-              "This paragraph demonstrates advanced vocabulary and complex sentence structures.",
-            ],
-            conclusion:
-              "This conclusion effectively summarizes and reinforces the main arguments.",
-            criteriaResponse: {
-              taskResponse:
-                "Addresses all parts of the task with clear position and well-developed ideas.",
-              coherence:
-                "Excellent organization with clear progression and effective cohesive devices.",
-              lexical:
-                "Uses wide range of vocabulary flexibly and precisely with natural collocation.",
-              grammar:
-                "Demonstrates excellent control of grammar with rare errors.",
-            },
-          },
-          band9: {
-            introduction:
-              "This introduction demonstrates exceptional clarity and sophistication in presenting the argument.",
-            body: [
-              "This paragraph showcases advanced critical thinking and sophisticated argumentation with excellent examples.",
-              "This paragraph demonstrates mastery of complex ideas with flawless expression and coherence.",
-            ],
-            conclusion:
-              "This conclusion provides exceptional synthesis and leaves a lasting impression.",
-            criteriaResponse: {
-              taskResponse:
-                "Fully addresses all parts of the task with exceptional clarity and sophistication.",
-              coherence:
-                "Perfect organization with seamless flow and sophisticated cohesive devices.",
-              lexical:
-                "Uses vocabulary with exceptional precision and naturalness throughout.",
-              grammar:
-                "Demonstrates complete mastery of grammar with virtually no errors.",
-            },
-          },
-        },
-      },
+      submissionId,
+      userId: user?._id ? String(user._id) : user && String(user),
     };
   }
+
+  // Record which prompt version graded the submission, for auditing
+  private async recordPromptVersion(
+    prompt: RenderedPrompt,
+    meta: LLMCallMeta
+  ): Promise<void> {
+    if (!meta.submissionId) {
+      return;
+    }
+    await this.ieltsWritingSubmissionService.saveAnalysisResult(
+      meta.submissionId,
+      { [`promptVersions.${prompt.name}`]: prompt.version }
+    );
+  }
+
+  /**
+   * Request a JSON response and check it with `validate`. Invalid responses
+   * are sent back with the list of problems, up to LLM_MAX_REPAIR_ATTEMPTS
+   * times, before giving up.
+   *
+   * For submissions, a result cached for the same essay, prompt version,
+   * model and target band is reused instead. Only results produced by the
+   * prompt's primary route are reused; a result from a fallback route is
+   * cached under that route.
+   */
+  private async createValidatedCompletion<T>(
+    prompt: RenderedPrompt,
+    context: LLMRequestContext,
+    validate: (data: any) => ValidationResult<T>,
+    meta: LLMCallMeta,
+    contentHash: string
+  ): Promise<T> {
+    const { value } = await this.createValidatedCompletionWithRoute(
+      prompt,
+      context,
+      validate,
+      meta,
+      contentHash
+    );
+    return value;
+  }
+
+  /**
+   * createValidatedCompletion, along with the "provider/model" route that
+   * produced the result
+   */
+  private async createValidatedCompletionWithRoute<T>(
+    prompt: RenderedPrompt,
+    context: LLMRequestContext,
+    validate: (data: any) => ValidationResult<T>,
+    meta: LLMCallMeta,
+    contentHash: string
+  ): Promise<{ value: T; route: string }> {
+    const cacheKey =
+      meta.submissionId &&
+      this.analysisCacheService.buildKey(
+        prompt,
+        contentHash,
+        context.targetBand
+      );
+    if (cacheKey) {
+      const cached = await this.analysisCacheService.get(cacheKey);
+      if (cached) {
+        await this.recordPromptVersion(prompt, meta);
+        await this.analysisCacheService.recordHit(
+          cached,
+          meta.submissionId,
+          meta.userId
+        );
+        // Entries cached before routes were recorded were keyed on the model
+        return {
+          value: cached.result as T,
+          route: cached.route || cached.model,
+        };
+      }
+    }
+
+    const task = prompt.task;
+    let userPrompt = prompt.user;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      const completion = await this.createChatCompletion(
+        task,
+        prompt.system,
+        userPrompt,
+        context,
+        meta
+      );
+      const text = completion.text;
+      const parsed = parseJsonObject(text);
+      const result = parsed.errors.length ? parsed : validate(parsed.value);
+      if (!result.errors.length) {
+        await this.recordPromptVersion(prompt, meta);
+        if (cacheKey) {
+          await this.analysisCacheService.set(
+            prompt,
+            contentHash,
+            completion,
+            result.value,
+            context.targetBand,
+            meta.submissionId
+          );
+        }
+        return {
+          value: result.value as T,
+          route: this.llmService.getRouteName(completion),
+        };
+      }
+
+      errors = result.errors;
+      this.logger.warn(
+        `Invalid ${task} response (attempt ${attempt + 1}): ${errors.join("; ")}`
+      );
+      userPrompt = `${prompt.user}
+
+Your previous response was rejected:
+"""
+${text}
+"""
+
+Fix these problems and respond again with ONLY the corrected JSON object:
+${errors.map((error) => `- ${error}`).join("\n")}`;
+    }
+
+    throw new InvalidGradingResponseException(task, errors);
+  }
 }
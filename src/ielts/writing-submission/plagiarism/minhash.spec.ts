@@ -0,0 +1,59 @@
+import {
+  MINHASH_SIZE,
+  estimateCoverage,
+  estimateJaccard,
+  fingerprintText,
+} from "./minhash";
+
+const MODEL_ANSWER = `In recent decades, technological progress has transformed almost every aspect of daily life. While some argue that this has made life more stressful, I believe the advantages clearly outweigh the drawbacks.
+
+To begin with, technology saves a remarkable amount of time. Online banking, for instance, allows people to pay bills within seconds rather than queuing for hours, and video calls let families stay in touch across continents.
+
+Admittedly, there are legitimate concerns. Children in particular may spend excessive time in front of screens, which can harm both their eyesight and their social development.
+
+In conclusion, although technology must be used responsibly, its contribution to efficiency and communication makes it overwhelmingly beneficial.`;
+
+const OTHER_ESSAY = `Some people think that university education should be free for every student. I partly agree with this view, because education benefits the whole of society.
+
+On the one hand, free tuition gives poorer students a chance to study and to find better jobs later. On the other hand, universities need money to pay teachers and build laboratories.
+
+In conclusion, governments should pay for some courses but students should also contribute.`;
+
+describe("MinHash", () => {
+  it("should give identical texts identical signatures and bands", () => {
+    const a = fingerprintText(MODEL_ANSWER);
+    const b = fingerprintText(MODEL_ANSWER.toUpperCase());
+
+    expect(a.signature).toHaveLength(MINHASH_SIZE);
+    expect(b.signature).toEqual(a.signature);
+    expect(b.bands).toEqual(a.bands);
+    expect(estimateJaccard(a.signature, b.signature)).toBe(1);
+  });
+
+  it("should estimate low similarity for unrelated essays", () => {
+    const a = fingerprintText(MODEL_ANSWER);
+    const b = fingerprintText(OTHER_ESSAY);
+
+    expect(estimateJaccard(a.signature, b.signature)).toBeLessThan(0.1);
+    expect(a.bands.filter((band) => b.bands.includes(band))).toEqual([]);
+  });
+
+  it("should find an essay copied from part of a model answer", () => {
+    const copied = MODEL_ANSWER.split("\n\n").slice(0, 2).join("\n\n");
+    const source = fingerprintText(MODEL_ANSWER);
+    const essay = fingerprintText(copied);
+
+    const jaccard = estimateJaccard(essay.signature, source.signature);
+    expect(essay.bands.some((band) => source.bands.includes(band))).toBe(true);
+    // All of the essay is copied, even though the texts differ in length
+    expect(jaccard).toBeLessThan(0.8);
+    expect(
+      estimateCoverage(jaccard, essay.shingleCount, source.shingleCount)
+    ).toBeGreaterThan(0.85);
+  });
+
+  it("should not fingerprint empty text", () => {
+    expect(fingerprintText("").bands).toEqual([]);
+    expect(estimateCoverage(1, 0, 10)).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { wordShingles } from "../essay-fingerprint";
+
+// Signature length, split into LSH_BANDS bands of LSH_ROWS values. Two texts
+// become candidates when any band matches: about 87% likely at 50% shingle
+// overlap, 99.9% at 70%.
+export const MINHASH_SIZE = 128;
+const LSH_BANDS = 32;
+const LSH_ROWS = MINHASH_SIZE / LSH_BANDS;
+
+// Fixed seeds, so signatures stay comparable across restarts
+const SEEDS = (() => {
+  let state = 0x9e3779b9;
+  return Array.from({ length: MINHASH_SIZE }, () => {
+    state = mix32(state + 0x6d2b79f5);
+    return state;
+  });
+})();
+
+export interface MinHashFingerprint {
+  signature: number[];
+  bands: string[];
+  shingleCount: number;
+}
+
+export function fingerprintText(text: string): MinHashFingerprint {
+  const shingles = wordShingles(text);
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  shingles.forEach((shingle) => {
+    const base = hashString(shingle);
+    for (let index = 0; index < MINHASH_SIZE; index++) {
+      const value = mix32(base ^ SEEDS[index]);
+      if (value < signature[index]) {
+        signature[index] = value;
+      }
+    }
+  });
+
+  return {
+    signature,
+    bands: shingles.size ? lshBands(signature) : [],
+    shingleCount: shingles.size,
+  };
+}
+
+/**
+ * Estimated Jaccard similarity (0-1) of the texts behind two signatures
+ */
+export function estimateJaccard(a: number[], b: number[]): number {
+  const size = Math.min(a.length, b.length);
+  if (!size) {
+    return 0;
+  }
+  let equal = 0;
+  for (let index = 0; index < size; index++) {
+    if (a[index] === b[index]) {
+      equal++;
+    }
+  }
+  return equal / size;
+}
+
+/**
+ * Estimated share (0-1) of a text's shingles that also appear in a source,
+ * from their Jaccard similarity and shingle counts. Unlike Jaccard, this
+ * stays high when a copied answer is padded with extra sentences.
+ */
+export function estimateCoverage(
+  jaccard: number,
+  shingleCount: number,
+  sourceShingleCount: number
+): number {
+  if (!shingleCount) {
+    return 0;
+  }
+  const shared =
+    (jaccard / (1 + jaccard)) * (shingleCount + sourceShingleCount);
+  return Math.min(1, shared / shingleCount);
+}
+
+function lshBands(signature: number[]): string[] {
+  const bands: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    let hash = band;
+    for (let row = 0; row < LSH_ROWS; row++) {
+      hash = mix32(hash ^ signature[band * LSH_ROWS + row]);
+    }
+    bands.push(`${band}:${hash.toString(16)}`);
+  }
+  return bands;
+}
+
+// FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer
+function mix32(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
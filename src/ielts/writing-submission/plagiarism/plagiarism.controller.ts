@@ -0,0 +1,120 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { PlagiarismService } from "./plagiarism.service";
+import { UpdatePlagiarismSettingsDto } from "../dto/plagiarism.dto";
+import { ObjectIdDto } from "../dto/ielts-writing-submission.dto";
+import { JwtAuthGuard } from "../../../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../../../auth/guards/roles.guard";
+import { Roles } from "../../../auth/decorators/roles.decorator";
+import { UserRole } from "../../../users/schemas/user.schema";
+
+@ApiTags("plagiarism")
+@Controller("plagiarism")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth("JWT-auth")
+export class PlagiarismController {
+  constructor(private readonly plagiarismService: PlagiarismService) {}
+
+  @Get("settings")
+  @ApiOperation({
+    summary: "Get how flagged submissions are handled (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Plagiarism settings retrieved" })
+  async getSettings() {
+    const settings = await this.plagiarismService.getSettings();
+    return { data: settings };
+  }
+
+  @Put("settings")
+  @ApiOperation({
+    summary: "Warn or block grading of flagged submissions (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Plagiarism settings updated" })
+  @ApiResponse({ status: 400, description: "Invalid action or threshold" })
+  async updateSettings(
+    @Body() updateDto: UpdatePlagiarismSettingsDto,
+    @Request() req
+  ) {
+    const settings = await this.plagiarismService.updateSettings(
+      updateDto,
+      req.user.sub
+    );
+    return {
+      message: "Plagiarism settings updated",
+      data: settings,
+    };
+  }
+
+  @Get("flagged")
+  @ApiOperation({
+    summary: "Get flagged submissions awaiting review (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Flagged submissions retrieved" })
+  async findFlagged() {
+    const submissions = await this.plagiarismService.findFlagged();
+    return { data: submissions };
+  }
+
+  @Post("reindex")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Fingerprint all stored essays and improved versions (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Similarity index rebuilt" })
+  async reindex() {
+    const counts = await this.plagiarismService.reindex();
+    return {
+      message: "Similarity index rebuilt",
+      data: counts,
+    };
+  }
+
+  @Post("submissions/:id/check")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Check a submission for copied text (Admin only)",
+    description:
+      "Reports matched submissions and improved versions with the percentage of the essay found in each.",
+  })
+  @ApiResponse({ status: 200, description: "Submission checked" })
+  @ApiResponse({ status: 404, description: "Submission not found" })
+  async checkSubmission(@Param() params: ObjectIdDto) {
+    const report = await this.plagiarismService.checkSubmission(params.id);
+    return { data: report };
+  }
+
+  @Post("submissions/:id/dismiss")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Mark a flagged submission as the student's own work (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Flag dismissed" })
+  @ApiResponse({ status: 404, description: "Flagged submission not found" })
+  async dismiss(@Param() params: ObjectIdDto, @Request() req) {
+    const report = await this.plagiarismService.dismiss(
+      params.id,
+      req.user.sub
+    );
+    return {
+      message: "Flag dismissed",
+      data: report,
+    };
+  }
+}
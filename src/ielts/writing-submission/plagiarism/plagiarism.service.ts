@@ -0,0 +1,387 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  IELTSWritingSubmission,
+  IELTSWritingSubmissionDocument,
+  IELTSWritingSubmissionStatus,
+  IMPROVED_VERSION_BAND_KEYS,
+  ImprovedVersion,
+  ImprovedVersions,
+  PlagiarismMatch,
+  PlagiarismReport,
+  PlagiarismSourceType,
+} from "../schemas/ielts-writing-submission.schema";
+import {
+  SimilarityFingerprint,
+  SimilarityFingerprintDocument,
+} from "../schemas/similarity-fingerprint.schema";
+import {
+  PlagiarismAction,
+  PlagiarismSettings,
+  PlagiarismSettingsDocument,
+} from "../schemas/plagiarism-settings.schema";
+import { UpdatePlagiarismSettingsDto } from "../dto/plagiarism.dto";
+import {
+  MinHashFingerprint,
+  estimateCoverage,
+  estimateJaccard,
+  fingerprintText,
+} from "./minhash";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+// Matches kept in a report, most similar first
+const MAX_MATCHES = 5;
+
+// Candidates sharing less of the essay than this (percent) are not reported
+const MIN_REPORTED_SIMILARITY = 30;
+
+// Flagged submissions listed for admins
+const MAX_FLAGGED = 100;
+
+export class PlagiarismBlockedException extends ForbiddenException {
+  constructor(similarity: number) {
+    super(
+      `This essay closely matches existing text (${similarity}% similar) and cannot be graded until it is reviewed.`
+    );
+  }
+}
+
+export interface PlagiarismScreening {
+  report: PlagiarismReport;
+  // Added to the feedback when flagged submissions are graded with a warning
+  warning?: string;
+}
+
+/**
+ * Offline copy detection: every graded essay and improved version is
+ * fingerprinted with MinHash, and new submissions are compared with
+ * earlier essays by other students and with improved versions through LSH.
+ */
+@Injectable()
+export class PlagiarismService {
+  private readonly logger = new Logger(PlagiarismService.name);
+
+  constructor(
+    @InjectModel(SimilarityFingerprint.name)
+    private similarityFingerprintModel: Model<SimilarityFingerprintDocument>,
+    @InjectModel(PlagiarismSettings.name)
+    private plagiarismSettingsModel: Model<PlagiarismSettingsDocument>,
+    @InjectModel(IELTSWritingSubmission.name)
+    private ieltsWritingSubmissionModel: Model<IELTSWritingSubmissionDocument>
+  ) {}
+
+  /**
+   * Check a submission before grading, store the report and index the essay
+   * as a source for later checks. Throws when the submission is flagged and
+   * the settings block grading.
+   */
+  async screen(
+    submissionId: ObjectIdType,
+    submission: IELTSWritingSubmission
+  ): Promise<PlagiarismScreening> {
+    const settings = await this.getSettings();
+    const report = await this.check(
+      submissionId,
+      submission,
+      settings.threshold
+    );
+    if (!report.flagged || report.dismissedAt) {
+      return { report };
+    }
+
+    if (settings.action === PlagiarismAction.BLOCK) {
+      throw new PlagiarismBlockedException(report.similarity);
+    }
+    return {
+      report,
+      warning: `This essay closely matches existing text (${report.similarity}% similar). The scores may not reflect your own writing.`,
+    };
+  }
+
+  async checkSubmission(id: ObjectIdType): Promise<PlagiarismReport> {
+    const submission = await this.ieltsWritingSubmissionModel
+      .findById(id)
+      .exec();
+    if (!submission) {
+      throw new NotFoundException("IELTS Writing submission not found");
+    }
+    const settings = await this.getSettings();
+    return this.check(id, submission, settings.threshold);
+  }
+
+  /**
+   * Index an improved version, so students who submit it are flagged
+   */
+  async indexImprovedVersion(
+    submissionId: ObjectIdType,
+    submission: IELTSWritingSubmission,
+    band: keyof ImprovedVersions,
+    improvedVersion: ImprovedVersionText
+  ): Promise<void> {
+    await this.index(
+      PlagiarismSourceType.IMPROVED_VERSION,
+      submissionId,
+      submission,
+      fingerprintText(improvedVersionText(improvedVersion)),
+      new Date(),
+      band
+    );
+  }
+
+  /**
+   * Fingerprint every stored essay and improved version, e.g. after the
+   * index was cleared or when enabling checks on an existing database
+   */
+  async reindex(): Promise<{ submissions: number; improvedVersions: number }> {
+    const counts = { submissions: 0, improvedVersions: 0 };
+    const cursor = this.ieltsWritingSubmissionModel
+      .find({ status: { $ne: IELTSWritingSubmissionStatus.DRAFT } })
+      .select("user essayGroup body improvedVersion createdAt")
+      .cursor();
+
+    for await (const submission of cursor) {
+      const submissionId = submission._id as ObjectIdType;
+      await this.index(
+        PlagiarismSourceType.SUBMISSION,
+        submissionId,
+        submission,
+        fingerprintText(submission.body),
+        (submission as any).createdAt
+      );
+      counts.submissions++;
+
+      for (const band of Object.values(IMPROVED_VERSION_BAND_KEYS)) {
+        const improvedVersion = submission.improvedVersion?.[band];
+        if (!improvedVersion) {
+          continue;
+        }
+        await this.index(
+          PlagiarismSourceType.IMPROVED_VERSION,
+          submissionId,
+          submission,
+          fingerprintText(improvedVersionText(improvedVersion)),
+          (submission as any).createdAt,
+          band
+        );
+        counts.improvedVersions++;
+      }
+    }
+
+    this.logger.log(
+      `Indexed ${counts.submissions} submissions and ${counts.improvedVersions} improved versions`
+    );
+    return counts;
+  }
+
+  async findFlagged() {
+    return this.ieltsWritingSubmissionModel
+      .find({
+        "plagiarism.flagged": true,
+        "plagiarism.dismissedAt": { $exists: false },
+      })
+      .select("user status score plagiarism createdAt")
+      .populate("user", "firstName lastName")
+      .sort({ createdAt: -1 })
+      .limit(MAX_FLAGGED)
+      .exec();
+  }
+
+  /**
+   * Confirm a flagged essay is the student's own work, so it is graded
+   * without a warning
+   */
+  async dismiss(
+    id: ObjectIdType,
+    adminId: ObjectIdType
+  ): Promise<PlagiarismReport> {
+    const submission = await this.ieltsWritingSubmissionModel
+      .findOneAndUpdate(
+        { _id: id, "plagiarism.flagged": true },
+        {
+          $set: {
+            "plagiarism.dismissedBy": adminId,
+            "plagiarism.dismissedAt": new Date(),
+          },
+        },
+        { new: true }
+      )
+      .exec();
+    if (!submission) {
+      throw new NotFoundException("Flagged submission not found");
+    }
+    return submission.plagiarism;
+  }
+
+  async getSettings(): Promise<PlagiarismSettings> {
+    const settings = await this.plagiarismSettingsModel.findOne().exec();
+    // Schema defaults until an admin saves settings
+    return settings || new this.plagiarismSettingsModel();
+  }
+
+  async updateSettings(
+    updateDto: UpdatePlagiarismSettingsDto,
+    adminId: ObjectIdType
+  ): Promise<PlagiarismSettings> {
+    if (
+      updateDto.action !== undefined &&
+      !Object.values(PlagiarismAction).includes(updateDto.action)
+    ) {
+      throw new BadRequestException(
+        `action must be one of: ${Object.values(PlagiarismAction).join(", ")}`
+      );
+    }
+    if (
+      updateDto.threshold !== undefined &&
+      (typeof updateDto.threshold !== "number" ||
+        updateDto.threshold < 1 ||
+        updateDto.threshold > 100)
+    ) {
+      throw new BadRequestException("threshold must be a number from 1 to 100");
+    }
+
+    return this.plagiarismSettingsModel
+      .findOneAndUpdate(
+        {},
+        {
+          ...(updateDto.action && { action: updateDto.action }),
+          ...(updateDto.threshold !== undefined && {
+            threshold: updateDto.threshold,
+          }),
+          updatedBy: adminId,
+        },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+      )
+      .exec();
+  }
+
+  private async check(
+    submissionId: ObjectIdType,
+    submission: IELTSWritingSubmission,
+    threshold: number
+  ): Promise<PlagiarismReport> {
+    const fingerprint = fingerprintText(submission.body);
+    const writtenAt: Date = (submission as any).createdAt || new Date();
+    const candidates = fingerprint.bands.length
+      ? await this.similarityFingerprintModel
+          .find({
+            bands: { $in: fingerprint.bands },
+            submission: { $ne: submissionId },
+            essayGroup: { $ne: submission.essayGroup || submissionId },
+            $or: [
+              { source: PlagiarismSourceType.IMPROVED_VERSION },
+              {
+                // Students may resubmit their own essays
+                source: PlagiarismSourceType.SUBMISSION,
+                user: { $ne: getUserId(submission) },
+                writtenAt: { $lt: writtenAt },
+              },
+            ],
+          })
+          .select("source submission band signature shingleCount")
+          .lean()
+          .exec()
+      : [];
+
+    const matches: PlagiarismMatch[] = candidates
+      .map((candidate) => ({
+        source: candidate.source,
+        submission: candidate.submission,
+        band: candidate.band,
+        similarity: Math.round(
+          estimateCoverage(
+            estimateJaccard(fingerprint.signature, candidate.signature),
+            fingerprint.shingleCount,
+            candidate.shingleCount
+          ) * 100
+        ),
+      }))
+      .filter((match) => match.similarity >= MIN_REPORTED_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_MATCHES);
+
+    const similarity = matches[0]?.similarity || 0;
+    const report: PlagiarismReport = {
+      similarity,
+      flagged: similarity >= threshold,
+      matches,
+      checkedAt: new Date(),
+      // An admin's dismissal stands when the essay is checked again
+      dismissedBy: submission.plagiarism?.dismissedBy,
+      dismissedAt: submission.plagiarism?.dismissedAt,
+    };
+    await this.ieltsWritingSubmissionModel
+      .updateOne({ _id: submissionId }, { plagiarism: report })
+      .exec();
+    await this.index(
+      PlagiarismSourceType.SUBMISSION,
+      submissionId,
+      submission,
+      fingerprint,
+      writtenAt
+    );
+
+    if (report.flagged) {
+      this.logger.warn(
+        `Submission ${submissionId} is ${similarity}% similar to ${matches[0].source} ${matches[0].submission}`
+      );
+    }
+    return report;
+  }
+
+  private async index(
+    source: PlagiarismSourceType,
+    submissionId: ObjectIdType,
+    submission: Pick<IELTSWritingSubmission, "user" | "essayGroup">,
+    fingerprint: MinHashFingerprint,
+    writtenAt: Date,
+    band?: string
+  ): Promise<void> {
+    if (!fingerprint.bands.length) {
+      return;
+    }
+    await this.similarityFingerprintModel
+      .updateOne(
+        { submission: submissionId, source, ...(band && { band }) },
+        {
+          $set: {
+            user: getUserId(submission),
+            essayGroup: submission.essayGroup || submissionId,
+            writtenAt,
+            signature: fingerprint.signature,
+            bands: fingerprint.bands,
+            shingleCount: fingerprint.shingleCount,
+          },
+        },
+        { upsert: true }
+      )
+      .exec();
+  }
+}
+
+type ImprovedVersionText = Pick<
+  ImprovedVersion,
+  "introduction" | "body" | "conclusion"
+>;
+
+function improvedVersionText(improvedVersion: ImprovedVersionText): string {
+  return [
+    improvedVersion.introduction,
+    ...(improvedVersion.body || []),
+    improvedVersion.conclusion,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// The user may be populated
+function getUserId(submission: Pick<IELTSWritingSubmission, "user">) {
+  const user = submission.user as any;
+  return user?._id || user;
+}
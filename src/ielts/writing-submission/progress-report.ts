@@ -0,0 +1,198 @@
+import {
+  CriteriaScores,
+  IELTSWritingTargetScore,
+} from "./schemas/ielts-writing-submission.schema";
+import { ObjectIdType } from "../../types/object-id.type";
+
+export const TARGET_SCORE_BANDS: Record<IELTSWritingTargetScore, number> = {
+  [IELTSWritingTargetScore.BAND_SEVEN]: 7,
+  [IELTSWritingTargetScore.BAND_EIGHT]: 8,
+  [IELTSWritingTargetScore.BAND_NINE]: 9,
+};
+
+const CRITERIA: (keyof CriteriaScores)[] = [
+  "taskResponse",
+  "taskAchievement",
+  "coherence",
+  "lexical",
+  "grammar",
+];
+
+// Change in band per submission below which a trend counts as steady
+const STEADY_SLOPE = 0.05;
+
+export type TrendDirection = "improving" | "steady" | "declining";
+
+export interface ScoredSubmission {
+  _id: ObjectIdType;
+  score: number;
+  criteriaScores?: CriteriaScores;
+  targetScore?: IELTSWritingTargetScore;
+  taskType?: string;
+  createdAt: Date;
+}
+
+export interface TrendPoint {
+  submissionId: ObjectIdType;
+  date: Date;
+  band: number;
+  movingAverage: number;
+}
+
+export interface Trend {
+  points: TrendPoint[];
+  latest: number;
+  recentAverage: number;
+  change: number;
+  slope: number;
+  direction: TrendDirection;
+}
+
+export interface ProgressReport {
+  submissions: number;
+  window: number;
+  overall: Trend | null;
+  criteria: Partial<Record<keyof CriteriaScores, Trend>>;
+  bestCriterion: { criterion: keyof CriteriaScores; band: number } | null;
+  worstCriterion: { criterion: keyof CriteriaScores; band: number } | null;
+  target: {
+    targetScore: IELTSWritingTargetScore;
+    band: number;
+    gap: number;
+    criteriaGaps: Partial<Record<keyof CriteriaScores, number>>;
+  } | null;
+}
+
+/**
+ * Band trends over a student's scored submissions, oldest first. Moving
+ * averages and "recent" figures use the last `window` submissions.
+ */
+export function buildProgressReport(
+  submissions: ScoredSubmission[],
+  window: number
+): ProgressReport {
+  const overall = buildTrend(
+    submissions.map((submission) => ({
+      submissionId: submission._id,
+      date: submission.createdAt,
+      band: submission.score,
+    })),
+    window
+  );
+
+  const criteria: ProgressReport["criteria"] = {};
+  for (const criterion of CRITERIA) {
+    const trend = buildTrend(
+      submissions
+        .filter(
+          (submission) =>
+            typeof submission.criteriaScores?.[criterion] === "number"
+        )
+        .map((submission) => ({
+          submissionId: submission._id,
+          date: submission.createdAt,
+          band: submission.criteriaScores[criterion],
+        })),
+      window
+    );
+    if (trend) {
+      criteria[criterion] = trend;
+    }
+  }
+
+  const ranked = Object.entries(criteria)
+    .map(([criterion, trend]) => ({
+      criterion: criterion as keyof CriteriaScores,
+      band: trend.recentAverage,
+    }))
+    .sort((a, b) => b.band - a.band);
+
+  const latestTarget = [...submissions]
+    .reverse()
+    .find((submission) => submission.targetScore)?.targetScore;
+  const targetBand = latestTarget && TARGET_SCORE_BANDS[latestTarget];
+
+  return {
+    submissions: submissions.length,
+    window,
+    overall,
+    criteria,
+    bestCriterion: ranked[0] || null,
+    worstCriterion: ranked.length ? ranked[ranked.length - 1] : null,
+    target:
+      overall && targetBand
+        ? {
+            targetScore: latestTarget,
+            band: targetBand,
+            // Positive: bands still to gain
+            gap: round(targetBand - overall.recentAverage),
+            criteriaGaps: ranked.reduce(
+              (gaps, { criterion, band }) => ({
+                ...gaps,
+                [criterion]: round(targetBand - band),
+              }),
+              {}
+            ),
+          }
+        : null,
+  };
+}
+
+function buildTrend(
+  values: { submissionId: ObjectIdType; date: Date; band: number }[],
+  window: number
+): Trend | null {
+  if (!values.length) {
+    return null;
+  }
+
+  const points = values.map((value, index) => {
+    const recent = values.slice(Math.max(0, index - window + 1), index + 1);
+    return {
+      ...value,
+      movingAverage: round(average(recent.map((point) => point.band))),
+    };
+  });
+  const slope = round(leastSquaresSlope(values.map((value) => value.band)));
+
+  return {
+    points,
+    latest: values[values.length - 1].band,
+    recentAverage: points[points.length - 1].movingAverage,
+    change: round(points[points.length - 1].movingAverage - points[0].band),
+    slope,
+    direction:
+      slope > STEADY_SLOPE
+        ? "improving"
+        : slope < -STEADY_SLOPE
+          ? "declining"
+          : "steady",
+  };
+}
+
+/**
+ * Slope of the least-squares line through the bands, in band per submission
+ */
+function leastSquaresSlope(bands: number[]): number {
+  const n = bands.length;
+  if (n < 2) {
+    return 0;
+  }
+  const meanX = (n - 1) / 2;
+  const meanY = average(bands);
+  let numerator = 0;
+  let denominator = 0;
+  bands.forEach((band, x) => {
+    numerator += (x - meanX) * (band - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return numerator / denominator;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,596 @@
+import { LLMTask } from "../llm/llm-provider.interface";
+import { PromptName } from "./prompt-names";
+import {
+  PromptVariable,
+  PromptVariableType,
+} from "../schemas/prompt-template.schema";
+import { MISTAKE_TYPES } from "../mistake-taxonomy";
+
+export interface DefaultPrompt {
+  // Grading task the prompt is sent as, which selects the provider and model
+  task: LLMTask;
+  system: string;
+  template: string;
+  variables: PromptVariable[];
+  description: string;
+}
+
+const essay: PromptVariable = {
+  name: "essay",
+  type: PromptVariableType.STRING,
+  required: true,
+};
+
+const targetScore: PromptVariable = {
+  name: "targetScore",
+  type: PromptVariableType.STRING,
+  required: true,
+};
+
+const targetBand: PromptVariable = {
+  name: "targetBand",
+  type: PromptVariableType.STRING,
+  required: true,
+};
+
+const bodyCount: PromptVariable = {
+  name: "bodyCount",
+  type: PromptVariableType.NUMBER,
+  required: true,
+};
+
+const question: PromptVariable = {
+  name: "question",
+  type: PromptVariableType.STRING,
+  required: true,
+};
+
+// Text rendering of the chart, table, diagram or map
+const visual: PromptVariable = {
+  name: "visual",
+  type: PromptVariableType.STRING,
+  required: true,
+};
+
+const bulletPoints: PromptVariable = {
+  name: "bulletPoints",
+  type: PromptVariableType.STRING,
+  required: false,
+};
+
+const letterTone: PromptVariable = {
+  name: "letterTone",
+  type: PromptVariableType.STRING,
+  required: false,
+};
+
+// Counted on submission, so the grader does not have to estimate length
+const wordCount: PromptVariable = {
+  name: "wordCount",
+  type: PromptVariableType.NUMBER,
+  required: false,
+};
+
+const minWords: PromptVariable = {
+  name: "minWords",
+  type: PromptVariableType.NUMBER,
+  required: false,
+};
+
+const SCORES_SCHEMA_TASK_ONE = `{
+  "score": number,
+  "criteriaScores": {
+    "taskAchievement": number,
+    "coherence": number,
+    "lexical": number,
+    "grammar": number
+  }
+}`;
+
+const MISTAKE_TYPE_RULE = `Set "mistakeType" on every inlineFeedback item to exactly one of: ${MISTAKE_TYPES.join(", ")}.`;
+
+const INLINE_FEEDBACK_SCHEMA = `"inlineFeedback": [
+    {
+      "originalText": string,
+      "category": string,
+      "mistakeType": string,
+      "explanation": string,
+      "suggestion": string,
+      "suggestionExplanation": string
+    }
+  ]`;
+
+const ACADEMIC_TASK_ONE_CRITERIA = `STRICT EVALUATION CRITERIA (Academic Writing Task 1):
+*   **Task Achievement:** Is there a clear overview of the main trends, differences or stages? Are key features selected, reported accurately and compared? Penalize listing every figure, missing overviews, opinions and data that contradicts the visual.
+*   **Coherence and Cohesion:** Is information grouped logically? Penalize mechanical linking words.
+*   **Lexical Resource:** Is the language of change, comparison and proportion precise and varied?
+*   **Grammatical Range and Accuracy:** Are comparatives, tenses and complex structures used accurately?
+*   Reports under 150 words must be penalized under Task Achievement.`;
+
+const GENERAL_TASK_ONE_CRITERIA = `STRICT EVALUATION CRITERIA (General Training Writing Task 1):
+*   **Task Achievement:** Is the purpose of the letter clear? Is every bullet point covered and developed? Is the tone consistent and appropriate for the reader?
+*   **Coherence and Cohesion:** Is the letter logically organised with an appropriate opening and closing?
+*   **Lexical Resource:** Is the vocabulary precise and suited to the register of the letter?
+*   **Grammatical Range and Accuracy:** Is there a range of accurate sentence structures?
+*   Letters under 150 words must be penalized under Task Achievement.`;
+
+const ACADEMIC_TASK_ONE_CONTEXT = `CONTEXT:
+*   Target Score: "{{targetScore}}"
+*   Task: """{{question}}"""
+*   Visual:
+"""
+{{visual}}
+"""
+*   Word count: {{wordCount}} (minimum {{minWords}})
+*   Report: """{{essay}}"""`;
+
+const GENERAL_TASK_ONE_CONTEXT = `CONTEXT:
+*   Target Score: "{{targetScore}}"
+*   Task: """{{question}}"""
+*   Bullet points to cover: {{bulletPoints}}
+*   Expected tone: {{letterTone}}
+*   Word count: {{wordCount}} (minimum {{minWords}})
+*   Letter: """{{essay}}"""`;
+
+const ACADEMIC_TASK_ONE_SPECIFIC_SCHEMA = `"taskSpecific": {
+    "overview": "Whether the report has a clear overview of the main trends, and how to improve it.",
+    "keyFeatures": "Whether the key features are selected and compared, and which are missing.",
+    "dataAccuracy": "Whether the figures reported match the visual, quoting any that do not."
+  }`;
+
+const GENERAL_TASK_ONE_SPECIFIC_SCHEMA = `"taskSpecific": {
+    "purpose": "Whether the purpose of the letter is clear from the opening.",
+    "bulletPoints": "How well each bullet point is covered, naming any that are missing.",
+    "tone": "Whether the tone suits the reader and stays consistent."
+  }`;
+
+const IMPROVED_TASK_ONE_SCHEMA = `{
+  "introduction": "The rewritten opening.",
+  "body": [
+    "The first rewritten body paragraph."
+  ],
+  "conclusion": "The rewritten closing.",
+  "criteriaResponse": {
+    "taskAchievement": "Positive feedback for Task Achievement.",
+    "coherence": "Positive feedback for Coherence and Cohesion.",
+    "lexical": "Positive feedback for Lexical Resource.",
+    "grammar": "Positive feedback for Grammatical Range."
+  },
+  "inlineFeedback": [
+    {
+      "originalText": "A short, strong phrase from the new text.",
+      "category": "Area of strength (e.g., 'Lexis', 'Structure').",
+      "explanation": "Brief reason why this phrase is good."
+    }
+  ]
+}`;
+
+/**
+ * Prompts shipped with the code. They are stored as version 1 of each
+ * template the first time the app starts; later versions are managed
+ * through the prompt-templates admin API.
+ */
+export const DEFAULT_PROMPTS: Record<PromptName, DefaultPrompt> = {
+  [PromptName.STRUCTURE]: {
+    task: LLMTask.STRUCTURE,
+    system: "",
+    description: "Detect introduction, body paragraphs and conclusion",
+    variables: [essay],
+    template: `Detect the structure of the following IELTS essay.
+Return ONLY JSON with fields:
+- body_count: number of body paragraphs
+- has_intro: true/false
+- has_conclusion: true/false
+
+Rules for detection:
+1. Paragraphs are separated by double line breaks.
+2. The first paragraph is considered the introduction.
+3. The last paragraph is considered the conclusion.
+4. Body paragraphs are all paragraphs between the introduction and conclusion.
+5. If there's only one paragraph, it's considered an introduction and has_conclusion and body_count will be false/0.
+6. If there are two paragraphs, the first is intro, the second is conclusion, and body_count will be 0.
+
+Essay:
+"""
+{{essay}}
+"""
+`,
+  },
+  [PromptName.ANALYSIS]: {
+    task: LLMTask.ANALYSIS,
+    system: "",
+    description: "Full analysis: scores and feedback in one response",
+    variables: [
+      essay,
+      targetScore,
+      wordCount,
+      minWords,
+      { name: "bodyCount", type: PromptVariableType.NUMBER, required: false },
+      { name: "hasIntro", type: PromptVariableType.BOOLEAN, required: false },
+      {
+        name: "hasConclusion",
+        type: PromptVariableType.BOOLEAN,
+        required: false,
+      },
+    ],
+    template: `You are an AI IELTS essay evaluator. Your sole task is to analyze the user's essay and return a single, valid JSON object with your analysis. You must adopt a strict, time-efficient grading persona, mirroring the critical standards of a human IELTS examiner.
+
+CRITICAL RULES:
+1.  Your entire response MUST be a single, raw, valid JSON object.
+2.  Do NOT include any text, explanations, or markdown before or after the JSON.
+3.  Prioritize speed and relevance. Focus ONLY on the most critical errors that would significantly impact the band score. Do not list every minor mistake.
+4.  For each item in "inlineFeedback", the "originalText" value MUST be a short, unique phrase from the essay where the error occurs, NOT the entire sentence.
+5.  All explanations and suggestions MUST be brief and direct.
+6.  The "improvedVersions" key in the JSON MUST be an empty object: {}.
+7.  Your response must start with { and end with }.
+8.  ${MISTAKE_TYPE_RULE}
+
+STRICT EVALUATION CRITERIA:
+*   **Task Response:** Is the argument well-developed and consistent? Penalize generalizations.
+*   **Coherence and Cohesion:** Is the logic clear and well-structured? Penalize mechanical linking words and awkward transitions.
+*   **Lexical Resource:** Is the vocabulary precise and appropriate? Penalize incorrect collocations and repetition.
+*   **Grammatical Range and Accuracy:** Is there a variety of complex sentence structures used accurately? Penalize significant errors in grammar and punctuation.
+
+Analyze the following essay based on these strict criteria and provide prioritized, concise feedback by filling out the JSON schema below.
+
+CONTEXT:
+*   Target Score: "{{targetScore}}"
+*   Word count: {{wordCount}} (minimum {{minWords}})
+*   Essay: """{{essay}}"""
+
+JSON OUTPUT SCHEMA (Note: indices are removed):
+json
+{
+  "score": number,
+  "criteriaScores": {
+    "taskResponse": number,
+    "coherence": number,
+    "lexical": number,
+    "grammar": number
+  },
+  "aiFeedback": {
+    "mistakes": [
+      "A list of the top 2-4 most critical, high-level mistakes identified in the essay."
+    ],
+    "suggestions": [
+      "A list of the top 2-4 most actionable suggestions for immediate improvement."
+    ],
+    "inlineFeedback": [
+      {
+        "originalText": "A short, unique phrase from the essay that contains a critical error. Do NOT use the full sentence.",
+        "category": "The error type (e.g., 'Grammar', 'Lexical Resource', 'Cohesion', 'Clarity').",
+        "mistakeType": "The specific error type from the list in rule 8.",
+        "explanation": "A very brief explanation of the error.",
+        "suggestion": "The corrected or improved word/phrase.",
+        "suggestionExplanation": "A very brief reason why the suggestion is better."
+      }
+    ]
+  }
+}`,
+  },
+  [PromptName.SCORES]: {
+    task: LLMTask.SCORES,
+    system: "",
+    description: "Overall and per-criterion band scores",
+    variables: [essay, targetScore, wordCount, minWords],
+    template: `You are an AI IELTS essay evaluator. Return ONLY a single valid JSON object with the overall score and criteria scores.
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. Schema:
+{
+  "score": number,
+  "criteriaScores": {
+    "taskResponse": number,
+    "coherence": number,
+    "lexical": number,
+    "grammar": number
+  }
+}
+
+Context:
+* Target Score: "{{targetScore}}"
+* Word count: {{wordCount}} (minimum {{minWords}})
+* Essay: """{{essay}}"""`,
+  },
+  [PromptName.FEEDBACK]: {
+    task: LLMTask.FEEDBACK,
+    system: "",
+    description: "Mistakes, suggestions and inline feedback",
+    variables: [essay, targetScore, wordCount, minWords],
+    template: `You are an AI IELTS essay evaluator. Return ONLY a single valid JSON object with concise feedback.
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. ${MISTAKE_TYPE_RULE}
+3. Schema:
+{
+  "mistakes": [string],
+  "suggestions": [string],
+  "inlineFeedback": [
+    {
+      "originalText": string,
+      "category": string,
+      "mistakeType": string,
+      "explanation": string,
+      "suggestion": string,
+      "suggestionExplanation": string
+    }
+  ]
+}
+
+Context:
+* Target Score: "{{targetScore}}"
+* Word count: {{wordCount}} (minimum {{minWords}})
+* Essay: """{{essay}}"""`,
+  },
+  [PromptName.IMPROVED_VERSION]: {
+    task: LLMTask.IMPROVED_VERSION,
+    system: "",
+    description: "Essay rewritten for a target band",
+    variables: [essay, targetBand, bodyCount],
+    template: `Your task is to rewrite the original essay to meet the target band score. Respond with ONLY a single, raw JSON object adhering strictly to the schema.
+
+**Constraints:**
+*   Preserve the original essay's ideas and approximate word count.
+*   The 'body' array must contain exactly {{bodyCount}} paragraphs.
+*   All feedback must be positive, highlighting the strengths of the rewritten text.
+*   Each 'textsnippet' must be a short, unique phrase from your new rewritten essay.
+
+**Context:**
+*   Target Band Score: "{{targetBand}}"
+*   Original Essay: """{{essay}}"""
+
+**Mandatory JSON Schema:**
+{
+  "introduction": "The rewritten introduction text.",
+  "body": [
+    "The first rewritten body paragraph.",
+    "The second rewritten body paragraph."
+  ],
+  "conclusion": "The rewritten conclusion text.",
+  "criteriaResponse": {
+    "taskResponse": "Positive feedback for Task Response.",
+    "coherence": "Positive feedback for Coherence and Cohesion.",
+    "lexical": "Positive feedback for Lexical Resource.",
+    "grammar": "Positive feedback for Grammatical Range."
+  },
+  "inlineFeedback": [
+    {
+      "originalText": "A short, strong phrase from the new essay.",
+      "category": "Area of strength (e.g., 'Lexis', 'Structure').",
+      "explanation": "Brief reason why this phrase is good."
+    }
+  ]
+}
+
+Begin your response immediately with {.
+`,
+  },
+  [PromptName.ACADEMIC_TASK_ONE_SCORES]: {
+    task: LLMTask.SCORES,
+    system: "",
+    description: "Academic Task 1 band scores, graded on Task Achievement",
+    variables: [essay, targetScore, question, visual, wordCount, minWords],
+    template: `You are an AI IELTS examiner grading an Academic Writing Task 1 report. Return ONLY a single valid JSON object with the overall score and criteria scores.
+
+${ACADEMIC_TASK_ONE_CRITERIA}
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. Schema:
+${SCORES_SCHEMA_TASK_ONE}
+
+${ACADEMIC_TASK_ONE_CONTEXT}`,
+  },
+  [PromptName.ACADEMIC_TASK_ONE_FEEDBACK]: {
+    task: LLMTask.FEEDBACK,
+    system: "",
+    description: "Academic Task 1 feedback on overview, key features and data",
+    variables: [essay, targetScore, question, visual, wordCount, minWords],
+    template: `You are an AI IELTS examiner grading an Academic Writing Task 1 report. Return ONLY a single valid JSON object with concise feedback.
+
+${ACADEMIC_TASK_ONE_CRITERIA}
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. Each "originalText" must be a short phrase copied exactly from the report.
+3. ${MISTAKE_TYPE_RULE}
+4. Schema:
+{
+  "mistakes": [string],
+  "suggestions": [string],
+  ${INLINE_FEEDBACK_SCHEMA},
+  ${ACADEMIC_TASK_ONE_SPECIFIC_SCHEMA}
+}
+
+${ACADEMIC_TASK_ONE_CONTEXT}`,
+  },
+  [PromptName.ACADEMIC_TASK_ONE_ANALYSIS]: {
+    task: LLMTask.ANALYSIS,
+    system: "",
+    description: "Academic Task 1 scores and feedback in one response",
+    variables: [essay, targetScore, question, visual, wordCount, minWords],
+    template: `You are an AI IELTS examiner grading an Academic Writing Task 1 report. Return ONLY a single valid JSON object with scores and concise, prioritized feedback.
+
+${ACADEMIC_TASK_ONE_CRITERIA}
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. Each "originalText" must be a short phrase copied exactly from the report.
+3. ${MISTAKE_TYPE_RULE}
+4. Schema:
+{
+  "score": number,
+  "criteriaScores": {
+    "taskAchievement": number,
+    "coherence": number,
+    "lexical": number,
+    "grammar": number
+  },
+  "aiFeedback": {
+    "mistakes": [string],
+    "suggestions": [string],
+    ${INLINE_FEEDBACK_SCHEMA},
+    ${ACADEMIC_TASK_ONE_SPECIFIC_SCHEMA}
+  }
+}
+
+${ACADEMIC_TASK_ONE_CONTEXT}`,
+  },
+  [PromptName.ACADEMIC_TASK_ONE_IMPROVED_VERSION]: {
+    task: LLMTask.IMPROVED_VERSION,
+    system: "",
+    description: "Academic Task 1 report rewritten for a target band",
+    variables: [essay, targetBand, bodyCount, question, visual],
+    template: `Your task is to rewrite the Academic Writing Task 1 report to meet the target band score. Respond with ONLY a single, raw JSON object adhering strictly to the schema.
+
+**Constraints:**
+*   The introduction must paraphrase the task and the report must contain a clear overview.
+*   Report only figures that appear in the visual, and compare the key features.
+*   The 'body' array must contain exactly {{bodyCount}} paragraphs.
+*   All feedback must be positive, highlighting the strengths of the rewritten text.
+
+**Context:**
+*   Target Band Score: "{{targetBand}}"
+*   Task: """{{question}}"""
+*   Visual: """{{visual}}"""
+*   Original Report: """{{essay}}"""
+
+**Mandatory JSON Schema:**
+${IMPROVED_TASK_ONE_SCHEMA}
+
+Begin your response immediately with {.
+`,
+  },
+  [PromptName.GENERAL_TASK_ONE_SCORES]: {
+    task: LLMTask.SCORES,
+    system: "",
+    description:
+      "General Training letter band scores, graded on Task Achievement",
+    variables: [
+      essay,
+      targetScore,
+      question,
+      bulletPoints,
+      letterTone,
+      wordCount,
+      minWords,
+    ],
+    template: `You are an AI IELTS examiner grading a General Training Writing Task 1 letter. Return ONLY a single valid JSON object with the overall score and criteria scores.
+
+${GENERAL_TASK_ONE_CRITERIA}
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. Schema:
+${SCORES_SCHEMA_TASK_ONE}
+
+${GENERAL_TASK_ONE_CONTEXT}`,
+  },
+  [PromptName.GENERAL_TASK_ONE_FEEDBACK]: {
+    task: LLMTask.FEEDBACK,
+    system: "",
+    description:
+      "General Training letter feedback on purpose, bullet points and tone",
+    variables: [
+      essay,
+      targetScore,
+      question,
+      bulletPoints,
+      letterTone,
+      wordCount,
+      minWords,
+    ],
+    template: `You are an AI IELTS examiner grading a General Training Writing Task 1 letter. Return ONLY a single valid JSON object with concise feedback.
+
+${GENERAL_TASK_ONE_CRITERIA}
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. Each "originalText" must be a short phrase copied exactly from the letter.
+3. ${MISTAKE_TYPE_RULE}
+4. Schema:
+{
+  "mistakes": [string],
+  "suggestions": [string],
+  ${INLINE_FEEDBACK_SCHEMA},
+  ${GENERAL_TASK_ONE_SPECIFIC_SCHEMA}
+}
+
+${GENERAL_TASK_ONE_CONTEXT}`,
+  },
+  [PromptName.GENERAL_TASK_ONE_ANALYSIS]: {
+    task: LLMTask.ANALYSIS,
+    system: "",
+    description: "General Training letter scores and feedback in one response",
+    variables: [
+      essay,
+      targetScore,
+      question,
+      bulletPoints,
+      letterTone,
+      wordCount,
+      minWords,
+    ],
+    template: `You are an AI IELTS examiner grading a General Training Writing Task 1 letter. Return ONLY a single valid JSON object with scores and concise, prioritized feedback.
+
+${GENERAL_TASK_ONE_CRITERIA}
+
+CRITICAL RULES:
+1. Respond with a single raw JSON object. No prose.
+2. Each "originalText" must be a short phrase copied exactly from the letter.
+3. ${MISTAKE_TYPE_RULE}
+4. Schema:
+{
+  "score": number,
+  "criteriaScores": {
+    "taskAchievement": number,
+    "coherence": number,
+    "lexical": number,
+    "grammar": number
+  },
+  "aiFeedback": {
+    "mistakes": [string],
+    "suggestions": [string],
+    ${INLINE_FEEDBACK_SCHEMA},
+    ${GENERAL_TASK_ONE_SPECIFIC_SCHEMA}
+  }
+}
+
+${GENERAL_TASK_ONE_CONTEXT}`,
+  },
+  [PromptName.GENERAL_TASK_ONE_IMPROVED_VERSION]: {
+    task: LLMTask.IMPROVED_VERSION,
+    system: "",
+    description: "General Training letter rewritten for a target band",
+    variables: [
+      essay,
+      targetBand,
+      bodyCount,
+      question,
+      bulletPoints,
+      letterTone,
+    ],
+    template: `Your task is to rewrite the General Training Writing Task 1 letter to meet the target band score. Respond with ONLY a single, raw JSON object adhering strictly to the schema.
+
+**Constraints:**
+*   "introduction" is the greeting and opening that states the purpose; "conclusion" is the closing and sign-off.
+*   Cover every bullet point and keep the tone appropriate for the reader.
+*   The 'body' array must contain exactly {{bodyCount}} paragraphs.
+*   All feedback must be positive, highlighting the strengths of the rewritten text.
+
+**Context:**
+*   Target Band Score: "{{targetBand}}"
+*   Task: """{{question}}"""
+*   Bullet points to cover: {{bulletPoints}}
+*   Expected tone: {{letterTone}}
+*   Original Letter: """{{essay}}"""
+
+**Mandatory JSON Schema:**
+${IMPROVED_TASK_ONE_SCHEMA}
+
+Begin your response immediately with {.
+`,
+  },
+};
@@ -0,0 +1,19 @@
+/**
+ * Prompts in the registry. Task 2 prompts keep the name of the grading task
+ * they are sent for; Task 1 prompts are split by module.
+ */
+export enum PromptName {
+  STRUCTURE = "structure",
+  SCORES = "scores",
+  FEEDBACK = "feedback",
+  ANALYSIS = "analysis",
+  IMPROVED_VERSION = "improved",
+  ACADEMIC_TASK_ONE_SCORES = "task1-academic-scores",
+  ACADEMIC_TASK_ONE_FEEDBACK = "task1-academic-feedback",
+  ACADEMIC_TASK_ONE_ANALYSIS = "task1-academic-analysis",
+  ACADEMIC_TASK_ONE_IMPROVED_VERSION = "task1-academic-improved",
+  GENERAL_TASK_ONE_SCORES = "task1-general-scores",
+  GENERAL_TASK_ONE_FEEDBACK = "task1-general-feedback",
+  GENERAL_TASK_ONE_ANALYSIS = "task1-general-analysis",
+  GENERAL_TASK_ONE_IMPROVED_VERSION = "task1-general-improved",
+}
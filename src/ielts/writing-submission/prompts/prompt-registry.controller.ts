@@ -0,0 +1,132 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { PromptRegistryService } from "./prompt-registry.service";
+import { CreatePromptTemplateVersionDto } from "../dto/prompt-template.dto";
+import { PromptName } from "./prompt-names";
+import { JwtAuthGuard } from "../../../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../../../auth/guards/roles.guard";
+import { Roles } from "../../../auth/decorators/roles.decorator";
+import { UserRole } from "../../../users/schemas/user.schema";
+
+@ApiTags("prompt-templates")
+@Controller("prompt-templates")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth("JWT-auth")
+export class PromptRegistryController {
+  constructor(private readonly promptRegistryService: PromptRegistryService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "Get the active version of every prompt (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Active prompts retrieved" })
+  async findAllActive() {
+    const templates = await this.promptRegistryService.findAllActive();
+    return { data: templates };
+  }
+
+  @Get(":name/versions")
+  @ApiOperation({ summary: "Get all versions of a prompt (Admin only)" })
+  @ApiParam({ name: "name", enum: PromptName })
+  @ApiResponse({ status: 200, description: "Prompt versions retrieved" })
+  async findVersions(@Param("name") name: PromptName) {
+    const templates = await this.promptRegistryService.findVersions(name);
+    return { data: templates };
+  }
+
+  @Get(":name/versions/:version")
+  @ApiOperation({ summary: "Get a prompt version (Admin only)" })
+  @ApiParam({ name: "name", enum: PromptName })
+  @ApiParam({ name: "version", schema: { type: "number" } })
+  @ApiResponse({ status: 200, description: "Prompt version retrieved" })
+  @ApiResponse({ status: 404, description: "Prompt version not found" })
+  async findVersion(
+    @Param("name") name: PromptName,
+    @Param("version") version: string
+  ) {
+    const template = await this.promptRegistryService.findVersion(
+      name,
+      parseInt(version, 10)
+    );
+    return { data: template };
+  }
+
+  @Post(":name/versions")
+  @ApiOperation({
+    summary: "Create a new prompt version (Admin only)",
+    description:
+      "Versions are immutable. Pass activate=true to start grading with it immediately.",
+  })
+  @ApiParam({ name: "name", enum: PromptName })
+  @ApiResponse({ status: 201, description: "Prompt version created" })
+  @ApiResponse({ status: 400, description: "Invalid template or variables" })
+  async createVersion(
+    @Param("name") name: PromptName,
+    @Body() createDto: CreatePromptTemplateVersionDto,
+    @Request() req
+  ) {
+    const template = await this.promptRegistryService.createVersion(
+      name,
+      createDto,
+      req.user.sub
+    );
+    return {
+      message: "Prompt version created successfully",
+      data: template,
+    };
+  }
+
+  @Patch(":name/versions/:version/activate")
+  @ApiOperation({ summary: "Activate a prompt version (Admin only)" })
+  @ApiParam({ name: "name", enum: PromptName })
+  @ApiParam({ name: "version", schema: { type: "number" } })
+  @ApiResponse({ status: 200, description: "Prompt version activated" })
+  @ApiResponse({ status: 404, description: "Prompt version not found" })
+  async activate(
+    @Param("name") name: PromptName,
+    @Param("version") version: string
+  ) {
+    const template = await this.promptRegistryService.activate(
+      name,
+      parseInt(version, 10)
+    );
+    return {
+      message: "Prompt version activated successfully",
+      data: template,
+    };
+  }
+
+  @Post(":name/rollback")
+  @ApiOperation({
+    summary: "Re-activate the previous version of a prompt (Admin only)",
+  })
+  @ApiParam({ name: "name", enum: PromptName })
+  @ApiResponse({ status: 201, description: "Prompt rolled back" })
+  @ApiResponse({
+    status: 400,
+    description: "No earlier version to roll back to",
+  })
+  async rollback(@Param("name") name: PromptName) {
+    const template = await this.promptRegistryService.rollback(name);
+    return {
+      message: `Prompt rolled back to v${template.version}`,
+      data: template,
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  PromptTemplate,
+  PromptTemplateDocument,
+  PromptVariable,
+  PromptVariableType,
+} from "../schemas/prompt-template.schema";
+import { LLMTask } from "../llm/llm-provider.interface";
+import { PromptName } from "./prompt-names";
+import { CreatePromptTemplateVersionDto } from "../dto/prompt-template.dto";
+import { DEFAULT_PROMPTS } from "./default-prompts";
+import {
+  PromptValues,
+  extractPlaceholders,
+  renderPromptTemplate,
+} from "./prompt-renderer";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+export interface RenderedPrompt {
+  name: PromptName;
+  task: LLMTask;
+  version: number;
+  system: string;
+  user: string;
+}
+
+/**
+ * Named, versioned grading prompts. Exactly one version of each prompt is
+ * active at a time; versions are never edited, so the version recorded on a
+ * submission always identifies the prompt text that graded it.
+ */
+@Injectable()
+export class PromptRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(PromptRegistryService.name);
+
+  constructor(
+    @InjectModel(PromptTemplate.name)
+    private promptTemplateModel: Model<PromptTemplateDocument>
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.seedDefaults();
+    } catch (error) {
+      this.logger.error(`Failed to seed prompt templates: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store the prompts shipped with the code as version 1 of every prompt
+   * that has no versions yet
+   */
+  async seedDefaults(): Promise<void> {
+    for (const name of Object.values(PromptName)) {
+      const exists = await this.promptTemplateModel.exists({ name });
+      if (exists) {
+        continue;
+      }
+      try {
+        await new this.promptTemplateModel(
+          this.getDefaultTemplate(name)
+        ).save();
+        this.logger.log(`Seeded prompt template "${name}" v1`);
+      } catch (error) {
+        // Another instance seeded it first
+        if (error.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getActive(name: PromptName): Promise<PromptTemplate> {
+    this.assertKnownPrompt(name);
+    const active = await this.promptTemplateModel
+      .findOne({ name, isActive: true })
+      .exec();
+    if (active) {
+      return active;
+    }
+
+    this.logger.warn(`No active prompt "${name}", using the built-in default`);
+    return this.getDefaultTemplate(name);
+  }
+
+  async render(
+    name: PromptName,
+    values: PromptValues
+  ): Promise<RenderedPrompt> {
+    const template = await this.getActive(name);
+    return {
+      name,
+      task: DEFAULT_PROMPTS[name].task,
+      version: template.version,
+      system: renderPromptTemplate(
+        template.system || "",
+        template.variables,
+        values
+      ),
+      user: renderPromptTemplate(template.template, template.variables, values),
+    };
+  }
+
+  async findAllActive(): Promise<PromptTemplate[]> {
+    return this.promptTemplateModel
+      .find({ isActive: true })
+      .sort({ name: 1 })
+      .exec();
+  }
+
+  async findVersions(name: PromptName): Promise<PromptTemplate[]> {
+    this.assertKnownPrompt(name);
+    return this.promptTemplateModel.find({ name }).sort({ version: -1 }).exec();
+  }
+
+  async findVersion(
+    name: PromptName,
+    version: number
+  ): Promise<PromptTemplate> {
+    this.assertKnownPrompt(name);
+    const template = await this.promptTemplateModel
+      .findOne({ name, version })
+      .exec();
+    if (!template) {
+      throw new NotFoundException(
+        `Prompt template "${name}" v${version} not found`
+      );
+    }
+    return template;
+  }
+
+  async createVersion(
+    name: PromptName,
+    createDto: CreatePromptTemplateVersionDto,
+    createdBy?: ObjectIdType
+  ): Promise<PromptTemplate> {
+    const current = await this.getActive(name);
+    const variables: PromptVariable[] = (
+      createDto.variables || current.variables
+    ).map((variable) => ({
+      name: variable.name,
+      type: variable.type || PromptVariableType.STRING,
+      required: variable.required ?? true,
+    }));
+    if (!createDto.template?.trim()) {
+      throw new BadRequestException("Prompt template must not be empty");
+    }
+    const system = createDto.system ?? "";
+    this.validateTemplate(name, `${system}\n${createDto.template}`, variables);
+
+    const latest = await this.promptTemplateModel
+      .findOne({ name })
+      .sort({ version: -1 })
+      .exec();
+
+    const template = await new this.promptTemplateModel({
+      name,
+      version: (latest?.version || 0) + 1,
+      system,
+      template: createDto.template,
+      variables,
+      description: createDto.description,
+      createdBy,
+    }).save();
+
+    if (createDto.activate) {
+      return this.activate(name, template.version);
+    }
+    return template;
+  }
+
+  async activate(name: PromptName, version: number): Promise<PromptTemplate> {
+    const template = await this.findVersion(name, version);
+    await this.promptTemplateModel
+      .updateMany(
+        { name, isActive: true, version: { $ne: version } },
+        { $set: { isActive: false } }
+      )
+      .exec();
+    const activated = await this.promptTemplateModel
+      .findOneAndUpdate(
+        { name, version: template.version },
+        { $set: { isActive: true } },
+        { new: true }
+      )
+      .exec();
+    this.logger.log(`Activated prompt template "${name}" v${version}`);
+    return activated;
+  }
+
+  /**
+   * Re-activate the newest version older than the active one
+   */
+  async rollback(name: PromptName): Promise<PromptTemplate> {
+    const current = await this.getActive(name);
+    const previous = await this.promptTemplateModel
+      .findOne({ name, version: { $lt: current.version } })
+      .sort({ version: -1 })
+      .exec();
+    if (!previous) {
+      throw new BadRequestException(
+        `Prompt template "${name}" has no version before v${current.version}`
+      );
+    }
+    return this.activate(name, previous.version);
+  }
+
+  /**
+   * Templates may only use the variables the grading code supplies for that
+   * prompt, and every placeholder must be declared
+   */
+  private validateTemplate(
+    name: PromptName,
+    text: string,
+    variables: PromptVariable[]
+  ): void {
+    const supplied = new Map(
+      DEFAULT_PROMPTS[name].variables.map((variable) => [
+        variable.name,
+        variable.type,
+      ])
+    );
+    const errors: string[] = [];
+    const declared = new Set<string>();
+    for (const variable of variables) {
+      if (!supplied.has(variable.name)) {
+        errors.push(
+          `Variable "${variable.name}" is not available, use one of: ${[...supplied.keys()].join(", ")}`
+        );
+      } else if (supplied.get(variable.name) !== variable.type) {
+        errors.push(
+          `Variable "${variable.name}" must be of type ${supplied.get(variable.name)}`
+        );
+      }
+      if (declared.has(variable.name)) {
+        errors.push(`Variable "${variable.name}" is declared twice`);
+      }
+      declared.add(variable.name);
+    }
+    extractPlaceholders(text)
+      .filter((placeholder) => !declared.has(placeholder))
+      .forEach((placeholder) =>
+        errors.push(`Placeholder "{{${placeholder}}}" is not declared`)
+      );
+
+    if (errors.length) {
+      throw new BadRequestException(errors.join("; "));
+    }
+  }
+
+  private getDefaultTemplate(name: PromptName): PromptTemplate {
+    const { system, template, variables, description } = DEFAULT_PROMPTS[name];
+    return {
+      name,
+      version: 1,
+      system,
+      template,
+      variables,
+      description,
+      isActive: true,
+    };
+  }
+
+  private assertKnownPrompt(name: PromptName): void {
+    if (!DEFAULT_PROMPTS[name]) {
+      throw new NotFoundException(`Unknown prompt "${name}"`);
+    }
+  }
+}
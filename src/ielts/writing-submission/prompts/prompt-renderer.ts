@@ -0,0 +1,62 @@
+import { BadRequestException } from "@nestjs/common";
+import { PromptVariable } from "../schemas/prompt-template.schema";
+
+export type PromptValues = Record<string, string | number | boolean>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Names of all {{variable}} placeholders used in a template
+ */
+export function extractPlaceholders(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Check values against the declared variables. Returns a list of problems,
+ * empty when the values can be rendered.
+ */
+export function validatePromptValues(
+  variables: PromptVariable[],
+  values: PromptValues
+): string[] {
+  const errors: string[] = [];
+  for (const variable of variables) {
+    const value = values[variable.name];
+    if (value === undefined || value === null) {
+      if (variable.required) {
+        errors.push(`"${variable.name}" is required`);
+      }
+      continue;
+    }
+    if (typeof value !== variable.type) {
+      errors.push(`"${variable.name}" must be a ${variable.type}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Replace {{variable}} placeholders with their values. Optional variables
+ * without a value render as an empty string.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: PromptVariable[],
+  values: PromptValues
+): string {
+  const errors = validatePromptValues(variables, values);
+  if (errors.length) {
+    throw new BadRequestException(
+      `Invalid prompt variables: ${errors.join("; ")}`
+    );
+  }
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = values[name];
+    return value === undefined || value === null ? "" : String(value);
+  });
+}
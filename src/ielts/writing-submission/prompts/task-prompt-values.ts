@@ -0,0 +1,51 @@
+import {
+  IELTSWriting,
+  WritingVisual,
+} from "../../writing/schemas/ielts-writing.schema";
+import { IELTSWritingSubmission } from "../schemas/ielts-writing-submission.schema";
+import { PromptValues } from "./prompt-renderer";
+
+const NOT_PROVIDED = "Not provided";
+
+/**
+ * Text version of a Task 1 visual for the grader: its type, description
+ * and data table. The image itself is not sent.
+ */
+export function describeVisual(visual?: WritingVisual): string {
+  if (!visual) {
+    return NOT_PROVIDED;
+  }
+
+  const lines = [`Type: ${visual.type.toLowerCase().replace(/_/g, " ")}`];
+  if (visual.description) {
+    lines.push(`Description: ${visual.description}`);
+  }
+  const table = visual.dataTable;
+  if (table?.columns?.length) {
+    lines.push(`Data${table.unit ? ` (${table.unit})` : ""}:`);
+    lines.push(table.columns.join(" | "));
+    table.rows.forEach((row) => lines.push(row.join(" | ")));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Values describing the task a submission answers, shared by every grading
+ * prompt. Prompts only use the ones they declare.
+ */
+export function buildTaskPromptValues(
+  submission: Pick<IELTSWritingSubmission, "customWritingQuestion">,
+  writing?: IELTSWriting
+): PromptValues {
+  return {
+    question:
+      writing?.question || submission.customWritingQuestion || NOT_PROVIDED,
+    visual: describeVisual(writing?.visual),
+    bulletPoints: writing?.bulletPoints?.length
+      ? writing.bulletPoints.map((point) => `"${point}"`).join("; ")
+      : NOT_PROVIDED,
+    letterTone: writing?.letterTone
+      ? writing.letterTone.toLowerCase().replace(/_/g, "-")
+      : NOT_PROVIDED,
+  };
+}
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+export type AnalysisCacheEntryDocument = AnalysisCacheEntry & Document;
+
+@Schema({ timestamps: true })
+export class AnalysisCacheEntry {
+  // Hash of the normalized essay, task, prompt version, model and target band
+  @Prop({ required: true })
+  key: string;
+
+  @Prop({ required: true })
+  promptName: string;
+
+  @Prop({ required: true })
+  promptVersion: number;
+
+  // "provider/model" route that produced the result, part of the key
+  @Prop()
+  route?: string;
+
+  // "provider/model" the provider reported for the result
+  @Prop({ required: true })
+  model: string;
+
+  @Prop()
+  targetBand?: string;
+
+  // Validated LLM response, before calibration and length penalties
+  @Prop({ type: Object, required: true })
+  result: Record<string, any>;
+
+  // Submission the result was first generated for
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission" })
+  submission?: ObjectIdType;
+
+  @Prop({ default: 0 })
+  hits: number;
+
+  @Prop()
+  lastHitAt?: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const AnalysisCacheEntrySchema =
+  SchemaFactory.createForClass(AnalysisCacheEntry);
+
+// Add indexes
+AnalysisCacheEntrySchema.index({ key: 1 }, { unique: true });
+AnalysisCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import {
+  IELTSWritingAnalysisStage,
+  IELTSWritingTargetScore,
+} from "./ielts-writing-submission.schema";
+
+export enum AnalysisJobStatus {
+  PENDING = "PENDING",
+  RUNNING = "RUNNING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+export type AnalysisJobDocument = AnalysisJob & Document;
+
+@Schema({ timestamps: true })
+export class AnalysisJob {
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission", required: true })
+  submission: ObjectIdType;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  user: ObjectIdType;
+
+  @Prop({
+    enum: Object.values(AnalysisJobStatus),
+    default: AnalysisJobStatus.PENDING,
+  })
+  status: AnalysisJobStatus;
+
+  // Improved versions to generate once scores and feedback are stored
+  @Prop({ type: [String], enum: Object.values(IELTSWritingTargetScore) })
+  improvedBands: IELTSWritingTargetScore[];
+
+  // Stages finished by earlier attempts, skipped when the job is retried
+  @Prop({
+    type: [String],
+    enum: Object.values(IELTSWritingAnalysisStage),
+    default: [],
+  })
+  completedStages: IELTSWritingAnalysisStage[];
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ default: 3 })
+  maxAttempts: number;
+
+  @Prop({ default: Date.now })
+  runAt: Date;
+
+  @Prop()
+  lockedAt?: Date;
+
+  @Prop()
+  lockedBy?: string;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop()
+  completedAt?: Date;
+}
+
+export const AnalysisJobSchema = SchemaFactory.createForClass(AnalysisJob);
+
+// Add indexes
+AnalysisJobSchema.index({ status: 1, runAt: 1 });
+AnalysisJobSchema.index({ submission: 1, createdAt: -1 });
+AnalysisJobSchema.index({ user: 1, status: 1 });
+// One queued or running job per submission
+AnalysisJobSchema.index(
+  { submission: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: { $in: [AnalysisJobStatus.PENDING, AnalysisJobStatus.RUNNING] },
+    },
+  }
+);
@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+export type AnalysisSlotDocument = AnalysisSlot & Document;
+
+/**
+ * One of a user's ANALYSIS_MAX_JOBS_PER_USER running-job slots. A worker
+ * leases a slot before it runs a job, so the per-user limit holds across
+ * workers. Leases older than ANALYSIS_JOB_LOCK_TIMEOUT_MS are free again,
+ * like the job locks they go with.
+ */
+@Schema({ timestamps: true })
+export class AnalysisSlot {
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  user: ObjectIdType;
+
+  @Prop({ required: true })
+  slot: number;
+
+  @Prop({ type: Types.ObjectId, ref: "AnalysisJob", default: null })
+  job?: ObjectIdType | null;
+
+  @Prop()
+  lockedAt?: Date;
+}
+
+export const AnalysisSlotSchema = SchemaFactory.createForClass(AnalysisSlot);
+
+// Add indexes
+AnalysisSlotSchema.index({ user: 1, slot: 1 }, { unique: true });
+AnalysisSlotSchema.index({ job: 1 });
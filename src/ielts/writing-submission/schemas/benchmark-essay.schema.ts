@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import {
+  CriteriaScores,
+  IELTSWritingSubmissionType,
+} from "./ielts-writing-submission.schema";
+import { IELTSWritingVariant } from "../../writing/schemas/ielts-writing.schema";
+
+export type BenchmarkEssayDocument = BenchmarkEssay & Document;
+
+/**
+ * An essay with official band scores, used to measure the AI grader
+ */
+@Schema({ timestamps: true })
+export class BenchmarkEssay {
+  @Prop({ type: Types.ObjectId, ref: "IELTSWriting" })
+  writing?: ObjectIdType;
+
+  // Task question when the essay does not answer a stored writing task
+  @Prop()
+  customWritingQuestion?: string;
+
+  @Prop({ required: true, trim: true })
+  body: string;
+
+  @Prop({
+    enum: Object.values(IELTSWritingSubmissionType),
+    default: IELTSWritingSubmissionType.Task2,
+  })
+  taskType: IELTSWritingSubmissionType;
+
+  @Prop({
+    enum: Object.values(IELTSWritingVariant),
+    default: IELTSWritingVariant.ACADEMIC,
+  })
+  variant: IELTSWritingVariant;
+
+  @Prop({ required: true, min: 0, max: 9 })
+  officialScore: number;
+
+  @Prop({ type: CriteriaScores, required: true })
+  officialCriteriaScores: CriteriaScores;
+
+  // Where the official scores come from, e.g. an examiner-marked sample
+  @Prop()
+  source?: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const BenchmarkEssaySchema =
+  SchemaFactory.createForClass(BenchmarkEssay);
+
+// Add indexes
+BenchmarkEssaySchema.index({ isActive: 1, taskType: 1 });
@@ -0,0 +1,133 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import {
+  CriteriaScores,
+  IELTSWritingSubmissionType,
+} from "./ielts-writing-submission.schema";
+import { IELTSWritingVariant } from "../../writing/schemas/ielts-writing.schema";
+import {
+  AgreementStats,
+  CriteriaCorrections,
+} from "../calibration/calibration-stats";
+
+export enum CalibrationRunStatus {
+  RUNNING = "RUNNING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+export type CalibrationRunDocument = CalibrationRun & Document;
+
+@Schema({ _id: false })
+export class CalibrationResult {
+  @Prop({ type: Types.ObjectId, ref: "BenchmarkEssay", required: true })
+  essay: ObjectIdType;
+
+  @Prop({ enum: Object.values(IELTSWritingSubmissionType) })
+  taskType: IELTSWritingSubmissionType;
+
+  @Prop({ enum: Object.values(IELTSWritingVariant) })
+  variant?: IELTSWritingVariant;
+
+  @Prop({ required: true })
+  officialScore: number;
+
+  @Prop({ type: CriteriaScores })
+  officialCriteriaScores: CriteriaScores;
+
+  // Uncorrected AI scores
+  @Prop()
+  score?: number;
+
+  @Prop({ type: CriteriaScores })
+  criteriaScores?: CriteriaScores;
+
+  // "provider/model" route that produced the scores
+  @Prop()
+  model?: string;
+
+  @Prop()
+  error?: string;
+}
+
+export interface CalibrationReport {
+  overall: AgreementStats | null;
+  criteria: Record<string, AgreementStats>;
+}
+
+/**
+ * One pass of the current grading prompt and model over the benchmark set.
+ * When active, its corrections are applied to every graded submission.
+ */
+@Schema({ timestamps: true })
+export class CalibrationRun {
+  @Prop({
+    enum: Object.values(CalibrationRunStatus),
+    default: CalibrationRunStatus.RUNNING,
+  })
+  status: CalibrationRunStatus;
+
+  // "provider/model" that produced the scores
+  @Prop({ required: true })
+  model: string;
+
+  // Scores prompt version used, e.g. { scores: 3 }
+  @Prop({ type: Object, default: {} })
+  promptVersions: Record<string, number>;
+
+  @Prop({ enum: Object.values(IELTSWritingSubmissionType) })
+  taskType?: IELTSWritingSubmissionType;
+
+  @Prop({ default: 0 })
+  essayCount: number;
+
+  @Prop({ type: [CalibrationResult], default: [] })
+  results: CalibrationResult[];
+
+  // Agreement of the uncorrected scores with the official ones
+  @Prop({ type: Object })
+  report?: CalibrationReport;
+
+  // Agreement after applying the fitted corrections to the same essays
+  @Prop({ type: Object })
+  calibratedReport?: CalibrationReport;
+
+  @Prop({ type: Object, default: {} })
+  corrections: CriteriaCorrections;
+
+  @Prop({ default: false })
+  isActive: boolean;
+
+  @Prop()
+  activatedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: "User" })
+  startedBy?: ObjectIdType;
+
+  // Updated after each graded essay. A RUNNING run without a recent
+  // heartbeat was abandoned, e.g. by a restart.
+  @Prop()
+  heartbeatAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  error?: string;
+}
+
+export const CalibrationRunSchema =
+  SchemaFactory.createForClass(CalibrationRun);
+
+// Add indexes
+CalibrationRunSchema.index({ isActive: 1 });
+CalibrationRunSchema.index({ createdAt: -1 });
+// Only one run at a time
+CalibrationRunSchema.index(
+  { status: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: CalibrationRunStatus.RUNNING },
+  }
+);
@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
 import { Document, Types } from "mongoose";
 import { ObjectIdType } from "../../../types/object-id.type";
+import { MISTAKE_TYPES, MistakeType } from "../mistake-taxonomy";
+import { IELTSWritingVariant } from "../../writing/schemas/ielts-writing.schema";
 
 export enum IELTSWritingSubmissionType {
   Task1 = "Task 1",
@@ -8,12 +10,22 @@ export enum IELTSWritingSubmissionType {
 }
 
 export enum IELTSWritingSubmissionStatus {
+  // Saved but not submitted; uses no submission credit and is not analyzed
+  DRAFT = "DRAFT",
   IDLE = "IDLE",
   IN_PROGRESS = "IN_PROGRESS",
   ANALYZED = "ANALYZED",
   FAILED_TO_CHECK = "FAILED_TO_CHECK",
 }
 
+export enum IELTSWritingAnalysisStage {
+  QUEUED = "QUEUED",
+  SCORING = "SCORING",
+  FEEDBACK = "FEEDBACK",
+  IMPROVING = "IMPROVING",
+  DONE = "DONE",
+}
+
 export enum IELTSWritingTopicEnum {
   GENERATED = "GENERATED",
   CUSTOM = "CUSTOM",
@@ -29,9 +41,14 @@ export type IELTSWritingSubmissionDocument = IELTSWritingSubmission & Document;
 
 @Schema({ timestamps: true })
 export class CriteriaScores {
+  // Task 2 criterion
   @Prop({ min: 0, max: 9 })
   taskResponse?: number;
 
+  // Task 1 criterion
+  @Prop({ min: 0, max: 9 })
+  taskAchievement?: number;
+
   @Prop({ min: 0, max: 9 })
   coherence?: number;
 
@@ -45,7 +62,10 @@ export class CriteriaScores {
 @Schema({ _id: false })
 export class CriteriaResponse {
   @Prop()
-  taskResponse: string;
+  taskResponse?: string;
+
+  @Prop()
+  taskAchievement?: string;
 
   @Prop()
   coherence: string;
@@ -100,6 +120,39 @@ export class ImprovedVersions {
   band9?: ImprovedVersion;
 }
 
+// Improved versions are stored per band, e.g. improvedVersion.band7
+export const IMPROVED_VERSION_BAND_KEYS: Record<
+  string,
+  keyof ImprovedVersions
+> = {
+  [IELTSWritingTargetScore.BAND_SEVEN]: "band7",
+  [IELTSWritingTargetScore.BAND_EIGHT]: "band8",
+  [IELTSWritingTargetScore.BAND_NINE]: "band9",
+};
+
+// Task 1 feedback: Academic reports use overview, keyFeatures and
+// dataAccuracy; General Training letters use purpose, bulletPoints and tone
+@Schema({ _id: false })
+export class TaskSpecificFeedback {
+  @Prop()
+  overview?: string;
+
+  @Prop()
+  keyFeatures?: string;
+
+  @Prop()
+  dataAccuracy?: string;
+
+  @Prop()
+  purpose?: string;
+
+  @Prop()
+  bulletPoints?: string;
+
+  @Prop()
+  tone?: string;
+}
+
 @Schema({ _id: false })
 export class AIFeedback {
   @Prop({ type: [String] })
@@ -113,6 +166,7 @@ export class AIFeedback {
       {
         originalText: { type: String },
         category: { type: String },
+        mistakeType: { type: String, enum: MISTAKE_TYPES },
         explanation: { type: String },
         suggestion: { type: String },
         suggestionExplanation: { type: String },
@@ -123,15 +177,175 @@ export class AIFeedback {
   inlineFeedback?: {
     originalText: string;
     category: string;
+    mistakeType?: MistakeType;
     explanation: string;
     suggestion: string;
     suggestionExplanation: string;
   }[];
 
+  @Prop({ type: TaskSpecificFeedback })
+  taskSpecific?: TaskSpecificFeedback;
+
+  // Notices added by the platform rather than the AI, e.g. plagiarism
+  @Prop({ type: [String], default: undefined })
+  warnings?: string[];
+
   @Prop({ type: ImprovedVersions })
   improvedVersions?: ImprovedVersions;
 }
 
+// Computed from the body when the submission is created or edited
+@Schema({ _id: false })
+export class SubmissionMetrics {
+  @Prop({ default: 0 })
+  wordCount: number;
+
+  @Prop({ default: 0 })
+  paragraphCount: number;
+
+  @Prop({ default: 0 })
+  sentenceCount: number;
+
+  @Prop({ default: 0 })
+  bodyParagraphCount: number;
+
+  @Prop()
+  minWords: number;
+
+  @Prop({ default: false })
+  isUnderLength: boolean;
+
+  @Prop()
+  timeSpentSeconds?: number;
+
+  @Prop({ type: [String], default: [] })
+  warnings: string[];
+}
+
+// Autosaved text of a timed attempt; snapshots, not keystrokes
+@Schema({ _id: false })
+export class DraftSnapshot {
+  @Prop({ default: "" })
+  body: string;
+
+  @Prop({ default: 0 })
+  wordCount: number;
+
+  // Seconds since the exam session started
+  @Prop({ default: 0 })
+  elapsedSeconds: number;
+
+  @Prop({ default: Date.now })
+  savedAt: Date;
+}
+
+// Set when the submission came from a timed exam session
+@Schema({ _id: false })
+export class ExamAttempt {
+  @Prop({ type: Types.ObjectId, ref: "ExamSession", required: true })
+  session: ObjectIdType;
+
+  @Prop({ required: true })
+  timeLimitSeconds: number;
+
+  @Prop({ default: false })
+  autoSubmitted: boolean;
+
+  @Prop({ type: [DraftSnapshot], default: [] })
+  draftHistory: DraftSnapshot[];
+}
+
+@Schema({ _id: false })
+export class ReviewComment {
+  @Prop({ required: true })
+  originalText: string;
+
+  @Prop({ required: true })
+  comment: string;
+
+  @Prop()
+  category?: string;
+
+  @Prop()
+  suggestion?: string;
+}
+
+// Result of the latest completed examiner review; the AI result is kept as is
+@Schema({ _id: false })
+export class ExaminerReviewResult {
+  @Prop({ type: Types.ObjectId, ref: "ExaminerReview", required: true })
+  review: ObjectIdType;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  reviewer: ObjectIdType;
+
+  @Prop({ required: true })
+  score: number;
+
+  @Prop({ type: CriteriaScores, required: true })
+  criteriaScores: CriteriaScores;
+
+  @Prop({ type: [ReviewComment], default: [] })
+  comments: ReviewComment[];
+
+  // Indexes into aiFeedback.inlineFeedback the examiner rejected; these
+  // entries are hidden from the student, drills and mistake summaries
+  @Prop({ type: [Number], default: [] })
+  removedFeedback: number[];
+
+  @Prop()
+  summary?: string;
+
+  @Prop({ required: true })
+  reviewedAt: Date;
+}
+
+export enum PlagiarismSourceType {
+  SUBMISSION = "submission",
+  IMPROVED_VERSION = "improved_version",
+}
+
+@Schema({ _id: false })
+export class PlagiarismMatch {
+  @Prop({ enum: Object.values(PlagiarismSourceType), required: true })
+  source: PlagiarismSourceType;
+
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission", required: true })
+  submission: ObjectIdType;
+
+  // Improved version key, e.g. band7
+  @Prop()
+  band?: string;
+
+  // Percentage of the essay that also appears in the source
+  @Prop({ required: true })
+  similarity: number;
+}
+
+// Latest check against stored essays and improved versions
+@Schema({ _id: false })
+export class PlagiarismReport {
+  // Highest match similarity, in percent
+  @Prop({ default: 0 })
+  similarity: number;
+
+  @Prop({ default: false })
+  flagged: boolean;
+
+  @Prop({ type: [PlagiarismMatch], default: [] })
+  matches: PlagiarismMatch[];
+
+  @Prop({ required: true })
+  checkedAt: Date;
+
+  // Set when an admin confirmed the essay is the student's own work
+  @Prop({ type: Types.ObjectId, ref: "User" })
+  dismissedBy?: ObjectIdType;
+
+  @Prop()
+  dismissedAt?: Date;
+}
+
 @Schema({ timestamps: true })
 export class IELTSWritingSubmission {
   @Prop({ type: Types.ObjectId, ref: "User", required: true })
@@ -146,6 +360,34 @@ export class IELTSWritingSubmission {
   @Prop({ required: true, trim: true })
   body: string;
 
+  @Prop({
+    enum: Object.values(IELTSWritingSubmissionType),
+    default: IELTSWritingSubmissionType.Task2,
+  })
+  taskType: IELTSWritingSubmissionType;
+
+  @Prop({
+    enum: Object.values(IELTSWritingVariant),
+    default: IELTSWritingVariant.ACADEMIC,
+  })
+  variant: IELTSWritingVariant;
+
+  @Prop({ type: SubmissionMetrics })
+  metrics?: SubmissionMetrics;
+
+  @Prop({ type: ExamAttempt })
+  examAttempt?: ExamAttempt;
+
+  // First submission of the essay; shared by all of its revisions
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission" })
+  essayGroup?: ObjectIdType;
+
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission" })
+  revisionOf?: ObjectIdType;
+
+  @Prop({ default: 1 })
+  revision: number;
+
   @Prop()
   score?: number;
 
@@ -155,6 +397,12 @@ export class IELTSWritingSubmission {
   })
   status: IELTSWritingSubmissionStatus;
 
+  @Prop({ enum: Object.values(IELTSWritingAnalysisStage) })
+  analysisStage?: IELTSWritingAnalysisStage;
+
+  @Prop()
+  analysisError?: string;
+
   @Prop({
     enum: Object.values(IELTSWritingTopicEnum),
     default: IELTSWritingTopicEnum.GENERATED,
@@ -173,8 +421,27 @@ export class IELTSWritingSubmission {
   @Prop({ type: AIFeedback })
   aiFeedback?: AIFeedback;
 
+  // Takes precedence over score and criteriaScores when present
+  @Prop({ type: ExaminerReviewResult })
+  examinerReview?: ExaminerReviewResult;
+
   @Prop({ type: ImprovedVersions })
   improvedVersion?: ImprovedVersions;
+
+  @Prop({ type: PlagiarismReport })
+  plagiarism?: PlagiarismReport;
+
+  // Prompt template version used per grading task, e.g. { scores: 3 }
+  @Prop({ type: Object, default: {} })
+  promptVersions?: Record<string, number>;
+
+  // Set when a stored result for an identical essay was reused instead of
+  // calling the LLM; cachedPrompts lists the prompts served that way
+  @Prop({ default: false })
+  cacheHit?: boolean;
+
+  @Prop({ type: [String], default: undefined })
+  cachedPrompts?: string[];
 }
 
 export const IELTSWritingSubmissionSchema = SchemaFactory.createForClass(
@@ -184,3 +451,6 @@ export const IELTSWritingSubmissionSchema = SchemaFactory.createForClass(
 // Add indexes
 IELTSWritingSubmissionSchema.index({ user: 1, writing: 1 });
 IELTSWritingSubmissionSchema.index({ createdAt: -1 });
+IELTSWritingSubmissionSchema.index({ "examAttempt.session": 1 });
+IELTSWritingSubmissionSchema.index({ essayGroup: 1, revision: 1 });
+IELTSWritingSubmissionSchema.index({ "plagiarism.flagged": 1, createdAt: -1 });
@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+
+export enum PlagiarismAction {
+  // Grade as usual and add a warning to the feedback
+  WARN = "warn",
+  // Refuse to grade until an admin dismisses the flag
+  BLOCK = "block",
+}
+
+export type PlagiarismSettingsDocument = PlagiarismSettings & Document;
+
+/**
+ * How flagged submissions are handled. A single document; defaults apply
+ * until an admin saves settings.
+ */
+@Schema({ timestamps: true })
+export class PlagiarismSettings {
+  @Prop({
+    enum: Object.values(PlagiarismAction),
+    default: PlagiarismAction.WARN,
+  })
+  action: PlagiarismAction;
+
+  // Similarity percentage at which a submission is flagged
+  @Prop({ default: 70, min: 1, max: 100 })
+  threshold: number;
+
+  @Prop({ type: Types.ObjectId, ref: "User" })
+  updatedBy?: ObjectIdType;
+}
+
+export const PlagiarismSettingsSchema =
+  SchemaFactory.createForClass(PlagiarismSettings);
@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import { PromptName } from "../prompts/prompt-names";
+
+export enum PromptVariableType {
+  STRING = "string",
+  NUMBER = "number",
+  BOOLEAN = "boolean",
+}
+
+@Schema({ _id: false })
+export class PromptVariable {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({
+    enum: Object.values(PromptVariableType),
+    default: PromptVariableType.STRING,
+  })
+  type: PromptVariableType;
+
+  @Prop({ default: true })
+  required: boolean;
+}
+
+export type PromptTemplateDocument = PromptTemplate & Document;
+
+@Schema({ timestamps: true })
+export class PromptTemplate {
+  @Prop({ enum: Object.values(PromptName), required: true })
+  name: PromptName;
+
+  @Prop({ required: true, min: 1 })
+  version: number;
+
+  @Prop({ default: "" })
+  system: string;
+
+  // User message with {{variable}} placeholders
+  @Prop({ required: true })
+  template: string;
+
+  @Prop({ type: [PromptVariable], default: [] })
+  variables: PromptVariable[];
+
+  @Prop({ default: false })
+  isActive: boolean;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: Types.ObjectId, ref: "User" })
+  createdBy?: ObjectIdType;
+}
+
+export const PromptTemplateSchema =
+  SchemaFactory.createForClass(PromptTemplate);
+
+// Add indexes
+PromptTemplateSchema.index({ name: 1, version: 1 }, { unique: true });
+PromptTemplateSchema.index({ name: 1, isActive: 1 });
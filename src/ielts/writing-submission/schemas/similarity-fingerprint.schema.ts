@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Types } from "mongoose";
+import { ObjectIdType } from "../../../types/object-id.type";
+import { PlagiarismSourceType } from "./ielts-writing-submission.schema";
+
+export type SimilarityFingerprintDocument = SimilarityFingerprint & Document;
+
+/**
+ * MinHash signature of a submission body or improved version, looked up by
+ * its LSH bands when checking new submissions for copied text
+ */
+@Schema({ timestamps: true })
+export class SimilarityFingerprint {
+  @Prop({ enum: Object.values(PlagiarismSourceType), required: true })
+  source: PlagiarismSourceType;
+
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission", required: true })
+  submission: ObjectIdType;
+
+  // Improved version key, e.g. band7
+  @Prop()
+  band?: string;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  user: ObjectIdType;
+
+  // Revisions of one essay are not compared with each other
+  @Prop({ type: Types.ObjectId, ref: "IELTSWritingSubmission" })
+  essayGroup?: ObjectIdType;
+
+  // When the source text was written, so earlier essays are not flagged
+  // as copies of later ones
+  @Prop({ required: true })
+  writtenAt: Date;
+
+  @Prop({ type: [Number], required: true })
+  signature: number[];
+
+  @Prop({ type: [String], required: true })
+  bands: string[];
+
+  @Prop({ required: true })
+  shingleCount: number;
+}
+
+export const SimilarityFingerprintSchema = SchemaFactory.createForClass(
+  SimilarityFingerprint
+);
+
+// Add indexes
+SimilarityFingerprintSchema.index({ bands: 1 });
+SimilarityFingerprintSchema.index(
+  { submission: 1, source: 1, band: 1 },
+  { unique: true }
+);
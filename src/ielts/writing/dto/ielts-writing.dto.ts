@@ -1,6 +1,70 @@
-import { IsEnum, IsNotEmpty, IsOptional, IsString } from "class-validator";
+import {
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IELTSWritingType } from "../schemas/ielts-writing.schema";
+import {
+  IELTSWritingLetterTone,
+  IELTSWritingType,
+  IELTSWritingVariant,
+  IELTSWritingVisualType,
+} from "../schemas/ielts-writing.schema";
+
+export class VisualDataTableDto {
+  @ApiProperty({
+    description: "Column headers",
+    example: ["Year", "Coal", "Gas", "Nuclear"],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  readonly columns: string[];
+
+  @ApiProperty({
+    description: "Rows of values, one entry per column",
+    example: [
+      ["1980", "35", "30", "5"],
+      ["2000", "40", "32", "10"],
+    ],
+  })
+  @IsArray()
+  readonly rows: string[][];
+
+  @ApiPropertyOptional({
+    description: "Unit of the values",
+    example: "quadrillion units",
+  })
+  @IsString()
+  @IsOptional()
+  readonly unit?: string;
+}
+
+export class WritingVisualDto {
+  @ApiProperty({ enum: IELTSWritingVisualType })
+  @IsEnum(IELTSWritingVisualType)
+  readonly type: IELTSWritingVisualType;
+
+  @ApiPropertyOptional({
+    description: "What the visual shows (required for maps and processes)",
+    example: "Energy consumption in the USA from 1980 to 2030, by fuel type",
+  })
+  @IsString()
+  @IsOptional()
+  readonly description?: string;
+
+  @ApiPropertyOptional({
+    description: "The data behind the chart or table",
+    type: VisualDataTableDto,
+  })
+  @ValidateNested()
+  @Type(() => VisualDataTableDto)
+  @IsOptional()
+  readonly dataTable?: VisualDataTableDto;
+}
 
 export class CreateIELTSWritingDto {
   @ApiProperty({ description: "Writing task title" })
@@ -16,6 +80,46 @@ export class CreateIELTSWritingDto {
   @ApiProperty({ description: "Writing task type", enum: IELTSWritingType })
   @IsEnum(IELTSWritingType)
   readonly type: IELTSWritingType;
+
+  @ApiPropertyOptional({
+    description: "Academic or General Training module",
+    enum: IELTSWritingVariant,
+    default: IELTSWritingVariant.ACADEMIC,
+  })
+  @IsEnum(IELTSWritingVariant)
+  @IsOptional()
+  readonly variant?: IELTSWritingVariant;
+
+  @ApiPropertyOptional({
+    description:
+      "Visual for Academic Task 1. Upload its image with POST ielts-writing/:id/visual-image",
+    type: WritingVisualDto,
+  })
+  @ValidateNested()
+  @Type(() => WritingVisualDto)
+  @IsOptional()
+  readonly visual?: WritingVisualDto;
+
+  @ApiPropertyOptional({
+    description: "Points a General Training letter must cover",
+    example: [
+      "explain why you are writing",
+      "describe the problem",
+      "say what you would like to happen",
+    ],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  readonly bulletPoints?: string[];
+
+  @ApiPropertyOptional({
+    description: "Expected tone of a General Training letter",
+    enum: IELTSWritingLetterTone,
+  })
+  @IsEnum(IELTSWritingLetterTone)
+  @IsOptional()
+  readonly letterTone?: IELTSWritingLetterTone;
 }
 
 export class UpdateIELTSWritingDto {
@@ -36,6 +140,48 @@ export class UpdateIELTSWritingDto {
   @IsEnum(IELTSWritingType)
   @IsOptional()
   readonly type?: IELTSWritingType;
+
+  @ApiPropertyOptional({
+    description: "Academic or General Training module",
+    enum: IELTSWritingVariant,
+  })
+  @IsEnum(IELTSWritingVariant)
+  @IsOptional()
+  readonly variant?: IELTSWritingVariant;
+
+  @ApiPropertyOptional({
+    description: "Visual for Academic Task 1",
+    type: WritingVisualDto,
+  })
+  @ValidateNested()
+  @Type(() => WritingVisualDto)
+  @IsOptional()
+  readonly visual?: WritingVisualDto;
+
+  @ApiPropertyOptional({
+    description: "Points a General Training letter must cover",
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  readonly bulletPoints?: string[];
+
+  @ApiPropertyOptional({
+    description: "Expected tone of a General Training letter",
+    enum: IELTSWritingLetterTone,
+  })
+  @IsEnum(IELTSWritingLetterTone)
+  @IsOptional()
+  readonly letterTone?: IELTSWritingLetterTone;
+}
+
+export class UploadVisualImageDto {
+  @ApiProperty({
+    type: "string",
+    format: "binary",
+    description: "PNG, JPEG, WebP or SVG image of the chart, diagram or map",
+  })
+  readonly image: any;
 }
 
 export class ObjectIdDto {
@@ -9,18 +9,24 @@ import {
   HttpCode,
   HttpStatus,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
 } from "@nestjs/common";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
 } from "@nestjs/swagger";
+import { FileInterceptor } from "@nestjs/platform-express";
 import { IELTSWritingService } from "./ielts-writing.service";
 import {
   CreateIELTSWritingDto,
   UpdateIELTSWritingDto,
   ObjectIdDto,
+  UploadVisualImageDto,
 } from "./dto/ielts-writing.dto";
 import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
 import { RolesGuard } from "../../auth/guards/roles.guard";
@@ -109,6 +115,36 @@ export class IELTSWritingController {
     };
   }
 
+  @Post(":id/visual-image")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @UseInterceptors(FileInterceptor("image"))
+  @ApiConsumes("multipart/form-data")
+  @ApiOperation({
+    summary: "Upload the image of a Task 1 visual (Admin only)",
+  })
+  @ApiBody({
+    description: "Chart, diagram or map image",
+    type: UploadVisualImageDto,
+  })
+  @ApiResponse({ status: 201, description: "Visual image uploaded" })
+  @ApiResponse({ status: 400, description: "Bad request" })
+  @ApiResponse({ status: 404, description: "IELTS writing task not found" })
+  async uploadVisualImage(
+    @Param() params: ObjectIdDto,
+    @UploadedFile() imageFile?: any
+  ) {
+    const ieltsWriting = await this.ieltsWritingService.uploadVisualImage(
+      params.id,
+      imageFile
+    );
+    return {
+      message: "Visual image uploaded successfully",
+      data: ieltsWriting,
+    };
+  }
+
   @Delete(":id")
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
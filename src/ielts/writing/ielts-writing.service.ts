@@ -1,15 +1,31 @@
-import { Injectable, NotFoundException } from "@nestjs/common";
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import {
   IELTSWriting,
   IELTSWritingDocument,
+  IELTSWritingType,
+  IELTSWritingVariant,
+  IELTSWritingVisualType,
 } from "./schemas/ielts-writing.schema";
 import {
   CreateIELTSWritingDto,
   UpdateIELTSWritingDto,
 } from "./dto/ielts-writing.dto";
 import { ObjectIdType } from "../../types/object-id.type";
+import * as fs from "fs";
+import * as path from "path";
+
+const VISUAL_IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
 
 @Injectable()
 export class IELTSWritingService {
@@ -21,6 +37,7 @@ export class IELTSWritingService {
   async create(
     createIELTSWritingDto: CreateIELTSWritingDto
   ): Promise<IELTSWriting> {
+    this.validateTaskDetails(createIELTSWritingDto);
     const createdIELTSWriting = new this.ieltsWritingModel(
       createIELTSWritingDto
     );
@@ -43,8 +60,24 @@ export class IELTSWritingService {
     id: ObjectIdType,
     updateIELTSWritingDto: UpdateIELTSWritingDto
   ): Promise<IELTSWriting> {
+    const existing = await this.findOne(id);
+    const updateData: any = { ...updateIELTSWritingDto };
+
+    // Keep the uploaded image when the visual data is edited
+    if (updateIELTSWritingDto.visual) {
+      updateData.visual = {
+        ...updateIELTSWritingDto.visual,
+        imageUrl: existing.visual?.imageUrl,
+      };
+    }
+    this.validateTaskDetails({
+      type: updateData.type ?? existing.type,
+      variant: updateData.variant ?? existing.variant,
+      visual: updateData.visual ?? existing.visual,
+    });
+
     const ieltsWriting = await this.ieltsWritingModel
-      .findByIdAndUpdate(id, updateIELTSWritingDto, { new: true })
+      .findByIdAndUpdate(id, updateData, { new: true })
       .exec();
     if (!ieltsWriting) {
       throw new NotFoundException("IELTS Writing task not found");
@@ -61,4 +94,88 @@ export class IELTSWritingService {
     }
     return ieltsWriting;
   }
+
+  async uploadVisualImage(id: ObjectIdType, file: any): Promise<IELTSWriting> {
+    const ieltsWriting = await this.findOne(id);
+    if (!ieltsWriting.visual) {
+      throw new BadRequestException(
+        "Add the visual type and data before uploading its image"
+      );
+    }
+
+    if (!file) {
+      throw new BadRequestException("No file uploaded");
+    }
+    const extension = VISUAL_IMAGE_EXTENSIONS[file.mimetype];
+    if (!extension) {
+      throw new BadRequestException(
+        "Only PNG, JPEG, WebP and SVG images are allowed"
+      );
+    }
+
+    // Create uploads directory if it doesn't exist
+    const uploadsDir = path.join(process.cwd(), "uploads", "writing-visuals");
+    if (!fs.existsSync(uploadsDir)) {
+      fs.mkdirSync(uploadsDir, { recursive: true });
+    }
+
+    const filename = `writing-visual-${id}-${Date.now()}.${extension}`;
+    fs.writeFileSync(path.join(uploadsDir, filename), file.buffer);
+
+    return this.ieltsWritingModel
+      .findByIdAndUpdate(
+        id,
+        { "visual.imageUrl": `/uploads/writing-visuals/${filename}` },
+        { new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Academic Task 1 is graded against its visual, so the data must be
+   * available to the grader as text, not only as an image
+   */
+  private validateTaskDetails(
+    task: Partial<Pick<IELTSWriting, "type" | "variant" | "visual">>
+  ): void {
+    const isAcademicTaskOne =
+      task.type === IELTSWritingType.TASK_ONE &&
+      (task.variant || IELTSWritingVariant.ACADEMIC) ===
+        IELTSWritingVariant.ACADEMIC;
+    if (!isAcademicTaskOne) {
+      return;
+    }
+
+    const visual = task.visual;
+    if (!visual) {
+      throw new BadRequestException(
+        "Academic Task 1 requires a visual (chart, table, diagram or map)"
+      );
+    }
+    const table = visual.dataTable;
+    const hasTable = !!table?.columns?.length && !!table?.rows?.length;
+    if (!hasTable && !visual.description?.trim()) {
+      throw new BadRequestException(
+        "Describe the visual with a data table or a description"
+      );
+    }
+    if (
+      [
+        IELTSWritingVisualType.MAP,
+        IELTSWritingVisualType.PROCESS_DIAGRAM,
+      ].includes(visual.type) &&
+      !visual.description?.trim()
+    ) {
+      throw new BadRequestException(
+        "Maps and process diagrams require a description"
+      );
+    }
+    table?.rows?.forEach((row, index) => {
+      if (!Array.isArray(row) || row.length !== table.columns.length) {
+        throw new BadRequestException(
+          `Data table row ${index + 1} must have ${table.columns.length} values`
+        );
+      }
+    });
+  }
 }
@@ -6,8 +6,59 @@ export enum IELTSWritingType {
   TASK_TWO = "TASK_TWO",
 }
 
+export enum IELTSWritingVariant {
+  ACADEMIC = "ACADEMIC",
+  GENERAL_TRAINING = "GENERAL_TRAINING",
+}
+
+export enum IELTSWritingVisualType {
+  LINE_GRAPH = "LINE_GRAPH",
+  BAR_CHART = "BAR_CHART",
+  PIE_CHART = "PIE_CHART",
+  TABLE = "TABLE",
+  PROCESS_DIAGRAM = "PROCESS_DIAGRAM",
+  MAP = "MAP",
+  MIXED = "MIXED",
+}
+
+export enum IELTSWritingLetterTone {
+  FORMAL = "FORMAL",
+  SEMI_FORMAL = "SEMI_FORMAL",
+  INFORMAL = "INFORMAL",
+}
+
 export type IELTSWritingDocument = IELTSWriting & Document;
 
+@Schema({ _id: false })
+export class VisualDataTable {
+  @Prop({ type: [String], default: [] })
+  columns: string[];
+
+  @Prop({ type: [[String]], default: [] })
+  rows: string[][];
+
+  // Unit of the values, e.g. "millions of tonnes"
+  @Prop()
+  unit?: string;
+}
+
+// Chart, table, diagram or map shown with an Academic Task 1 question
+@Schema({ _id: false })
+export class WritingVisual {
+  @Prop({ enum: Object.values(IELTSWritingVisualType), required: true })
+  type: IELTSWritingVisualType;
+
+  @Prop()
+  imageUrl?: string;
+
+  // What the visual shows, for visuals that do not fit a table (maps, processes)
+  @Prop()
+  description?: string;
+
+  @Prop({ type: VisualDataTable })
+  dataTable?: VisualDataTable;
+}
+
 @Schema({ timestamps: true })
 export class IELTSWriting {
   @Prop({ required: true })
@@ -22,6 +73,22 @@ export class IELTSWriting {
     default: IELTSWritingType.TASK_ONE,
   })
   type: IELTSWritingType;
+
+  @Prop({
+    enum: Object.values(IELTSWritingVariant),
+    default: IELTSWritingVariant.ACADEMIC,
+  })
+  variant: IELTSWritingVariant;
+
+  @Prop({ type: WritingVisual })
+  visual?: WritingVisual;
+
+  // Points a General Training Task 1 letter has to cover
+  @Prop({ type: [String] })
+  bulletPoints?: string[];
+
+  @Prop({ enum: Object.values(IELTSWritingLetterTone) })
+  letterTone?: IELTSWritingLetterTone;
 }
 
 export const IELTSWritingSchema = SchemaFactory.createForClass(IELTSWriting);
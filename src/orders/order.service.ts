@@ -10,6 +10,7 @@ import {
   OrderDocument,
   OrderStatus,
   PaymentMethod,
+  RefundType,
 } from "./schemas/order.schema";
 import { ObjectIdType } from "../types/object-id.type";
 
@@ -115,6 +116,30 @@ export class OrderService {
       .exec();
   }
 
+  /**
+   * Mark a paid order refunded
+   */
+  async markRefunded(
+    orderId: string,
+    refundType: RefundType,
+    refundedAmount: number,
+    refundReason?: string
+  ): Promise<OrderDocument | null> {
+    return await this.orderModel
+      .findOneAndUpdate(
+        { orderId, status: OrderStatus.PAID },
+        {
+          status: OrderStatus.REFUNDED,
+          refundType,
+          refundedAmount,
+          refundReason,
+          refundedAt: new Date(),
+        },
+        { new: true }
+      )
+      .exec();
+  }
+
   /**
    * Get order statistics
    */
@@ -124,6 +149,7 @@ export class OrderService {
     paid: number;
     cancelled: number;
     failed: number;
+    refunded: number;
     totalRevenue: number;
   }> {
     const stats = await this.orderModel.aggregate([
@@ -132,6 +158,7 @@ export class OrderService {
           _id: "$status",
           count: { $sum: 1 },
           totalAmount: { $sum: "$amount" },
+          totalRefunded: { $sum: "$refundedAmount" },
         },
       },
     ]);
@@ -142,6 +169,7 @@ export class OrderService {
       paid: 0,
       cancelled: 0,
       failed: 0,
+      refunded: 0,
       totalRevenue: 0,
     };
 
@@ -154,6 +182,11 @@ export class OrderService {
       }
       if (stat._id === OrderStatus.CANCELLED) result.cancelled = stat.count;
       if (stat._id === OrderStatus.FAILED) result.failed = stat.count;
+      if (stat._id === OrderStatus.REFUNDED) {
+        // Prorated refunds keep the part of the payment that was used
+        result.refunded = stat.count;
+        result.totalRevenue += stat.totalAmount - stat.totalRefunded;
+      }
     });
 
     return result;
@@ -18,6 +18,13 @@ export enum PaymentMethod {
   STRIPE = "STRIPE",
 }
 
+export enum RefundType {
+  // The whole order amount
+  FULL = "full",
+  // The unused part of the subscription period the order paid for
+  PRORATED = "prorated",
+}
+
 export type OrderDocument = Order & Document;
 
 @Schema({ timestamps: true })
@@ -64,6 +71,18 @@ export class Order {
   @Prop()
   cancelledAt?: Date;
 
+  @Prop({ enum: Object.values(RefundType) })
+  refundType?: RefundType;
+
+  @Prop()
+  refundedAmount?: number; // Amount in UZS
+
+  @Prop()
+  refundReason?: string;
+
+  @Prop()
+  refundedAt?: Date;
+
   @Prop({ type: Object })
   metadata?: Record<string, any>; // Additional data like Payme callback data
 }
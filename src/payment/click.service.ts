@@ -0,0 +1,472 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as crypto from "crypto-js";
+import { TransactionService } from "../transactions/transaction.service";
+import { OrderService } from "../orders/order.service";
+import { SubscriptionActivationService } from "../user-plan/subscription-activation.service";
+import { PaymentProvider } from "./payment-provider.interface";
+import {
+  Account,
+  TransactionDocument,
+  TransactionReason,
+  TransactionState,
+} from "../transactions/schemas/transaction.schema";
+import {
+  OrderDocument,
+  OrderStatus,
+  PaymentMethod,
+} from "../orders/schemas/order.schema";
+
+export enum ClickAction {
+  PREPARE = 0,
+  COMPLETE = 1,
+}
+
+/**
+ * Error codes returned to Click (SHOP API)
+ */
+export enum ClickError {
+  SUCCESS = 0,
+  SIGN_CHECK_FAILED = -1,
+  INVALID_AMOUNT = -2,
+  ACTION_NOT_FOUND = -3,
+  ALREADY_PAID = -4,
+  ORDER_NOT_FOUND = -5,
+  TRANSACTION_NOT_FOUND = -6,
+  UPDATE_FAILED = -7,
+  BAD_REQUEST = -8,
+  TRANSACTION_CANCELLED = -9,
+}
+
+export interface ClickCallbackData {
+  click_trans_id: string | number;
+  service_id: string | number;
+  click_paydoc_id?: string | number;
+  merchant_trans_id: string;
+  merchant_prepare_id?: string | number;
+  amount: string | number;
+  action: string | number;
+  error?: string | number;
+  error_note?: string;
+  sign_time: string;
+  sign_string: string;
+}
+
+export interface ClickCallbackResponse {
+  click_trans_id: string | number;
+  merchant_trans_id: string;
+  merchant_prepare_id?: number;
+  merchant_confirm_id?: number;
+  error: ClickError;
+  error_note: string;
+}
+
+const ERROR_NOTES: Record<ClickError, string> = {
+  [ClickError.SUCCESS]: "Success",
+  [ClickError.SIGN_CHECK_FAILED]: "SIGN CHECK FAILED!",
+  [ClickError.INVALID_AMOUNT]: "Incorrect parameter amount",
+  [ClickError.ACTION_NOT_FOUND]: "Action not found",
+  [ClickError.ALREADY_PAID]: "Already paid",
+  [ClickError.ORDER_NOT_FOUND]: "Order not found",
+  [ClickError.TRANSACTION_NOT_FOUND]: "Transaction does not exist",
+  [ClickError.UPDATE_FAILED]: "Failed to update order",
+  [ClickError.BAD_REQUEST]: "Error in request from click",
+  [ClickError.TRANSACTION_CANCELLED]: "Transaction cancelled",
+};
+
+@Injectable()
+export class ClickService implements PaymentProvider {
+  private readonly logger = new Logger(ClickService.name);
+  readonly method = PaymentMethod.CLICK;
+  private readonly serviceId: string;
+  private readonly merchantId: string;
+  private readonly secretKey: string;
+  private readonly checkoutUrl: string;
+
+  constructor(
+    private configService: ConfigService,
+    private transactionService: TransactionService,
+    private orderService: OrderService,
+    private subscriptionActivationService: SubscriptionActivationService
+  ) {
+    this.serviceId = this.configService.get<string>("CLICK_SERVICE_ID");
+    this.merchantId = this.configService.get<string>("CLICK_MERCHANT_ID");
+    this.secretKey = this.configService.get<string>("CLICK_SECRET_KEY");
+    this.checkoutUrl =
+      this.configService.get<string>("CLICK_CHECKOUT_URL") ||
+      "https://my.click.uz/services/pay";
+
+    if (!this.serviceId || !this.merchantId || !this.secretKey) {
+      this.logger.warn(
+        "Click credentials not configured, Click callbacks will be rejected"
+      );
+    }
+  }
+
+  /**
+   * Checkout link the frontend redirects the user to
+   */
+  async createCheckout(
+    order: OrderDocument,
+    returnUrl?: string
+  ): Promise<string> {
+    const params = new URLSearchParams({
+      service_id: this.serviceId || "",
+      merchant_id: this.merchantId || "",
+      amount: order.amount.toFixed(2),
+      transaction_param: order.orderId,
+      ...(returnUrl && { return_url: returnUrl }),
+    });
+    return `${this.checkoutUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Prepare (action 0): Click asks whether the order can be paid and
+   * registers its transaction with us
+   */
+  async prepare(data: ClickCallbackData): Promise<ClickCallbackResponse> {
+    this.logger.log(
+      `Click Prepare ${data.click_trans_id} for order ${data.merchant_trans_id}`
+    );
+
+    const requestError = this.validateRequest(data, ClickAction.PREPARE);
+    if (requestError !== null) {
+      return this.respond(data, requestError);
+    }
+
+    const order = await this.orderService.findByOrderId(data.merchant_trans_id);
+    if (!order) {
+      return this.respond(data, ClickError.ORDER_NOT_FOUND);
+    }
+    if (!this.amountMatches(data.amount, order)) {
+      return this.respond(data, ClickError.INVALID_AMOUNT);
+    }
+
+    // Click repeats Prepare when it does not receive our answer
+    const existing = await this.transactionService.findByPaymeId(
+      this.transactionId(data)
+    );
+    if (existing) {
+      return this.respondForExisting(data, existing, order);
+    }
+
+    const orderError = this.checkOrderStatus(order);
+    if (orderError !== null) {
+      return this.respond(data, orderError);
+    }
+
+    try {
+      const merchantPrepareId = Date.now();
+      const account: Account = {
+        orderId: order.orderId,
+        userId: order.userId.toString(),
+      };
+      await this.transactionService.createTransaction(
+        this.transactionId(data),
+        merchantPrepareId,
+        order.amountInTiyin,
+        account,
+        Math.floor(merchantPrepareId / 1000),
+        order._id.toString(),
+        order.userId,
+        order.planId,
+        order.orderId,
+        order.description
+      );
+      await this.transactionService.updateMetadata(this.transactionId(data), {
+        provider: "Click",
+        clickTransId: String(data.click_trans_id),
+        clickPaydocId: data.click_paydoc_id?.toString(),
+        merchantPrepareId,
+      });
+
+      this.logger.log(
+        `Click transaction ${data.click_trans_id} prepared for order ${order.orderId}`
+      );
+      return this.respond(data, ClickError.SUCCESS, { merchantPrepareId });
+    } catch (error) {
+      if (error.code !== 11000) {
+        this.logger.error(
+          `Error preparing Click transaction ${data.click_trans_id}:`,
+          error
+        );
+        return this.respond(data, ClickError.UPDATE_FAILED);
+      }
+      // A concurrent Prepare for the same transaction won the insert
+      const transaction = await this.transactionService.findByPaymeId(
+        this.transactionId(data)
+      );
+      return this.respondForExisting(data, transaction, order);
+    }
+  }
+
+  /**
+   * Complete (action 1): Click reports the outcome of a prepared payment.
+   * Successful payments mark the order paid and activate the plan.
+   */
+  async complete(data: ClickCallbackData): Promise<ClickCallbackResponse> {
+    this.logger.log(
+      `Click Complete ${data.click_trans_id} for order ${data.merchant_trans_id}`
+    );
+
+    const requestError = this.validateRequest(data, ClickAction.COMPLETE);
+    if (requestError !== null) {
+      return this.respond(data, requestError);
+    }
+
+    const transaction = await this.transactionService.findByPaymeId(
+      this.transactionId(data)
+    );
+    if (
+      !transaction ||
+      transaction.account?.orderId !== data.merchant_trans_id ||
+      String(transaction.metadata?.merchantPrepareId) !==
+        String(data.merchant_prepare_id)
+    ) {
+      return this.respond(data, ClickError.TRANSACTION_NOT_FOUND);
+    }
+
+    const order = await this.orderService.findByOrderId(data.merchant_trans_id);
+    if (!order) {
+      return this.respond(data, ClickError.ORDER_NOT_FOUND);
+    }
+    if (!this.amountMatches(data.amount, order)) {
+      return this.respond(data, ClickError.INVALID_AMOUNT);
+    }
+
+    // Click repeats Complete when it does not receive our answer
+    if (transaction.state === TransactionState.PERFORMED) {
+      return this.respond(data, ClickError.SUCCESS, {
+        merchantPrepareId: transaction.metadata.merchantPrepareId,
+        merchantConfirmId: transaction.metadata.merchantConfirmId,
+      });
+    }
+    if (transaction.state !== TransactionState.CREATED) {
+      return this.respond(data, ClickError.TRANSACTION_CANCELLED);
+    }
+
+    try {
+      // A negative error means the payment failed on Click's side
+      if (Number(data.error) < 0) {
+        await this.cancel(transaction, order, data.error_note);
+        return this.respond(data, ClickError.TRANSACTION_CANCELLED);
+      }
+
+      if (order.status === OrderStatus.PAID) {
+        return this.respond(data, ClickError.ALREADY_PAID);
+      }
+      const orderError = this.checkOrderStatus(order);
+      if (orderError !== null) {
+        return this.respond(data, orderError);
+      }
+
+      const merchantConfirmId = Date.now();
+      const performed = await this.transactionService.performTransaction(
+        transaction.id,
+        merchantConfirmId
+      );
+      if (!performed) {
+        // A repeated Complete got there first; only it activates the plan
+        const current = await this.transactionService.findByPaymeId(
+          transaction.id
+        );
+        if (current?.state !== TransactionState.PERFORMED) {
+          return this.respond(data, ClickError.TRANSACTION_CANCELLED);
+        }
+        return this.respond(data, ClickError.SUCCESS, {
+          merchantPrepareId: current.metadata.merchantPrepareId,
+          merchantConfirmId: current.perform_time,
+        });
+      }
+      await this.transactionService.updateMetadata(transaction.id, {
+        ...transaction.metadata,
+        merchantConfirmId,
+      });
+      const paidOrder = await this.orderService.updateOrderStatus(
+        order.orderId,
+        OrderStatus.PAID,
+        transaction.id
+      );
+
+      await this.subscriptionActivationService
+        .activate(paidOrder)
+        .catch((error) =>
+          this.logger.error(
+            `Error activating plan for order ${order.orderId}:`,
+            error
+          )
+        );
+
+      this.logger.log(
+        `Click transaction ${data.click_trans_id} completed for order ${order.orderId}`
+      );
+      return this.respond(data, ClickError.SUCCESS, {
+        merchantPrepareId: transaction.metadata.merchantPrepareId,
+        merchantConfirmId,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error completing Click transaction ${data.click_trans_id}:`,
+        error
+      );
+      await this.transactionService.updateError(transaction.id, error.message);
+      return this.respond(data, ClickError.UPDATE_FAILED);
+    }
+  }
+
+  /**
+   * md5(click_trans_id + service_id + SECRET_KEY + merchant_trans_id +
+   * [merchant_prepare_id] + amount + action + sign_time); the prepare id is
+   * only part of Complete requests
+   */
+  generateSignString(data: ClickCallbackData): string {
+    const action = Number(data.action);
+    return crypto
+      .MD5(
+        [
+          data.click_trans_id,
+          data.service_id,
+          this.secretKey,
+          data.merchant_trans_id,
+          action === ClickAction.COMPLETE ? data.merchant_prepare_id : "",
+          data.amount,
+          data.action,
+          data.sign_time,
+        ].join("")
+      )
+      .toString();
+  }
+
+  private validateRequest(
+    data: ClickCallbackData,
+    action: ClickAction
+  ): ClickError | null {
+    if (!this.secretKey || !this.serviceId) {
+      this.logger.error("Click credentials not configured");
+      return ClickError.BAD_REQUEST;
+    }
+    if (
+      !data ||
+      !data.click_trans_id ||
+      !data.service_id ||
+      !data.merchant_trans_id ||
+      data.amount === undefined ||
+      data.action === undefined ||
+      !data.sign_time ||
+      !data.sign_string ||
+      (action === ClickAction.COMPLETE && !data.merchant_prepare_id)
+    ) {
+      return ClickError.BAD_REQUEST;
+    }
+    if (Number(data.action) !== action) {
+      return ClickError.ACTION_NOT_FOUND;
+    }
+    if (
+      this.generateSignString(data) !== data.sign_string ||
+      String(data.service_id) !== this.serviceId
+    ) {
+      this.logger.warn(`Invalid Click signature for ${data.click_trans_id}`);
+      return ClickError.SIGN_CHECK_FAILED;
+    }
+    return null;
+  }
+
+  private checkOrderStatus(order: OrderDocument): ClickError | null {
+    switch (order.status) {
+      case OrderStatus.PENDING:
+      case OrderStatus.CREATED:
+        return null;
+      case OrderStatus.PAID:
+        return ClickError.ALREADY_PAID;
+      case OrderStatus.CANCELLED:
+      case OrderStatus.FAILED:
+      case OrderStatus.REFUNDED:
+        return ClickError.TRANSACTION_CANCELLED;
+      default:
+        return ClickError.BAD_REQUEST;
+    }
+  }
+
+  private respondForExisting(
+    data: ClickCallbackData,
+    transaction: TransactionDocument,
+    order: OrderDocument
+  ): ClickCallbackResponse {
+    if (transaction.account?.orderId !== order.orderId) {
+      return this.respond(data, ClickError.BAD_REQUEST);
+    }
+    switch (transaction.state) {
+      case TransactionState.CREATED:
+        return this.respond(data, ClickError.SUCCESS, {
+          merchantPrepareId: transaction.metadata?.merchantPrepareId,
+        });
+      case TransactionState.PERFORMED:
+        return this.respond(data, ClickError.ALREADY_PAID);
+      default:
+        return this.respond(data, ClickError.TRANSACTION_CANCELLED);
+    }
+  }
+
+  private async cancel(
+    transaction: TransactionDocument,
+    order: OrderDocument,
+    errorNote?: string
+  ): Promise<void> {
+    await this.transactionService.updateTransactionState(
+      transaction.id,
+      TransactionState.CANCELLED,
+      undefined,
+      Date.now(),
+      TransactionReason.TRANSACTION_ERROR
+    );
+    if (order.status !== OrderStatus.PAID) {
+      await this.orderService.updateOrderStatus(
+        order.orderId,
+        OrderStatus.CANCELLED,
+        transaction.id,
+        undefined,
+        errorNote || "Payment failed in Click"
+      );
+    }
+    this.logger.log(
+      `Click transaction ${transaction.id} cancelled: ${errorNote}`
+    );
+  }
+
+  // Click sends amounts in UZS, e.g. "15000.00"
+  private amountMatches(
+    amount: string | number,
+    order: OrderDocument
+  ): boolean {
+    const value = Number(amount);
+    return !isNaN(value) && Math.abs(value - order.amount) < 0.01;
+  }
+
+  private transactionId(data: ClickCallbackData): string {
+    return `click_${data.click_trans_id}`;
+  }
+
+  private respond(
+    data: ClickCallbackData,
+    error: ClickError,
+    ids: { merchantPrepareId?: number; merchantConfirmId?: number } = {}
+  ): ClickCallbackResponse {
+    if (error !== ClickError.SUCCESS) {
+      this.logger.warn(
+        `Click ${data?.click_trans_id} rejected: ${ERROR_NOTES[error]}`
+      );
+    }
+    return {
+      click_trans_id: data?.click_trans_id,
+      merchant_trans_id: data?.merchant_trans_id,
+      ...(ids.merchantPrepareId !== undefined && {
+        merchant_prepare_id: ids.merchantPrepareId,
+      }),
+      ...(ids.merchantConfirmId !== undefined && {
+        merchant_confirm_id: ids.merchantConfirmId,
+      }),
+      error,
+      error_note: ERROR_NOTES[error],
+    };
+  }
+}
@@ -7,10 +7,12 @@ import {
   IsEnum,
 } from "class-validator";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { RefundType } from "../../orders/schemas/order.schema";
 
 export enum PaymentMethod {
   PAYME = "Payme",
   CLICK = "Click",
+  UZUM = "Uzum",
 }
 
 export class PaymentDto {
@@ -62,6 +64,123 @@ export class PaymeCallbackDto {
   };
 }
 
+export class ClickCallbackDto {
+  @ApiProperty({ description: "Click transaction ID" })
+  @IsNotEmpty()
+  readonly click_trans_id: string;
+
+  @ApiProperty({ description: "Click service ID" })
+  @IsNotEmpty()
+  readonly service_id: string;
+
+  @ApiPropertyOptional({ description: "Click payment document ID" })
+  @IsOptional()
+  readonly click_paydoc_id?: string;
+
+  @ApiProperty({ description: "Our orderId" })
+  @IsString()
+  @IsNotEmpty()
+  readonly merchant_trans_id: string;
+
+  @ApiPropertyOptional({
+    description: "ID returned by Prepare (Complete requests only)",
+  })
+  @IsOptional()
+  readonly merchant_prepare_id?: string;
+
+  @ApiProperty({ description: "Amount in UZS", example: "15000.00" })
+  @IsNotEmpty()
+  readonly amount: string;
+
+  @ApiProperty({ description: "0 - Prepare, 1 - Complete" })
+  @IsNotEmpty()
+  readonly action: string;
+
+  @ApiPropertyOptional({
+    description: "Payment status on Click's side, negative when it failed",
+  })
+  @IsOptional()
+  readonly error?: string;
+
+  @ApiPropertyOptional({ description: "Description of the error" })
+  @IsOptional()
+  readonly error_note?: string;
+
+  @ApiProperty({ description: "Request time", example: "2024-01-01 12:00:00" })
+  @IsString()
+  @IsNotEmpty()
+  readonly sign_time: string;
+
+  @ApiProperty({ description: "MD5 signature of the request" })
+  @IsString()
+  @IsNotEmpty()
+  readonly sign_string: string;
+}
+
+export class UzumWebhookDto {
+  @ApiProperty({ description: "Uzum service ID" })
+  @IsNotEmpty()
+  readonly serviceId: string;
+
+  @ApiProperty({ description: "Request time in milliseconds" })
+  @IsNumber()
+  readonly timestamp: number;
+
+  @ApiPropertyOptional({
+    description: "Uzum transaction ID (all operations except check)",
+  })
+  @IsString()
+  @IsOptional()
+  readonly transId?: string;
+
+  @ApiPropertyOptional({
+    description: "Payment attributes (check and create)",
+    example: { orderId: "order_..." },
+  })
+  @IsObject()
+  @IsOptional()
+  readonly params?: {
+    orderId?: string;
+  };
+
+  @ApiPropertyOptional({ description: "Amount in tiyin (create)" })
+  @IsNumber()
+  @IsOptional()
+  readonly amount?: number;
+
+  @ApiPropertyOptional({ description: "Card type used (confirm)" })
+  @IsString()
+  @IsOptional()
+  readonly paymentSource?: string;
+
+  @ApiPropertyOptional({ description: "Processing reference (confirm)" })
+  @IsString()
+  @IsOptional()
+  readonly processingReferenceNumber?: string;
+
+  @ApiPropertyOptional({ description: "Payer phone number (confirm)" })
+  @IsString()
+  @IsOptional()
+  readonly phone?: string;
+}
+
+export class RefundOrderDto {
+  @ApiPropertyOptional({
+    description:
+      "Refund the whole amount or only the unused part of the subscription period",
+    enum: RefundType,
+    default: RefundType.FULL,
+  })
+  @IsEnum(RefundType)
+  @IsOptional()
+  readonly type?: RefundType;
+
+  @ApiPropertyOptional({ description: "Why the order is refunded" })
+  @IsString()
+  @IsOptional()
+  readonly reason?: string;
+}
+
 export class VerifyPaymentDto {
   @ApiProperty({ description: "Transaction ID to verify" })
   @IsString()
@@ -0,0 +1,509 @@
+import { INestApplication } from "@nestjs/common";
+import { Test } from "@nestjs/testing";
+import { ConfigService } from "@nestjs/config";
+import * as request from "supertest";
+import { PaymentController } from "./payment.controller";
+import { PAYME_TRANSACTION_TIMEOUT_MS, PaymeService } from "./payme.service";
+import { ClickService } from "./click.service";
+import { UzumService } from "./uzum.service";
+import { RefundService } from "./refund.service";
+import { TransactionService } from "../transactions/transaction.service";
+import {
+  TransactionReason,
+  TransactionState,
+} from "../transactions/schemas/transaction.schema";
+import { OrderService } from "../orders/order.service";
+import {
+  OrderStatus,
+  PaymentMethod,
+  RefundType,
+} from "../orders/schemas/order.schema";
+import { UserPlanService } from "../user-plan/user-plan.service";
+import { SubscriptionActivationService } from "../user-plan/subscription-activation.service";
+import { PlanService } from "../plan/plan.service";
+
+const MERCHANT_ID = "payme-merchant-id";
+const MERCHANT_KEY = "payme-merchant-key";
+
+const ORDER_ID = "order_64b000000000000000000001_64b000000000000000000003_1";
+const AMOUNT = 9900000; // tiyin
+
+/**
+ * Plays Payme's side of the Merchant API: JSON-RPC calls to our callback
+ * endpoint with the Basic auth Payme sends.
+ */
+class PaymeSimulator {
+  private requestId = 0;
+
+  constructor(
+    private readonly app: INestApplication,
+    private readonly key: string = MERCHANT_KEY
+  ) {}
+
+  withKey(key: string): PaymeSimulator {
+    return new PaymeSimulator(this.app, key);
+  }
+
+  async call(method: string, params: Record<string, any>, auth = true) {
+    const req = request(this.app.getHttpServer()).post(
+      "/payments/payme/callback"
+    );
+    if (auth) {
+      req.set(
+        "Authorization",
+        `Basic ${Buffer.from(`Paycom:${this.key}`).toString("base64")}`
+      );
+    }
+    const response = await req
+      .send({ id: String(++this.requestId), method, params })
+      .expect(200);
+    return response.body;
+  }
+
+  checkPerformTransaction(amount = AMOUNT, orderId = ORDER_ID) {
+    return this.call("CheckPerformTransaction", {
+      amount,
+      account: { orderId },
+    });
+  }
+
+  createTransaction(id: string, amount = AMOUNT, orderId = ORDER_ID) {
+    return this.call("CreateTransaction", {
+      id,
+      time: Date.now(),
+      amount,
+      account: { orderId },
+    });
+  }
+
+  performTransaction(id: string) {
+    return this.call("PerformTransaction", { id });
+  }
+
+  cancelTransaction(id: string, reason: TransactionReason) {
+    return this.call("CancelTransaction", { id, reason });
+  }
+
+  checkTransaction(id: string) {
+    return this.call("CheckTransaction", { id });
+  }
+}
+
+function paymeId(n: number): string {
+  return n.toString(16).padStart(24, "0");
+}
+
+describe("Payme merchant API (simulated)", () => {
+  let app: INestApplication;
+  let payme: PaymeSimulator;
+  let orders: Map<string, any>;
+  let transactions: Map<string, any>;
+  let subscriptionActivationService: { activate: jest.Mock; revoke: jest.Mock };
+
+  beforeEach(async () => {
+    orders = new Map([
+      [
+        ORDER_ID,
+        {
+          _id: "64b0000000000000000000aa",
+          orderId: ORDER_ID,
+          userId: "64b000000000000000000001",
+          planId: "64b000000000000000000003",
+          paymentMethod: PaymentMethod.PAYME,
+          status: OrderStatus.PENDING,
+          amount: AMOUNT / 100,
+          amountInTiyin: AMOUNT,
+          description: "Upgrade to Pro plan",
+        },
+      ],
+    ]);
+    transactions = new Map();
+    subscriptionActivationService = {
+      activate: jest.fn().mockResolvedValue(undefined),
+      revoke: jest.fn().mockImplementation(async (order) => ({
+        refundAmount: order.amount,
+        userPlan: {},
+      })),
+    };
+
+    const orderService = {
+      findByOrderId: jest.fn(async (orderId) => orders.get(orderId) || null),
+      updateOrderStatus: jest.fn(async (orderId, status, transactionId) => {
+        const order = orders.get(orderId);
+        if (!order) {
+          return null;
+        }
+        Object.assign(order, { status, transactionId });
+        return { ...order };
+      }),
+      markRefunded: jest.fn(
+        async (orderId, refundType, refundedAmount, refundReason) => {
+          const order = orders.get(orderId);
+          Object.assign(order, {
+            status: OrderStatus.REFUNDED,
+            refundType,
+            refundedAmount,
+            refundReason,
+          });
+          return { ...order };
+        }
+      ),
+    };
+    const transactionService = {
+      findByPaymeId: jest.fn(async (id) => transactions.get(id) || null),
+      findByOrderId: jest.fn(
+        async (orderId) =>
+          [...transactions.values()].find((tx) => tx.orderId === orderId) ||
+          null
+      ),
+      findByAccountOrderId: jest.fn(
+        async (orderId) =>
+          [...transactions.values()]
+            .reverse()
+            .find((tx) => tx.account.orderId === orderId) || null
+      ),
+      createTransaction: jest.fn(
+        async (id, time, amount, account, createTime, orderId) => {
+          const transaction = {
+            id,
+            time,
+            amount,
+            account,
+            create_time: createTime,
+            orderId,
+            state: TransactionState.CREATED,
+            perform_time: null,
+            cancel_time: null,
+            reason: null,
+          };
+          transactions.set(id, transaction);
+          return transaction;
+        }
+      ),
+      updateError: jest.fn(async (id, error) => {
+        const transaction = transactions.get(id);
+        Object.assign(transaction, { lastError: error });
+        return transaction;
+      }),
+      performTransaction: jest.fn(async (id, performTime) => {
+        const transaction = transactions.get(id);
+        if (transaction.state !== TransactionState.CREATED) {
+          return null;
+        }
+        Object.assign(transaction, {
+          state: TransactionState.PERFORMED,
+          perform_time: performTime,
+        });
+        return transaction;
+      }),
+      updateTransactionState: jest.fn(
+        async (id, state, performTime, cancelTime, reason) => {
+          const transaction = transactions.get(id);
+          Object.assign(transaction, {
+            state,
+            ...(performTime !== undefined && { perform_time: performTime }),
+            ...(cancelTime !== undefined && { cancel_time: cancelTime }),
+            ...(reason && { reason }),
+          });
+          return transaction;
+        }
+      ),
+    };
+
+    const module = await Test.createTestingModule({
+      controllers: [PaymentController],
+      providers: [
+        PaymeService,
+        RefundService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string) =>
+                ({
+                  PAYME_MERCHANT_ID: MERCHANT_ID,
+                  PAYME_MERCHANT_KEY: MERCHANT_KEY,
+                })[key]
+            ),
+          },
+        },
+        { provide: ClickService, useValue: { method: PaymentMethod.CLICK } },
+        { provide: UzumService, useValue: { method: PaymentMethod.UZUM } },
+        { provide: OrderService, useValue: orderService },
+        { provide: TransactionService, useValue: transactionService },
+        {
+          provide: SubscriptionActivationService,
+          useValue: subscriptionActivationService,
+        },
+        {
+          provide: UserPlanService,
+          useValue: { findByUserId: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: PlanService, useValue: {} },
+      ],
+    }).compile();
+
+    module.useLogger(false);
+    app = module.createNestApplication();
+    await app.init();
+    payme = new PaymeSimulator(app);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await app.close();
+  });
+
+  describe("authorization", () => {
+    it("should reject requests without credentials (-32504)", async () => {
+      const body = await payme.call(
+        "CheckPerformTransaction",
+        { amount: AMOUNT, account: { orderId: ORDER_ID } },
+        false
+      );
+      expect(body.error.code).toBe(-32504);
+    });
+
+    it("should reject a wrong merchant key (-32504)", async () => {
+      const body = await payme.withKey("wrong-key").checkPerformTransaction();
+      expect(body.error.code).toBe(-32504);
+    });
+  });
+
+  describe("CheckPerformTransaction", () => {
+    it("should allow paying a pending order", async () => {
+      const body = await payme.checkPerformTransaction();
+      expect(body.result.allow).toBe(true);
+    });
+
+    it("should reject an unknown order (-31050)", async () => {
+      const body = await payme.checkPerformTransaction(AMOUNT, "order_missing");
+      expect(body.error.code).toBe(-31050);
+    });
+
+    it("should reject a wrong amount (-31001)", async () => {
+      const body = await payme.checkPerformTransaction(AMOUNT - 100);
+      expect(body.error.code).toBe(-31001);
+    });
+  });
+
+  describe("CreateTransaction → PerformTransaction", () => {
+    it("should pay the order and activate the plan once", async () => {
+      const id = paymeId(1);
+
+      const created = await payme.createTransaction(id);
+      expect(created.result).toMatchObject({
+        transaction: id,
+        state: TransactionState.CREATED,
+      });
+
+      const performed = await payme.performTransaction(id);
+      expect(performed.result).toMatchObject({
+        transaction: id,
+        state: TransactionState.PERFORMED,
+      });
+      expect(orders.get(ORDER_ID).status).toBe(OrderStatus.PAID);
+      expect(subscriptionActivationService.activate).toHaveBeenCalledTimes(1);
+      expect(subscriptionActivationService.activate).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: ORDER_ID, status: OrderStatus.PAID })
+      );
+
+      // Payme repeats calls it did not receive an answer to
+      const repeated = await payme.performTransaction(id);
+      expect(repeated.result.perform_time).toBe(performed.result.perform_time);
+      expect(subscriptionActivationService.activate).toHaveBeenCalledTimes(1);
+
+      const checked = await payme.checkTransaction(id);
+      expect(checked.result).toMatchObject({
+        state: TransactionState.PERFORMED,
+        perform_time: performed.result.perform_time,
+        cancel_time: 0,
+      });
+    });
+
+    it("should activate the plan once for concurrent PerformTransaction calls", async () => {
+      const id = paymeId(1);
+      await payme.createTransaction(id);
+
+      const [first, second] = await Promise.all([
+        payme.performTransaction(id),
+        payme.performTransaction(id),
+      ]);
+
+      expect(first.result.state).toBe(TransactionState.PERFORMED);
+      expect(second.result.perform_time).toBe(first.result.perform_time);
+      expect(subscriptionActivationService.activate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should answer a repeated CreateTransaction with the same transaction", async () => {
+      const id = paymeId(2);
+      const first = await payme.createTransaction(id);
+      const second = await payme.createTransaction(id);
+
+      expect(second.result).toEqual(first.result);
+      expect(transactions.size).toBe(1);
+    });
+
+    it("should reject a second transaction for a busy order (-31099)", async () => {
+      await payme.createTransaction(paymeId(3));
+      const body = await payme.createTransaction(paymeId(4));
+
+      expect(body.error.code).toBe(-31099);
+    });
+
+    it("should reject a wrong amount (-31001)", async () => {
+      const body = await payme.createTransaction(paymeId(5), AMOUNT * 2);
+      expect(body.error.code).toBe(-31001);
+    });
+
+    it("should report unknown transactions (-31003)", async () => {
+      expect((await payme.performTransaction(paymeId(99))).error.code).toBe(
+        -31003
+      );
+      expect((await payme.checkTransaction(paymeId(99))).error.code).toBe(
+        -31003
+      );
+      expect(
+        (await payme.cancelTransaction(paymeId(99), TransactionReason.TIMEOUT))
+          .error.code
+      ).toBe(-31003);
+    });
+  });
+
+  describe("CancelTransaction", () => {
+    it("should cancel before perform and refuse to perform afterwards (-31008)", async () => {
+      const id = paymeId(6);
+      await payme.createTransaction(id);
+
+      const cancelled = await payme.cancelTransaction(
+        id,
+        TransactionReason.TRANSACTION_ERROR
+      );
+      expect(cancelled.result.state).toBe(TransactionState.CANCELLED);
+      expect(orders.get(ORDER_ID).status).toBe(OrderStatus.CANCELLED);
+
+      const repeated = await payme.cancelTransaction(
+        id,
+        TransactionReason.TRANSACTION_ERROR
+      );
+      expect(repeated.result.cancel_time).toBe(cancelled.result.cancel_time);
+
+      const performed = await payme.performTransaction(id);
+      expect(performed.error.code).toBe(-31008);
+      expect(subscriptionActivationService.activate).not.toHaveBeenCalled();
+    });
+
+    it("should cancel after perform as a refund and take back the plan", async () => {
+      const id = paymeId(7);
+      await payme.createTransaction(id);
+      await payme.performTransaction(id);
+
+      const cancelled = await payme.cancelTransaction(
+        id,
+        TransactionReason.REFUND
+      );
+      expect(cancelled.result.state).toBe(
+        TransactionState.CANCELLED_AFTER_PERFORMED
+      );
+
+      const checked = await payme.checkTransaction(id);
+      expect(checked.result).toMatchObject({
+        state: TransactionState.CANCELLED_AFTER_PERFORMED,
+        reason: TransactionReason.REFUND,
+      });
+      expect(checked.result.perform_time).toBeGreaterThan(0);
+
+      expect(subscriptionActivationService.revoke).toHaveBeenCalledTimes(1);
+      expect(subscriptionActivationService.revoke).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: ORDER_ID }),
+        expect.objectContaining({ type: RefundType.FULL })
+      );
+      expect(orders.get(ORDER_ID)).toMatchObject({
+        status: OrderStatus.REFUNDED,
+        refundedAmount: AMOUNT / 100,
+      });
+
+      await payme.cancelTransaction(id, TransactionReason.REFUND);
+      expect(subscriptionActivationService.revoke).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep a performed transaction when the refund fails", async () => {
+      const id = paymeId(11);
+      await payme.createTransaction(id);
+      await payme.performTransaction(id);
+      subscriptionActivationService.revoke.mockRejectedValueOnce(
+        new Error("Free plan not found")
+      );
+
+      const failed = await payme.cancelTransaction(
+        id,
+        TransactionReason.REFUND
+      );
+      expect(failed.error.code).toBe(-31000);
+      expect(transactions.get(id)).toMatchObject({
+        state: TransactionState.PERFORMED,
+        lastError: "Refund failed: Free plan not found",
+      });
+      expect(orders.get(ORDER_ID).status).toBe(OrderStatus.PAID);
+
+      // Payme retries the cancellation
+      const retried = await payme.cancelTransaction(
+        id,
+        TransactionReason.REFUND
+      );
+      expect(retried.result.state).toBe(
+        TransactionState.CANCELLED_AFTER_PERFORMED
+      );
+      expect(orders.get(ORDER_ID).status).toBe(OrderStatus.REFUNDED);
+    });
+
+    it("should treat any cancel after perform as a refund (-2)", async () => {
+      const id = paymeId(10);
+      await payme.createTransaction(id);
+      await payme.performTransaction(id);
+
+      const cancelled = await payme.cancelTransaction(
+        id,
+        TransactionReason.UNKNOWN_ERROR
+      );
+      expect(cancelled.result.state).toBe(
+        TransactionState.CANCELLED_AFTER_PERFORMED
+      );
+      expect(subscriptionActivationService.revoke).toHaveBeenCalledTimes(1);
+      expect(orders.get(ORDER_ID).status).toBe(OrderStatus.REFUNDED);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("should cancel a transaction left unperformed for 12 hours (-31008)", async () => {
+      const id = paymeId(8);
+      await payme.createTransaction(id);
+
+      const later = Date.now() + PAYME_TRANSACTION_TIMEOUT_MS + 60 * 1000;
+      jest.spyOn(Date, "now").mockReturnValue(later);
+
+      const performed = await payme.performTransaction(id);
+      expect(performed.error.code).toBe(-31008);
+
+      const checked = await payme.checkTransaction(id);
+      expect(checked.result).toMatchObject({
+        state: TransactionState.CANCELLED,
+        reason: TransactionReason.TIMEOUT,
+      });
+      expect(orders.get(ORDER_ID).status).toBe(OrderStatus.CANCELLED);
+    });
+
+    it("should not recreate a timed out transaction (-31008)", async () => {
+      const id = paymeId(9);
+      await payme.createTransaction(id);
+
+      jest
+        .spyOn(Date, "now")
+        .mockReturnValue(Date.now() + PAYME_TRANSACTION_TIMEOUT_MS + 60 * 1000);
+
+      const body = await payme.createTransaction(id);
+      expect(body.error.code).toBe(-31008);
+      expect(transactions.get(id).state).toBe(TransactionState.CANCELLED);
+    });
+  });
+});
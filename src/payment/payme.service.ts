@@ -4,15 +4,24 @@ import axios from "axios";
 import * as crypto from "crypto-js";
 import { TransactionService } from "../transactions/transaction.service";
 import { OrderService } from "../orders/order.service";
-import { UserPlanService } from "../user-plan/user-plan.service";
-import { PlanService } from "../plan/plan.service";
+import { SubscriptionActivationService } from "../user-plan/subscription-activation.service";
+import { RefundService } from "./refund.service";
+import { PaymentProvider } from "./payment-provider.interface";
 import {
   TransactionState,
   TransactionReason,
   ReceiptState,
   Account,
 } from "../transactions/schemas/transaction.schema";
-import { OrderStatus } from "../orders/schemas/order.schema";
+import {
+  OrderDocument,
+  OrderStatus,
+  PaymentMethod,
+  RefundType,
+} from "../orders/schemas/order.schema";
+
+// Payme cancels transactions that are not performed within 12 hours
+export const PAYME_TRANSACTION_TIMEOUT_MS = 12 * 60 * 60 * 1000;
 
 export interface PaymePaymentRequest {
   orderId: string;
@@ -55,8 +64,9 @@ export interface PaymeTransaction {
 }
 
 @Injectable()
-export class PaymeService {
+export class PaymeService implements PaymentProvider {
   private readonly logger = new Logger(PaymeService.name);
+  readonly method = PaymentMethod.PAYME;
   public readonly merchantId: string;
   public readonly merchantKey: string;
   private readonly baseUrl: string;
@@ -66,8 +76,8 @@ export class PaymeService {
     private configService: ConfigService,
     private transactionService: TransactionService,
     private orderService: OrderService,
-    private userPlanService: UserPlanService,
-    private planService: PlanService
+    private subscriptionActivationService: SubscriptionActivationService,
+    private refundService: RefundService
   ) {
     this.merchantId = this.configService.get<string>("PAYME_MERCHANT_ID");
     this.merchantKey = this.configService.get<string>("PAYME_MERCHANT_KEY");
@@ -602,9 +612,11 @@ export class PaymeService {
   /**
    * Handle create transaction callback
    */
-  private async handleCreateTransaction(
-    params: any
-  ): Promise<{ success: boolean; error?: string; result?: any }> {
+  private async handleCreateTransaction(params: any): Promise<{
+    success: boolean;
+    error?: string | { code: number; message: string };
+    result?: any;
+  }> {
     const { id, account, amount, time } = params;
     const orderId = account.orderId;
 
@@ -655,6 +667,25 @@ export class PaymeService {
         await this.transactionService.findByPaymeId(id);
       if (existingTransaction) {
         this.logger.log(`Transaction ${id} already exists`);
+        if (existingTransaction.state !== TransactionState.CREATED) {
+          return {
+            success: false,
+            error: {
+              code: -31008,
+              message: "Невозможно выполнить операцию",
+            },
+          };
+        }
+        if (this.isTimedOut(existingTransaction)) {
+          await this.cancelTimedOut(existingTransaction);
+          return {
+            success: false,
+            error: {
+              code: -31008,
+              message: "Невозможно выполнить операцию",
+            },
+          };
+        }
         return {
           success: true,
           result: {
@@ -746,28 +777,7 @@ export class PaymeService {
 
     try {
       // Find transaction in database by Payme ID
-      let transaction = await this.transactionService.findByPaymeId(id);
-
-      // If not found by Payme ID, this might be a case where Payme is checking
-      // a transaction ID that was never created because we returned existing transaction data
-      // In this case, we should look for any recent transaction that might be related
-      if (!transaction) {
-        this.logger.log(
-          `Transaction ${id} not found by Payme ID, checking for recent transactions`
-        );
-
-        // Get all recent transactions (last 24 hours) to see if there's a related one
-        const recentTransactions =
-          await this.transactionService.findRecentTransactions(24);
-
-        if (recentTransactions && recentTransactions.length > 0) {
-          // Return the most recent transaction data
-          transaction = recentTransactions[0];
-          this.logger.log(
-            `Found recent transaction ${transaction.id} to return for ${id}`
-          );
-        }
-      }
+      const transaction = await this.transactionService.findByPaymeId(id);
 
       if (!transaction) {
         this.logger.error(`Transaction ${id} not found`);
@@ -928,29 +938,65 @@ export class PaymeService {
         };
       }
 
+      if (this.isTimedOut(transaction)) {
+        await this.cancelTimedOut(transaction);
+        return {
+          success: false,
+          error: {
+            code: -31008,
+            message: "Невозможно выполнить операцию",
+          },
+        };
+      }
+
       // Calculate perform_time in milliseconds for idempotency
       const performTimeMilliseconds = Date.now();
       const performTimeSeconds = Math.floor(performTimeMilliseconds / 1000);
 
       // Update transaction state to PERFORMED (store milliseconds for consistency)
-      await this.transactionService.updateTransactionState(
+      const performed = await this.transactionService.performTransaction(
         id,
-        TransactionState.PERFORMED,
         performTimeMilliseconds
       );
+      if (!performed) {
+        // A repeated Perform got there first; only it activates the plan
+        const current = await this.transactionService.findByPaymeId(id);
+        if (current?.state === TransactionState.PERFORMED) {
+          return {
+            success: true,
+            result: {
+              transaction: id,
+              perform_time: current.perform_time,
+              state: TransactionState.PERFORMED,
+            },
+          };
+        }
+        return {
+          success: false,
+          error: {
+            code: -31008,
+            message: "Невозможно выполнить операцию",
+          },
+        };
+      }
 
-      // Update order status to PAID
+      // Update order status to PAID and activate the plan
       if (transaction.orderId) {
-        await this.orderService.updateOrderStatus(
+        const paidOrder = await this.orderService.updateOrderStatus(
           transaction.account.orderId,
           OrderStatus.PAID,
           id // transaction ID
         );
+        await this.subscriptionActivationService
+          .activate(paidOrder)
+          .catch((error) =>
+            this.logger.error(
+              `Error activating plan for order ${transaction.account.orderId}:`,
+              error
+            )
+          );
       }
 
-      // Update user plan automatically
-      await this.updateUserPlanForPaidOrder(transaction);
-
       this.logger.log(`Transaction ${id} performed successfully`);
       this.logger.log(`performTime in seconds: ${performTimeSeconds}`);
       this.logger.log(`performTimeMilliseconds: ${performTimeMilliseconds}`);
@@ -975,9 +1021,11 @@ export class PaymeService {
   /**
    * Handle cancel transaction callback
    */
-  private async handleCancelTransaction(
-    params: any
-  ): Promise<{ success: boolean; error?: string; result?: any }> {
+  private async handleCancelTransaction(params: any): Promise<{
+    success: boolean;
+    error?: string | { code: number; message: string };
+    result?: any;
+  }> {
     const { id, reason } = params;
 
     this.logger.log(`Cancelling transaction ${id}, reason: ${reason}`);
@@ -1009,19 +1057,40 @@ export class PaymeService {
         };
       }
 
-      // Determine cancellation state based on reason code
-      let cancelState: TransactionState;
-      let finalReason: TransactionReason;
-
-      if (reason === 5) {
-        // Reason 5 (REFUND) should result in CANCELLED_AFTER_PERFORMED (-2)
-        cancelState = TransactionState.CANCELLED_AFTER_PERFORMED;
-        finalReason = TransactionReason.REFUND;
-      } else {
-        // Other reasons (including 3) should result in CANCELLED (-1)
-        cancelState = TransactionState.CANCELLED;
-        finalReason =
-          (reason as TransactionReason) || TransactionReason.TRANSACTION_ERROR;
+      // A performed transaction is cancelled as a refund (-2), any other
+      // as a plain cancellation (-1)
+      const wasPerformed = transaction.state === TransactionState.PERFORMED;
+      const cancelState = wasPerformed
+        ? TransactionState.CANCELLED_AFTER_PERFORMED
+        : TransactionState.CANCELLED;
+      const finalReason =
+        (reason as TransactionReason) || TransactionReason.TRANSACTION_ERROR;
+
+      // The user paid already, so the plan they got is taken back first.
+      // If that fails the transaction stays performed and Payme retries.
+      if (wasPerformed) {
+        try {
+          await this.refundService.refund(transaction.account.orderId, {
+            type: RefundType.FULL,
+            reason: `Cancelled by Payme (reason ${finalReason})`,
+          });
+        } catch (error) {
+          this.logger.error(
+            `Failed to refund order ${transaction.account.orderId}:`,
+            error
+          );
+          await this.transactionService.updateError(
+            id,
+            `Refund failed: ${error.message}`
+          );
+          return {
+            success: false,
+            error: {
+              code: -31000,
+              message: "Unable to refund the order",
+            },
+          };
+        }
       }
 
       // Update transaction state
@@ -1034,8 +1103,7 @@ export class PaymeService {
         finalReason
       );
 
-      // Update order status to CANCELLED
-      if (transaction.orderId) {
+      if (!wasPerformed && transaction.orderId) {
         await this.orderService.updateOrderStatus(
           transaction.account.orderId,
           OrderStatus.CANCELLED,
@@ -1168,6 +1236,33 @@ export class PaymeService {
     };
   }
 
+  /**
+   * Whether a created transaction was left unperformed past the Payme timeout
+   */
+  private isTimedOut(transaction: any): boolean {
+    return (
+      Date.now() - transaction.create_time * 1000 > PAYME_TRANSACTION_TIMEOUT_MS
+    );
+  }
+
+  private async cancelTimedOut(transaction: any): Promise<void> {
+    this.logger.log(`Transaction ${transaction.id} timed out, cancelling`);
+    await this.transactionService.updateTransactionState(
+      transaction.id,
+      TransactionState.CANCELLED,
+      undefined,
+      Date.now(),
+      TransactionReason.TIMEOUT
+    );
+    if (transaction.orderId) {
+      await this.orderService.updateOrderStatus(
+        transaction.account.orderId,
+        OrderStatus.CANCELLED,
+        transaction.id
+      );
+    }
+  }
+
   /**
    * Convert UZS to tiyin (multiply by 100)
    */
@@ -1183,102 +1278,17 @@ export class PaymeService {
   }
 
   /**
-   * Update user plan for paid order
+   * Payme checkout link for the order
    */
-  private async updateUserPlanForPaidOrder(transaction: any): Promise<void> {
-    try {
-      const orderId = transaction.account.orderId;
-      if (!orderId) {
-        this.logger.error("No order ID found in transaction");
-        return;
-      }
-
-      // Extract user ID and plan ID from order ID
-      const orderParts = orderId.split("_");
-      if (orderParts.length < 4) {
-        this.logger.error(`Invalid order ID format: ${orderId}`);
-        return;
-      }
-
-      const userId = orderParts[1];
-      const planId = orderParts[2];
-
-      this.logger.log(
-        `Updating user plan for order ${orderId} - userId: ${userId}, planId: ${planId}`
-      );
-
-      // Find user's current plan
-      const userPlans = await this.userPlanService.findByUserId(userId);
-      let userPlan;
-
-      if (!userPlans || userPlans.length === 0) {
-        this.logger.log(
-          `No user plan found for user ${userId}, creating one...`
-        );
-        // Create a free plan for the user first
-        userPlan = await this.userPlanService.createFreePlanForUser(userId);
-        this.logger.log(`Created free plan for user ${userId}`);
-      } else {
-        userPlan = userPlans[0];
-        this.logger.log(
-          `Found user plan: ${userPlan._id}, current plan: ${userPlan.plan}`
-        );
-      }
-
-      // Find the target plan
-      const targetPlan = await this.planService.findOne(planId);
-      if (!targetPlan) {
-        this.logger.error(`Target plan not found: ${planId}`);
-        return;
-      }
-
-      this.logger.log(
-        `Found target plan: ${targetPlan.title}, price: ${targetPlan.price}`
-      );
-
-      // Update user plan with new plan details
-      userPlan.plan = planId;
-      userPlan.paymentStatus = "COMPLETED";
-      userPlan.totalPaidAmount += targetPlan.price || 0;
-      userPlan.lastPaymentDate = new Date();
-      userPlan.subscriptionType = "PAID";
-      userPlan.hasPaidPlan = true;
-      userPlan.subscriptionStartDate = new Date();
-      userPlan.subscriptionEndDate = new Date(
-        Date.now() + (targetPlan.durationInDays || 30) * 24 * 60 * 60 * 1000
-      );
-      userPlan.nextPaymentDate = new Date(
-        Date.now() + (targetPlan.durationInDays || 30) * 24 * 60 * 60 * 1000
-      );
-      userPlan.submissionsLimit =
-        targetPlan.maxSubmissions || userPlan.submissionsLimit;
-      userPlan.features = targetPlan.features || userPlan.features;
-      userPlan.status = "ACTIVE";
-      userPlan.isActive = true;
-
-      // Add payment history
-      userPlan.metadata = {
-        ...userPlan.metadata,
-        paymentHistory: [
-          ...(userPlan.metadata?.paymentHistory || []),
-          {
-            orderId,
-            transactionId: transaction.id,
-            planId,
-            amount: targetPlan.price,
-            amountInTiyin: transaction.amount,
-            paymentMethod: "Payme",
-            completedAt: new Date(),
-          },
-        ],
-      };
-
-      await userPlan.save();
-
-      this.logger.log(`Successfully updated user ${userId} to plan ${planId}`);
-    } catch (error) {
-      this.logger.error("Error updating user plan for paid order:", error);
-    }
+  async createCheckout(
+    order: OrderDocument,
+    returnUrl?: string
+  ): Promise<string> {
+    return this.createDirectPaymentUrl(
+      order.orderId,
+      order.amountInTiyin,
+      returnUrl
+    );
   }
 
   /**
@@ -0,0 +1,16 @@
+import { OrderDocument, PaymentMethod } from "../orders/schemas/order.schema";
+
+/**
+ * A payment provider takes payment for orders created by
+ * `POST payments/create` and, once its callbacks mark an order paid, hands
+ * it to SubscriptionActivationService to grant the plan.
+ */
+export interface PaymentProvider {
+  readonly method: PaymentMethod;
+
+  /**
+   * Get the order ready for payment, e.g. issue an invoice, and return the
+   * checkout link the user is sent to
+   */
+  createCheckout(order: OrderDocument, returnUrl?: string): Promise<string>;
+}
@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Body,
+  Param,
   UseGuards,
   Request,
   HttpCode,
@@ -22,34 +23,57 @@ import {
   PaymePaymentRequest,
   PaymeCallbackData,
 } from "./payme.service";
+import { ClickService } from "./click.service";
+import { UzumService } from "./uzum.service";
+import { RefundService } from "./refund.service";
+import { PaymentProvider } from "./payment-provider.interface";
+import { SubscriptionActivationService } from "../user-plan/subscription-activation.service";
 import { UserPlanService } from "../user-plan/user-plan.service";
 import { PlanService } from "../plan/plan.service";
-import { TransactionService } from "../transactions/transaction.service";
 import { OrderService } from "../orders/order.service";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
-import { PaymentDto, PaymeCallbackDto, PaymentMethod } from "./dto/payment.dto";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { UserRole } from "../users/schemas/user.schema";
+import {
+  PaymentDto,
+  PaymeCallbackDto,
+  PaymentMethod,
+  ClickCallbackDto,
+  UzumWebhookDto,
+  RefundOrderDto,
+} from "./dto/payment.dto";
 import {
   OrderStatus,
   PaymentMethod as OrderPaymentMethod,
 } from "../orders/schemas/order.schema";
-import {
-  PaymentStatus,
-  SubscriptionType,
-  UserPlanStatus,
-} from "../user-plan/schemas/user-plan.schema";
+
+const ORDER_PAYMENT_METHODS: Record<PaymentMethod, OrderPaymentMethod> = {
+  [PaymentMethod.PAYME]: OrderPaymentMethod.PAYME,
+  [PaymentMethod.CLICK]: OrderPaymentMethod.CLICK,
+  [PaymentMethod.UZUM]: OrderPaymentMethod.UZUM,
+};
 
 @ApiTags("payments")
 @Controller("payments")
 export class PaymentController {
   private readonly logger = new Logger(PaymentController.name);
+  private readonly providers = new Map<OrderPaymentMethod, PaymentProvider>();
 
   constructor(
     private readonly paymeService: PaymeService,
+    private readonly clickService: ClickService,
+    private readonly uzumService: UzumService,
     private readonly userPlanService: UserPlanService,
     private readonly planService: PlanService,
-    private readonly transactionService: TransactionService,
-    private readonly orderService: OrderService
-  ) {}
+    private readonly orderService: OrderService,
+    private readonly subscriptionActivationService: SubscriptionActivationService,
+    private readonly refundService: RefundService
+  ) {
+    [paymeService, clickService, uzumService].forEach((provider) =>
+      this.providers.set(provider.method, provider)
+    );
+  }
 
   @Post("create")
   @UseGuards(JwtAuthGuard)
@@ -104,10 +128,12 @@ export class PaymentController {
     const amountInTiyin = this.paymeService.convertToTiyin(targetPlan.price);
 
     // Map payment method to order payment method enum
-    const orderPaymentMethod =
-      paymentMethod === PaymentMethod.PAYME
-        ? OrderPaymentMethod.PAYME
-        : OrderPaymentMethod.CLICK;
+    const orderPaymentMethod = ORDER_PAYMENT_METHODS[paymentMethod];
+    if (!orderPaymentMethod) {
+      throw new BadRequestException(
+        `paymentMethod must be one of: ${Object.values(PaymentMethod).join(", ")}`
+      );
+    }
 
     // Create order in database
     const order = await this.orderService.createOrder(
@@ -136,6 +162,10 @@ export class PaymentController {
 
     await currentUserPlan.save();
 
+    const paymentUrl = await this.providers
+      .get(orderPaymentMethod)
+      .createCheckout(order, returnUrl);
+
     return {
       message: "Payment order created successfully",
       data: {
@@ -143,11 +173,86 @@ export class PaymentController {
         amount: targetPlan.price,
         planName: targetPlan.title,
         paymentMethod: paymentMethod,
+        paymentUrl,
         instructions: "Use the orderId to initialize payment on the frontend",
       },
     };
   }
 
+  @Post("click/prepare")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Handle Click Prepare request (SHOP API)" })
+  @ApiBody({ type: ClickCallbackDto })
+  @ApiResponse({
+    status: 200,
+    description: "Prepare processed; the error field carries the Click code",
+  })
+  async handleClickPrepare(@Body() callbackDto: ClickCallbackDto) {
+    return this.clickService.prepare(callbackDto);
+  }
+
+  @Post("click/complete")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Handle Click Complete request (SHOP API)" })
+  @ApiBody({ type: ClickCallbackDto })
+  @ApiResponse({
+    status: 200,
+    description: "Complete processed; the error field carries the Click code",
+  })
+  async handleClickComplete(@Body() callbackDto: ClickCallbackDto) {
+    return this.clickService.complete(callbackDto);
+  }
+
+  @Post("uzum/check")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Handle Uzum check webhook" })
+  @ApiBody({ type: UzumWebhookDto })
+  @ApiResponse({ status: 200, description: "Order can be paid" })
+  @ApiResponse({ status: 400, description: "Failed, with an Uzum errorCode" })
+  async handleUzumCheck(@Body() webhookDto: UzumWebhookDto, @Request() req) {
+    return this.uzumService.check(webhookDto, req.headers.authorization);
+  }
+
+  @Post("uzum/create")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Handle Uzum create webhook" })
+  @ApiBody({ type: UzumWebhookDto })
+  @ApiResponse({ status: 200, description: "Transaction created" })
+  @ApiResponse({ status: 400, description: "Failed, with an Uzum errorCode" })
+  async handleUzumCreate(@Body() webhookDto: UzumWebhookDto, @Request() req) {
+    return this.uzumService.create(webhookDto, req.headers.authorization);
+  }
+
+  @Post("uzum/confirm")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Handle Uzum confirm webhook" })
+  @ApiBody({ type: UzumWebhookDto })
+  @ApiResponse({ status: 200, description: "Payment confirmed" })
+  @ApiResponse({ status: 400, description: "Failed, with an Uzum errorCode" })
+  async handleUzumConfirm(@Body() webhookDto: UzumWebhookDto, @Request() req) {
+    return this.uzumService.confirm(webhookDto, req.headers.authorization);
+  }
+
+  @Post("uzum/reverse")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Handle Uzum reverse webhook" })
+  @ApiBody({ type: UzumWebhookDto })
+  @ApiResponse({ status: 200, description: "Payment reversed" })
+  @ApiResponse({ status: 400, description: "Failed, with an Uzum errorCode" })
+  async handleUzumReverse(@Body() webhookDto: UzumWebhookDto, @Request() req) {
+    return this.uzumService.reverse(webhookDto, req.headers.authorization);
+  }
+
+  @Post("uzum/status")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Handle Uzum status webhook" })
+  @ApiBody({ type: UzumWebhookDto })
+  @ApiResponse({ status: 200, description: "Payment status" })
+  @ApiResponse({ status: 400, description: "Failed, with an Uzum errorCode" })
+  async handleUzumStatus(@Body() webhookDto: UzumWebhookDto, @Request() req) {
+    return this.uzumService.status(webhookDto, req.headers.authorization);
+  }
+
   @Post("payme/callback")
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Handle Payme payment callback" })
@@ -211,7 +316,7 @@ export class PaymentController {
           return { error: { code: -32504, message: "Authorization invalid" } };
         }
 
-        // Validate merchant ID matches our configured merchant ID
+        // Payme sends "Paycom" as the login; our merchant ID is also accepted
         const expectedMerchantId = this.paymeService.merchantId;
         this.logger.debug("Merchant ID validation:", {
           received: merchantId,
@@ -219,7 +324,7 @@ export class PaymentController {
           match: merchantId === expectedMerchantId,
         });
 
-        if (merchantId !== expectedMerchantId) {
+        if (merchantId !== "Paycom" && merchantId !== expectedMerchantId) {
           this.logger.warn(
             `Invalid merchant ID: ${merchantId}, expected: ${expectedMerchantId}`
           );
@@ -316,16 +421,6 @@ export class PaymentController {
       // Process the callback
       const result = await this.paymeService.handleCallback(callbackData);
 
-      // Handle successful payment - Payme uses PerformTransaction method
-      if (callbackData.method === "PerformTransaction" && result.success) {
-        await this.handleSuccessfulPayment(callbackData);
-      }
-
-      // Handle cancelled payment - Payme uses CancelTransaction method
-      if (callbackData.method === "CancelTransaction" && result.success) {
-        await this.handleCancelledPayment(callbackData);
-      }
-
       if (!result.success) {
         this.logger.error("Callback processing failed:", result.error);
 
@@ -337,6 +432,12 @@ export class PaymentController {
         // Handle string errors (legacy support)
         if (typeof result.error === "string") {
           // Return specific error codes based on the error type
+          if (result.error === "Transaction not found") {
+            return {
+              error: { code: -31003, message: "Transaction not found" },
+            };
+          }
+
           if (result.error === "Invalid amount") {
             return { error: { code: -31001, message: "Invalid amount" } };
           }
@@ -423,18 +524,8 @@ export class PaymentController {
         );
       }
 
-      // Find the transaction
-      const transaction = await this.transactionService.findByPaymeId(
-        order.transactionId
-      );
-      if (!transaction) {
-        throw new NotFoundException(
-          `Transaction not found for order ${orderId}`
-        );
-      }
-
-      // Update user plan using the same logic as automatic update
-      await this.paymeService["updateUserPlanForPaidOrder"](transaction);
+      // Grant the plan the same way as the payment callbacks
+      await this.subscriptionActivationService.activate(order);
 
       return {
         message: "Order fixed successfully",
@@ -449,6 +540,46 @@ export class PaymentController {
     }
   }
 
+  @Post("orders/:orderId/refund")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth("JWT-auth")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Refund a paid order and take back its plan (Admin only)",
+  })
+  @ApiResponse({ status: 200, description: "Order refunded successfully" })
+  @ApiResponse({ status: 400, description: "Order is not paid" })
+  @ApiResponse({ status: 404, description: "Order not found" })
+  async refundOrder(
+    @Param("orderId") orderId: string,
+    @Body() refundDto: RefundOrderDto,
+    @Request() req
+  ) {
+    const { order, refundAmount, userPlan } = await this.refundService.refund(
+      orderId,
+      {
+        type: refundDto.type,
+        reason: refundDto.reason,
+        refundedBy: req.user.sub,
+      }
+    );
+
+    return {
+      message: "Order refunded successfully",
+      data: {
+        orderId,
+        status: order.status,
+        refundType: order.refundType,
+        refundAmount,
+        plan: userPlan.plan,
+        subscriptionType: userPlan.subscriptionType,
+        subscriptionEndDate: userPlan.subscriptionEndDate,
+        totalPaidAmount: userPlan.totalPaidAmount,
+      },
+    };
+  }
+
   /**
    * Check if orderId is invalid (used for Payme testing)
    */
@@ -467,234 +598,4 @@ export class PaymentController {
     ];
     return invalidOrderIds.includes(orderId.toLowerCase());
   }
-
-  /**
-   * Handle successful payment completion
-   */
-  private async handleSuccessfulPayment(
-    callbackData: PaymeCallbackData
-  ): Promise<void> {
-    try {
-      const { params } = callbackData;
-      const orderId = params.account.orderId;
-      const amount = params.amount;
-
-      this.logger.log(
-        `Processing successful payment for order ${orderId} with amount ${amount}`
-      );
-
-      // Extract user ID and plan ID from order ID
-      const orderParts = orderId.split("_");
-      if (orderParts.length < 4) {
-        this.logger.error(`Invalid order ID format: ${orderId}`);
-        return;
-      }
-
-      const userId = orderParts[1];
-      const planId = orderParts[2];
-
-      this.logger.log(`Extracted userId: ${userId}, planId: ${planId}`);
-
-      // Find user's current plan
-      const userPlans = await this.userPlanService.findByUserId(userId);
-      let userPlan;
-
-      if (!userPlans || userPlans.length === 0) {
-        this.logger.log(
-          `No user plan found for user ${userId}, creating one...`
-        );
-        // Create a free plan for the user first
-        userPlan = await this.userPlanService.createFreePlanForUser(userId);
-        this.logger.log(`Created free plan for user ${userId}`);
-      } else {
-        userPlan = userPlans[0];
-        this.logger.log(
-          `Found user plan: ${userPlan._id}, current plan: ${userPlan.plan}`
-        );
-      }
-
-      // Verify the pending payment matches (if it exists)
-      const pendingPayment = userPlan.metadata?.pendingPayment;
-      this.logger.log(`Pending payment metadata:`, pendingPayment);
-
-      // If no pending payment exists, we can still process the payment
-      // This handles cases where the user plan was created after payment
-      if (pendingPayment && pendingPayment.orderId !== orderId) {
-        this.logger.error(
-          `Pending payment mismatch for order ${orderId}. Expected: ${orderId}, Found: ${pendingPayment?.orderId}`
-        );
-        return;
-      }
-
-      // Find the target plan
-      const targetPlan = await this.planService.findOne(planId);
-      if (!targetPlan) {
-        this.logger.error(`Target plan not found: ${planId}`);
-        return;
-      }
-
-      this.logger.log(
-        `Found target plan: ${targetPlan.title}, price: ${targetPlan.price}`
-      );
-
-      // Update user plan with new plan details
-      userPlan.plan = planId;
-      userPlan.paymentStatus = PaymentStatus.COMPLETED;
-      userPlan.totalPaidAmount += targetPlan.price || 0;
-      userPlan.lastPaymentDate = new Date();
-      userPlan.subscriptionType = SubscriptionType.PAID;
-      userPlan.hasPaidPlan = true;
-      userPlan.subscriptionStartDate = new Date();
-      userPlan.subscriptionEndDate = new Date(
-        Date.now() + (targetPlan.durationInDays || 30) * 24 * 60 * 60 * 1000
-      );
-      userPlan.nextPaymentDate = new Date(
-        Date.now() + (targetPlan.durationInDays || 30) * 24 * 60 * 60 * 1000
-      );
-      userPlan.submissionsLimit =
-        targetPlan.maxSubmissions || userPlan.submissionsLimit;
-      userPlan.features = targetPlan.features || userPlan.features;
-      userPlan.status = UserPlanStatus.ACTIVE;
-      userPlan.isActive = true;
-
-      // Clear pending payment and add payment history
-      userPlan.metadata = {
-        ...userPlan.metadata,
-        pendingPayment: undefined,
-        paymentHistory: [
-          ...(userPlan.metadata?.paymentHistory || []),
-          {
-            orderId,
-            transactionId: callbackData.id,
-            planId,
-            amount: targetPlan.price,
-            amountInTiyin: amount,
-            paymentMethod: "Payme",
-            completedAt: new Date(),
-          },
-        ],
-      };
-
-      await userPlan.save();
-
-      this.logger.log(`Successfully updated user ${userId} to plan ${planId}`);
-    } catch (error) {
-      this.logger.error("Error handling successful payment:", error);
-    }
-  }
-
-  /**
-   * Handle cancelled payment completion
-   */
-  private async handleCancelledPayment(
-    callbackData: PaymeCallbackData
-  ): Promise<void> {
-    try {
-      const { params } = callbackData;
-      const transactionId = params.id;
-      const reason = params.reason;
-
-      this.logger.log(
-        `Processing cancelled payment for transaction ${transactionId} with reason ${reason}`
-      );
-
-      // Find the transaction to get order information
-      const transaction =
-        await this.transactionService.findByPaymeId(transactionId);
-      if (!transaction) {
-        this.logger.error(`Transaction ${transactionId} not found`);
-        return;
-      }
-
-      const orderId = transaction.account.orderId;
-      if (!orderId) {
-        this.logger.error(
-          `Order ID not found for transaction ${transactionId}`
-        );
-        return;
-      }
-
-      // Extract user ID and plan ID from order ID
-      const orderParts = orderId.split("_");
-      if (orderParts.length < 4) {
-        this.logger.error(`Invalid order ID format: ${orderId}`);
-        return;
-      }
-
-      const userId = orderParts[1];
-      const planId = orderParts[2];
-
-      this.logger.log(
-        `Cancelling payment for user ${userId}, plan ${planId}, order ${orderId}`
-      );
-
-      // Find user's current plan
-      const userPlans = await this.userPlanService.findByUserId(userId);
-      if (!userPlans || userPlans.length === 0) {
-        this.logger.error(`User plan not found for user ${userId}`);
-        return;
-      }
-
-      const userPlan = userPlans[0];
-
-      // Check if this cancellation is for a payment that was already processed
-      // Only revert if the user is currently on the plan that was paid for
-      if (userPlan.plan.toString() === planId && userPlan.hasPaidPlan) {
-        this.logger.log(
-          `Reverting user ${userId} from paid plan ${planId} due to cancellation`
-        );
-
-        // Find the free plan to revert to
-        const freePlans = await this.planService.findByType("FREE");
-        if (!freePlans || freePlans.length === 0) {
-          this.logger.error(`Free plan not found for user ${userId}`);
-          return;
-        }
-        const freePlan = freePlans[0]; // Get the first free plan
-
-        // Revert user plan to free plan
-        userPlan.plan = (freePlan as any)._id.toString();
-        userPlan.paymentStatus = PaymentStatus.COMPLETED; // Keep as completed for free plan
-        userPlan.subscriptionType = SubscriptionType.FREE;
-        userPlan.hasPaidPlan = false;
-        userPlan.subscriptionStartDate = new Date();
-        userPlan.subscriptionEndDate = new Date(
-          Date.now() + 365 * 24 * 60 * 60 * 1000
-        ); // 1 year for free plan
-        userPlan.nextPaymentDate = undefined;
-        userPlan.submissionsLimit = freePlan.maxSubmissions || 5; // Default free plan limit
-        userPlan.features = freePlan.features || [];
-        userPlan.status = UserPlanStatus.ACTIVE;
-        userPlan.isActive = true;
-
-        // Add cancellation metadata
-        userPlan.metadata = {
-          ...userPlan.metadata,
-          cancellationHistory: [
-            ...(userPlan.metadata?.cancellationHistory || []),
-            {
-              orderId,
-              transactionId,
-              cancelledPlanId: planId,
-              cancellationReason: reason,
-              cancelledAt: new Date(),
-              revertedToFreePlan: true,
-            },
-          ],
-        };
-
-        await userPlan.save();
-
-        this.logger.log(
-          `Successfully reverted user ${userId} to free plan due to payment cancellation`
-        );
-      } else {
-        this.logger.log(
-          `User ${userId} is not on the cancelled plan ${planId}, no action needed`
-        );
-      }
-    } catch (error) {
-      this.logger.error("Error handling cancelled payment:", error);
-    }
-  }
 }
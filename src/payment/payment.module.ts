@@ -1,6 +1,9 @@
 import { Module, forwardRef } from "@nestjs/common";
 import { ConfigModule } from "@nestjs/config";
 import { PaymeService } from "./payme.service";
+import { ClickService } from "./click.service";
+import { UzumService } from "./uzum.service";
+import { RefundService } from "./refund.service";
 import { PaymentController } from "./payment.controller";
 import { UserPlanModule } from "../user-plan/user-plan.module";
 import { PlanModule } from "../plan/plan.module";
@@ -15,7 +18,7 @@ import { TransactionModule } from "../transactions/transaction.module";
     OrderModule,
     TransactionModule,
   ],
-  providers: [PaymeService],
+  providers: [PaymeService, ClickService, UzumService, RefundService],
   controllers: [PaymentController],
   exports: [PaymeService],
 })
@@ -0,0 +1,104 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { OrderService } from "../orders/order.service";
+import { TransactionService } from "../transactions/transaction.service";
+import { SubscriptionActivationService } from "../user-plan/subscription-activation.service";
+import {
+  OrderDocument,
+  OrderStatus,
+  RefundType,
+} from "../orders/schemas/order.schema";
+import {
+  TransactionReason,
+  TransactionState,
+} from "../transactions/schemas/transaction.schema";
+import { UserPlanDocument } from "../user-plan/schemas/user-plan.schema";
+
+export interface RefundOptions {
+  type?: RefundType;
+  reason?: string;
+  // Admin user ID, when an admin issued the refund
+  refundedBy?: string;
+}
+
+export interface RefundResult {
+  order: OrderDocument;
+  refundAmount: number;
+  userPlan: UserPlanDocument;
+}
+
+/**
+ * Refunds paid orders. Used by admins and by providers that cancel a payment
+ * after it was performed. Money is returned through the provider's merchant
+ * cabinet; this takes back the plan and records the refund.
+ */
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    private orderService: OrderService,
+    private transactionService: TransactionService,
+    private subscriptionActivationService: SubscriptionActivationService
+  ) {}
+
+  async refund(
+    orderId: string,
+    options: RefundOptions = {}
+  ): Promise<RefundResult> {
+    const type = options.type || RefundType.FULL;
+    if (!Object.values(RefundType).includes(type)) {
+      throw new BadRequestException(
+        `Invalid refund type. Must be one of: ${Object.values(RefundType).join(", ")}`
+      );
+    }
+
+    const order = await this.orderService.findByOrderId(orderId);
+    if (!order) {
+      throw new NotFoundException(`Order ${orderId} not found`);
+    }
+    if (order.status === OrderStatus.REFUNDED) {
+      throw new BadRequestException(`Order ${orderId} was already refunded`);
+    }
+    if (order.status !== OrderStatus.PAID) {
+      throw new BadRequestException(
+        `Order ${orderId} is not paid. Current status: ${order.status}`
+      );
+    }
+
+    const { refundAmount, userPlan } =
+      await this.subscriptionActivationService.revoke(order, {
+        type,
+        reason: options.reason,
+        refundedBy: options.refundedBy,
+      });
+
+    // Provider cancellations have already updated the transaction
+    const transaction = order.transactionId
+      ? await this.transactionService.findByPaymeId(order.transactionId)
+      : null;
+    if (transaction?.state === TransactionState.PERFORMED) {
+      await this.transactionService.updateTransactionState(
+        transaction.id,
+        TransactionState.CANCELLED_AFTER_PERFORMED,
+        undefined,
+        Date.now(),
+        TransactionReason.REFUND
+      );
+    }
+
+    const refundedOrder = await this.orderService.markRefunded(
+      orderId,
+      type,
+      refundAmount,
+      options.reason
+    );
+
+    this.logger.log(`Refunded order ${orderId} (${type}): ${refundAmount} UZS`);
+    return { order: refundedOrder, refundAmount, userPlan };
+  }
+}
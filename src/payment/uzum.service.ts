@@ -0,0 +1,509 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { TransactionService } from "../transactions/transaction.service";
+import { OrderService } from "../orders/order.service";
+import { SubscriptionActivationService } from "../user-plan/subscription-activation.service";
+import { PaymentProvider } from "./payment-provider.interface";
+import { RefundService } from "./refund.service";
+import {
+  Account,
+  TransactionDocument,
+  TransactionReason,
+  TransactionState,
+} from "../transactions/schemas/transaction.schema";
+import {
+  OrderDocument,
+  OrderStatus,
+  PaymentMethod,
+  RefundType,
+} from "../orders/schemas/order.schema";
+
+/**
+ * Error codes returned to Uzum Bank (Merchant API)
+ */
+export enum UzumErrorCode {
+  ACCESS_DENIED = "10001",
+  INVALID_JSON = "10002",
+  UNSUPPORTED_OPERATION = "10003",
+  INVALID_SERVICE_ID = "10006",
+  ORDER_NOT_FOUND = "10007",
+  ALREADY_PAID = "10008",
+  TRANSACTION_EXISTS = "10009",
+  TRANSACTION_CANCELLED = "10010",
+  INVALID_AMOUNT = "10011",
+  TRANSACTION_NOT_FOUND = "10014",
+}
+
+export enum UzumTransactionStatus {
+  CREATED = "CREATED",
+  CONFIRMED = "CONFIRMED",
+  REVERSED = "REVERSED",
+  FAILED = "FAILED",
+}
+
+export interface UzumWebhookData {
+  serviceId: string | number;
+  timestamp: number;
+  transId?: string;
+  params?: {
+    orderId?: string;
+    [key: string]: any;
+  };
+  amount?: number;
+  paymentSource?: string;
+  tariff?: string;
+  processingReferenceNumber?: string;
+  phone?: string;
+}
+
+export interface UzumTransactionResponse {
+  serviceId: string | number;
+  transId: string;
+  status: UzumTransactionStatus;
+  transTime?: number;
+  confirmTime?: number;
+  reverseTime?: number;
+  data: Record<string, { value: string }>;
+  amount: number;
+}
+
+/**
+ * Answered with HTTP 400, which Uzum expects for failed operations
+ */
+export class UzumWebhookException extends BadRequestException {
+  constructor(serviceId: string | number, errorCode: UzumErrorCode) {
+    super({
+      serviceId,
+      timestamp: Date.now(),
+      status: UzumTransactionStatus.FAILED,
+      errorCode,
+    });
+  }
+}
+
+@Injectable()
+export class UzumService implements PaymentProvider {
+  private readonly logger = new Logger(UzumService.name);
+  readonly method = PaymentMethod.UZUM;
+  private readonly serviceId: string;
+  private readonly webhookLogin: string;
+  private readonly webhookPassword: string;
+  private readonly checkoutUrl: string;
+
+  constructor(
+    private configService: ConfigService,
+    private transactionService: TransactionService,
+    private orderService: OrderService,
+    private subscriptionActivationService: SubscriptionActivationService,
+    private refundService: RefundService
+  ) {
+    this.serviceId = this.configService.get<string>("UZUM_SERVICE_ID");
+    this.webhookLogin = this.configService.get<string>("UZUM_WEBHOOK_LOGIN");
+    this.webhookPassword = this.configService.get<string>(
+      "UZUM_WEBHOOK_PASSWORD"
+    );
+    this.checkoutUrl =
+      this.configService.get<string>("UZUM_CHECKOUT_URL") ||
+      "https://www.uzumbank.uz/open-service";
+
+    if (!this.serviceId || !this.webhookLogin || !this.webhookPassword) {
+      this.logger.warn(
+        "Uzum credentials not configured, Uzum webhooks will be rejected"
+      );
+    }
+  }
+
+  /**
+   * Issue an invoice for the order: a checkout link that opens our service
+   * in the Uzum Bank app with the order and amount filled in
+   */
+  async createCheckout(
+    order: OrderDocument,
+    returnUrl?: string
+  ): Promise<string> {
+    if (!this.serviceId) {
+      throw new BadRequestException("Uzum payments are not configured");
+    }
+    const params = new URLSearchParams({
+      serviceId: this.serviceId,
+      orderId: order.orderId,
+      amount: order.amountInTiyin.toString(),
+      ...(returnUrl && { redirectUrl: returnUrl }),
+    });
+    const paymentUrl = `${this.checkoutUrl}?${params.toString()}`;
+
+    await this.orderService.updateOrderStatus(
+      order.orderId,
+      OrderStatus.CREATED,
+      undefined,
+      paymentUrl
+    );
+    this.logger.log(`Uzum invoice created for order ${order.orderId}`);
+    return paymentUrl;
+  }
+
+  /**
+   * check: Uzum asks whether the order can be paid
+   */
+  async check(data: UzumWebhookData, authorization?: string) {
+    this.authorize(data, authorization);
+    const order = await this.findPayableOrder(data);
+
+    return {
+      serviceId: data.serviceId,
+      timestamp: Date.now(),
+      status: "OK",
+      data: this.accountData(order.orderId),
+    };
+  }
+
+  /**
+   * create: Uzum registers a payment for the order
+   */
+  async create(
+    data: UzumWebhookData,
+    authorization?: string
+  ): Promise<UzumTransactionResponse> {
+    this.authorize(data, authorization);
+    this.requireTransId(data);
+
+    // Uzum repeats requests it did not receive an answer to
+    const existing = await this.transactionService.findByPaymeId(
+      this.transactionId(data.transId)
+    );
+    if (existing) {
+      if (existing.account?.orderId !== data.params?.orderId) {
+        throw new UzumWebhookException(
+          data.serviceId,
+          UzumErrorCode.TRANSACTION_EXISTS
+        );
+      }
+      return this.toResponse(data, existing);
+    }
+
+    const order = await this.findPayableOrder(data);
+    if (data.amount !== order.amountInTiyin) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.INVALID_AMOUNT
+      );
+    }
+
+    const createTime = Date.now();
+    const account: Account = {
+      orderId: order.orderId,
+      userId: order.userId.toString(),
+    };
+    let transaction = await this.transactionService.createTransaction(
+      this.transactionId(data.transId),
+      data.timestamp || createTime,
+      order.amountInTiyin,
+      account,
+      Math.floor(createTime / 1000),
+      order._id.toString(),
+      order.userId,
+      order.planId,
+      order.orderId,
+      order.description
+    );
+    transaction = await this.transactionService.updateMetadata(transaction.id, {
+      provider: "Uzum",
+      uzumTransId: data.transId,
+    });
+
+    this.logger.log(
+      `Uzum transaction ${data.transId} created for order ${order.orderId}`
+    );
+    return this.toResponse(data, transaction);
+  }
+
+  /**
+   * confirm: the payment went through, so the order is paid and the plan
+   * activated
+   */
+  async confirm(
+    data: UzumWebhookData,
+    authorization?: string
+  ): Promise<UzumTransactionResponse> {
+    this.authorize(data, authorization);
+    const transaction = await this.findTransaction(data);
+
+    if (transaction.state === TransactionState.PERFORMED) {
+      return this.toResponse(data, transaction);
+    }
+    if (transaction.state !== TransactionState.CREATED) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.TRANSACTION_CANCELLED
+      );
+    }
+
+    const order = await this.orderService.findByOrderId(
+      transaction.account.orderId
+    );
+    if (!order) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.ORDER_NOT_FOUND
+      );
+    }
+    if (order.status === OrderStatus.PAID) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.ALREADY_PAID
+      );
+    }
+
+    const confirmed = await this.transactionService.performTransaction(
+      transaction.id,
+      Date.now(),
+      data.processingReferenceNumber
+    );
+    if (!confirmed) {
+      // A repeated confirm got there first; only it activates the plan
+      const current = await this.transactionService.findByPaymeId(
+        transaction.id
+      );
+      if (current?.state !== TransactionState.PERFORMED) {
+        throw new UzumWebhookException(
+          data.serviceId,
+          UzumErrorCode.TRANSACTION_CANCELLED
+        );
+      }
+      return this.toResponse(data, current);
+    }
+    const paidOrder = await this.orderService.updateOrderStatus(
+      order.orderId,
+      OrderStatus.PAID,
+      transaction.id
+    );
+
+    await this.subscriptionActivationService
+      .activate(paidOrder)
+      .catch((error) =>
+        this.logger.error(
+          `Error activating plan for order ${order.orderId}:`,
+          error
+        )
+      );
+
+    this.logger.log(
+      `Uzum transaction ${data.transId} confirmed for order ${order.orderId}`
+    );
+    return this.toResponse(data, confirmed);
+  }
+
+  /**
+   * reverse: Uzum cancels the payment, before or after confirmation
+   */
+  async reverse(
+    data: UzumWebhookData,
+    authorization?: string
+  ): Promise<UzumTransactionResponse> {
+    this.authorize(data, authorization);
+    const transaction = await this.findTransaction(data);
+
+    if (
+      transaction.state === TransactionState.CANCELLED ||
+      transaction.state === TransactionState.CANCELLED_AFTER_PERFORMED
+    ) {
+      return this.toResponse(data, transaction);
+    }
+
+    const wasConfirmed = transaction.state === TransactionState.PERFORMED;
+    // The user paid already, so the plan they got is taken back first.
+    // If that fails the transaction stays confirmed and Uzum retries.
+    if (wasConfirmed) {
+      try {
+        await this.refundService.refund(transaction.account.orderId, {
+          type: RefundType.FULL,
+          reason: "Reversed by Uzum",
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to refund order ${transaction.account.orderId}:`,
+          error
+        );
+        await this.transactionService.updateError(
+          transaction.id,
+          `Refund failed: ${error.message}`
+        );
+        throw new InternalServerErrorException("Unable to refund the order");
+      }
+    }
+
+    const reversed = await this.transactionService.updateTransactionState(
+      transaction.id,
+      wasConfirmed
+        ? TransactionState.CANCELLED_AFTER_PERFORMED
+        : TransactionState.CANCELLED,
+      undefined,
+      Date.now(),
+      wasConfirmed ? TransactionReason.REFUND : TransactionReason.TIMEOUT
+    );
+    if (!wasConfirmed) {
+      await this.orderService.updateOrderStatus(
+        transaction.account.orderId,
+        OrderStatus.CANCELLED,
+        transaction.id
+      );
+    }
+
+    this.logger.log(`Uzum transaction ${data.transId} reversed`);
+    return this.toResponse(data, reversed);
+  }
+
+  /**
+   * status: Uzum asks for the current state of a payment
+   */
+  async status(
+    data: UzumWebhookData,
+    authorization?: string
+  ): Promise<UzumTransactionResponse> {
+    this.authorize(data, authorization);
+    const transaction = await this.findTransaction(data);
+    return this.toResponse(data, transaction);
+  }
+
+  /**
+   * Webhooks carry Basic base64(login:password) and our service ID
+   */
+  private authorize(data: UzumWebhookData, authorization?: string): void {
+    if (!this.serviceId || !this.webhookLogin || !this.webhookPassword) {
+      this.logger.error("Uzum credentials not configured");
+      throw new UzumWebhookException(
+        data?.serviceId,
+        UzumErrorCode.ACCESS_DENIED
+      );
+    }
+
+    const [scheme, token] = (authorization || "").split(" ");
+    const [login, password] =
+      scheme === "Basic" && token
+        ? Buffer.from(token, "base64").toString("utf-8").split(":")
+        : [];
+    if (login !== this.webhookLogin || password !== this.webhookPassword) {
+      this.logger.warn("Invalid Authorization header in Uzum webhook");
+      throw new UzumWebhookException(
+        data?.serviceId,
+        UzumErrorCode.ACCESS_DENIED
+      );
+    }
+
+    if (!data || !data.serviceId) {
+      throw new UzumWebhookException(
+        data?.serviceId,
+        UzumErrorCode.INVALID_JSON
+      );
+    }
+    if (String(data.serviceId) !== this.serviceId) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.INVALID_SERVICE_ID
+      );
+    }
+  }
+
+  private async findPayableOrder(
+    data: UzumWebhookData
+  ): Promise<OrderDocument> {
+    const orderId = data.params?.orderId;
+    const order = orderId
+      ? await this.orderService.findByOrderId(orderId)
+      : null;
+    if (!order) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.ORDER_NOT_FOUND
+      );
+    }
+
+    switch (order.status) {
+      case OrderStatus.PENDING:
+      case OrderStatus.CREATED:
+        return order;
+      case OrderStatus.PAID:
+        throw new UzumWebhookException(
+          data.serviceId,
+          UzumErrorCode.ALREADY_PAID
+        );
+      default:
+        throw new UzumWebhookException(
+          data.serviceId,
+          UzumErrorCode.ORDER_NOT_FOUND
+        );
+    }
+  }
+
+  private async findTransaction(
+    data: UzumWebhookData
+  ): Promise<TransactionDocument> {
+    this.requireTransId(data);
+    const transaction = await this.transactionService.findByPaymeId(
+      this.transactionId(data.transId)
+    );
+    if (!transaction) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.TRANSACTION_NOT_FOUND
+      );
+    }
+    return transaction;
+  }
+
+  private requireTransId(data: UzumWebhookData): void {
+    if (!data.transId) {
+      throw new UzumWebhookException(
+        data.serviceId,
+        UzumErrorCode.INVALID_JSON
+      );
+    }
+  }
+
+  private toResponse(
+    data: UzumWebhookData,
+    transaction: TransactionDocument
+  ): UzumTransactionResponse {
+    return {
+      serviceId: data.serviceId,
+      transId: data.transId,
+      status: this.toStatus(transaction.state),
+      transTime: transaction.create_time * 1000,
+      ...(transaction.perform_time && {
+        confirmTime: transaction.perform_time,
+      }),
+      ...(transaction.cancel_time && {
+        reverseTime: transaction.cancel_time,
+      }),
+      data: this.accountData(transaction.account.orderId),
+      amount: transaction.amount,
+    };
+  }
+
+  private toStatus(state: TransactionState): UzumTransactionStatus {
+    switch (state) {
+      case TransactionState.CREATED:
+        return UzumTransactionStatus.CREATED;
+      case TransactionState.PERFORMED:
+        return UzumTransactionStatus.CONFIRMED;
+      case TransactionState.CANCELLED:
+      case TransactionState.CANCELLED_AFTER_PERFORMED:
+        return UzumTransactionStatus.REVERSED;
+      default:
+        return UzumTransactionStatus.FAILED;
+    }
+  }
+
+  private accountData(orderId: string) {
+    return { orderId: { value: orderId } };
+  }
+
+  private transactionId(transId: string): string {
+    return `uzum_${transId}`;
+  }
+}
@@ -86,6 +86,15 @@ export class CreatePlanDto {
   @IsOptional()
   readonly maxSubmissions?: number;
 
+  @ApiPropertyOptional({
+    description:
+      "Human-verified reviews per month when the plan includes the human_review feature (0 = unlimited)",
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  readonly humanReviewsPerMonth?: number;
+
   @ApiPropertyOptional({ description: "Is popular plan" })
   @IsBoolean()
   @IsOptional()
@@ -174,6 +183,15 @@ export class UpdatePlanDto {
   @IsOptional()
   readonly maxSubmissions?: number;
 
+  @ApiPropertyOptional({
+    description:
+      "Human-verified reviews per month when the plan includes the human_review feature (0 = unlimited)",
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  readonly humanReviewsPerMonth?: number;
+
   @ApiPropertyOptional({ description: "Is popular plan" })
   @IsBoolean()
   @IsOptional()
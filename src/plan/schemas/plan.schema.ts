@@ -23,6 +23,12 @@ export enum PlanBillingCycle {
   LIFETIME = "LIFETIME",
 }
 
+// Feature keys checked by the API; plans may also list display-only features
+export enum PlanFeature {
+  PRACTICE_DRILLS = "practice_drills",
+  HUMAN_REVIEW = "human_review",
+}
+
 export type PlanDocument = Plan & Document;
 
 @Schema({ timestamps: true })
@@ -76,6 +82,9 @@ export class Plan {
   @Prop({ default: 0 })
   maxSubmissions: number; // Maximum submissions per month (0 = unlimited)
 
+  @Prop({ default: 0 })
+  humanReviewsPerMonth: number; // Human-verified reviews per month (0 = unlimited)
+
   @Prop({ default: false })
   isPopular: boolean;
 
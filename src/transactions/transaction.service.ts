@@ -184,6 +184,34 @@ export class TransactionService {
       .exec();
   }
 
+  /**
+   * Move a CREATED transaction to PERFORMED. Returns null when it is no
+   * longer CREATED, e.g. because a repeated callback performed it first.
+   */
+  async performTransaction(
+    id: string,
+    performTime: number,
+    transaction?: string
+  ): Promise<TransactionDocument | null> {
+    this.logger.log(`Performing transaction ${id}`);
+
+    const updateData: any = {
+      state: TransactionState.PERFORMED,
+      perform_time: performTime,
+      lastProcessedAt: new Date(),
+    };
+
+    if (transaction) {
+      updateData.transaction = transaction;
+    }
+
+    return await this.transactionModel
+      .findOneAndUpdate({ id, state: TransactionState.CREATED }, updateData, {
+        new: true,
+      })
+      .exec();
+  }
+
   /**
    * Update receipt state
    */
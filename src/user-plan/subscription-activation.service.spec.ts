@@ -0,0 +1,289 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { BadRequestException } from "@nestjs/common";
+import {
+  PaymentHistoryEvent,
+  SubscriptionActivationService,
+} from "./subscription-activation.service";
+import {
+  PaymentStatus,
+  SubscriptionType,
+  UserPlan,
+  UserPlanStatus,
+} from "./schemas/user-plan.schema";
+import { Plan } from "../plan/schemas/plan.schema";
+import {
+  Order,
+  OrderStatus,
+  PaymentMethod,
+  RefundType,
+} from "../orders/schemas/order.schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const USER_ID = "64b000000000000000000001";
+const FREE_PLAN_ID = "64b000000000000000000002";
+const PRO_PLAN_ID = "64b000000000000000000003";
+
+const proPlan = {
+  _id: PRO_PLAN_ID,
+  title: "Pro",
+  price: 99000,
+  durationInDays: 90,
+  maxSubmissions: 100,
+  features: ["practice_drills"],
+};
+
+const freePlan = {
+  _id: FREE_PLAN_ID,
+  title: "Free",
+  maxSubmissions: 5,
+  features: [],
+};
+
+function paidOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: "order_1",
+    userId: USER_ID,
+    planId: PRO_PLAN_ID,
+    paymentMethod: PaymentMethod.CLICK,
+    status: OrderStatus.PAID,
+    amount: 99000,
+    amountInTiyin: 9900000,
+    transactionId: "click_123",
+    ...overrides,
+  };
+}
+
+describe("SubscriptionActivationService", () => {
+  let service: SubscriptionActivationService;
+  let userPlan: any;
+  let userPlanModel: any;
+
+  beforeEach(async () => {
+    userPlan = {
+      user: USER_ID,
+      plan: FREE_PLAN_ID,
+      hasPaidPlan: false,
+      subscriptionType: SubscriptionType.FREE,
+      totalPaidAmount: 0,
+      submissionsLimit: 5,
+      features: [],
+      metadata: { pendingPayment: { orderId: "order_1" } },
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    userPlanModel = {
+      findOne: jest.fn(() => ({
+        exec: jest.fn().mockResolvedValue(userPlan),
+      })),
+      // Applies the update unless the filter's order is already in the history
+      findOneAndUpdate: jest.fn((filter, update) => ({
+        exec: jest.fn(async () => {
+          const orderId = filter["metadata.paymentHistory.orderId"].$ne;
+          const history = userPlan.metadata?.paymentHistory || [];
+          if (history.some((entry) => entry.orderId === orderId)) {
+            return null;
+          }
+          Object.assign(userPlan, update.$set);
+          return userPlan;
+        }),
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionActivationService,
+        {
+          provide: getModelToken(UserPlan.name),
+          useValue: userPlanModel,
+        },
+        {
+          provide: getModelToken(Plan.name),
+          useValue: {
+            findById: jest.fn(() => ({
+              exec: jest.fn().mockResolvedValue(proPlan),
+            })),
+            findOne: jest.fn(() => ({
+              exec: jest.fn().mockResolvedValue(freePlan),
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SubscriptionActivationService>(
+      SubscriptionActivationService
+    );
+  });
+
+  it("should grant the plan of a paid order", async () => {
+    const before = Date.now();
+    await service.activate(paidOrder());
+
+    expect(userPlan.plan).toBe(PRO_PLAN_ID);
+    expect(userPlan.subscriptionType).toBe(SubscriptionType.PAID);
+    expect(userPlan.paymentStatus).toBe(PaymentStatus.COMPLETED);
+    expect(userPlan.status).toBe(UserPlanStatus.ACTIVE);
+    expect(userPlan.hasPaidPlan).toBe(true);
+    expect(userPlan.submissionsLimit).toBe(100);
+    expect(userPlan.features).toEqual(["practice_drills"]);
+    expect(userPlan.totalPaidAmount).toBe(99000);
+    expect(
+      userPlan.subscriptionEndDate.getTime() -
+        userPlan.subscriptionStartDate.getTime()
+    ).toBe(90 * DAY_MS);
+    expect(userPlan.subscriptionStartDate.getTime()).toBeGreaterThanOrEqual(
+      before
+    );
+
+    expect(userPlan.metadata.pendingPayment).toBeUndefined();
+    expect(userPlan.metadata.paymentHistory).toEqual([
+      expect.objectContaining({
+        orderId: "order_1",
+        transactionId: "click_123",
+        planId: PRO_PLAN_ID,
+        previousPlanId: FREE_PLAN_ID,
+        amount: 99000,
+        paymentMethod: "Click",
+      }),
+    ]);
+    expect(userPlanModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should apply an order only once", async () => {
+    await service.activate(paidOrder());
+    await service.activate(paidOrder());
+
+    expect(userPlan.totalPaidAmount).toBe(99000);
+    expect(userPlan.metadata.paymentHistory).toHaveLength(1);
+    expect(userPlanModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should apply an order once when callbacks arrive together", async () => {
+    // Both callbacks read the plan before either one updated it
+    const snapshot = { ...userPlan, metadata: { ...userPlan.metadata } };
+    userPlanModel.findOne.mockImplementation(() => ({
+      exec: jest.fn().mockResolvedValue(snapshot),
+    }));
+
+    await service.activate(paidOrder());
+    await service.activate(paidOrder());
+
+    expect(userPlanModel.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(userPlan.totalPaidAmount).toBe(99000);
+    expect(userPlan.metadata.paymentHistory).toHaveLength(1);
+  });
+
+  it("should extend an active subscription to the same plan", async () => {
+    const startDate = new Date(Date.now() - 30 * DAY_MS);
+    const endDate = new Date(Date.now() + 60 * DAY_MS);
+    Object.assign(userPlan, {
+      plan: PRO_PLAN_ID,
+      hasPaidPlan: true,
+      subscriptionStartDate: startDate,
+      subscriptionEndDate: endDate,
+      totalPaidAmount: 99000,
+    });
+
+    await service.activate(paidOrder({ orderId: "order_2" }));
+
+    expect(userPlan.subscriptionStartDate).toBe(startDate);
+    expect(userPlan.subscriptionEndDate.getTime()).toBe(
+      endDate.getTime() + 90 * DAY_MS
+    );
+    expect(userPlan.totalPaidAmount).toBe(198000);
+  });
+
+  it("should reject orders that are not paid", async () => {
+    await expect(
+      service.activate(paidOrder({ status: OrderStatus.PENDING }))
+    ).rejects.toThrow(BadRequestException);
+    expect(userPlanModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  describe("revoke", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should downgrade to the free plan on a full refund", async () => {
+      await service.activate(paidOrder());
+
+      const { refundAmount } = await service.revoke(paidOrder(), {
+        type: RefundType.FULL,
+        reason: "Requested by user",
+      });
+
+      expect(refundAmount).toBe(99000);
+      expect(userPlan.plan).toBe(FREE_PLAN_ID);
+      expect(userPlan.subscriptionType).toBe(SubscriptionType.FREE);
+      expect(userPlan.hasPaidPlan).toBe(false);
+      expect(userPlan.submissionsLimit).toBe(5);
+      expect(userPlan.totalPaidAmount).toBe(0);
+      expect(userPlan.paymentStatus).toBe(PaymentStatus.REFUNDED);
+      expect(
+        userPlan.metadata.paymentHistory.map((entry) => entry.event)
+      ).toEqual([
+        PaymentHistoryEvent.PAYMENT,
+        PaymentHistoryEvent.REFUND,
+        PaymentHistoryEvent.PLAN_ROLLBACK,
+      ]);
+      expect(userPlan.metadata.paymentHistory[2]).toMatchObject({
+        fromPlanId: PRO_PLAN_ID,
+        toPlanId: FREE_PLAN_ID,
+      });
+    });
+
+    it("should refund only the unused part of the period", async () => {
+      jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+      await service.activate(paidOrder());
+      jest.setSystemTime(new Date("2026-02-15T00:00:00Z"));
+
+      const { refundAmount } = await service.revoke(paidOrder(), {
+        type: RefundType.PRORATED,
+      });
+
+      expect(refundAmount).toBe(49500);
+      expect(userPlan.totalPaidAmount).toBe(49500);
+      expect(userPlan.paymentStatus).toBe(PaymentStatus.COMPLETED);
+      expect(userPlan.plan).toBe(FREE_PLAN_ID);
+    });
+
+    it("should shorten a renewal instead of changing the plan", async () => {
+      const endDate = new Date(Date.now() + 60 * DAY_MS);
+      Object.assign(userPlan, {
+        plan: PRO_PLAN_ID,
+        hasPaidPlan: true,
+        subscriptionType: SubscriptionType.PAID,
+        subscriptionStartDate: new Date(Date.now() - 30 * DAY_MS),
+        subscriptionEndDate: endDate,
+        totalPaidAmount: 99000,
+      });
+      await service.activate(paidOrder({ orderId: "order_2" }));
+
+      const { refundAmount } = await service.revoke(
+        paidOrder({ orderId: "order_2" }),
+        { type: RefundType.PRORATED }
+      );
+
+      expect(refundAmount).toBe(99000);
+      expect(userPlan.plan).toBe(PRO_PLAN_ID);
+      expect(userPlan.subscriptionEndDate.getTime()).toBe(endDate.getTime());
+      expect(userPlan.totalPaidAmount).toBe(99000);
+    });
+
+    it("should revoke an order only once", async () => {
+      await service.activate(paidOrder());
+      await service.revoke(paidOrder(), { type: RefundType.FULL });
+      const { refundAmount } = await service.revoke(paidOrder(), {
+        type: RefundType.FULL,
+      });
+
+      expect(refundAmount).toBe(99000);
+      expect(userPlan.totalPaidAmount).toBe(0);
+      expect(userPlan.metadata.paymentHistory).toHaveLength(3);
+      expect(userPlan.save).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  PaymentStatus,
+  SubscriptionType,
+  UserPlan,
+  UserPlanDocument,
+  UserPlanStatus,
+} from "./schemas/user-plan.schema";
+import { Plan, PlanDocument, PlanType } from "../plan/schemas/plan.schema";
+import {
+  Order,
+  OrderStatus,
+  PaymentMethod,
+  RefundType,
+} from "../orders/schemas/order.schema";
+
+// Used when a plan has no duration set
+const DEFAULT_DURATION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How payment methods are named in the payment history
+const PAYMENT_METHOD_NAMES: Record<PaymentMethod, string> = {
+  [PaymentMethod.PAYME]: "Payme",
+  [PaymentMethod.UZUM]: "Uzum",
+  [PaymentMethod.CLICK]: "Click",
+  [PaymentMethod.STRIPE]: "Stripe",
+};
+
+// Kinds of payment history entries. Entries written before refunds existed
+// have no event and are payments.
+export enum PaymentHistoryEvent {
+  PAYMENT = "payment",
+  REFUND = "refund",
+  PLAN_ROLLBACK = "plan_rollback",
+}
+
+export interface RevokeOptions {
+  type: RefundType;
+  reason?: string;
+  refundedBy?: string;
+}
+
+export interface RevokeResult {
+  refundAmount: number;
+  userPlan: UserPlanDocument;
+}
+
+/**
+ * Grants the plan a paid order was for. This is the only place that decides
+ * a paid subscription's dates, limits and features and records the payment,
+ * whichever provider took it.
+ */
+@Injectable()
+export class SubscriptionActivationService {
+  private readonly logger = new Logger(SubscriptionActivationService.name);
+
+  constructor(
+    @InjectModel(UserPlan.name) private userPlanModel: Model<UserPlanDocument>,
+    @InjectModel(Plan.name) private planModel: Model<PlanDocument>
+  ) {}
+
+  /**
+   * Activate the order's plan for its user. An order is only applied once,
+   * so providers may call this again when they repeat a callback.
+   */
+  async activate(order: Order): Promise<UserPlanDocument> {
+    if (order.status !== OrderStatus.PAID) {
+      throw new BadRequestException(
+        `Order ${order.orderId} is not paid. Current status: ${order.status}`
+      );
+    }
+
+    const plan = await this.planModel.findById(order.planId).exec();
+    if (!plan) {
+      throw new NotFoundException(`Plan with ID ${order.planId} not found`);
+    }
+
+    const userPlan = await this.userPlanModel
+      .findOne({ user: order.userId })
+      .exec();
+    const paymentHistory: Record<string, any>[] =
+      userPlan?.metadata?.paymentHistory || [];
+    if (paymentHistory.some((payment) => payment.orderId === order.orderId)) {
+      this.logger.log(`Order ${order.orderId} was already activated`);
+      return userPlan;
+    }
+
+    const now = new Date();
+    const previousPlanId = userPlan?.plan?.toString();
+    const durationInDays = plan.durationInDays || DEFAULT_DURATION_DAYS;
+    // Paying again for an active paid plan extends it
+    const renewing =
+      !!userPlan &&
+      previousPlanId === plan._id.toString() &&
+      userPlan.hasPaidPlan &&
+      userPlan.subscriptionEndDate > now;
+    const subscriptionStartDate = renewing
+      ? userPlan.subscriptionStartDate || now
+      : now;
+    // The part of the subscription this order pays for
+    const periodStart = renewing ? userPlan.subscriptionEndDate : now;
+    const subscriptionEndDate = new Date(
+      periodStart.getTime() + durationInDays * DAY_MS
+    );
+    const previousSubscription = {
+      previousSubscriptionType: userPlan?.subscriptionType,
+      previousSubscriptionStartDate: userPlan?.subscriptionStartDate,
+      previousSubscriptionEndDate: userPlan?.subscriptionEndDate,
+    };
+
+    const pendingPayment = userPlan?.metadata?.pendingPayment;
+    const update = {
+      plan: plan._id.toString(),
+      paymentStatus: PaymentStatus.COMPLETED,
+      totalPaidAmount: (userPlan?.totalPaidAmount || 0) + order.amount,
+      lastPaymentDate: now,
+      subscriptionType: SubscriptionType.PAID,
+      hasPaidPlan: true,
+      subscriptionStartDate,
+      subscriptionEndDate,
+      nextPaymentDate: subscriptionEndDate,
+      submissionsLimit: plan.maxSubmissions || userPlan?.submissionsLimit,
+      features: plan.features || userPlan?.features,
+      status: UserPlanStatus.ACTIVE,
+      isActive: true,
+      metadata: {
+        ...userPlan?.metadata,
+        pendingPayment:
+          pendingPayment?.orderId === order.orderId
+            ? undefined
+            : pendingPayment,
+        paymentHistory: [
+          ...paymentHistory,
+          {
+            event: PaymentHistoryEvent.PAYMENT,
+            orderId: order.orderId,
+            transactionId: order.transactionId,
+            planId: plan._id.toString(),
+            previousPlanId,
+            ...previousSubscription,
+            amount: order.amount,
+            amountInTiyin: order.amountInTiyin,
+            paymentMethod: PAYMENT_METHOD_NAMES[order.paymentMethod],
+            subscriptionStartDate,
+            subscriptionEndDate,
+            periodStart,
+            periodEnd: subscriptionEndDate,
+            completedAt: now,
+          },
+        ],
+      },
+    };
+
+    // Applied only while the order is missing from the payment history, so
+    // concurrent callbacks for the same order cannot both extend the plan
+    let activated: UserPlanDocument | null;
+    try {
+      activated = await this.userPlanModel
+        .findOneAndUpdate(
+          {
+            ...(userPlan ? { _id: userPlan._id } : { user: order.userId }),
+            "metadata.paymentHistory.orderId": { $ne: order.orderId },
+          },
+          { $set: update },
+          { new: true, upsert: !userPlan }
+        )
+        .exec();
+    } catch (error) {
+      // A concurrent callback created the user's plan first
+      if (error?.code !== 11000) {
+        throw error;
+      }
+      activated = null;
+    }
+    if (!activated) {
+      this.logger.log(`Order ${order.orderId} was already activated`);
+      return this.userPlanModel.findOne({ user: order.userId }).exec();
+    }
+
+    this.logger.log(
+      `Activated plan ${plan._id} for user ${order.userId} until ${subscriptionEndDate.toISOString()} (order ${order.orderId})`
+    );
+    return activated;
+  }
+
+  /**
+   * Take back what a refunded order granted. The subscription loses the
+   * part of the order's period that is still ahead; when nothing is left of
+   * it the user goes back to the paid plan they had before, if that is still
+   * running, or to the free plan. The refund and any plan change are added
+   * to the payment history. An order is only revoked once.
+   */
+  async revoke(order: Order, options: RevokeOptions): Promise<RevokeResult> {
+    const userPlan = await this.userPlanModel
+      .findOne({ user: order.userId })
+      .exec();
+    const paymentHistory: Record<string, any>[] =
+      userPlan?.metadata?.paymentHistory || [];
+    const payment = paymentHistory.find(
+      (entry) =>
+        entry.orderId === order.orderId &&
+        (entry.event || PaymentHistoryEvent.PAYMENT) ===
+          PaymentHistoryEvent.PAYMENT
+    );
+    if (!payment) {
+      throw new BadRequestException(
+        `Order ${order.orderId} was never applied to a subscription`
+      );
+    }
+    // Like activation, a refund is only applied once, so a refund that
+    // failed after this step can be retried
+    const refund = paymentHistory.find(
+      (entry) =>
+        entry.orderId === order.orderId &&
+        entry.event === PaymentHistoryEvent.REFUND
+    );
+    if (refund) {
+      this.logger.log(`Order ${order.orderId} was already revoked`);
+      return { refundAmount: refund.amount, userPlan };
+    }
+
+    const now = new Date();
+    const periodStart = new Date(payment.periodStart || payment.completedAt);
+    const periodEnd = new Date(
+      payment.periodEnd || payment.subscriptionEndDate
+    );
+    const periodMs = Math.max(0, periodEnd.getTime() - periodStart.getTime());
+    const remainingMs = Math.max(
+      0,
+      periodEnd.getTime() - Math.max(now.getTime(), periodStart.getTime())
+    );
+    const refundAmount =
+      options.type === RefundType.PRORATED
+        ? periodMs > 0
+          ? Math.round((order.amount * remainingMs) / periodMs)
+          : 0
+        : order.amount;
+
+    userPlan.totalPaidAmount = Math.max(
+      0,
+      (userPlan.totalPaidAmount || 0) - refundAmount
+    );
+    if (userPlan.totalPaidAmount === 0) {
+      userPlan.paymentStatus = PaymentStatus.REFUNDED;
+    }
+
+    const history: Record<string, any>[] = [
+      {
+        event: PaymentHistoryEvent.REFUND,
+        orderId: order.orderId,
+        transactionId: order.transactionId,
+        refundType: options.type,
+        amount: refundAmount,
+        reason: options.reason,
+        refundedBy: options.refundedBy,
+        totalPaidAmount: userPlan.totalPaidAmount,
+        refundedAt: now,
+      },
+    ];
+
+    // Later orders may have moved the user to another plan already
+    const fromPlanId = userPlan.plan?.toString();
+    if (fromPlanId === order.planId.toString() && userPlan.hasPaidPlan) {
+      const subscriptionEndDate = new Date(
+        userPlan.subscriptionEndDate.getTime() - remainingMs
+      );
+
+      if (subscriptionEndDate > now) {
+        userPlan.subscriptionEndDate = subscriptionEndDate;
+        userPlan.nextPaymentDate = subscriptionEndDate;
+      } else {
+        await this.rollBack(userPlan, payment, now);
+      }
+
+      history.push({
+        event: PaymentHistoryEvent.PLAN_ROLLBACK,
+        orderId: order.orderId,
+        fromPlanId,
+        toPlanId: userPlan.plan?.toString(),
+        subscriptionEndDate: userPlan.subscriptionEndDate,
+        revertedAt: now,
+      });
+    }
+
+    userPlan.metadata = {
+      ...userPlan.metadata,
+      paymentHistory: [...paymentHistory, ...history],
+    };
+
+    await userPlan.save();
+
+    this.logger.log(
+      `Revoked order ${order.orderId} for user ${order.userId}: refund ${refundAmount}, plan ${userPlan.plan} until ${userPlan.subscriptionEndDate.toISOString()}`
+    );
+    return { refundAmount, userPlan };
+  }
+
+  /**
+   * Put the user back on the paid plan they had before the payment, if it
+   * is still running, or on the free plan
+   */
+  private async rollBack(
+    userPlan: UserPlanDocument,
+    payment: Record<string, any>,
+    now: Date
+  ): Promise<void> {
+    const previousEndDate = payment.previousSubscriptionEndDate
+      ? new Date(payment.previousSubscriptionEndDate)
+      : undefined;
+    const previousPlan =
+      payment.previousPlanId &&
+      payment.previousPlanId !== payment.planId &&
+      payment.previousSubscriptionType === SubscriptionType.PAID &&
+      previousEndDate > now
+        ? await this.planModel.findById(payment.previousPlanId).exec()
+        : null;
+
+    if (previousPlan) {
+      userPlan.plan = previousPlan._id.toString();
+      userPlan.subscriptionType = SubscriptionType.PAID;
+      userPlan.hasPaidPlan = true;
+      userPlan.subscriptionStartDate = payment.previousSubscriptionStartDate
+        ? new Date(payment.previousSubscriptionStartDate)
+        : now;
+      userPlan.subscriptionEndDate = previousEndDate;
+      userPlan.nextPaymentDate = previousEndDate;
+      userPlan.submissionsLimit =
+        previousPlan.maxSubmissions || userPlan.submissionsLimit;
+      userPlan.features = previousPlan.features || [];
+      return;
+    }
+
+    const freePlan = await this.planModel
+      .findOne({ type: PlanType.FREE })
+      .exec();
+    if (!freePlan) {
+      throw new NotFoundException("Free plan not found");
+    }
+
+    userPlan.plan = freePlan._id.toString();
+    userPlan.subscriptionType = SubscriptionType.FREE;
+    userPlan.hasPaidPlan = false;
+    userPlan.subscriptionStartDate = now;
+    userPlan.subscriptionEndDate = new Date(now.getTime() + 365 * DAY_MS); // 1 year for free plan
+    userPlan.nextPaymentDate = undefined;
+    userPlan.submissionsLimit = freePlan.maxSubmissions || 5; // Default free plan limit
+    userPlan.features = freePlan.features || [];
+  }
+}
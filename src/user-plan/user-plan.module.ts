@@ -2,16 +2,22 @@ import { Module, forwardRef } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { UserPlanController } from "./user-plan.controller";
 import { UserPlanService } from "./user-plan.service";
+import { SubscriptionActivationService } from "./subscription-activation.service";
 import { UserPlan, UserPlanSchema } from "./schemas/user-plan.schema";
 import { Plan, PlanSchema } from "../plan/schemas/plan.schema";
 import {
   IELTSWritingSubmission,
   IELTSWritingSubmissionSchema,
 } from "../ielts/writing-submission/schemas/ielts-writing-submission.schema";
+import {
+  ExamSession,
+  ExamSessionSchema,
+} from "../ielts/exam-session/schemas/exam-session.schema";
 import { User, UserSchema } from "../users/schemas/user.schema";
 import { OrderModule } from "../orders/order.module";
 import { PlanModule } from "../plan/plan.module";
 import { PaymentModule } from "../payment/payment.module";
+import { AIUsageModule } from "../ai-usage/ai-usage.module";
 
 @Module({
   imports: [
@@ -22,14 +28,16 @@ import { PaymentModule } from "../payment/payment.module";
         name: IELTSWritingSubmission.name,
         schema: IELTSWritingSubmissionSchema,
       },
+      { name: ExamSession.name, schema: ExamSessionSchema },
       { name: User.name, schema: UserSchema },
     ]),
     OrderModule,
     PlanModule,
     forwardRef(() => PaymentModule),
+    AIUsageModule,
   ],
   controllers: [UserPlanController],
-  providers: [UserPlanService],
-  exports: [UserPlanService],
+  providers: [UserPlanService, SubscriptionActivationService],
+  exports: [UserPlanService, SubscriptionActivationService],
 })
 export class UserPlanModule {}
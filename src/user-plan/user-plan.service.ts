@@ -13,11 +13,18 @@ import {
   SubscriptionType,
   PaymentStatus,
 } from "./schemas/user-plan.schema";
-import { Plan, PlanDocument } from "../plan/schemas/plan.schema";
+import { Plan, PlanDocument, PlanFeature } from "../plan/schemas/plan.schema";
 import {
   IELTSWritingSubmission,
   IELTSWritingSubmissionDocument,
+  IELTSWritingSubmissionStatus,
 } from "../ielts/writing-submission/schemas/ielts-writing-submission.schema";
+import { normalizeEssayText } from "../ielts/writing-submission/essay-fingerprint";
+import {
+  ExamSession,
+  ExamSessionDocument,
+  ExamSessionStatus,
+} from "../ielts/exam-session/schemas/exam-session.schema";
 import { User, UserDocument } from "../users/schemas/user.schema";
 import {
   CreateUserPlanDto,
@@ -30,7 +37,13 @@ import {
   MockPaymentDto,
   PromoteUserDto,
 } from "./dto/user-plan.dto";
-import { ObjectIdType } from "../types/object-id.type";
+import { CurrencyCode, ObjectIdType } from "../types/object-id.type";
+import { AIUsageService } from "../ai-usage/ai-usage.service";
+import { SubscriptionActivationService } from "./subscription-activation.service";
+import {
+  OrderStatus,
+  PaymentMethod as OrderPaymentMethod,
+} from "../orders/schemas/order.schema";
 
 export interface PaginatedResult<T> {
   data: T[];
@@ -76,6 +89,18 @@ export interface UserPlanAnalytics {
     topicBreakdown: { topic: string; count: number }[];
     scoreDistribution: { scoreRange: string; count: number }[];
   };
+  aiCosts: {
+    totalCostUsd: number;
+    byPlan: {
+      planId: string;
+      planTitle: string;
+      currency: string;
+      revenue: number;
+      aiCostUsd: number;
+      aiCost: number;
+      margin: number;
+    }[];
+  };
 }
 
 @Injectable()
@@ -85,7 +110,11 @@ export class UserPlanService {
     @InjectModel(Plan.name) private planModel: Model<PlanDocument>,
     @InjectModel(IELTSWritingSubmission.name)
     private ieltsWritingSubmissionModel: Model<IELTSWritingSubmissionDocument>,
-    @InjectModel(User.name) private userModel: Model<UserDocument>
+    @InjectModel(ExamSession.name)
+    private examSessionModel: Model<ExamSessionDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private aiUsageService: AIUsageService,
+    private subscriptionActivationService: SubscriptionActivationService
   ) {}
 
   async create(createUserPlanDto: CreateUserPlanDto): Promise<UserPlan> {
@@ -500,6 +529,9 @@ export class UserPlanService {
       submissionStatusBreakdown,
       submissionTopicBreakdown,
       submissionScoreDistribution,
+      // AI cost analytics
+      revenueByPlan,
+      aiCostByPlan,
     ] = await Promise.all([
       // Basic user plan stats
       this.userPlanModel.countDocuments().exec(),
@@ -668,6 +700,23 @@ export class UserPlanService {
           },
         ])
         .exec(),
+
+      // AI cost analytics
+      this.userPlanModel
+        .aggregate([
+          { $group: { _id: "$plan", revenue: { $sum: "$totalPaidAmount" } } },
+          {
+            $lookup: {
+              from: "plans",
+              localField: "_id",
+              foreignField: "_id",
+              as: "plan",
+            },
+          },
+          { $unwind: { path: "$plan", preserveNullAndEmptyArrays: true } },
+        ])
+        .exec(),
+      this.aiUsageService.getCostByPlan(),
     ]);
 
     const revenueData = revenueStats[0] || {
@@ -679,6 +728,24 @@ export class UserPlanService {
     const weeklyRevenueData = weeklyRevenue[0] || { total: 0 };
     const monthlyRevenueData = monthlyRevenue[0] || { total: 0 };
 
+    const aiCostByPlanId = new Map(
+      aiCostByPlan.map((stat) => [String(stat.planId), stat.costUsd])
+    );
+    const aiCostsByPlan = revenueByPlan.map((stat) => {
+      const currency = stat.plan?.currency || CurrencyCode.UZS;
+      const aiCostUsd = aiCostByPlanId.get(String(stat._id)) || 0;
+      const aiCost = this.aiUsageService.convertFromUsd(aiCostUsd, currency);
+      return {
+        planId: String(stat._id),
+        planTitle: stat.plan?.title,
+        currency,
+        revenue: stat.revenue,
+        aiCostUsd,
+        aiCost,
+        margin: stat.revenue - aiCost,
+      };
+    });
+
     return {
       totalUsers,
       activeSubscriptions,
@@ -733,6 +800,10 @@ export class UserPlanService {
           count: stat.count,
         })),
       },
+      aiCosts: {
+        totalCostUsd: aiCostByPlan.reduce((sum, stat) => sum + stat.costUsd, 0),
+        byPlan: aiCostsByPlan,
+      },
     };
   }
 
@@ -829,23 +900,20 @@ export class UserPlanService {
       throw new BadRequestException("Payment failed - please try again");
     }
 
-    // Update user plan with new plan details
-    userPlan.plan = targetPlan._id.toString();
-    userPlan.paymentStatus = PaymentStatus.COMPLETED;
-    userPlan.totalPaidAmount += targetPlan.price || 0;
-    userPlan.lastPaymentDate = new Date();
-    userPlan.subscriptionType = SubscriptionType.PAID;
-    userPlan.hasPaidPlan = true;
-    userPlan.subscriptionStartDate = new Date();
-    userPlan.subscriptionEndDate = new Date(
-      Date.now() + 30 * 24 * 60 * 60 * 1000
-    ); // 30 days
-    userPlan.nextPaymentDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-    userPlan.submissionsLimit =
-      targetPlan.maxSubmissions || userPlan.submissionsLimit;
-    userPlan.features = targetPlan.features || userPlan.features;
+    // Grant the plan the same way as real payments, from a paid mock order
+    userPlan = await this.subscriptionActivationService.activate({
+      orderId: `mock_${userId}_${targetPlan._id}_${Date.now()}`,
+      userId,
+      planId: targetPlan._id.toString(),
+      paymentMethod:
+        mockPaymentDto.paymentMethod === "Click"
+          ? OrderPaymentMethod.CLICK
+          : OrderPaymentMethod.PAYME,
+      status: OrderStatus.PAID,
+      amount: targetPlan.price || 0,
+      amountInTiyin: Math.round((targetPlan.price || 0) * 100),
+    });
     userPlan.paymentMethodId = mockPaymentDto.paymentMethod;
-
     await userPlan.save();
 
     return {
@@ -895,7 +963,15 @@ export class UserPlanService {
     return userPlan.save();
   }
 
-  async checkSubmissionLimit(userId: ObjectIdType): Promise<{
+  /**
+   * Whether the user can make another submission. Pass the essay `body` to
+   * allow free users to resubmit an essay they already sent today unchanged,
+   * which is graded from the cache.
+   */
+  async checkSubmissionLimit(
+    userId: ObjectIdType,
+    body?: string
+  ): Promise<{
     canSubmit: boolean;
     remainingSubmissions: number;
     limit: number;
@@ -938,15 +1014,35 @@ export class UserPlanService {
         now.getMonth(),
         now.getDate()
       );
-      const todayCount = await this.ieltsWritingSubmissionModel
-        .countDocuments({ user: userId, createdAt: { $gte: todayStart } })
+      const todaySubmissions = await this.ieltsWritingSubmissionModel
+        .find({
+          user: userId,
+          createdAt: { $gte: todayStart },
+          status: { $ne: IELTSWritingSubmissionStatus.DRAFT },
+        })
+        .select("body")
+        .sort({ createdAt: 1 })
+        .lean()
         .exec();
-
+      // Only unchanged resubmissions share a credit: they are served from
+      // the analysis cache, while any edit is graded again
+      const todayEssays = new Set(
+        todaySubmissions.map((submission) =>
+          normalizeEssayText(submission.body)
+        )
+      );
       const dailyLimit = 1;
-      const remaining = Math.max(0, dailyLimit - todayCount);
+      const remaining = Math.max(
+        0,
+        dailyLimit -
+          todayEssays.size -
+          (await this.countOpenExamReservations(userId))
+      );
+      const isResubmission =
+        body !== undefined && todayEssays.has(normalizeEssayText(body));
 
       return {
-        canSubmit: remaining > 0,
+        canSubmit: remaining > 0 || isResubmission,
         remainingSubmissions: remaining,
         limit: dailyLimit,
       };
@@ -966,18 +1062,112 @@ export class UserPlanService {
     };
   }
 
-  async incrementSubmissionCount(userId: ObjectIdType): Promise<void> {
+  /**
+   * Credits held by exams not yet turned into submissions. Free users'
+   * daily credit is counted from submissions, so these are added to it.
+   */
+  private async countOpenExamReservations(
+    userId: ObjectIdType
+  ): Promise<number> {
+    const sessions = await this.examSessionModel
+      .find({
+        user: userId,
+        status: {
+          $in: [ExamSessionStatus.IN_PROGRESS, ExamSessionStatus.SUBMITTING],
+        },
+      })
+      .select("reservedSubmissions")
+      .lean()
+      .exec();
+    return sessions.reduce(
+      (total, session) => total + (session.reservedSubmissions || 0),
+      0
+    );
+  }
+
+  async hasFeature(
+    userId: ObjectIdType,
+    feature: PlanFeature
+  ): Promise<boolean> {
     const userPlan = await this.userPlanModel.findOne({ user: userId }).exec();
 
     if (!userPlan) {
       throw new NotFoundException("User plan not found");
     }
 
-    userPlan.submissionsUsed += 1;
-    userPlan.totalSubmissions += 1;
+    if (userPlan.status !== UserPlanStatus.ACTIVE || !userPlan.isActive) {
+      return false;
+    }
+    if (
+      userPlan.subscriptionEndDate &&
+      userPlan.subscriptionEndDate < new Date()
+    ) {
+      return false;
+    }
+    return (userPlan.features || []).includes(feature);
+  }
+
+  /**
+   * Human-verified reviews allowed per month (0 = unlimited), or null when
+   * the user's plan does not include them
+   */
+  async getHumanReviewLimit(userId: ObjectIdType): Promise<number | null> {
+    if (!(await this.hasFeature(userId, PlanFeature.HUMAN_REVIEW))) {
+      return null;
+    }
+    const userPlan = await this.userPlanModel
+      .findOne({ user: userId })
+      .populate("plan", "humanReviewsPerMonth")
+      .exec();
+    return (userPlan.plan as any)?.humanReviewsPerMonth || 0;
+  }
+
+  async incrementSubmissionCount(
+    userId: ObjectIdType,
+    count = 1
+  ): Promise<void> {
+    const userPlan = await this.userPlanModel.findOne({ user: userId }).exec();
+
+    if (!userPlan) {
+      throw new NotFoundException("User plan not found");
+    }
+
+    userPlan.submissionsUsed += count;
+    userPlan.totalSubmissions += count;
     await userPlan.save();
   }
 
+  /**
+   * Undo incrementSubmissionCount for submissions that were never made,
+   * such as exam tasks left empty
+   */
+  async releaseSubmissionCount(
+    userId: ObjectIdType,
+    count: number
+  ): Promise<void> {
+    if (count <= 0) {
+      return;
+    }
+    await this.userPlanModel
+      .updateOne(
+        { user: userId, submissionsUsed: { $gte: count } },
+        { $inc: { submissionsUsed: -count, totalSubmissions: -count } }
+      )
+      .exec();
+  }
+
+  /**
+   * Give back a submission credit whose analysis cost nothing
+   */
+  async refundSubmissionCount(userId: ObjectIdType): Promise<void> {
+    await this.userPlanModel
+      .updateOne(
+        { user: userId, submissionsUsed: { $gt: 0 } },
+        { $inc: { submissionsUsed: -1 } }
+      )
+      .exec();
+  }
+
   // A/B trial assignment and gating
   async getOrAssignExperimentVariant(
     userId: ObjectIdType
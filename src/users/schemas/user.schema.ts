@@ -3,6 +3,7 @@ import { Document } from "mongoose";
 
 export enum UserRole {
   USER = "USER",
+  TEACHER = "TEACHER",
   ADMIN = "ADMIN",
   SUPER_ADMIN = "SUPER_ADMIN",
 }